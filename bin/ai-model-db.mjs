@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+// ai-model-db CLI. The commands live in src/headless/cli.ts and run from the
+// headless build, so build it first: npm run build:server
+import { existsSync } from 'fs';
+import path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+const bundle = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'dist-server', 'index.mjs');
+if (!existsSync(bundle)) {
+  console.error('Headless build not found; run `npm run build:server` first');
+  process.exit(1);
+}
+
+const { runCli } = await import(pathToFileURL(bundle).href);
+process.exitCode = await runCli(process.argv.slice(2));
@@ -0,0 +1,168 @@
+/**
+ * Tests for the outbound proxy policy
+ *
+ * Runs proxyFetch against a local HTTP server
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { addAllowedHost, createProxyPolicy, isUrlAllowed, loadProxyPolicy, proxyFetch, proxyImage } from '../proxy-policy.js';
+import { isHostAllowed } from '../host-allowlist.mjs';
+
+describe('Proxy Policy', () => {
+    let server;
+    let base;
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            if (req.url === '/models') {
+                res.setHeader('Content-Type', 'application/json');
+                res.setHeader('Set-Cookie', 'session=1');
+                res.end(JSON.stringify({ data: [{ id: 'm1' }] }));
+            } else if (req.url === '/limited') {
+                res.writeHead(429, { 'Retry-After': '7', 'Content-Type': 'application/json' });
+                res.end('{"error":{"message":"slow down"}}');
+            } else if (req.url === '/big') {
+                res.write('x'.repeat(600));
+                res.end('x'.repeat(600));
+            } else if (req.url === '/hop') {
+                res.writeHead(302, { Location: '/models' });
+                res.end();
+            } else if (req.url === '/escape') {
+                res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' });
+                res.end();
+            } else if (req.url === '/see-other') {
+                res.writeHead(303, { Location: '/echo' });
+                res.end();
+            } else if (req.url === '/echo') {
+                let body = '';
+                req.on('data', chunk => { body += chunk; });
+                req.on('end', () => res.end(body));
+            } else {
+                // /slow never answers
+            }
+        });
+        await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+        base = `http://127.0.0.1:${server.address().port}`;
+    });
+
+    afterAll(() => {
+        server.closeAllConnections();
+        server.close();
+    });
+
+    it('matches hostnames, ports and subdomain wildcards', () => {
+        const hosts = ['huggingface.co', 'llm.intranet:8080', '*.acme.net'];
+        expect(isHostAllowed('https://huggingface.co/api', hosts)).toBe(true);
+        expect(isHostAllowed('https://cdn.huggingface.co/api', hosts)).toBe(false);
+        expect(isHostAllowed('http://llm.intranet:8080/v1', hosts)).toBe(true);
+        expect(isHostAllowed('http://llm.intranet:9090/v1', hosts)).toBe(false);
+        expect(isHostAllowed('https://eu.acme.net/x', hosts)).toBe(true);
+        expect(isHostAllowed('file:///etc/passwd', ['localhost'])).toBe(false);
+        expect(isHostAllowed('http://[::1]:11434/api', ['[::1]'])).toBe(true);
+    });
+
+    it('saves hosts the user allowed to the config file', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proxy-policy-'));
+        const file = path.join(dir, 'proxy-policy.json');
+        try {
+            expect(await isUrlAllowed(loadProxyPolicy({}, file), 'http://llm.intranet:8080/v1')).toBe(false);
+            addAllowedHost(file, 'llm.intranet:8080');
+            addAllowedHost(file, 'llm.intranet:8080');
+            expect(JSON.parse(fs.readFileSync(file, 'utf8')).allowedHosts).toEqual(['llm.intranet:8080']);
+            expect(await isUrlAllowed(loadProxyPolicy({}, file), 'http://llm.intranet:8080/v1')).toBe(true);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('adds hosts and limits from the environment', () => {
+        const policy = loadProxyPolicy({ MODEL_DB_PROXY_HOSTS: 'llm.intranet, *.acme.net', MODEL_DB_PROXY_TIMEOUT_MS: '5000' });
+        expect(isHostAllowed('https://llm.intranet/v1', policy.allowedHosts)).toBe(true);
+        expect(isHostAllowed('https://api.openai.com/v1', policy.allowedHosts)).toBe(true);
+        expect(policy.timeoutMs).toBe(5000);
+    });
+
+    it('blocks hosts outside the allowlist and audits without query strings', async () => {
+        const log = vi.fn();
+        const result = await proxyFetch({ url: 'https://example.com/x?key=secret' }, createProxyPolicy(), { log });
+        expect(result).toMatchObject({ success: false, status: 0, code: 'blocked' });
+        expect(log).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://example.com/x', outcome: 'blocked' }));
+    });
+
+    it('passes status, headers and bodies through', async () => {
+        const policy = createProxyPolicy();
+        const ok = await proxyFetch({ url: `${base}/models` }, policy);
+        expect(ok).toMatchObject({ success: true, status: 200, data: { data: [{ id: 'm1' }] } });
+        expect(ok.headers['content-type']).toBe('application/json');
+        expect(ok.headers['set-cookie']).toBeUndefined();
+
+        const limited = await proxyFetch({ url: `${base}/limited` }, policy);
+        expect(limited).toMatchObject({ success: false, status: 429, headers: { 'retry-after': '7' } });
+        expect(JSON.parse(limited.error).error.message).toBe('slow down');
+
+        const echoed = await proxyFetch({ url: `${base}/echo`, method: 'POST', body: { a: 1 } }, policy);
+        expect(echoed.data).toBe('{"a":1}');
+    });
+
+    it('checks every redirect hop against the allowlist', async () => {
+        const policy = createProxyPolicy();
+        expect(await proxyFetch({ url: `${base}/hop` }, policy)).toMatchObject({ success: true, status: 200, data: { data: [{ id: 'm1' }] } });
+
+        const escaped = await proxyFetch({ url: `${base}/escape` }, policy);
+        expect(escaped).toMatchObject({ success: false, status: 0, code: 'blocked' });
+        expect(escaped.error).toContain('169.254.169.254');
+
+        const seeOther = await proxyFetch({ url: `${base}/see-other`, method: 'POST', body: { a: 1 } }, policy);
+        expect(seeOther).toMatchObject({ success: true, data: '' });
+    });
+
+    it('drops credentials when a redirect changes origin', async () => {
+        const fetchImpl = vi.fn()
+            .mockResolvedValueOnce(new Response(null, { status: 307, headers: { Location: 'https://huggingface.co/api/models' } }))
+            .mockResolvedValueOnce(new Response('[]', { status: 200, headers: { 'Content-Type': 'application/json' } }));
+        const headers = { Authorization: 'Bearer k', 'x-api-key': 'k', Accept: 'application/json' };
+        const result = await proxyFetch({ url: 'https://api.openai.com/v1/models', headers }, createProxyPolicy(), { fetchImpl });
+        expect(result).toMatchObject({ success: true, data: [] });
+        expect(fetchImpl.mock.calls[0][1]).toMatchObject({ redirect: 'manual', headers });
+        expect(fetchImpl.mock.calls[1][1].headers).toEqual({ Accept: 'application/json' });
+    });
+
+    it('fetches images only from the image CDNs, over https', async () => {
+        const fetchImpl = vi.fn()
+            .mockResolvedValueOnce(new Response(new Uint8Array([1, 2, 3]), { status: 200, headers: { 'Content-Type': 'image/png' } }))
+            .mockResolvedValueOnce(new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/' } }))
+            .mockResolvedValueOnce(new Response('{}', { status: 200, headers: { 'Content-Type': 'application/json' } }));
+
+        expect(await proxyImage('https://image.civitai.com/a.png', { fetchImpl })).toEqual({ success: true, dataUrl: 'data:image/png;base64,AQID' });
+        expect(await proxyImage('https://huggingface.co/x.png', { fetchImpl })).toMatchObject({ success: false, error: expect.stringContaining('not allowed') });
+        expect(await proxyImage('https://huggingface.co/x.json', { fetchImpl })).toMatchObject({ success: false, error: 'Not an image: application/json' });
+        expect(await proxyImage(`${base}/models`, { fetchImpl })).toMatchObject({ success: false });
+        expect(await proxyImage('http://image.civitai.com/a.png', { fetchImpl })).toMatchObject({ success: false });
+        expect(fetchImpl).toHaveBeenCalledTimes(3);
+    });
+
+    it('enforces the byte cap, timeout and cancellation', async () => {
+        const capped = await proxyFetch({ url: `${base}/big` }, createProxyPolicy({ maxResponseBytes: 1000 }));
+        expect(capped).toMatchObject({ success: false, code: 'too_large' });
+
+        const slow = await proxyFetch({ url: `${base}/slow`, timeoutMs: 50 }, createProxyPolicy());
+        expect(slow).toMatchObject({ success: false, code: 'timeout' });
+
+        const controller = new AbortController();
+        const pending = proxyFetch({ url: `${base}/slow` }, createProxyPolicy(), { signal: controller.signal });
+        controller.abort();
+        expect(await pending).toMatchObject({ success: false, code: 'aborted' });
+    });
+
+    it('streams the body to onChunk instead of returning it', async () => {
+        const chunks = [];
+        const result = await proxyFetch({ url: `${base}/big` }, createProxyPolicy(), { onChunk: chunk => chunks.push(chunk) });
+        expect(result).toMatchObject({ success: true, bytes: 1200 });
+        expect(result.data).toBeUndefined();
+        expect(chunks.join('')).toHaveLength(1200);
+    });
+});
@@ -0,0 +1,6 @@
+/**
+ * Returns true when the URL is http(s) and its host is listed in
+ * `allowedHosts`. Entries are exact hostnames, `host:port`, or
+ * `*.example.com` for any subdomain.
+ */
+export function isHostAllowed(url: string, allowedHosts: string[]): boolean;
@@ -0,0 +1,32 @@
+/**
+ * Host allowlist matching for Model DB
+ *
+ * Shared by the Electron proxy policy, the server's /scrape route and the
+ * fetcher plugin sandbox, so every allowlist uses the same entry syntax.
+ * ES module so the renderer bundle can import it as well as Node.
+ */
+
+/**
+ * Check a URL against a host allowlist
+ *
+ * @param {string} url - URL to check
+ * @param {string[]} allowedHosts - Hostnames, host:port or *.domain patterns
+ * @returns {boolean} True for an http(s) URL on an allowed host
+ */
+export function isHostAllowed(url, allowedHosts) {
+    let parsed;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return false;
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return false;
+
+    const hostname = parsed.hostname.toLowerCase();
+    const host = parsed.host.toLowerCase();
+    return allowedHosts.some(entry => {
+        const pattern = entry.trim().toLowerCase();
+        if (pattern.startsWith('*.')) return hostname.endsWith(pattern.slice(1));
+        return /:\d+$/.test(pattern) ? host === pattern : hostname === pattern;
+    });
+}
@@ -1,6 +1,8 @@
 const { app, BrowserWindow, ipcMain, shell, dialog, safeStorage, Menu, MenuItem } = require('electron');
 const path = require('path');
+const fs = require('fs');
 const { autoUpdater } = require('electron-updater');
+const { addAllowedHost, isUrlAllowed, loadProxyPolicy, proxyFetch, proxyImage } = require('./proxy-policy');
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (require('electron-squirrel-startup')) {
@@ -342,69 +344,122 @@ ipcMain.handle('decrypt-string', async (event, encryptedHex) => {
 });
 
 // Proxy Request Handler to bypass CORS
-ipcMain.handle('proxy-request', async (event, { url, method = 'GET', headers = {}, body = null }) => {
+// Requests are checked against the shared proxy policy (host allowlist,
+// timeout, response size cap) and audited to proxy-audit.log in userData.
+// Hosts outside the policy (custom providers, local runtimes, custom sources,
+// fetcher plugins) are only added after the user allows them in a dialog;
+// the renderer cannot extend the allowlist by itself.
+const PROXY_AUDIT_MAX_BYTES = 5 * 1024 * 1024;
+const inFlightProxyRequests = new Map();
+const pendingHostPrompts = new Map();
+const deniedProxyHosts = new Set();
+let proxyPolicy = null;
+let proxyAuditChecked = false;
+
+const proxyPolicyFile = () => path.join(app.getPath('userData'), 'proxy-policy.json');
+
+function getProxyPolicy() {
+    if (!proxyPolicy) {
+        proxyPolicy = loadProxyPolicy(process.env, proxyPolicyFile());
+    }
+    return proxyPolicy;
+}
+
+async function confirmProxyHost(sender, host) {
+    const parent = BrowserWindow.fromWebContents(sender);
+    const options = {
+        type: 'question',
+        buttons: ['Allow', 'Block'],
+        defaultId: 1,
+        cancelId: 1,
+        title: 'Allow network access',
+        message: `Allow AI Model DB to connect to ${host}?`,
+        detail: 'A provider, local runtime, custom source or fetcher plugin you configured wants to reach this host. Allowed hosts are saved in proxy-policy.json in the app data folder.',
+    };
+    const { response } = parent ? await dialog.showMessageBox(parent, options) : await dialog.showMessageBox(options);
+    if (response !== 0) {
+        // Ask again after a restart, not on every request of this session
+        deniedProxyHosts.add(host);
+        return;
+    }
     try {
-        const fetchOptions = {
-            method,
-            headers,
-            body: body ? JSON.stringify(body) : undefined
-        };
+        addAllowedHost(proxyPolicyFile(), host);
+    } catch (error) {
+        console.error('[Proxy] Could not save the allowed host:', error.message);
+    }
+    proxyPolicy = null;
+    if (!getProxyPolicy().allowedHosts.includes(host)) {
+        // The config file is unreadable; allow the host for this session
+        proxyPolicy = { ...getProxyPolicy(), allowedHosts: [...getProxyPolicy().allowedHosts, host] };
+    }
+}
 
-        if (isDev) {
-            console.log(`[Proxy] ${method} ${url}`);
-        }
-        const response = await fetch(url, fetchOptions);
+// Ask the user about a host outside the policy (once per host at a time)
+async function allowHostOnConfirm(sender, url) {
+    if (await isUrlAllowed(getProxyPolicy(), url)) return;
+    let host;
+    try {
+        const parsed = new URL(url);
+        if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return;
+        host = parsed.host.toLowerCase();
+    } catch {
+        return;
+    }
+    if (deniedProxyHosts.has(host)) return;
+    if (!pendingHostPrompts.has(host)) {
+        pendingHostPrompts.set(host, confirmProxyHost(sender, host).finally(() => pendingHostPrompts.delete(host)));
+    }
+    await pendingHostPrompts.get(host);
+}
 
-        if (!response.ok) {
-            const text = await response.text();
-            console.error(`[Proxy] Error ${response.status}: ${text.substring(0, 200)}`);
-            throw new Error(`Request failed: ${response.status}`);
+function writeProxyAudit(entry) {
+    if (isDev || entry.outcome !== 'ok') {
+        console.log(`[Proxy] ${entry.method} ${entry.url} -> ${entry.status || entry.outcome} (${entry.bytes} bytes, ${entry.durationMs}ms)`);
+    }
+    const logFile = path.join(app.getPath('userData'), 'proxy-audit.log');
+    try {
+        // Keep one previous log around once the current one gets large
+        if (!proxyAuditChecked && fs.existsSync(logFile) && fs.statSync(logFile).size > PROXY_AUDIT_MAX_BYTES) {
+            fs.renameSync(logFile, `${logFile}.1`);
         }
+        proxyAuditChecked = true;
+    } catch (error) {
+        console.error('[Proxy] Audit log rotation failed:', error.message);
+    }
+    fs.promises.appendFile(logFile, `${JSON.stringify(entry)}\n`).catch(error => {
+        console.error('[Proxy] Audit log write failed:', error.message);
+    });
+}
 
-        // Check content type to determine how to parse response
-        const contentType = response.headers.get('content-type') || '';
-        let data;
+ipcMain.handle('proxy-request', async (event, request = {}) => {
+    const { requestId, stream } = request;
+    const controller = new AbortController();
+    if (requestId) inFlightProxyRequests.set(requestId, controller);
 
-        if (contentType.includes('application/json')) {
-            data = await response.json();
-        } else {
-            // Return as text for HTML and other content types
-            data = await response.text();
+    // Streamed bodies go to the renderer as proxy-request-chunk events
+    const onChunk = stream && requestId
+        ? chunk => {
+            if (!event.sender.isDestroyed()) event.sender.send('proxy-request-chunk', { requestId, chunk });
         }
+        : undefined;
 
-        return { success: true, data };
-    } catch (error) {
-        console.error('[Proxy] Request error:', error.message);
-        return { success: false, error: error.message };
+    try {
+        await allowHostOnConfirm(event.sender, request.url);
+        return await proxyFetch(request, getProxyPolicy(), { signal: controller.signal, onChunk, log: writeProxyAudit });
+    } finally {
+        if (requestId) inFlightProxyRequests.delete(requestId);
     }
 });
 
-// Image Proxy Handler - fetches images and returns as base64 data URL
-// This bypasses CDN restrictions that block browser requests
-ipcMain.handle('proxy-image', async (event, imageUrl) => {
-    try {
-        const response = await fetch(imageUrl, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-                'Accept': 'image/webp,image/apng,image/*,*/*;q=0.8',
-                'Referer': 'https://civitasbay.org/'
-            }
-        });
-
-        if (!response.ok) {
-            // Only log errors, not every request
-            if (isDev) console.error(`[ImageProxy] Failed: ${response.status}`);
-            return { success: false, error: `HTTP ${response.status}` };
-        }
-
-        const contentType = response.headers.get('content-type') || 'image/jpeg';
-        const buffer = await response.arrayBuffer();
-        const base64 = Buffer.from(buffer).toString('base64');
-        const dataUrl = `data:${contentType};base64,${base64}`;
+// Cancel an in-flight proxy request (the renderer's AbortSignal fired)
+ipcMain.on('proxy-request-cancel', (event, requestId) => {
+    inFlightProxyRequests.get(requestId)?.abort();
+});
 
-        return { success: true, dataUrl };
-    } catch (error) {
-        console.error('[ImageProxy] Error:', error.message);
-        return { success: false, error: error.message };
-    }
+// Image Proxy Handler - fetches gallery images (CDNs listed in the proxy
+// policy's IMAGE_HOSTS) and returns them as base64 data URLs
+ipcMain.handle('proxy-image', async (event, imageUrl) => {
+    const result = await proxyImage(imageUrl);
+    if (!result.success && isDev) console.error(`[ImageProxy] Failed: ${result.error}`);
+    return result;
 });
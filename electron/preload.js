@@ -28,8 +28,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
     encryptString: (text) => ipcRenderer.invoke('encrypt-string', text),
     decryptString: (encryptedHex) => ipcRenderer.invoke('decrypt-string', encryptedHex),
 
-    // Proxy request
-    proxyRequest: (options) => ipcRenderer.invoke('proxy-request', options),
+    // Proxy request (main-process fetch under the proxy policy). Pass onChunk
+    // to receive the body as it arrives; cancel with the request's requestId.
+    proxyRequest: (options = {}, onChunk) => {
+        if (typeof onChunk !== 'function') return ipcRenderer.invoke('proxy-request', options);
+        const requestId = options.requestId || `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+        const listener = (event, message) => {
+            if (message.requestId === requestId) onChunk(message.chunk);
+        };
+        ipcRenderer.on('proxy-request-chunk', listener);
+        return ipcRenderer.invoke('proxy-request', { ...options, requestId, stream: true })
+            .finally(() => ipcRenderer.removeListener('proxy-request-chunk', listener));
+    },
+    cancelProxyRequest: (requestId) => ipcRenderer.send('proxy-request-cancel', requestId),
 
     // Proxy image - fetches images via Node.js to bypass CDN restrictions
     proxyImage: (imageUrl) => ipcRenderer.invoke('proxy-image', imageUrl),
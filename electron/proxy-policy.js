@@ -0,0 +1,463 @@
+/**
+ * Outbound Proxy Policy for Model DB
+ *
+ * Single source of truth for where the app's proxies may connect:
+ * - Hosts the Electron `proxy-request` handler may fetch
+ * - Hosts the Electron `proxy-image` handler may fetch
+ * - Hosts the server's `/scrape` route may fetch
+ * - Origins allowed to call the server's proxy endpoints
+ *
+ * Also performs the proxied fetch itself (timeout, cancellation, response
+ * size cap, redirects checked hop by hop, optional streaming and an audit
+ * entry per request), so the IPC handler in main.js stays a thin wrapper.
+ * Hosts are matched by host-allowlist.mjs, which the plugin sandbox shares.
+ */
+
+const fs = require('fs');
+
+/**
+ * Origins allowed to call the server's proxy endpoints
+ */
+const ALLOWED_ORIGINS = [
+    'http://localhost:5173',
+    'http://127.0.0.1:5173',
+    'http://0.0.0.0:5173',
+    // Add production origins if needed
+];
+
+/**
+ * Hosts the server's /scrape route may fetch (exact hostnames)
+ */
+const SCRAPE_HOSTS = [
+    'huggingface.co',
+    'github.com',
+    'modelscope.cn',
+    'openai.com',
+    'anthropic.com',
+    'google.com',
+    'research.google.com',
+    'deepmind.com',
+    'artificialanalysis.ai',
+    'meta.ai',
+    'ai.meta.com',
+    'microsoft.com',
+    'arxiv.org',
+    'papers.withcode.com',
+    'paperswithcode.com',
+    'stability.ai',
+    'mistral.ai',
+    'cohere.ai',
+    'ai21.com',
+    // New data sources
+    'universe.roboflow.com',
+    'roboflow.com',
+    'kaggle.com',
+    'tensor.art',
+    'civitaiarchive.com',
+    'runcomfy.com',
+    'prompthero.com',
+    'liblib.ai',
+    'shakker.ai',
+    'openmodeldb.info',
+    'civitasbay.org',
+];
+
+/**
+ * Hosts the Electron proxy may fetch: everything /scrape may, plus the LLM
+ * provider APIs, registry APIs and local model runtimes (Ollama, LM Studio).
+ *
+ * Entries are exact hostnames, `host:port`, or `*.example.com` for any
+ * subdomain (the same syntax as fetcher plugin manifests).
+ */
+const PROXY_HOSTS = [
+    ...SCRAPE_HOSTS,
+    '*.huggingface.co',
+    'api.github.com',
+    'raw.githubusercontent.com',
+    'ollama.com',
+    // LLM providers
+    'api.openai.com',
+    'api.anthropic.com',
+    'api.deepseek.com',
+    'api.perplexity.ai',
+    'openrouter.ai',
+    'api.cohere.com',
+    'api.cohere.ai',
+    'generativelanguage.googleapis.com',
+    'api.mistral.ai',
+    'api.groq.com',
+    'api.together.xyz',
+    // Local runtimes
+    'localhost',
+    '127.0.0.1',
+    '[::1]',
+];
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const MAX_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_RESPONSE_BYTES = 25 * 1024 * 1024;
+// Upstream error bodies are returned as the error message; keep them short
+const MAX_ERROR_CHARS = 2000;
+
+// Statuses that carry a Location to follow
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const MAX_REDIRECTS = 5;
+// Credentials are not forwarded when a redirect leaves the original origin
+const CREDENTIAL_HEADER = /^(authorization|cookie|proxy-authorization)$|api-?key|token/i;
+
+/**
+ * Hosts whose images the gallery loads through the main process (their CDNs
+ * refuse the renderer's requests). Images are fetched over https only.
+ */
+const IMAGE_HOSTS = ['image.civitai.com', 'imagecache.civitai.com', 'huggingface.co', '*.huggingface.co'];
+const IMAGE_TIMEOUT_MS = 30 * 1000;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// The matcher is an ES module shared with the renderer and the server
+let matcher = null;
+const loadMatcher = () => {
+    matcher = matcher || import('./host-allowlist.mjs');
+    return matcher;
+};
+
+/**
+ * Check a URL against a policy's host allowlist
+ *
+ * @param {Object} policy - From createProxyPolicy/loadProxyPolicy
+ * @param {string} url - URL to check
+ * @returns {Promise<boolean>}
+ */
+async function isUrlAllowed(policy, url) {
+    const { isHostAllowed } = await loadMatcher();
+    return isHostAllowed(url, policy.allowedHosts);
+}
+
+/**
+ * Add a host to the allowedHosts of the JSON config file (creating it if
+ * needed). Used once the user has confirmed a host in the main process.
+ *
+ * @param {string} configFile - Path of proxy-policy.json
+ * @param {string} host - Hostname or host:port
+ */
+function addAllowedHost(configFile, host) {
+    let config = {};
+    if (fs.existsSync(configFile)) {
+        config = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+    }
+    const hosts = Array.isArray(config.allowedHosts) ? config.allowedHosts : [];
+    if (!hosts.includes(host)) {
+        fs.writeFileSync(configFile, `${JSON.stringify({ ...config, allowedHosts: [...hosts, host] }, null, 2)}\n`);
+    }
+}
+
+/**
+ * Build the Electron proxy policy
+ *
+ * @param {Object} [options]
+ * @param {string[]} [options.extraHosts] - Hosts allowed on top of PROXY_HOSTS
+ * @param {number} [options.timeoutMs] - Default per-request timeout
+ * @param {number} [options.maxResponseBytes] - Largest response body accepted
+ * @returns {Object} Policy for proxyFetch
+ */
+function createProxyPolicy(options = {}) {
+    const positive = (value, fallback) => (Number.isFinite(value) && value > 0 ? value : fallback);
+    return {
+        allowedHosts: [...PROXY_HOSTS, ...(options.extraHosts || [])],
+        timeoutMs: Math.min(positive(options.timeoutMs, DEFAULT_TIMEOUT_MS), MAX_TIMEOUT_MS),
+        maxResponseBytes: positive(options.maxResponseBytes, DEFAULT_MAX_RESPONSE_BYTES),
+    };
+}
+
+/**
+ * Load the policy from the environment and an optional JSON config file
+ *
+ * The file (`proxy-policy.json` in the app's user data folder) looks like
+ * `{ "allowedHosts": ["llm.intranet:8080"], "timeoutMs": 60000, "maxResponseBytes": 52428800 }`.
+ * MODEL_DB_PROXY_HOSTS (comma-separated), MODEL_DB_PROXY_TIMEOUT_MS and
+ * MODEL_DB_PROXY_MAX_BYTES are applied on top.
+ *
+ * @param {Object} env - Environment variables
+ * @param {string} [configFile] - Path of the JSON config file
+ * @returns {Object} Policy for proxyFetch
+ */
+function loadProxyPolicy(env = process.env, configFile) {
+    let config = {};
+    if (configFile && fs.existsSync(configFile)) {
+        try {
+            config = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+        } catch (error) {
+            console.error(`[Proxy Policy] Ignoring unreadable ${configFile}:`, error.message);
+        }
+    }
+    const envHosts = (env.MODEL_DB_PROXY_HOSTS || '').split(',').map(h => h.trim()).filter(Boolean);
+    return createProxyPolicy({
+        extraHosts: [...(Array.isArray(config.allowedHosts) ? config.allowedHosts : []), ...envHosts],
+        timeoutMs: Number(env.MODEL_DB_PROXY_TIMEOUT_MS) || config.timeoutMs,
+        maxResponseBytes: Number(env.MODEL_DB_PROXY_MAX_BYTES) || config.maxResponseBytes,
+    });
+}
+
+/**
+ * Failure that happened in the proxy itself rather than upstream
+ */
+class ProxyError extends Error {
+    constructor(code, message) {
+        super(message);
+        this.code = code;
+    }
+}
+
+/**
+ * Read a response body, failing once it passes the byte cap
+ *
+ * @param {Response} response - Fetch response
+ * @param {number} maxBytes - Byte cap
+ * @param {Function} onBytes - Receives each chunk as a Uint8Array
+ * @returns {Promise<number>} Bytes read
+ */
+async function readCapped(response, maxBytes, onBytes) {
+    const declared = Number(response.headers.get('content-length'));
+    if (declared > maxBytes) {
+        await response.body?.cancel().catch(() => undefined);
+        throw new ProxyError('too_large', `Response is ${declared} bytes; the proxy limit is ${maxBytes}`);
+    }
+    if (!response.body) return 0;
+
+    const reader = response.body.getReader();
+    let bytes = 0;
+    for (; ;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        bytes += value.byteLength;
+        if (bytes > maxBytes) {
+            await reader.cancel().catch(() => undefined);
+            throw new ProxyError('too_large', `Response exceeded the proxy limit of ${maxBytes} bytes`);
+        }
+        onBytes(value);
+    }
+    return bytes;
+}
+
+/**
+ * Read a response body as text, failing once it passes the byte cap
+ *
+ * @param {Response} response - Fetch response
+ * @param {number} maxBytes - Byte cap
+ * @param {Function} [onChunk] - Receives each decoded text chunk
+ * @returns {Promise<{text: string, bytes: number}>}
+ */
+async function readBody(response, maxBytes, onChunk) {
+    const decoder = new TextDecoder();
+    const parts = [];
+    const emit = chunk => {
+        if (onChunk) {
+            if (chunk) onChunk(chunk);
+        } else {
+            parts.push(chunk);
+        }
+    };
+    const bytes = await readCapped(response, maxBytes, value => emit(decoder.decode(value, { stream: true })));
+    emit(decoder.decode());
+    return { text: parts.join(''), bytes };
+}
+
+/**
+ * fetch with redirects followed by hand: every hop must pass `isAllowed`,
+ * credential headers are dropped once a redirect leaves the original origin,
+ * and 303 (or 301/302 after a POST) becomes a bodiless GET like in browsers
+ *
+ * @param {string} url - First URL (already checked)
+ * @param {Object} init - fetch init (method, headers, body, signal)
+ * @param {Function} isAllowed - URL check for each redirect target
+ * @param {Function} fetchImpl - fetch implementation
+ * @returns {Promise<Response>} The first non-redirect response
+ */
+async function fetchCheckedRedirects(url, init, isAllowed, fetchImpl) {
+    let target = new URL(url);
+    let hop = { method: 'GET', headers: {}, ...init };
+    for (let redirects = 0; ; redirects++) {
+        const response = await fetchImpl(target.href, { ...hop, redirect: 'manual' });
+        const location = response.headers.get('location');
+        if (!REDIRECT_STATUSES.has(response.status) || !location) return response;
+        await response.body?.cancel().catch(() => undefined);
+        if (redirects >= MAX_REDIRECTS) {
+            throw new ProxyError('network', `Too many redirects (more than ${MAX_REDIRECTS})`);
+        }
+        const next = new URL(location, target);
+        if (!isAllowed(next.href)) {
+            throw new ProxyError('blocked', `Redirect to a host not allowed by proxy policy: ${next.origin}${next.pathname}`);
+        }
+        if (next.origin !== target.origin) {
+            hop = { ...hop, headers: Object.fromEntries(Object.entries(hop.headers).filter(([name]) => !CREDENTIAL_HEADER.test(name))) };
+        }
+        if (response.status === 303 || ((response.status === 301 || response.status === 302) && hop.method.toUpperCase() === 'POST')) {
+            hop = { ...hop, method: 'GET', body: undefined };
+        }
+        target = next;
+    }
+}
+
+const encodeBody = body => {
+    if (body === null || body === undefined) return undefined;
+    return typeof body === 'string' ? body : JSON.stringify(body);
+};
+
+/**
+ * Perform one proxied request under a policy
+ *
+ * Never throws. Redirects are followed only to allowed hosts, and credential
+ * headers are dropped once a redirect leaves the original origin.
+ * Upstream responses keep their status and headers; an error
+ * status gives `success: false` with the response body as `error`. Failures
+ * inside the proxy (blocked host, timeout, cancellation, size cap, network)
+ * have `status: 0` and a `code`.
+ *
+ * @param {Object} request - { url, method, headers, body, timeoutMs }
+ * @param {Object} policy - From createProxyPolicy/loadProxyPolicy
+ * @param {Object} [options]
+ * @param {AbortSignal} [options.signal] - Cancels the request
+ * @param {Function} [options.onChunk] - Streams the body as text chunks instead of returning it as data
+ * @param {Function} [options.log] - Receives the audit entry
+ * @param {Function} [options.fetchImpl] - fetch implementation (tests)
+ * @returns {Promise<Object>} { success, status, statusText, headers, data, error, code, bytes }
+ */
+async function proxyFetch(request, policy, options = {}) {
+    const { url, method = 'GET', headers = {}, body = null } = request || {};
+    const { isHostAllowed } = await loadMatcher();
+    const fetchImpl = options.fetchImpl || fetch;
+    const started = Date.now();
+    let status = 0;
+    let bytes = 0;
+
+    const finish = result => {
+        let target = String(url);
+        try {
+            // Query strings can carry API keys, so the audit log keeps origin and path only
+            const parsed = new URL(url);
+            target = `${parsed.origin}${parsed.pathname}`;
+        } catch {
+            // Keep the raw value for malformed URLs
+        }
+        options.log?.({
+            timestamp: new Date(started).toISOString(),
+            method,
+            url: target,
+            status,
+            bytes,
+            durationMs: Date.now() - started,
+            outcome: result.code || (result.success ? 'ok' : 'http_error'),
+        });
+        return { status, bytes, ...result };
+    };
+
+    if (!isHostAllowed(url, policy.allowedHosts)) {
+        return finish({ success: false, code: 'blocked', error: `Host not allowed by proxy policy: ${url}` });
+    }
+
+    const timeoutMs = Math.min(Number(request.timeoutMs) || policy.timeoutMs, MAX_TIMEOUT_MS);
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const cancel = () => controller.abort();
+    if (options.signal?.aborted) cancel();
+    options.signal?.addEventListener('abort', cancel, { once: true });
+
+    try {
+        const response = await fetchCheckedRedirects(
+            url,
+            { method, headers, body: encodeBody(body), signal: controller.signal },
+            next => isHostAllowed(next, policy.allowedHosts),
+            fetchImpl
+        );
+        status = response.status;
+        const responseHeaders = {};
+        response.headers.forEach((value, key) => {
+            if (key !== 'set-cookie') responseHeaders[key] = value;
+        });
+        const meta = { statusText: response.statusText, headers: responseHeaders };
+
+        if (!response.ok) {
+            const { text, bytes: read } = await readBody(response, policy.maxResponseBytes);
+            bytes = read;
+            return finish({ success: false, ...meta, error: text.slice(0, MAX_ERROR_CHARS) || `Request failed: ${status}` });
+        }
+
+        const { text, bytes: read } = await readBody(response, policy.maxResponseBytes, options.onChunk);
+        bytes = read;
+        if (options.onChunk) return finish({ success: true, ...meta });
+
+        let data = text;
+        if ((response.headers.get('content-type') || '').includes('application/json')) {
+            try {
+                data = JSON.parse(text);
+            } catch {
+                // Mislabelled body; hand it back as text
+            }
+        }
+        return finish({ success: true, ...meta, data });
+    } catch (error) {
+        status = 0;
+        if (error instanceof ProxyError) return finish({ success: false, code: error.code, error: error.message });
+        if (timedOut) return finish({ success: false, code: 'timeout', error: `Proxy timeout after ${timeoutMs}ms` });
+        if (controller.signal.aborted) return finish({ success: false, code: 'aborted', error: 'Request cancelled' });
+        return finish({ success: false, code: 'network', error: error.message });
+    } finally {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', cancel);
+    }
+}
+
+/**
+ * Fetch a gallery image as a data URL. Only https URLs on IMAGE_HOSTS are
+ * fetched (redirects included), and only image responses are returned.
+ *
+ * @param {string} imageUrl - Image URL
+ * @param {Object} [options]
+ * @param {Function} [options.fetchImpl] - fetch implementation (tests)
+ * @returns {Promise<{success: boolean, dataUrl?: string, error?: string}>}
+ */
+async function proxyImage(imageUrl, options = {}) {
+    const { isHostAllowed } = await loadMatcher();
+    const isAllowed = url => String(url).startsWith('https:') && isHostAllowed(url, IMAGE_HOSTS);
+    if (typeof imageUrl !== 'string' || !isAllowed(imageUrl)) {
+        return { success: false, error: `Image host not allowed: ${imageUrl}` };
+    }
+
+    try {
+        const response = await fetchCheckedRedirects(imageUrl, {
+            headers: {
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+                'Accept': 'image/webp,image/apng,image/*,*/*;q=0.8',
+                'Referer': 'https://civitasbay.org/'
+            },
+            signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS)
+        }, isAllowed, options.fetchImpl || fetch);
+
+        const contentType = response.headers.get('content-type') || '';
+        if (!response.ok || !contentType.startsWith('image/')) {
+            await response.body?.cancel().catch(() => undefined);
+            return { success: false, error: response.ok ? `Not an image: ${contentType || 'no content type'}` : `HTTP ${response.status}` };
+        }
+        const chunks = [];
+        await readCapped(response, MAX_IMAGE_BYTES, value => chunks.push(value));
+        return { success: true, dataUrl: `data:${contentType};base64,${Buffer.concat(chunks).toString('base64')}` };
+    } catch (error) {
+        return { success: false, error: error.message };
+    }
+}
+
+module.exports = {
+    ALLOWED_ORIGINS,
+    SCRAPE_HOSTS,
+    PROXY_HOSTS,
+    IMAGE_HOSTS,
+    isUrlAllowed,
+    addAllowedHost,
+    createProxyPolicy,
+    loadProxyPolicy,
+    proxyFetch,
+    proxyImage,
+};
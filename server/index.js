@@ -5,6 +5,8 @@ import { fileURLToPath } from 'url';
 import { createProxyMiddleware } from 'http-proxy-middleware';
 import * as cheerio from 'cheerio';
 import crypto from 'crypto';
+import { SCRAPE_HOSTS } from '../electron/proxy-policy.js';
+import { isHostAllowed } from '../electron/host-allowlist.mjs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -121,44 +123,55 @@ app.get('/webhooks/openai/stream', (req, res) => {
 // JSON parser for the rest of the app
 app.use(express.json({ limit: '1mb' }));
 
-// Add search endpoint for model enrichment
-app.post('/search', async (req, res) => {
-  try {
-    const { query, limit = 10 } = req.body;
-
-    if (!query) {
-      return res.status(400).json({ error: 'Query parameter is required' });
-    }
-
-    console.log(`[SEARCH] Query: "${query}", Limit: ${limit}`);
-
-    // Simple search simulation - in production this could be:
-    // - Search through external APIs
-    // - Use a search engine API (Google, Bing, DuckDuckGo)
-    // - Query a vector database
-    // - Call specialized model APIs
-
-    // For now, return a simple response indicating the search was processed
-    const results = [
-      {
-        title: `Search result for: ${query}`,
-        url: `https://example.com/search?q=${encodeURIComponent(query)}`,
-        snippet: `Related information about ${query} - this would be real search results in production`,
-        source: 'web',
-      },
-    ];
+// --- Headless build (npm run build:server) ---
+// Shared by the REST API and web search. Models are stored as JSON under
+// MODEL_DB_DIR.
+let headlessPromise = null;
+function loadHeadless() {
+  if (!headlessPromise) {
+    headlessPromise = import('../dist-server/index.mjs')
+      .then(headless => {
+        console.log(`[API] Model store: ${headless.getFileStorageDir()}`);
+        return {
+          api: headless.createModelApi({
+            token: process.env.MODEL_DB_API_TOKEN || undefined,
+            syncOptions: headless.syncOptionsFromEnv(process.env),
+            onLog: msg => console.log(msg),
+          }),
+          search: headless.createSearchService({
+            ...headless.searchOptionsFromEnv(process.env),
+            onLog: msg => console.log(msg),
+          }),
+          mcp: headless.createMcpServer({ onLog: msg => console.log(msg) }),
+        };
+      })
+      .catch(err => {
+        headlessPromise = null;
+        throw err;
+      });
+  }
+  return headlessPromise;
+}
 
-    res.json({
-      query,
-      results,
-      total: results.length,
-      timestamp: new Date().toISOString(),
+async function withHeadless(res, fn) {
+  let headless;
+  try {
+    headless = await loadHeadless();
+  } catch (e) {
+    return res.status(503).json({
+      error: 'api_unavailable',
+      message: 'Headless build not found; run `npm run build:server`',
+      detail: String(e),
     });
-  } catch (error) {
-    console.error('[SEARCH] Error:', error);
-    res.status(500).json({ error: 'Search service temporarily unavailable' });
   }
-});
+  const result = await fn(headless);
+  if (result.body === undefined) res.status(result.status).end();
+  else res.status(result.status).json(result.body);
+}
+
+// Web search for model enrichment: SearXNG, Brave, Bing and the local model
+// index, tried in SEARCH_PROVIDERS order with caching and per-provider limits
+app.post('/search', (req, res) => withHeadless(res, ({ search }) => search.search(req.body)));
 
 // Mirror Vite dev proxies for production
 const proxy = (route, target, rewrite) =>
@@ -278,6 +291,39 @@ proxy('/shakker-api', 'https://www.shakker.ai', { from: /^\/shakker-api/, to: ''
 proxy('/openmodeldb-api', 'https://raw.githubusercontent.com', { from: /^\/openmodeldb-api/, to: '' });
 proxy('/civitasbay-api', 'https://civitasbay.org', { from: /^\/civitasbay-api/, to: '' });
 
+// --- MCP server (Streamable HTTP) ---
+// Agents POST one JSON-RPC message at a time and get the answer as JSON.
+// Browsers may only call it from this server's own origin (DNS rebinding guard).
+app.post('/mcp', (req, res) => {
+  const origin = req.header('origin');
+  if (origin) {
+    let sameHost = false;
+    try {
+      sameHost = new URL(origin).host === req.header('host');
+    } catch {}
+    if (!sameHost) return res.status(403).json({ error: 'origin_not_allowed' });
+  }
+  return withHeadless(res, async ({ mcp }) => {
+    const response = await mcp.handle(req.body);
+    return response ? { status: 200, body: response } : { status: 202 };
+  });
+});
+app.get('/mcp', (req, res) => res.status(405).set('Allow', 'POST').end());
+
+// --- REST API over the model database ---
+// Edits and syncs need MODEL_DB_API_TOKEN.
+app.use('/api', (req, res) =>
+  withHeadless(res, ({ api }) =>
+    api.handle({
+      method: req.method,
+      path: req.path,
+      query: req.query,
+      headers: req.headers,
+      body: req.body,
+    })
+  )
+);
+
 // SPA fallback
 app.get('*', (req, res) => {
   res.sendFile(path.join(distDir, 'index.html'));
@@ -287,46 +333,13 @@ app.get('*', (req, res) => {
 // Using the new search endpoint defined above at lines 96-134
 
 // --- Scrape route ---
-const ALLOWLIST = [
-  'huggingface.co',
-  'github.com',
-  'modelscope.cn',
-  'openai.com',
-  'anthropic.com',
-  'google.com',
-  'research.google.com',
-  'deepmind.com',
-  'artificialanalysis.ai',
-  'meta.ai',
-  'ai.meta.com',
-  'microsoft.com',
-  'arxiv.org',
-  'papers.withcode.com',
-  'paperswithcode.com',
-  'stability.ai',
-  'mistral.ai',
-  'cohere.ai',
-  'ai21.com',
-  // New data sources
-  'universe.roboflow.com',
-  'roboflow.com',
-  'kaggle.com',
-  'tensor.art',
-  'civitaiarchive.com',
-  'runcomfy.com',
-  'prompthero.com',
-  'liblib.ai',
-  'shakker.ai',
-  'openmodeldb.info',
-  'civitasbay.org',
-];
-
+// Allowed hosts live in the shared proxy policy (electron/proxy-policy.js)
 app.post('/scrape', async (req, res) => {
   try {
     const { url } = req.body || {};
     if (!url) return res.status(400).json({ error: 'Missing url' });
     const u = new URL(url);
-    if (!ALLOWLIST.includes(u.hostname)) {
+    if (!isHostAllowed(u.href, SCRAPE_HOSTS)) {
       return res.status(400).json({ error: 'Domain not allowed' });
     }
     const r = await fetch(url, { headers: { 'User-Agent': 'model-db-pro' } });
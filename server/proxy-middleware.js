@@ -27,14 +27,9 @@ const rateLimitStore = new Map();
 
 /**
  * Allowed origins for proxy requests
- * Only requests from these origins will be allowed
+ * Shared with the Electron proxy policy
  */
-const ALLOWED_ORIGINS = [
-    'http://localhost:5173',
-    'http://127.0.0.1:5173',
-    'http://0.0.0.0:5173',
-    // Add production origins if needed
-];
+const { ALLOWED_ORIGINS } = require('../electron/proxy-policy.js');
 
 /**
  * Rate limit configuration per proxy endpoint
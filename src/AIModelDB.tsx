@@ -46,6 +46,7 @@ function AIModelDBContent() {
     modalState,
     consoleLogging,
     isOnline,
+    localInventory,
     hasApiProvider,
     searchRef,
     flagModalOpen,
@@ -54,6 +55,9 @@ function AIModelDBContent() {
     setModelToFlag,
     models,
     setModels,
+    mergeLog,
+    rejectedRecords,
+    setMergeLog,
     addModel,
     importModels,
     validateModels,
@@ -166,6 +170,12 @@ function AIModelDBContent() {
               });
             }}
             onValidateModels={validateModels}
+            onReviewDuplicates={() => modalState.setShowDuplicateWorkbench(true)}
+            pendingMergeCount={mergeLog.length}
+            onReviewRejected={() => modalState.setShowRejectedRecords(true)}
+            rejectedCount={rejectedRecords.length}
+            onOpenLeaderboard={() => modalState.setShowLeaderboard(true)}
+            onOpenFrontier={() => modalState.setShowFrontier(true)}
             theme={theme}
             hasDetailOpen={!!uiState.open}
           />
@@ -191,6 +201,8 @@ function AIModelDBContent() {
                 onFavoritesOnlyChange={uiState.setFavoritesOnly}
                 hideNSFW={uiState.hideNSFW}
                 onHideNSFWChange={uiState.setHideNSFW}
+                maxSizeGB={uiState.maxSizeGB}
+                onMaxSizeGBChange={uiState.setMaxSizeGB}
                 onClearFilters={() => {
                   uiState.setLicenseTypes([]);
                   uiState.setCommercialAllowed(null);
@@ -200,6 +212,7 @@ function AIModelDBContent() {
                   uiState.setDomainPick('All');
                   uiState.setFavoritesOnly(false);
                   uiState.setHideNSFW(false);
+                  uiState.setMaxSizeGB(null);
                 }}
                 theme={theme}
               />
@@ -243,6 +256,7 @@ function AIModelDBContent() {
                   onSelect={handleSelect}
                   onSelectAll={handleSelectAll}
                   activeModelId={uiState.open?.id}
+                  installed={localInventory.installed}
                   onToggleFavorite={handleToggleFavorite}
                   onToggleNSFWFlag={handleToggleNSFWFlag}
                 />
@@ -271,6 +285,9 @@ function AIModelDBContent() {
                   onToggleFavorite={handleToggleFavorite}
                   onToggleNSFWFlag={handleToggleNSFWFlag}
                   onToggleImageNSFW={handleToggleImageNSFW}
+                  models={models}
+                  onOpenModel={(m) => uiState.setOpen(m)}
+                  onShowDerivatives={(m) => uiState.setQuery(`derives:"${m.id}"`)}
                 />
               </ErrorBoundary>
             ) : null
@@ -295,6 +312,9 @@ function AIModelDBContent() {
           theme={theme === 'dark' ? 'dark' : 'light'}
           settings={settings}
           saveSettings={saveSettings}
+          mergeLog={mergeLog}
+          rejectedRecords={rejectedRecords}
+          setMergeLog={setMergeLog}
           uiState={uiState}
           consoleLogging={consoleLogging}
           validationState={validationState}
@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ArrowDown, ArrowUp, Trophy, X } from "lucide-react";
+import { DOMAINS, Domain, Model } from "../types";
+import { useBodyScrollLock } from "../hooks/useBodyScrollLock";
+import { ThemedSelect } from "./ThemedSelect";
+import { LeaderboardRow, buildLeaderboard, listBenchmarks } from "../utils/benchmarks";
+
+interface BenchmarkLeaderboardProps {
+	isOpen: boolean;
+	onClose: () => void;
+	models: Model[];
+	onOpenModel: (model: Model) => void;
+}
+
+type SortKey = 'rank' | 'name' | 'provider' | 'parameters' | 'license';
+
+const formatScore = (score: number): string =>
+	Number.isInteger(score) ? score.toLocaleString() : score.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+const SORTERS: Record<SortKey, (a: LeaderboardRow, b: LeaderboardRow) => number> = {
+	rank: (a, b) => a.rank - b.rank,
+	name: (a, b) => a.model.name.localeCompare(b.model.name),
+	provider: (a, b) => (a.model.provider || '').localeCompare(b.model.provider || ''),
+	parameters: (a, b) => (a.model.parameters || '').localeCompare(b.model.parameters || '', undefined, { numeric: true }),
+	license: (a, b) => a.model.license.name.localeCompare(b.model.license.name)
+};
+
+/**
+ * Ranks models on one benchmark within a domain. Benchmark names reported
+ * under different aliases are unified and scores are put on one scale;
+ * each score shows the source it came from.
+ */
+export function BenchmarkLeaderboard({ isOpen, onClose, models, onOpenModel }: BenchmarkLeaderboardProps) {
+	const { t } = useTranslation();
+	const [domain, setDomain] = useState<Domain | 'All'>('All');
+	const [benchmarkKey, setBenchmarkKey] = useState<string | null>(null);
+	const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'rank', desc: false });
+
+	useBodyScrollLock(isOpen);
+
+	const domains = useMemo(
+		() => DOMAINS.filter(d => models.some(m => m.domain === d && m.benchmarks?.length)),
+		[models]
+	);
+	const benchmarks = useMemo(() => (isOpen ? listBenchmarks(models, domain) : []), [isOpen, models, domain]);
+	const benchmark = benchmarks.find(b => b.key === benchmarkKey) || benchmarks[0];
+	const rows = useMemo(
+		() => (benchmark ? buildLeaderboard(models, benchmark.key, domain) : []),
+		[models, benchmark, domain]
+	);
+
+	if (!isOpen) return null;
+
+	const sorted = [...rows].sort((a, b) => {
+		const order = SORTERS[sort.key](a, b) || a.rank - b.rank;
+		return sort.desc ? -order : order;
+	});
+
+	const toggleSort = (key: SortKey) =>
+		setSort(prev => ({ key, desc: prev.key === key ? !prev.desc : false }));
+
+	const header = (key: SortKey, label: string, className = '') => (
+		<button onClick={() => toggleSort(key)} className={`flex items-center gap-1 hover:text-text ${className}`}>
+			{label}
+			{sort.key === key && (sort.desc ? <ArrowDown className="size-3" /> : <ArrowUp className="size-3" />)}
+		</button>
+	);
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+			<div
+				className="w-full max-w-5xl h-[85vh] rounded-2xl border border-border bg-bg text-text shadow-2xl flex flex-col"
+				onClick={(e) => e.stopPropagation()}
+			>
+				{/* Header */}
+				<div className="flex items-center justify-between p-6 border-b border-border">
+					<div className="flex items-center gap-3">
+						<Trophy className="size-6 text-yellow-500" />
+						<div>
+							<h2 className="text-xl font-semibold">{t('leaderboard.title')}</h2>
+							<p className="text-xs text-text-secondary">{t('leaderboard.description')}</p>
+						</div>
+					</div>
+					<button
+						onClick={onClose}
+						className="rounded-xl border border-border bg-input p-2 hover:opacity-80 transition-opacity"
+						title={t('common.close', 'Close')}
+					>
+						<X className="size-5" />
+					</button>
+				</div>
+
+				{/* Controls */}
+				<div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-border text-sm">
+					<label className="text-xs text-text-secondary">{t('leaderboard.domain')}</label>
+					<div className="w-40">
+						<ThemedSelect
+							value={domain}
+							onChange={(v) => setDomain(v as Domain | 'All')}
+							options={[{ value: 'All', label: t('leaderboard.allDomains') }, ...domains.map(d => ({ value: d, label: d }))]}
+							ariaLabel={t('leaderboard.domain')}
+						/>
+					</div>
+					<label className="text-xs text-text-secondary ml-2">{t('leaderboard.benchmark')}</label>
+					<div className="w-72">
+						<ThemedSelect
+							value={benchmark?.key || ''}
+							onChange={setBenchmarkKey}
+							options={benchmarks.map(b => ({ value: b.key, label: t('leaderboard.benchmarkOption', { name: b.label, count: b.count }) }))}
+							placeholder={t('leaderboard.noBenchmarks')}
+							disabled={benchmarks.length === 0}
+							ariaLabel={t('leaderboard.benchmark')}
+						/>
+					</div>
+					{benchmark && (
+						<span className="text-xs text-text-secondary ml-auto">
+							{benchmark.lowerIsBetter ? t('leaderboard.lowerIsBetter') : t('leaderboard.higherIsBetter')}
+							{benchmark.percent && ` · ${t('leaderboard.percentScale')}`}
+						</span>
+					)}
+				</div>
+
+				{rows.length === 0 ? (
+					<div className="flex flex-1 items-center justify-center text-sm text-text-secondary">
+						{t('leaderboard.empty')}
+					</div>
+				) : (
+					<div className="flex-1 min-h-0 overflow-y-auto">
+						<div className="grid grid-cols-12 gap-3 px-6 py-2 text-xs font-medium text-text-secondary border-b border-border sticky top-0 bg-bg">
+							{header('rank', t('leaderboard.columns.rank'), 'col-span-1')}
+							{header('name', t('leaderboard.columns.model'), 'col-span-3')}
+							{header('provider', t('leaderboard.columns.provider'), 'col-span-2')}
+							{header('parameters', t('leaderboard.columns.parameters'), 'col-span-1')}
+							{header('license', t('leaderboard.columns.license'), 'col-span-1')}
+							<div className="col-span-2">{t('leaderboard.columns.score')}</div>
+							<div className="col-span-2">{t('leaderboard.columns.source')}</div>
+						</div>
+						{sorted.map(row => (
+							<button
+								key={row.model.id}
+								onClick={() => onOpenModel(row.model)}
+								className="w-full grid grid-cols-12 gap-3 items-center px-6 py-2 text-left text-sm border-b border-border hover:bg-bg-hover"
+							>
+								<span className="col-span-1 tabular-nums font-semibold">{row.rank}</span>
+								<span className="col-span-3 truncate">{row.model.name}</span>
+								<span className="col-span-2 truncate text-text-secondary">{row.model.provider || '—'}</span>
+								<span className="col-span-1 truncate text-text-secondary">{row.model.parameters || '—'}</span>
+								<span className="col-span-1 truncate text-text-secondary" title={row.model.license.name}>{row.model.license.name}</span>
+								<span className="col-span-2 flex items-center gap-2">
+									<span className="tabular-nums w-14 text-right">{formatScore(row.score)}</span>
+									<span className="flex-1 h-1.5 rounded-full bg-bg-input overflow-hidden" title={t('leaderboard.relative', { value: row.relative })}>
+										<span className="block h-full rounded-full bg-accent" style={{ width: `${Math.max(2, row.relative)}%` }} />
+									</span>
+								</span>
+								<span
+									className="col-span-2 truncate text-xs text-text-secondary"
+									title={`${row.entry.name}${row.sources.length > 1 ? ` · ${t('leaderboard.alsoReportedBy', { sources: row.sources.filter(s => s !== (row.entry.source || 'model-index')).join(', ') })}` : ''}`}
+								>
+									{row.entry.source || 'model-index'}
+									{row.sources.length > 1 && ` +${row.sources.length - 1}`}
+								</span>
+							</button>
+						))}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -11,6 +11,9 @@ import { fetchCivitasBayDetails, CivitasBayDetails } from '../services/api/fetch
 import { fetchHuggingFaceDetails } from '../services/api/fetchers/huggingface-details';
 import { GalleryImage } from './detail/GalleryImage';
 import { LicenseHover } from './detail/LicenseHover';
+import { ProvenanceLabel } from './detail/ProvenanceLabel';
+import { LineageGraph } from './detail/LineageGraph';
+import { VariantsTable } from './detail/VariantsTable';
 import { useImageContextMenu } from '../hooks/useImageContextMenu';
 import { getPricingType, isSubscriptionPricing, formatReleaseDate } from '../utils/pricing';
 
@@ -24,11 +27,14 @@ interface DetailPanelProps {
   onToggleImageNSFW?: (model: Model, imageUrl: string) => void;
   hideNSFW?: boolean;
   className?: string; // Add optional className prop
+  models?: Model[]; // Whole database, for the lineage graph
+  onOpenModel?: (model: Model) => void;
+  onShowDerivatives?: (model: Model) => void;
 }
 
 
 
-export function DetailPanel({ model, onClose, onDelete, triggerElement, onToggleFavorite, onToggleNSFWFlag, onToggleImageNSFW, hideNSFW = true, className = "" }: DetailPanelProps) {
+export function DetailPanel({ model, onClose, onDelete, triggerElement, onToggleFavorite, onToggleNSFWFlag, onToggleImageNSFW, hideNSFW = true, className = "", models = [], onOpenModel, onShowDerivatives }: DetailPanelProps) {
   const { theme } = useContext(ThemeContext);
   const { t } = useTranslation();
   const [isAnimating, setIsAnimating] = useState(false);
@@ -260,40 +266,40 @@ export function DetailPanel({ model, onClose, onDelete, triggerElement, onToggle
           </div>
           <div className="grid grid-cols-2 gap-3 text-sm">
             <div>
-              <span className={textSubtle}>{t('detailPanel.license')}</span>
+              <ProvenanceLabel className={textSubtle} label={t('detailPanel.license')} provenance={model.provenance?.license} />
               <div>
                 <LicenseHover name={model.license.name} />
               </div>
             </div>
             <div>
-              <span className={textSubtle}>{t('detailPanel.type')}</span>
+              <ProvenanceLabel className={textSubtle} label={t('detailPanel.type')} provenance={model.provenance?.license} />
               <div>{model.license.type}</div>
             </div>
             <div>
-              <span className={textSubtle}>{t('detailPanel.commercial')}</span>
+              <ProvenanceLabel className={textSubtle} label={t('detailPanel.commercial')} provenance={model.provenance?.license} />
               <div>{model.license.commercial_use ? t('detailPanel.allowed') : t('detailPanel.notAllowed')}</div>
             </div>
             <div>
-              <span className={textSubtle}>{t('detailPanel.attribution')}</span>
+              <ProvenanceLabel className={textSubtle} label={t('detailPanel.attribution')} provenance={model.provenance?.license} />
               <div>{model.license.attribution_required ? t('detailPanel.required') : t('detailPanel.notRequired')}</div>
             </div>
             <div>
-              <span className={textSubtle}>{t('detailPanel.copyleft')}</span>
+              <ProvenanceLabel className={textSubtle} label={t('detailPanel.copyleft')} provenance={model.provenance?.license} />
               <div>{model.license.copyleft ? t('common.yes') : t('common.no')}</div>
             </div>
             <div>
-              <span className={textSubtle}>{t('detailPanel.indemnity')}</span>
+              <ProvenanceLabel className={textSubtle} label={t('detailPanel.indemnity')} provenance={model.provenance?.indemnity} />
               <div>{model.indemnity || t('common.none')}</div>
             </div>
             {model.data_provenance && (
               <div>
-                <span className={textSubtle}>{t('detailPanel.dataProvenance', 'Data Provenance')}</span>
+                <ProvenanceLabel className={textSubtle} label={t('detailPanel.dataProvenance', 'Data Provenance')} provenance={model.provenance?.data_provenance} />
                 <div>{model.data_provenance}</div>
               </div>
             )}
             {model.provider && (
               <div>
-                <span className={textSubtle}>{t('detailPanel.author')}</span>
+                <ProvenanceLabel className={textSubtle} label={t('detailPanel.author')} provenance={model.provenance?.provider} />
                 <div>{model.provider}</div>
               </div>
             )}
@@ -325,7 +331,7 @@ export function DetailPanel({ model, onClose, onDelete, triggerElement, onToggle
             {/* Usage Restrictions */}
             {model.usage_restrictions && model.usage_restrictions.length > 0 && (
               <div className="col-span-2">
-                <span className={textSubtle}>{t('detailPanel.usageRestrictions', 'Usage Restrictions')}</span>
+                <ProvenanceLabel className={textSubtle} label={t('detailPanel.usageRestrictions', 'Usage Restrictions')} provenance={model.provenance?.usage_restrictions} />
                 <div className="mt-1 flex flex-wrap gap-1">
                   {model.usage_restrictions.map(r => (
                     <span key={r} className={`px-1.5 py-0.5 rounded text-xs border border-red-500/30 bg-red-500/10 text-red-500`}>
@@ -339,11 +345,15 @@ export function DetailPanel({ model, onClose, onDelete, triggerElement, onToggle
 
         </section>
 
+        <LineageGraph model={model} models={models} onOpenModel={onOpenModel} onShowDerivatives={onShowDerivatives} />
+
+        {model.variants?.length ? <VariantsTable variants={model.variants} /> : null}
+
         {model.pricing?.length ? (
           <section className="mt-4 rounded-xl border border-border p-4">
             <div className="mb-2 flex items-center gap-2">
               <DollarSign className="size-4" />
-              <strong className="text-sm">{t('detailPanel.pricing.title')}</strong>
+              <strong className="text-sm"><ProvenanceLabel label={t('detailPanel.pricing.title')} provenance={model.provenance?.pricing} /></strong>
             </div>
             <div className="grid grid-cols-1 gap-3 text-sm">
               {/* Group pricing by type */}
@@ -457,22 +467,22 @@ export function DetailPanel({ model, onClose, onDelete, triggerElement, onToggle
           </div>
           <div className="grid grid-cols-2 gap-3">
             <div>
-              <span className={textSubtle}>{t('detailPanel.meta.updated')}</span>
+              <ProvenanceLabel className={textSubtle} label={t('detailPanel.meta.updated')} provenance={model.provenance?.updated_at} />
               <div>{fmtDate(model.updated_at)}</div>
             </div>
             <div>
-              <span className={textSubtle}>{t('detailPanel.meta.released')}</span>
+              <ProvenanceLabel className={textSubtle} label={t('detailPanel.meta.released')} provenance={model.provenance?.release_date} />
               <div>{formatReleaseDate(model)}</div>
             </div>
             {model.parameters && (
               <div>
-                <span className={textSubtle}>{t('detailPanel.meta.parameters')}</span>
+                <ProvenanceLabel className={textSubtle} label={t('detailPanel.meta.parameters')} provenance={model.provenance?.parameters} />
                 <div>{model.parameters}</div>
               </div>
             )}
             {model.context_window && (
               <div>
-                <span className={textSubtle}>{t('detailPanel.meta.context')}</span>
+                <ProvenanceLabel className={textSubtle} label={t('detailPanel.meta.context')} provenance={model.provenance?.context_window} />
                 <div>{model.context_window}</div>
               </div>
             )}
@@ -480,7 +490,7 @@ export function DetailPanel({ model, onClose, onDelete, triggerElement, onToggle
 
           {model.benchmarks && model.benchmarks.length > 0 && (
             <div className="mt-3">
-              <div className={`text-xs font-medium mb-1 ${textSubtle}`}>{t('detailPanel.meta.benchmarks')}</div>
+              <div className={`text-xs font-medium mb-1 ${textSubtle}`}><ProvenanceLabel label={t('detailPanel.meta.benchmarks')} provenance={model.provenance?.benchmarks} /></div>
               <div className="space-y-1">
                 {model.benchmarks.slice(0, 6).map((b, i) => (
                   <div key={i} className={`flex justify-between rounded-md px-2 py-1 border border-border`}>
@@ -494,7 +504,7 @@ export function DetailPanel({ model, onClose, onDelete, triggerElement, onToggle
 
           {model.analytics && Object.keys(model.analytics).length > 0 && (
             <div className="mt-3">
-              <div className={`text-xs font-medium mb-1 ${textSubtle}`}>{t('detailPanel.meta.analytics')}</div>
+              <div className={`text-xs font-medium mb-1 ${textSubtle}`}><ProvenanceLabel label={t('detailPanel.meta.analytics')} provenance={model.provenance?.analytics} /></div>
               <div className="grid grid-cols-2 gap-2">
                 {Object.entries(model.analytics)
                   .filter(([_, v]) => v != null && v !== '')
@@ -531,7 +541,7 @@ export function DetailPanel({ model, onClose, onDelete, triggerElement, onToggle
                 {model.tags && model.tags.length > 0 && (
                   <div>
                     <div className={`text-[10px] font-bold uppercase tracking-widest mb-2.5 ${textSubtle} opacity-60`}>
-                      {t('detailPanel.tags', 'Model Tags')}
+                      <ProvenanceLabel label={t('detailPanel.tags', 'Model Tags')} provenance={model.provenance?.tags} />
                     </div>
                     <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto pr-1 scrollbar-thin">
                       {model.tags.map(t => <Badge key={t}>{t}</Badge>)}
@@ -0,0 +1,295 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { GitMerge, X, Split, Check, Layers, History } from "lucide-react";
+import {
+	DUPLICATE_REVIEW_FIELDS,
+	DuplicateDecision,
+	DuplicateFieldWinners,
+	DuplicateMatchRule,
+	DuplicateReviewField,
+	MergeEvent,
+	Model
+} from "../types";
+import { useSettings } from "../context/SettingsContext";
+import { useBodyScrollLock } from "../hooks/useBodyScrollLock";
+import { findDuplicateClusters, pairKey, splitMergeEvent, upsertDecision } from "../utils/duplicates";
+import { mergeCluster } from "../utils/mergeLogic";
+import { sameValue } from "../utils/provenance";
+import { createIdentityResolver } from "../utils/identity";
+
+interface DuplicateWorkbenchProps {
+	isOpen: boolean;
+	onClose: () => void;
+	models: Model[];
+	setModels: React.Dispatch<React.SetStateAction<Model[]>>;
+	mergeLog: MergeEvent[];
+	setMergeLog: (update: MergeEvent[] | ((prev: MergeEvent[]) => MergeEvent[])) => void;
+	addConsoleLog: (msg: string) => void;
+}
+
+type ReviewItem = {
+	key: string;
+	kind: 'cluster' | 'merge';
+	models: Model[];
+	rule: DuplicateMatchRule;
+	confidence: number;
+	event?: MergeEvent;
+};
+
+const formatValue = (field: DuplicateReviewField, model: Model): string => {
+	const value = model[field];
+	if (value == null || value === '') return '—';
+	if (field === 'license') return model.license?.name || '—';
+	if (field === 'pricing') {
+		return (model.pricing || [])
+			.map(p => p.flat != null ? `${p.flat} ${p.currency || ''}` : `${p.input ?? '?'}/${p.output ?? '?'} ${p.currency || ''}`)
+			.join(', ') || '—';
+	}
+	if (field === 'benchmarks') return (model.benchmarks || []).map(b => `${b.name}: ${b.score}`).join(', ') || '—';
+	if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+	return String(value);
+};
+
+const confidenceClass = (confidence: number) =>
+	confidence >= 0.9 ? 'bg-green-500/15 text-green-600 dark:text-green-400'
+		: confidence >= 0.6 ? 'bg-amber-500/15 text-amber-600 dark:text-amber-400'
+			: 'bg-red-500/15 text-red-600 dark:text-red-400';
+
+/**
+ * Review screen for duplicate candidates and past automatic merges.
+ * Decisions are stored in settings so future syncs respect them.
+ */
+export function DuplicateWorkbench({ isOpen, onClose, models, setModels, mergeLog, setMergeLog, addConsoleLog }: DuplicateWorkbenchProps) {
+	const { t } = useTranslation();
+	const { settings, saveSettings } = useSettings();
+	const [view, setView] = useState<'merges' | 'clusters'>('merges');
+	const [selectedKey, setSelectedKey] = useState<string | null>(null);
+	const [winners, setWinners] = useState<DuplicateFieldWinners>({});
+
+	useBodyScrollLock(isOpen);
+
+	const clusters = useMemo(
+		() => (isOpen ? findDuplicateClusters(models, settings.duplicateDecisions, createIdentityResolver(settings.identityAliases)) : []),
+		[isOpen, models, settings.duplicateDecisions, settings.identityAliases]
+	);
+
+	const items: ReviewItem[] = useMemo(() => {
+		if (view === 'clusters') {
+			return clusters.map(c => ({ key: c.key, kind: 'cluster', models: c.models, rule: c.rule, confidence: c.confidence }));
+		}
+		return [...mergeLog].reverse().map(e => ({
+			key: `${pairKey(e.existing.id, e.incoming.id)}@${e.merged_at}`,
+			kind: 'merge',
+			models: [e.existing, e.incoming],
+			rule: e.rule,
+			confidence: e.confidence,
+			event: e
+		}));
+	}, [view, clusters, mergeLog]);
+
+	if (!isOpen) return null;
+
+	const selected = items.find(i => i.key === selectedKey) || items[0] || null;
+
+	const select = (key: string) => {
+		setSelectedKey(key);
+		setWinners({});
+	};
+
+	const remember = (pairs: [string, string][], verdict: DuplicateDecision['verdict'], fieldWinners?: DuplicateFieldWinners) => {
+		const decidedAt = new Date().toISOString();
+		const hasWinners = fieldWinners && Object.keys(fieldWinners).length > 0;
+		const decisions = pairs.reduce(
+			(acc, ids) => upsertDecision(acc, { ids, verdict, winners: hasWinners ? fieldWinners : undefined, decided_at: decidedAt }),
+			settings.duplicateDecisions || []
+		);
+		saveSettings({ duplicateDecisions: decisions });
+	};
+
+	const dismissEvent = (event: MergeEvent) => {
+		setMergeLog(prev => prev.filter(e => e !== event && !(e.merged_at === event.merged_at && e.incoming.id === event.incoming.id)));
+		setSelectedKey(null);
+		setWinners({});
+	};
+
+	const handleMerge = (item: ReviewItem) => {
+		if (item.kind === 'merge' && item.event) {
+			const event = item.event;
+			const merged = { ...mergeCluster([event.existing, event.incoming], settings.mergePolicies, winners), id: event.merged_id };
+			setModels(prev => prev.map(m => m.id === event.merged_id ? merged : m));
+			remember([[event.existing.id, event.incoming.id]], 'duplicate', winners);
+			addConsoleLog(`Duplicate workbench: confirmed merge of "${event.incoming.name}" into "${event.existing.name}"`);
+			dismissEvent(event);
+			return;
+		}
+		const [primary, ...others] = item.models;
+		const merged = mergeCluster(item.models, settings.mergePolicies, winners);
+		const absorbed = new Set(others.map(m => m.id));
+		setModels(prev => prev.filter(m => !absorbed.has(m.id)).map(m => m.id === primary.id ? merged : m));
+		remember(others.map(m => [primary.id, m.id] as [string, string]), 'duplicate', winners);
+		addConsoleLog(`Duplicate workbench: merged ${item.models.length} records into "${primary.name}"`);
+		setSelectedKey(null);
+		setWinners({});
+	};
+
+	const handleDistinct = (item: ReviewItem) => {
+		if (item.kind === 'merge' && item.event) {
+			const event = item.event;
+			setModels(prev => splitMergeEvent(prev, event));
+			remember([[event.existing.id, event.incoming.id]], 'distinct');
+			addConsoleLog(`Duplicate workbench: split "${event.incoming.name}" from "${event.existing.name}"`);
+			dismissEvent(event);
+			return;
+		}
+		const pairs: [string, string][] = [];
+		item.models.forEach((a, i) => item.models.slice(i + 1).forEach(b => pairs.push([a.id, b.id])));
+		remember(pairs, 'distinct');
+		addConsoleLog(`Duplicate workbench: marked ${item.models.length} records as distinct models`);
+		setSelectedKey(null);
+		setWinners({});
+	};
+
+	const toggleWinner = (field: DuplicateReviewField, id: string) => {
+		setWinners(prev => {
+			const next = { ...prev };
+			if (next[field] === id) delete next[field];
+			else next[field] = id;
+			return next;
+		});
+	};
+
+	const ruleLabel = (rule: DuplicateMatchRule) => t(`duplicates.rules.${rule}`, rule);
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+			<div
+				className="w-full max-w-6xl h-[90vh] rounded-2xl border border-border bg-bg text-text shadow-2xl flex flex-col"
+				onClick={(e) => e.stopPropagation()}
+			>
+				{/* Header */}
+				<div className="flex items-center justify-between p-6 border-b border-border">
+					<div className="flex items-center gap-3">
+						<GitMerge className="size-6 text-violet-500" />
+						<h2 className="text-xl font-semibold">{t('duplicates.title')}</h2>
+					</div>
+					<div className="flex items-center gap-2">
+						<button
+							onClick={() => { setView('merges'); setSelectedKey(null); setWinners({}); }}
+							className={`flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs border ${view === 'merges' ? 'bg-bg-card border-border' : 'border-transparent text-text-secondary'}`}
+						>
+							<History className="size-3" />
+							{t('duplicates.recentMerges')} ({mergeLog.length})
+						</button>
+						<button
+							onClick={() => { setView('clusters'); setSelectedKey(null); setWinners({}); }}
+							className={`flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs border ${view === 'clusters' ? 'bg-bg-card border-border' : 'border-transparent text-text-secondary'}`}
+						>
+							<Layers className="size-3" />
+							{t('duplicates.candidates')} ({clusters.length})
+						</button>
+						<button
+							onClick={onClose}
+							className="rounded-xl border border-border bg-input p-2 hover:opacity-80 transition-opacity ml-2"
+							title={t('common.close', 'Close')}
+						>
+							<X className="size-5" />
+						</button>
+					</div>
+				</div>
+
+				<div className="flex flex-1 min-h-0">
+					{/* Item list */}
+					<div className="w-72 flex-shrink-0 border-r border-border overflow-y-auto">
+						{items.length === 0 ? (
+							<p className="p-6 text-sm text-text-secondary">
+								{view === 'merges' ? t('duplicates.noMerges') : t('duplicates.noCandidates')}
+							</p>
+						) : items.map(item => (
+							<button
+								key={item.key}
+								onClick={() => select(item.key)}
+								className={`w-full text-left px-4 py-3 border-b border-border hover:bg-bg-card transition-colors ${selected?.key === item.key ? 'bg-bg-card' : ''}`}
+							>
+								<div className="text-sm font-medium truncate">{item.models.map(m => m.name).join(' ⇄ ')}</div>
+								<div className="mt-1 flex items-center gap-2 text-[11px] text-text-secondary">
+									<span className={`px-1.5 py-0.5 rounded ${confidenceClass(item.confidence)}`}>{Math.round(item.confidence * 100)}%</span>
+									<span>{ruleLabel(item.rule)}</span>
+									{item.kind === 'cluster' && item.models.length > 2 && <span>· {item.models.length} {t('duplicates.records')}</span>}
+								</div>
+							</button>
+						))}
+					</div>
+
+					{/* Side-by-side comparison */}
+					<div className="flex-1 overflow-auto p-6">
+						{selected && (
+							<>
+								<div className="flex items-center justify-between mb-4">
+									<div className="text-sm text-text-secondary">
+										{t('duplicates.matchedBy', { rule: ruleLabel(selected.rule), confidence: Math.round(selected.confidence * 100) })}
+									</div>
+									<div className="flex items-center gap-2">
+										<button
+											onClick={() => handleDistinct(selected)}
+											className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs border border-border bg-bg-card hover:bg-bg-hover"
+										>
+											<Split className="size-3" />
+											{selected.kind === 'merge' ? t('duplicates.split') : t('duplicates.notDuplicate')}
+										</button>
+										<button
+											onClick={() => handleMerge(selected)}
+											className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs bg-accent text-white hover:opacity-90"
+										>
+											<Check className="size-3" />
+											{selected.kind === 'merge' ? t('duplicates.confirmMerge') : t('duplicates.merge')}
+										</button>
+									</div>
+								</div>
+								<p className="text-xs text-text-subtle mb-3">{t('duplicates.pickHint')}</p>
+								<table className="w-full text-xs border-collapse">
+									<thead>
+										<tr className="text-left text-text-secondary">
+											<th className="py-2 pr-3 w-36">{t('duplicates.field')}</th>
+											{selected.models.map((m, i) => (
+												<th key={`${m.id}-${i}`} className="py-2 pr-3">
+													<div className="font-semibold text-text truncate">{m.name}</div>
+													<div className="font-normal">
+														{selected.kind === 'merge' ? (i === 0 ? t('duplicates.existing') : t('duplicates.incoming')) : m.id} · {m.source}
+													</div>
+												</th>
+											))}
+										</tr>
+									</thead>
+									<tbody>
+										{DUPLICATE_REVIEW_FIELDS.map(field => {
+											const differs = selected.models.some(m => !sameValue(m[field], selected.models[0][field]));
+											return (
+												<tr key={field} className={`border-t border-border align-top ${differs ? '' : 'opacity-60'}`}>
+													<td className="py-2 pr-3 font-medium">{t(`settings.mergePolicies.fields.${field}`, field)}</td>
+													{selected.models.map((m, i) => {
+														const isWinner = winners[field] === m.id;
+														return (
+															<td key={`${m.id}-${i}`} className="py-2 pr-3">
+																<button
+																	disabled={!differs}
+																	onClick={() => toggleWinner(field, m.id)}
+																	className={`w-full text-left rounded-lg px-2 py-1 border transition-colors break-words ${isWinner ? 'border-accent bg-accent/10' : 'border-transparent hover:border-border'}`}
+																>
+																	{formatValue(field, m)}
+																</button>
+															</td>
+														);
+													})}
+												</tr>
+											);
+										})}
+									</tbody>
+								</table>
+							</>
+						)}
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+}
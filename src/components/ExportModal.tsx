@@ -11,7 +11,7 @@ import { DOMAINS } from '../types';
 interface ExportModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onExport: (format: ExportFormat, scope: 'all' | 'custom', criteria?: Partial<FilterOptions>) => void;
+    onExport: (format: ExportFormat, scope: 'all' | 'custom', criteria?: Partial<FilterOptions>, includeProvenance?: boolean) => void;
     totalModels: number;
     // Current filters to initialize 'Custom' state
     currentFilters: Partial<FilterOptions>;
@@ -31,6 +31,7 @@ export function ExportModal({
     const { t } = useTranslation();
     const [scope, setScope] = useState<ExportScope>('custom');
     const [format, setFormat] = useState<ExportFormat>('json');
+    const [includeProvenance, setIncludeProvenance] = useState(false);
 
     // Custom Filters State
     const [customFilters, setCustomFilters] = useState<Partial<FilterOptions>>({
@@ -73,9 +74,9 @@ export function ExportModal({
 
     const handleExport = () => {
         if (scope === 'custom') {
-            onExport(format, 'custom', customFilters);
+            onExport(format, 'custom', customFilters, includeProvenance);
         } else {
-            onExport(format, scope);
+            onExport(format, scope, undefined, includeProvenance);
         }
         onClose();
     };
@@ -154,6 +155,16 @@ export function ExportModal({
                                     </button>
                                 ))}
                             </div>
+                            <label className="mt-4 flex items-start gap-3 cursor-pointer select-none">
+                                <RoundCheckbox
+                                    checked={includeProvenance}
+                                    onChange={setIncludeProvenance}
+                                />
+                                <div>
+                                    <div className={`text-sm font-medium ${textPrimary}`}>{t('export.includeProvenance', 'Include field provenance')}</div>
+                                    <div className={`text-[10px] ${textSecondary}`}>{t('export.includeProvenanceDesc', 'Source, fetch time and origin of each field')}</div>
+                                </div>
+                            </label>
                         </section>
                     </div>
 
@@ -149,6 +149,9 @@ export function KeyboardShortcutsModal({ isOpen, onClose }: KeyboardShortcutsMod
                                 { syntax: 'provider:openai', desc: t('shortcutsModal.operators.provider') },
                                 { syntax: 'is:favorite', desc: t('shortcutsModal.operators.isFavorite') },
                                 { syntax: 'is:commercial', desc: t('shortcutsModal.operators.isCommercial') },
+                                { syntax: 'derives:llama-3', desc: t('shortcutsModal.operators.derives') },
+                                { syntax: 'is:derivative', desc: t('shortcutsModal.operators.isDerivative') },
+                                { syntax: 'fits:8gb', desc: t('shortcutsModal.operators.fits') },
                                 { syntax: '"exact phrase"', desc: t('shortcutsModal.operators.exactPhrase') },
                             ].map((item, idx) => (
                                 <div key={idx} className="flex items-center gap-2 py-1.5 px-2 rounded" style={{ backgroundColor: 'var(--bgCard)' }}>
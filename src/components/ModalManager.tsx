@@ -8,7 +8,7 @@
 import { useModal } from '../context/ModalContext';
 
 import React from 'react';
-import { Model } from '../types';
+import { MergeEvent, Model, RejectedRecord } from '../types';
 import { Settings } from '../context/SettingsContext';
 import { ModalState } from '../hooks/useModalState';
 import { UIState } from '../hooks/useUIState';
@@ -37,6 +37,10 @@ import { ToastContainer } from './toasts/ToastContainer';
 import { UndoToast } from './toasts/UndoToast';
 import { ConsoleButton } from './console/ConsoleButton';
 import { KeyboardShortcutsModal } from './KeyboardShortcutsModal';
+import { DuplicateWorkbench } from './DuplicateWorkbench';
+import { RejectedRecordsModal } from './RejectedRecordsModal';
+import { BenchmarkLeaderboard } from './BenchmarkLeaderboard';
+import { PriceFrontierChart } from './PriceFrontierChart';
 
 interface ModalManagerProps {
     // Global State
@@ -46,6 +50,13 @@ interface ModalManagerProps {
     settings: Settings;
     saveSettings: (settings: Partial<Settings>) => void;
 
+    // Duplicate review
+    mergeLog: MergeEvent[];
+    setMergeLog: (update: MergeEvent[] | ((prev: MergeEvent[]) => MergeEvent[])) => void;
+
+    // Ingestion quarantine
+    rejectedRecords: RejectedRecord[];
+
     // Hooks state
     uiState: UIState;
     consoleLogging: ConsoleLogging;
@@ -103,6 +114,9 @@ export function ModalManager({
     theme,
     settings,
     saveSettings,
+    mergeLog,
+    setMergeLog,
+    rejectedRecords,
     uiState,
     consoleLogging,
     validationState,
@@ -219,7 +233,7 @@ export function ModalManager({
             <ExportModal
                 isOpen={modalState.showExportModal}
                 onClose={() => modalState.setShowExportModal(false)}
-                onExport={(format, scope, customCriteria) => {
+                onExport={(format, scope, customCriteria, includeProvenance) => {
                     if (scope === 'custom' && customCriteria) {
                         const fullCriteria: FilterOptions = {
                             query: '',
@@ -232,10 +246,10 @@ export function ModalManager({
                         };
 
                         const customFiltered = filterModels(models, fullCriteria);
-                        exportModels({ format, models: customFiltered });
+                        exportModels({ format, models: customFiltered, includeProvenance });
                         consoleLogging.addConsoleLog(`Exported ${customFiltered.length} models (Custom Filter).`);
                     } else {
-                        exportModels({ format, models: models });
+                        exportModels({ format, models: models, includeProvenance });
                         consoleLogging.addConsoleLog(`Exported ${models.length} models (Entire DB).`);
                     }
                 }}
@@ -252,6 +266,45 @@ export function ModalManager({
                 theme={theme}
             />
 
+            <DuplicateWorkbench
+                isOpen={modalState.showDuplicateWorkbench}
+                onClose={() => modalState.setShowDuplicateWorkbench(false)}
+                models={models}
+                setModels={setModels}
+                mergeLog={mergeLog}
+                setMergeLog={setMergeLog}
+                addConsoleLog={consoleLogging.addConsoleLog}
+            />
+
+            <RejectedRecordsModal
+                isOpen={modalState.showRejectedRecords}
+                onClose={() => modalState.setShowRejectedRecords(false)}
+                records={rejectedRecords}
+                setModels={setModels}
+                addConsoleLog={consoleLogging.addConsoleLog}
+            />
+
+            <BenchmarkLeaderboard
+                isOpen={modalState.showLeaderboard}
+                onClose={() => modalState.setShowLeaderboard(false)}
+                models={models}
+                onOpenModel={(model) => {
+                    uiState.setOpen(model);
+                    modalState.setShowLeaderboard(false);
+                }}
+            />
+
+            <PriceFrontierChart
+                isOpen={modalState.showFrontier}
+                onClose={() => modalState.setShowFrontier(false)}
+                models={models}
+                currency={settings.currency}
+                onOpenModel={(model) => {
+                    uiState.setOpen(model);
+                    modalState.setShowFrontier(false);
+                }}
+            />
+
             <ValidationResultsModal
                 isOpen={showComponentValidationResults}
                 onClose={() => setShowComponentValidationResults(false)}
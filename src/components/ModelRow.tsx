@@ -1,8 +1,9 @@
 import React, { useContext, memo, Fragment } from 'react';
-import { Database, Download, CheckCircle, Star, Flag } from 'lucide-react';
+import { Database, Download, CheckCircle, Star, Flag, HardDrive } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
 import ThemeContext from '../context/ThemeContext';
 import { useSettings } from '../context/SettingsContext';
-import { Model } from '../types';
+import { InstalledModel, Model } from '../types';
 import { RoundCheckbox } from './RoundCheckbox';
 import { DomainIcon } from './UI';
 import { kfmt } from '../utils/format';
@@ -29,6 +30,10 @@ interface ModelRowProps {
   isFocused?: boolean;
   onToggleFavorite?: (m: Model) => void;
   onToggleNSFWFlag?: (m: Model) => void;
+  /** Copies of this model found on local runtimes */
+  installed?: InstalledModel[];
+  /** Render the Local column (set when any runtime reported models) */
+  showLocalColumn?: boolean;
 }
 
 export const ModelRow = memo(function ModelRow({
@@ -40,7 +45,10 @@ export const ModelRow = memo(function ModelRow({
   isFocused,
   onToggleFavorite,
   onToggleNSFWFlag,
+  installed,
+  showLocalColumn,
 }: ModelRowProps) {
+  const { t } = useTranslation();
   const { theme } = useContext(ThemeContext);
   const { settings } = useSettings();
 
@@ -244,6 +252,10 @@ export const ModelRow = memo(function ModelRow({
     return summary;
   };
 
+  const installedTitle = installed?.length
+    ? `${t('table.installedLocally')}:\n${installed.map(i => `${i.runtime} · ${i.name}`).join('\n')}`
+    : undefined;
+
   return (
     <div
       onClick={(e) => {
@@ -265,7 +277,15 @@ export const ModelRow = memo(function ModelRow({
       <div className="col-span-3 flex min-w-0 items-center gap-2 overflow-hidden text-left">
         <Database className={`h-4 w-4 flex-shrink-0 align-middle ${textSecondary}`} />
         <div className="flex min-w-0 flex-col">
-          <span className={`truncate text-sm ${textMain}`} title={m.name || 'Unknown Model'}>{(m.name || 'Unknown Model').replace(/^[^/]+\//, '')}</span>
+          <span className="flex min-w-0 items-center gap-1">
+            <span className={`truncate text-sm ${textMain}`} title={m.name || 'Unknown Model'}>{(m.name || 'Unknown Model').replace(/^[^/]+\//, '')}</span>
+            {installed?.length ? (
+              <span className="inline-flex flex-shrink-0 items-center gap-0.5 rounded px-1 py-0.5 text-[10px] font-medium text-accent bg-accent/10" title={installedTitle}>
+                <HardDrive className="h-3 w-3" />
+                {t('table.installedBadge')}
+              </span>
+            ) : null}
+          </span>
           <span className={`truncate text-xs ${subtleText} flex items-center gap-1`}>
             <span className="truncate">{m.provider || ((m.name || '').includes('/') ? (m.name || '').split('/')[0] : '')}</span> · <Download className="h-3 w-3 flex-shrink-0 align-middle relative top-0.5" /> {kfmt(m.downloads || 0)}
           </span>
@@ -282,7 +302,12 @@ export const ModelRow = memo(function ModelRow({
       <div className={`col-span-2 text-sm ${textSecondary}`} title={getCostSummary(m)}>
         {getCostDisplay(m)}
       </div>
-      <div className={`col-span-2 truncate text-sm ${textSecondary}`} title={m.license?.name || 'Unknown'}>{m.license?.name || 'Unknown'}</div>
+      <div className={`${showLocalColumn ? 'col-span-1' : 'col-span-2'} truncate text-sm ${textSecondary}`} title={m.license?.name || 'Unknown'}>{m.license?.name || 'Unknown'}</div>
+      {showLocalColumn && (
+        <div className={`col-span-1 truncate text-sm ${textSecondary}`} title={installedTitle}>
+          {installed?.length ? Array.from(new Set(installed.map(i => i.runtime))).join(', ') : '—'}
+        </div>
+      )}
     </div>
   );
 });
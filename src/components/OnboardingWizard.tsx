@@ -6,6 +6,7 @@ import { useSettings } from '../context/SettingsContext';
 import { useBodyScrollLock } from '../hooks/useBodyScrollLock';
 import { ThemedSelect } from './ThemedSelect';
 import { handleExternalLink } from '../utils/external-links';
+import { getProxyRequest } from '../utils/electron';
 
 interface OnboardingWizardProps {
     isOpen: boolean;
@@ -35,6 +36,7 @@ export function OnboardingWizard({ isOpen, onClose, onComplete, initialStep = 1
         openmodeldb: settings?.dataSources?.openmodeldb ?? true,
         civitasbay: settings?.dataSources?.civitasbay ?? true,
         ollamaLibrary: settings?.dataSources?.ollamaLibrary ?? true,
+        modelscope: settings?.dataSources?.modelscope ?? true,
         apiDiscovery: settings?.dataSources?.apiDiscovery ?? true,
         localDiscovery: settings?.dataSources?.localDiscovery ?? true,
     }));
@@ -68,7 +70,7 @@ export function OnboardingWizard({ isOpen, onClose, onComplete, initialStep = 1
     const checkOllamaStatus = async () => {
         setOllamaStatus('checking');
         try {
-            const result = await window.electronAPI?.proxyRequest?.({
+            const result = await getProxyRequest()?.({
                 url: 'http://127.0.0.1:11434/api/tags',
                 method: 'GET'
             });
@@ -119,6 +121,7 @@ export function OnboardingWizard({ isOpen, onClose, onComplete, initialStep = 1
         { key: 'openmodeldb', label: 'OpenModelDB', description: t('onboarding.sourceDescs.openmodeldb'), requiresKey: false },
         { key: 'civitasbay', label: 'CivitasBay', description: t('onboarding.sourceDescs.civitasbay'), requiresKey: false },
         { key: 'ollamaLibrary', label: 'Ollama Library', description: t('onboarding.sourceDescs.ollamaLibrary'), requiresKey: false },
+        { key: 'modelscope', label: 'ModelScope', description: t('onboarding.sourceDescs.modelscope'), requiresKey: false },
     ], [t]);
 
     // Don't render if not open
@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ChartScatter, X } from "lucide-react";
+import { DOMAINS, Domain, Model } from "../types";
+import { useBodyScrollLock } from "../hooks/useBodyScrollLock";
+import { ThemedSelect } from "./ThemedSelect";
+import { CurrencyCode, formatCurrency } from "../utils/currency";
+import { listBenchmarks } from "../utils/benchmarks";
+import { FrontierPoint, HostingFilter, buildFrontier, cheapestMeeting, costPerMillion } from "../utils/frontier";
+
+interface PriceFrontierChartProps {
+	isOpen: boolean;
+	onClose: () => void;
+	models: Model[];
+	currency: CurrencyCode;
+	onOpenModel: (model: Model) => void;
+}
+
+const WIDTH = 760;
+const HEIGHT = 440;
+const PAD = { left: 64, right: 20, top: 16, bottom: 44 };
+
+// 1-2-5 ticks across every decade the cost axis spans
+const logTicks = (min: number, max: number): number[] => {
+	const ticks: number[] = [];
+	for (let exp = Math.floor(Math.log10(min)); exp <= Math.ceil(Math.log10(max)); exp++) {
+		for (const step of [1, 2, 5]) {
+			const tick = step * Math.pow(10, exp);
+			if (tick >= min && tick <= max) ticks.push(tick);
+		}
+	}
+	return ticks;
+};
+
+const linearTicks = (min: number, max: number, count = 5): number[] => {
+	const step = (max - min) / count;
+	return Array.from({ length: count + 1 }, (_, i) => min + step * i);
+};
+
+const formatScore = (score: number): string => score.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+/**
+ * Scatter of cost per million tokens against a benchmark. The Pareto
+ * frontier (nothing cheaper scores better) is connected, and an optional
+ * quality bar picks out the cheapest model that clears it.
+ */
+export function PriceFrontierChart({ isOpen, onClose, models, currency, onOpenModel }: PriceFrontierChartProps) {
+	const { t } = useTranslation();
+	const [domain, setDomain] = useState<Domain | 'All'>('All');
+	const [hosting, setHosting] = useState<HostingFilter>('all');
+	const [benchmarkKey, setBenchmarkKey] = useState<string | null>(null);
+	const [threshold, setThreshold] = useState('');
+	const [hovered, setHovered] = useState<FrontierPoint | null>(null);
+
+	useBodyScrollLock(isOpen);
+
+	// Only priced models can be plotted, so only their benchmarks are offered
+	const priced = useMemo(
+		() => (isOpen ? models.filter(m => costPerMillion(m) !== null) : []),
+		[isOpen, models]
+	);
+	const domains = useMemo(
+		() => DOMAINS.filter(d => priced.some(m => m.domain === d && m.benchmarks?.length)),
+		[priced]
+	);
+	const benchmarks = useMemo(() => listBenchmarks(priced, domain), [priced, domain]);
+	const benchmark = benchmarks.find(b => b.key === benchmarkKey) || benchmarks[0];
+	const points = useMemo(
+		() => (benchmark ? buildFrontier(priced, benchmark.key, { domain, hosting, currency }) : []),
+		[priced, benchmark, domain, hosting, currency]
+	);
+
+	if (!isOpen) return null;
+
+	const lowerIsBetter = !!benchmark?.lowerIsBetter;
+	const bar = threshold.trim() === '' ? null : Number(threshold);
+	const pick = bar !== null && Number.isFinite(bar) ? cheapestMeeting(points, bar, lowerIsBetter) : null;
+	const frontier = points.filter(p => p.onFrontier);
+
+	// Log cost axis; free models sit on its left edge
+	const positive = points.map(p => p.cost).filter(c => c > 0);
+	const xMin = positive.length ? Math.min(...positive) / 1.5 : 0.01;
+	const xMax = Math.max(positive.length ? Math.max(...positive) * 1.5 : 1, xMin * 10);
+	const scores = points.map(p => p.score);
+	const yPad = scores.length ? Math.max((Math.max(...scores) - Math.min(...scores)) * 0.08, 1) : 1;
+	const yMin = scores.length ? Math.min(...scores) - yPad : 0;
+	const yMax = scores.length ? Math.max(...scores) + yPad : 100;
+
+	const plotW = WIDTH - PAD.left - PAD.right;
+	const plotH = HEIGHT - PAD.top - PAD.bottom;
+	const x = (cost: number) => PAD.left + (Math.log10(Math.max(cost, xMin)) - Math.log10(xMin)) / (Math.log10(xMax) - Math.log10(xMin)) * plotW;
+	// Better scores are always drawn higher up
+	const y = (score: number) => PAD.top + (lowerIsBetter ? score - yMin : yMax - score) / (yMax - yMin) * plotH;
+
+	const frontierPath = frontier
+		.map((p, i) => (i === 0 ? `M${x(p.cost)},${y(p.score)}` : `H${x(p.cost)} V${y(p.score)}`))
+		.join(' ');
+
+	const hostingOptions: { value: HostingFilter; label: string }[] = [
+		{ value: 'all', label: t('frontier.hosting.all') },
+		{ value: 'api', label: t('frontier.hosting.api') },
+		{ value: 'weights', label: t('frontier.hosting.weights') },
+		{ value: 'on-premise', label: t('frontier.hosting.onPremise') }
+	];
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+			<div
+				className="w-full max-w-6xl h-[85vh] rounded-2xl border border-border bg-bg text-text shadow-2xl flex flex-col"
+				onClick={(e) => e.stopPropagation()}
+			>
+				{/* Header */}
+				<div className="flex items-center justify-between p-6 border-b border-border">
+					<div className="flex items-center gap-3">
+						<ChartScatter className="size-6 text-accent" />
+						<div>
+							<h2 className="text-xl font-semibold">{t('frontier.title')}</h2>
+							<p className="text-xs text-text-secondary">{t('frontier.description', { currency })}</p>
+						</div>
+					</div>
+					<button
+						onClick={onClose}
+						className="rounded-xl border border-border bg-input p-2 hover:opacity-80 transition-opacity"
+						title={t('common.close', 'Close')}
+					>
+						<X className="size-5" />
+					</button>
+				</div>
+
+				{/* Controls */}
+				<div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-border text-sm">
+					<div className="w-36">
+						<ThemedSelect
+							value={domain}
+							onChange={(v) => setDomain(v as Domain | 'All')}
+							options={[{ value: 'All', label: t('leaderboard.allDomains') }, ...domains.map(d => ({ value: d, label: d }))]}
+							ariaLabel={t('leaderboard.domain')}
+						/>
+					</div>
+					<div className="w-44">
+						<ThemedSelect
+							value={hosting}
+							onChange={(v) => setHosting(v as HostingFilter)}
+							options={hostingOptions}
+							ariaLabel={t('frontier.hosting.label')}
+						/>
+					</div>
+					<div className="w-64">
+						<ThemedSelect
+							value={benchmark?.key || ''}
+							onChange={setBenchmarkKey}
+							options={benchmarks.map(b => ({ value: b.key, label: t('leaderboard.benchmarkOption', { name: b.label, count: b.count }) }))}
+							placeholder={t('leaderboard.noBenchmarks')}
+							disabled={benchmarks.length === 0}
+							ariaLabel={t('leaderboard.benchmark')}
+						/>
+					</div>
+					<label className="flex items-center gap-2 text-xs text-text-secondary">
+						{lowerIsBetter ? t('frontier.maxScore') : t('frontier.minScore')}
+						<input
+							type="number"
+							value={threshold}
+							onChange={(e) => setThreshold(e.target.value)}
+							className="w-20 rounded-lg border border-border bg-bg-input px-2 py-1 text-sm text-text"
+						/>
+					</label>
+				</div>
+
+				{points.length === 0 ? (
+					<div className="flex flex-1 items-center justify-center text-sm text-text-secondary">
+						{t('frontier.empty')}
+					</div>
+				) : (
+					<div className="flex flex-1 min-h-0">
+						<div className="flex-1 min-w-0 p-4 flex flex-col">
+							<svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full flex-1 min-h-0 text-text-secondary" role="img" aria-label={t('frontier.title')}>
+								{/* Grid and axes */}
+								{logTicks(xMin, xMax).map(tick => (
+									<g key={`x${tick}`}>
+										<line x1={x(tick)} x2={x(tick)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="currentColor" strokeOpacity={0.15} />
+										<text x={x(tick)} y={HEIGHT - PAD.bottom + 16} textAnchor="middle" fontSize={11} fill="currentColor">{formatCurrency(tick, currency)}</text>
+									</g>
+								))}
+								{linearTicks(yMin, yMax).map(tick => (
+									<g key={`y${tick}`}>
+										<line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(tick)} y2={y(tick)} stroke="currentColor" strokeOpacity={0.15} />
+										<text x={PAD.left - 8} y={y(tick) + 4} textAnchor="end" fontSize={11} fill="currentColor">{formatScore(tick)}</text>
+									</g>
+								))}
+								<text x={PAD.left + plotW / 2} y={HEIGHT - 6} textAnchor="middle" fontSize={12} fill="currentColor">
+									{t('frontier.xAxis', { currency })}
+								</text>
+								<text x={14} y={PAD.top + plotH / 2} textAnchor="middle" fontSize={12} fill="currentColor" transform={`rotate(-90 14 ${PAD.top + plotH / 2})`}>
+									{benchmark?.label}
+								</text>
+
+								{/* Quality bar */}
+								{bar !== null && bar >= yMin && bar <= yMax && (
+									<line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(bar)} y2={y(bar)} className="text-orange-500" stroke="currentColor" strokeDasharray="6 4" />
+								)}
+
+								{/* Frontier */}
+								<path d={frontierPath} fill="none" className="text-accent" stroke="currentColor" strokeWidth={2} />
+
+								{points.map(point => (
+									<circle
+										key={point.model.id}
+										cx={x(point.cost)}
+										cy={y(point.score)}
+										r={point === pick ? 7 : point.onFrontier ? 5 : 4}
+										className={point === pick ? 'text-orange-500' : point.onFrontier ? 'text-accent' : 'text-text-secondary'}
+										fill="currentColor"
+										fillOpacity={point.onFrontier || point === pick ? 1 : 0.45}
+										stroke={point === hovered ? 'currentColor' : 'none'}
+										strokeWidth={3}
+										style={{ cursor: 'pointer' }}
+										onMouseEnter={() => setHovered(point)}
+										onMouseLeave={() => setHovered(null)}
+										onClick={() => onOpenModel(point.model)}
+									>
+										<title>{`${point.model.name} · ${formatCurrency(point.cost, currency)} · ${formatScore(point.score)}`}</title>
+									</circle>
+								))}
+							</svg>
+							<div className="h-5 text-xs text-text-secondary truncate">
+								{hovered
+									? t('frontier.point', { name: hovered.model.name, cost: formatCurrency(hovered.cost, currency), score: formatScore(hovered.score), source: hovered.entry.source || 'model-index' })
+									: pick
+										? t('frontier.pick', { name: pick.model.name, cost: formatCurrency(pick.cost, currency) })
+										: bar !== null && t('frontier.noPick')}
+							</div>
+						</div>
+
+						{/* Frontier models */}
+						<div className="w-72 border-l border-border overflow-y-auto">
+							<div className="px-4 py-2 text-xs font-medium text-text-secondary border-b border-border sticky top-0 bg-bg">
+								{t('frontier.frontierModels', { count: frontier.length, total: points.length })}
+							</div>
+							{frontier.map(point => (
+								<button
+									key={point.model.id}
+									onClick={() => onOpenModel(point.model)}
+									onMouseEnter={() => setHovered(point)}
+									onMouseLeave={() => setHovered(null)}
+									className={`w-full flex items-center justify-between gap-2 px-4 py-2 text-left text-sm border-b border-border hover:bg-bg-hover ${point === pick ? 'bg-orange-500/10' : ''}`}
+								>
+									<span className="truncate">{point.model.name}</span>
+									<span className="shrink-0 text-xs text-text-secondary tabular-nums">
+										{formatScore(point.score)} · {formatCurrency(point.cost, currency)}
+									</span>
+								</button>
+							))}
+						</div>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
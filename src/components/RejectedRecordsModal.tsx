@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { ShieldAlert, X, RotateCcw, Trash2 } from "lucide-react";
+import { Model, RejectedRecord } from "../types";
+import { useBodyScrollLock } from "../hooks/useBodyScrollLock";
+import { clearQuarantine, gateRecords, removeFromQuarantine } from "../services/syncService";
+import { dedupe } from "../utils/format";
+
+interface RejectedRecordsModalProps {
+	isOpen: boolean;
+	onClose: () => void;
+	records: RejectedRecord[];
+	setModels: React.Dispatch<React.SetStateAction<Model[]>>;
+	addConsoleLog: (msg: string) => void;
+}
+
+const labelOf = (record: RejectedRecord): string => {
+	const raw = record.raw as Record<string, unknown> | null;
+	const label = raw && typeof raw === 'object' ? raw.name ?? raw.id : undefined;
+	return typeof label === 'string' || typeof label === 'number' ? String(label) : '—';
+};
+
+/**
+ * Quarantined records from syncs and imports. Each entry shows its
+ * validation errors and raw payload; the payload can be edited and
+ * re-checked, and accepted records are added to the database.
+ */
+export function RejectedRecordsModal({ isOpen, onClose, records, setModels, addConsoleLog }: RejectedRecordsModalProps) {
+	const { t } = useTranslation();
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [draft, setDraft] = useState<string | null>(null);
+	const [retryErrors, setRetryErrors] = useState<string[]>([]);
+
+	useBodyScrollLock(isOpen);
+
+	if (!isOpen) return null;
+
+	const selected = records.find(r => r.id === selectedId) || records[0] || null;
+	const payload = draft ?? (selected ? JSON.stringify(selected.raw, null, 2) : '');
+
+	const select = (id: string) => {
+		setSelectedId(id);
+		setDraft(null);
+		setRetryErrors([]);
+	};
+
+	const handleRetry = (record: RejectedRecord) => {
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(payload);
+		} catch (error) {
+			setRetryErrors([t('rejectedRecords.invalidJson', { error: error instanceof Error ? error.message : String(error) })]);
+			return;
+		}
+		const { accepted, rejected } = gateRecords([parsed], { source: record.source, kind: record.kind });
+		if (rejected.length > 0) {
+			setRetryErrors(rejected[0].errors);
+			return;
+		}
+		setModels(prev => dedupe([...prev, ...accepted]));
+		removeFromQuarantine([record.id]);
+		addConsoleLog(`Rejected records: accepted "${accepted[0].name}" from ${record.source} after fixing`);
+		setSelectedId(null);
+		setDraft(null);
+		setRetryErrors([]);
+	};
+
+	const handleDismiss = (record: RejectedRecord) => {
+		removeFromQuarantine([record.id]);
+		setSelectedId(null);
+		setDraft(null);
+		setRetryErrors([]);
+	};
+
+	const handleDismissAll = () => {
+		if (!confirm(t('rejectedRecords.confirmDismissAll', { count: records.length }))) return;
+		clearQuarantine();
+		addConsoleLog(`Rejected records: dismissed ${records.length} records`);
+	};
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+			<div
+				className="w-full max-w-5xl h-[85vh] rounded-2xl border border-border bg-bg text-text shadow-2xl flex flex-col"
+				onClick={(e) => e.stopPropagation()}
+			>
+				{/* Header */}
+				<div className="flex items-center justify-between p-6 border-b border-border">
+					<div className="flex items-center gap-3">
+						<ShieldAlert className="size-6 text-orange-500" />
+						<div>
+							<h2 className="text-xl font-semibold">{t('rejectedRecords.title')}</h2>
+							<p className="text-xs text-text-secondary">{t('rejectedRecords.description')}</p>
+						</div>
+					</div>
+					<div className="flex items-center gap-2">
+						{records.length > 0 && (
+							<button
+								onClick={handleDismissAll}
+								className="flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs border border-border hover:text-red-400"
+							>
+								<Trash2 className="size-3" />
+								{t('rejectedRecords.dismissAll')}
+							</button>
+						)}
+						<button
+							onClick={onClose}
+							className="rounded-xl border border-border bg-input p-2 hover:opacity-80 transition-opacity ml-2"
+							title={t('common.close', 'Close')}
+						>
+							<X className="size-5" />
+						</button>
+					</div>
+				</div>
+
+				{records.length === 0 ? (
+					<div className="flex flex-1 items-center justify-center text-sm text-text-secondary">
+						{t('rejectedRecords.empty')}
+					</div>
+				) : (
+					<div className="flex flex-1 min-h-0">
+						{/* Record list */}
+						<div className="w-72 shrink-0 border-r border-border overflow-y-auto">
+							{records.map(record => (
+								<button
+									key={record.id}
+									onClick={() => select(record.id)}
+									className={`w-full text-left px-4 py-3 border-b border-border hover:bg-bg-hover ${selected?.id === record.id ? 'bg-bg-hover' : ''}`}
+								>
+									<div className="text-sm font-medium truncate">{labelOf(record)}</div>
+									<div className="text-xs text-text-secondary truncate">
+										{record.source} · {new Date(record.rejected_at).toLocaleString()}
+									</div>
+									<div className="text-xs text-red-400 truncate">{record.errors[0]}</div>
+								</button>
+							))}
+						</div>
+
+						{/* Selected record */}
+						{selected && (
+							<div className="flex-1 min-w-0 flex flex-col p-6 gap-4 overflow-y-auto">
+								<div>
+									<h3 className="text-sm font-semibold mb-2">{t('rejectedRecords.errors')}</h3>
+									<ul className="p-3 rounded-lg border border-red-500/40 bg-red-500/10 text-xs text-red-400 list-disc list-inside space-y-0.5">
+										{(retryErrors.length > 0 ? retryErrors : selected.errors).map(err => <li key={err} className="font-mono">{err}</li>)}
+									</ul>
+								</div>
+								<div className="flex flex-1 flex-col min-h-[12rem]">
+									<h3 className="text-sm font-semibold mb-2">{t('rejectedRecords.payload')}</h3>
+									<textarea
+										value={payload}
+										onChange={(e) => setDraft(e.target.value)}
+										spellCheck={false}
+										className="flex-1 w-full rounded-lg border border-border bg-bg-input p-3 font-mono text-xs"
+									/>
+								</div>
+								<div className="flex items-center justify-end gap-2">
+									<button
+										onClick={() => handleDismiss(selected)}
+										className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm border border-border hover:bg-bg-elevated transition-colors"
+									>
+										<Trash2 size={14} />
+										{t('rejectedRecords.dismiss')}
+									</button>
+									<button
+										onClick={() => handleRetry(selected)}
+										className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm bg-accent hover:bg-accent-dark text-white transition-colors"
+									>
+										<RotateCcw size={14} />
+										{t('rejectedRecords.retry')}
+									</button>
+								</div>
+							</div>
+						)}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -1,5 +1,5 @@
 import React, { useContext, useState } from 'react';
-import { X, Settings, Database, Shield, Server, Palette, Info, History } from 'lucide-react';
+import { X, Settings, Database, Shield, Server, Palette, Info, History, GitMerge } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import ThemeContext from '../context/ThemeContext';
 import { useSettings } from '../context/SettingsContext';
@@ -14,6 +14,8 @@ import { DisplaySection } from './settings/DisplaySection';
 import { SecuritySection } from './settings/SecuritySection';
 import { SystemSection } from './settings/SystemSection';
 import { HistorySection } from './settings/HistorySection';
+import { MergePoliciesSection } from './settings/MergePoliciesSection';
+import { IdentityAliasesSection } from './settings/IdentityAliasesSection';
 import { Model } from '../types';
 
 interface SettingsModalProps {
@@ -44,6 +46,7 @@ export function SettingsModal({ isOpen, onClose, onSync, addConsoleLog, currentM
   const tabs = [
     { id: 'data-sources', label: t('settings.tabs.dataSources'), icon: Database },
     { id: 'history', label: t('settings.tabs.history'), icon: History },
+    { id: 'merging', label: t('settings.tabs.merging'), icon: GitMerge },
     { id: 'api-config', label: t('settings.tabs.apiConfig'), icon: Server },
     { id: 'validation', label: t('settings.tabs.validation'), icon: Shield },
     { id: 'display', label: t('settings.tabs.display'), icon: Palette },
@@ -57,6 +60,13 @@ export function SettingsModal({ isOpen, onClose, onSync, addConsoleLog, currentM
         return <DataSourcesSection onSync={onSync} addConsoleLog={addConsoleLog} />;
       case 'history':
         return <HistorySection currentModels={currentModels} onRestore={onRestore} addConsoleLog={addConsoleLog} />;
+      case 'merging':
+        return (
+          <div className="space-y-10">
+            <MergePoliciesSection />
+            <IdentityAliasesSection />
+          </div>
+        );
       case 'api-config':
         return <APIConfigSection />;
       case 'validation':
@@ -0,0 +1,122 @@
+/**
+ * Lineage Graph Component
+ *
+ * Shows a model's base models above it and its derivatives (fine-tunes,
+ * adapters, quantizations, merges) below it, with license risk inherited
+ * from the bases.
+ */
+
+import React, { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { GitBranch } from 'lucide-react';
+import { Model } from '../../types';
+import { buildLineageGraph, ancestorsOf, descendantsOf, LineageNode } from '../../utils/lineage';
+import { riskScore } from '../../utils/format';
+import { RiskBadge } from '../RiskBadge';
+
+interface LineageGraphProps {
+    /** Model shown in the detail panel */
+    model: Model;
+    /** Whole database, used to resolve bases and derivatives */
+    models: Model[];
+    /** Opens another model in the detail panel */
+    onOpenModel?: (model: Model) => void;
+    /** Filters the table to every derivative of the model */
+    onShowDerivatives?: (model: Model) => void;
+}
+
+// Derivatives listed inline; the rest are reachable through the filter
+const MAX_DESCENDANTS = 12;
+
+/**
+ * Base models and derivatives of a model as an indented tree
+ */
+export function LineageGraph({ model, models, onOpenModel, onShowDerivatives }: LineageGraphProps) {
+    const { t } = useTranslation();
+    const graph = useMemo(() => buildLineageGraph(models), [models]);
+    const ancestors = useMemo(() => ancestorsOf(graph, model.id), [graph, model.id]);
+    const descendants = useMemo(() => descendantsOf(graph, model.id), [graph, model.id]);
+    const unresolved = graph.unresolved.get(model.id) ?? [];
+
+    if (!ancestors.length && !descendants.length && !unresolved.length) return null;
+
+    const ownRisk = riskScore(model);
+    const risk = riskScore(model, ancestors.map(n => n.model));
+    const inherited = risk.level !== ownRisk.level;
+    const maxDepth = ancestors.reduce((max, n) => Math.max(max, n.depth), 0);
+
+    const relationLabel = (relation?: string) =>
+        relation ? t(`detailPanel.lineage.relations.${relation}`, relation) : t('detailPanel.lineage.relations.derived');
+
+    const renderNode = (node: LineageNode, indent: number) => (
+        <button
+            key={node.model.id}
+            type="button"
+            onClick={() => onOpenModel?.(node.model)}
+            disabled={!onOpenModel}
+            className="flex w-full items-center gap-2 rounded-md border border-border px-2 py-1 text-left hover:bg-bg-hover disabled:cursor-default"
+            style={{ marginLeft: indent * 12 }}
+            title={node.model.id}
+        >
+            <span className="truncate">{node.model.name}</span>
+            <span className="ml-auto shrink-0 text-[11px] text-text-secondary">{node.model.license?.name}</span>
+        </button>
+    );
+
+    return (
+        <section className="mt-4 rounded-xl border border-border p-4 text-sm">
+            <div className="mb-2 flex items-center gap-2">
+                <GitBranch className="size-4" />
+                <strong className="text-sm">{t('detailPanel.lineage.title')}</strong>
+                {inherited && (
+                    <span className="ml-auto">
+                        <RiskBadge level={risk.level} reason={risk.reason} />
+                    </span>
+                )}
+            </div>
+
+            <div className="space-y-1">
+                {unresolved.map(ref => (
+                    <div key={ref} className="rounded-md border border-dashed border-border px-2 py-1 text-text-secondary" title={t('detailPanel.lineage.notInDatabase')}>
+                        {ref}
+                    </div>
+                ))}
+                {/* Farthest base first, so the tree reads top-down */}
+                {[...ancestors].reverse().map(node => (
+                    <div key={node.model.id}>
+                        {renderNode(node, maxDepth - node.depth)}
+                        <div className="text-[11px] text-text-secondary" style={{ marginLeft: (maxDepth - node.depth + 1) * 12 }}>
+                            ↳ {relationLabel(node.relation)}
+                        </div>
+                    </div>
+                ))}
+                <div
+                    className="rounded-md border-2 border-accent px-2 py-1 font-medium"
+                    style={{ marginLeft: maxDepth * 12 }}
+                >
+                    {model.name}
+                </div>
+                {descendants.slice(0, MAX_DESCENDANTS).map(node => (
+                    <div key={node.model.id} className="flex items-center gap-2" style={{ marginLeft: (maxDepth + node.depth) * 12 }}>
+                        <span className="shrink-0 text-[11px] text-text-secondary">↳ {relationLabel(node.relation)}</span>
+                        {renderNode(node, 0)}
+                    </div>
+                ))}
+            </div>
+
+            {inherited && (
+                <p className="mt-2 text-xs text-text-secondary">{risk.reason}</p>
+            )}
+
+            {descendants.length > 0 && onShowDerivatives && (
+                <button
+                    type="button"
+                    onClick={() => onShowDerivatives(model)}
+                    className="mt-2 text-xs font-medium text-accent hover:underline"
+                >
+                    {t('detailPanel.lineage.showDerivatives', { count: descendants.length })}
+                </button>
+            )}
+        </section>
+    );
+}
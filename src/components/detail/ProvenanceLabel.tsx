@@ -0,0 +1,46 @@
+/**
+ * Provenance Label Component
+ *
+ * Displays a field label with a tooltip showing where the field's value
+ * came from (source, origin kind and fetch time).
+ */
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { FieldProvenance } from '../../types';
+import { fmtDate } from '../../utils/format';
+
+interface ProvenanceLabelProps {
+    /** Label text to display */
+    label: string;
+    /** Provenance entry for the labelled field */
+    provenance?: FieldProvenance;
+    /** Additional class names for the label */
+    className?: string;
+}
+
+/**
+ * Field label with hover tooltip showing the field's provenance
+ */
+export function ProvenanceLabel({ label, provenance, className = '' }: ProvenanceLabelProps) {
+    const { t } = useTranslation();
+
+    if (!provenance) {
+        return <span className={className}>{label}</span>;
+    }
+
+    const tip = t('detailPanel.provenance.tooltip', {
+        source: provenance.source,
+        kind: t(`detailPanel.provenance.kinds.${provenance.kind}`, provenance.kind),
+        date: fmtDate(provenance.fetched_at)
+    });
+
+    return (
+        <span
+            className={`cursor-help underline decoration-dotted underline-offset-2 ${className}`}
+            title={tip}
+        >
+            {label}
+        </span>
+    );
+}
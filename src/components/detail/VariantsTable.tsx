@@ -0,0 +1,76 @@
+/**
+ * Variants Table Component
+ *
+ * Lists a model's downloadable builds (Ollama tags, GGUF files) with
+ * quantization, download size, parameter size and context length.
+ */
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HardDrive } from 'lucide-react';
+import { ModelVariant } from '../../types';
+import { formatByteSize } from '../../utils/variants';
+
+interface VariantsTableProps {
+    /** Variants to list */
+    variants: ModelVariant[];
+}
+
+// Popular models have dozens of tags; show the smallest first and collapse the rest
+const COLLAPSED_ROWS = 8;
+
+/**
+ * Variants sorted by download size, smallest first
+ */
+export function VariantsTable({ variants }: VariantsTableProps) {
+    const { t } = useTranslation();
+    const [expanded, setExpanded] = useState(false);
+
+    if (!variants.length) return null;
+
+    const sorted = [...variants].sort((a, b) => (a.size_bytes ?? Infinity) - (b.size_bytes ?? Infinity));
+    const rows = expanded ? sorted : sorted.slice(0, COLLAPSED_ROWS);
+
+    return (
+        <section className="mt-4 rounded-xl border border-border p-4 text-sm">
+            <div className="mb-2 flex items-center gap-2">
+                <HardDrive className="size-4" />
+                <strong className="text-sm">{t('detailPanel.variants.title')}</strong>
+                <span className="text-xs text-text-secondary">({variants.length})</span>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-left text-text-secondary">
+                            <th className="py-1 pr-2 font-medium">{t('detailPanel.variants.name')}</th>
+                            <th className="py-1 pr-2 font-medium">{t('detailPanel.variants.quantization')}</th>
+                            <th className="py-1 pr-2 font-medium text-right">{t('detailPanel.variants.size')}</th>
+                            <th className="py-1 pr-2 font-medium text-right">{t('detailPanel.variants.parameters')}</th>
+                            <th className="py-1 font-medium text-right">{t('detailPanel.variants.context')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(v => (
+                            <tr key={v.name} className="border-t border-border">
+                                <td className="py-1 pr-2 font-mono truncate max-w-[10rem]" title={v.name}>{v.name}</td>
+                                <td className="py-1 pr-2">{v.quantization || '—'}</td>
+                                <td className="py-1 pr-2 text-right">{formatByteSize(v.size_bytes)}</td>
+                                <td className="py-1 pr-2 text-right">{v.parameters || '—'}</td>
+                                <td className="py-1 text-right">{v.context_length ? `${Math.round(v.context_length / 1024)}K` : '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {sorted.length > COLLAPSED_ROWS && (
+                <button
+                    type="button"
+                    onClick={() => setExpanded(e => !e)}
+                    className="mt-2 text-xs font-medium text-accent hover:underline"
+                >
+                    {expanded ? t('detailPanel.variants.showLess') : t('detailPanel.variants.showAll', { count: sorted.length })}
+                </button>
+            )}
+        </section>
+    );
+}
@@ -6,3 +6,6 @@
 
 export { GalleryImage } from './GalleryImage';
 export { LicenseHover, LICENSE_TIPS } from './LicenseHover';
+export { ProvenanceLabel } from './ProvenanceLabel';
+export { LineageGraph } from './LineageGraph';
+export { VariantsTable } from './VariantsTable';
@@ -2,7 +2,7 @@
  * Filters Sidebar Component
  * 
  * Sidebar panel containing all filter controls for the model database.
- * Provides domain, downloads, license, commercial use, and tag filtering.
+ * Provides domain, downloads, license, commercial use, download size and tag filtering.
  * 
  * @module FiltersSidebar
  */
@@ -37,6 +37,8 @@ export interface FiltersSidebarProps {
     onFavoritesOnlyChange: (enabled: boolean) => void;
     hideNSFW: boolean;
     onHideNSFWChange: (enabled: boolean) => void;
+    maxSizeGB: number | null;
+    onMaxSizeGBChange: (gb: number | null) => void;
     onClearFilters: () => void;
     theme: "light" | "dark";
 }
@@ -59,6 +61,8 @@ export function FiltersSidebar({
     onFavoritesOnlyChange,
     hideNSFW,
     onHideNSFWChange,
+    maxSizeGB,
+    onMaxSizeGBChange,
     theme
 }: FiltersSidebarProps) {
     const { t } = useTranslation();
@@ -164,6 +168,20 @@ export function FiltersSidebar({
                     />
                 </div>
 
+                {/* Download Size Filter */}
+                <div className="mb-4">
+                    <label className="block text-sm font-medium mb-2 text-text">{t('filters.fitsIn')}</label>
+                    <input
+                        type="number"
+                        value={maxSizeGB ?? ""}
+                        min={0}
+                        step={0.5}
+                        onChange={e => onMaxSizeGBChange(Number(e.target.value) > 0 ? Number(e.target.value) : null)}
+                        className={`w-full rounded-xl border ${bgInput} px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${theme === 'dark' ? 'text-white' : 'text-gray-900'}`}
+                        placeholder={t('filters.fitsInPlaceholder')}
+                    />
+                </div>
+
                 {/* Tags Filter */}
                 <div className="mb-4">
                     <label className="block text-sm font-medium mb-2 text-text">{t('filters.includeTags')}</label>
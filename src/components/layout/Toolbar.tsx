@@ -8,7 +8,7 @@
  */
 
 import React from "react";
-import { RefreshCw, ChevronLeft, ChevronRight, Download as DownloadIcon, Trash2, ShieldCheck } from "lucide-react";
+import { RefreshCw, ChevronLeft, ChevronRight, Download as DownloadIcon, Trash2, ShieldCheck, GitMerge, ShieldAlert, Trophy, ChartScatter } from "lucide-react";
 import { useTranslation } from 'react-i18next';
 import { ThemedSelect } from "../ThemedSelect";
 import { Model } from "../../types";
@@ -33,6 +33,14 @@ export interface ToolbarProps {
     onExport: () => void;
     onDeleteDatabase: () => void;
     onValidateModels: () => void;
+    onReviewDuplicates?: () => void;
+    /** Automatic merges waiting for review */
+    pendingMergeCount?: number;
+    onReviewRejected?: () => void;
+    /** Records held in the ingestion quarantine */
+    rejectedCount?: number;
+    onOpenLeaderboard?: () => void;
+    onOpenFrontier?: () => void;
     theme: "light" | "dark";
     hasDetailOpen?: boolean;
 }
@@ -60,6 +68,12 @@ export function Toolbar({
     onExport,
     onDeleteDatabase,
     onValidateModels,
+    onReviewDuplicates,
+    pendingMergeCount = 0,
+    onReviewRejected,
+    rejectedCount = 0,
+    onOpenLeaderboard,
+    onOpenFrontier,
     theme,
     hasDetailOpen = false,
 }: ToolbarProps) {
@@ -162,6 +176,50 @@ export function Toolbar({
                     <ShieldCheck className="size-3" />
                     {t('toolbar.validate')}
                 </button>
+                {onOpenLeaderboard && (
+                    <button
+                        onClick={onOpenLeaderboard}
+                        className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs transition-colors border bg-bg-card border-border text-text hover:bg-bg/10"
+                        title={t('toolbar.leaderboard')}
+                    >
+                        <Trophy className="size-3" />
+                        {t('toolbar.leaderboard')}
+                    </button>
+                )}
+                {onOpenFrontier && (
+                    <button
+                        onClick={onOpenFrontier}
+                        className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs transition-colors border bg-bg-card border-border text-text hover:bg-bg/10"
+                        title={t('toolbar.frontier')}
+                    >
+                        <ChartScatter className="size-3" />
+                        {t('toolbar.frontier')}
+                    </button>
+                )}
+                {onReviewDuplicates && (
+                    <button
+                        onClick={onReviewDuplicates}
+                        className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs transition-colors border bg-bg-card border-border text-text hover:bg-bg/10"
+                        title={t('toolbar.duplicates')}
+                    >
+                        <GitMerge className="size-3" />
+                        {t('toolbar.duplicates')}
+                        {pendingMergeCount > 0 && (
+                            <span className="ml-0.5 px-1.5 rounded-full bg-accent/20 text-accent text-[10px] font-semibold tabular-nums">{pendingMergeCount}</span>
+                        )}
+                    </button>
+                )}
+                {onReviewRejected && rejectedCount > 0 && (
+                    <button
+                        onClick={onReviewRejected}
+                        className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs transition-colors border bg-bg-card border-border text-text hover:bg-bg/10"
+                        title={t('toolbar.rejected')}
+                    >
+                        <ShieldAlert className="size-3 text-orange-500" />
+                        {t('toolbar.rejected')}
+                        <span className="ml-0.5 px-1.5 rounded-full bg-orange-500/20 text-orange-500 text-[10px] font-semibold tabular-nums">{rejectedCount}</span>
+                    </button>
+                )}
             </div>
         </div>
     );
@@ -4,6 +4,7 @@ import { Server, Eye, EyeOff, RefreshCw, CheckCircle, AlertCircle, Check, Downlo
 import ThemeContext from '../../context/ThemeContext';
 import { useSettings } from '../../context/SettingsContext';
 import { ThemedSelect } from '../ThemedSelect';
+import { getProxyRequest } from '../../utils/electron';
 
 export function APIConfigSection() {
   const { t } = useTranslation();
@@ -267,7 +268,7 @@ export function APIConfigSection() {
         params.append('limit', '100');
 
         const url = `${baseUrl}/models?${params.toString()}`;
-        const result = await window.electronAPI?.proxyRequest?.({ url, method: 'GET', headers });
+        const result = await getProxyRequest()?.({ url, method: 'GET', headers });
         if (!result?.success) throw new Error(result?.error || t('settings.apiConfig.errors.fetchFailed'));
         if (result.data.data) allModels = result.data.data;
 
@@ -278,7 +279,7 @@ export function APIConfigSection() {
 
         const url = `${baseUrl}/models?${params.toString()}`;
         const googleHeaders = { ...headers }; // Ensure no auth header from other protocols
-        const result = await window.electronAPI?.proxyRequest?.({ url, method: 'GET', headers: googleHeaders });
+        const result = await getProxyRequest()?.({ url, method: 'GET', headers: googleHeaders });
         if (!result?.success) throw new Error(result?.error || t('settings.apiConfig.errors.fetchFailed'));
         if (result.data.models) allModels = result.data.models;
 
@@ -286,7 +287,7 @@ export function APIConfigSection() {
       } else if (protocol === 'ollama') {
         // Ollama native API
         const url = `${baseUrl}/api/tags`; // Standard Ollama endpoint
-        const result = await window.electronAPI?.proxyRequest?.({ url, method: 'GET', headers });
+        const result = await getProxyRequest()?.({ url, method: 'GET', headers });
         if (!result?.success) throw new Error(result?.error || t('settings.apiConfig.errors.fetchFailed'));
         // Response: { models: [ { name: 'llama2', ... } ] }
         if (result.data.models) allModels = result.data.models;
@@ -296,7 +297,7 @@ export function APIConfigSection() {
         // OpenAI Compatible (default)
         if (apiKeyToUse) headers['Authorization'] = `Bearer ${apiKeyToUse}`;
         const url = `${baseUrl}/models`;
-        const result = await window.electronAPI?.proxyRequest?.({ url, method: 'GET', headers });
+        const result = await getProxyRequest()?.({ url, method: 'GET', headers });
         if (!result?.success) throw new Error(result?.error || t('settings.apiConfig.errors.fetchFailed'));
 
         if (Array.isArray(result.data)) {
@@ -383,7 +384,7 @@ export function APIConfigSection() {
     try {
       // Clean URL
       const cleanUrl = baseUrl.replace(/\/$/, '');
-      const result = await window.electronAPI?.proxyRequest?.({
+      const result = await getProxyRequest()?.({
         url: `${cleanUrl}/api/tags`,
         method: 'GET'
       });
@@ -0,0 +1,419 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, Eye, Globe, Pencil, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { useSettings } from '../../context/SettingsContext';
+import { CustomSourceConfig, CustomSourcePagination, Model } from '../../types';
+import { ThemedSelect } from '../ThemedSelect';
+import {
+    CUSTOM_SOURCE_FIELDS,
+    createCustomSourceId,
+    fetchCustomSource,
+    validateCustomSource
+} from '../../services/syncService';
+
+interface CustomSourcesCardProps {
+    addConsoleLog: (msg: string) => void;
+}
+
+interface PreviewState {
+    loading: boolean;
+    error?: string;
+    models?: Model[];
+    records?: unknown[];
+}
+
+const PREVIEW_ROWS = 20;
+const PAGINATION_STYLES: CustomSourcePagination['style'][] = ['none', 'page', 'offset', 'cursor'];
+
+const emptySource = (): CustomSourceConfig => ({
+    id: '',
+    name: '',
+    enabled: false,
+    url: '',
+    itemsPath: '$',
+    pagination: { style: 'none', maxPages: 10 },
+    mapping: { id: '$.id', name: '$.name' }
+});
+
+/** One "raw = value" pair per line */
+const formatValueMap = (map?: Record<string, string>): string =>
+    Object.entries(map || {}).map(([raw, value]) => `${raw} = ${value}`).join('\n');
+
+const parseValueMap = (text: string): Record<string, string> | undefined => {
+    const entries = text.split('\n')
+        .map(line => line.split('='))
+        .filter(parts => parts.length >= 2 && parts[0].trim())
+        .map(([raw, ...value]) => [raw.trim(), value.join('=').trim()] as const);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+export function CustomSourcesCard({ addConsoleLog }: CustomSourcesCardProps) {
+    const { t } = useTranslation();
+    const { settings, saveSettings } = useSettings();
+    const sources = settings.customSources || [];
+    const [draft, setDraft] = useState<CustomSourceConfig | null>(null);
+    const [domainMapText, setDomainMapText] = useState('');
+    const [licenseMapText, setLicenseMapText] = useState('');
+    const [errors, setErrors] = useState<string[]>([]);
+    const [preview, setPreview] = useState<PreviewState | null>(null);
+
+    const inputClass = 'w-full rounded border border-border bg-bg-input text-text px-2 py-1.5 text-xs';
+    const labelClass = 'text-xs text-text-subtle block mb-1';
+
+    const openEditor = (source: CustomSourceConfig) => {
+        setDraft(source);
+        setDomainMapText(formatValueMap(source.domainMap));
+        setLicenseMapText(formatValueMap(source.licenseMap));
+        setErrors([]);
+        setPreview(null);
+    };
+
+    const currentDraft = (): CustomSourceConfig | null => draft && {
+        ...draft,
+        domainMap: parseValueMap(domainMapText),
+        licenseMap: parseValueMap(licenseMapText)
+    };
+
+    const update = (patch: Partial<CustomSourceConfig>) => setDraft(prev => prev && { ...prev, ...patch });
+    const updatePagination = (patch: Partial<CustomSourcePagination>) =>
+        setDraft(prev => prev && { ...prev, pagination: { ...prev.pagination, ...patch } });
+
+    const handlePreview = async () => {
+        const config = currentDraft();
+        if (!config) return;
+        const problems = validateCustomSource(config);
+        setErrors(problems);
+        if (problems.length > 0) return;
+
+        setPreview({ loading: true });
+        try {
+            const { models, records } = await fetchCustomSource({ ...config, id: config.id || 'preview' }, { maxPages: 1 });
+            setPreview({ loading: false, models, records });
+        } catch (error) {
+            setPreview({ loading: false, error: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    const handleSave = () => {
+        const config = currentDraft();
+        if (!config) return;
+        const problems = validateCustomSource(config);
+        setErrors(problems);
+        if (problems.length > 0) return;
+
+        if (config.id) {
+            saveSettings({ customSources: sources.map(s => s.id === config.id ? config : s) });
+        } else {
+            // New sources start disabled so they are previewed before syncing
+            const created = { ...config, id: createCustomSourceId(config.name, sources), enabled: false };
+            saveSettings({ customSources: [...sources, created] });
+            addConsoleLog(`Added custom source ${created.name}`);
+        }
+        setDraft(null);
+        setPreview(null);
+    };
+
+    const handleDelete = (source: CustomSourceConfig) => {
+        if (!confirm(t('settings.dataSources.custom.confirmDelete', { name: source.name }))) return;
+        saveSettings({ customSources: sources.filter(s => s.id !== source.id) });
+    };
+
+    const toggleEnabled = (source: CustomSourceConfig) => {
+        saveSettings({ customSources: sources.map(s => s.id === source.id ? { ...s, enabled: !s.enabled } : s) });
+    };
+
+    const renderEditor = (config: CustomSourceConfig) => {
+        const { pagination } = config;
+        return (
+            <div className="mt-4 p-4 rounded-lg border border-border bg-bg-input/50 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>{t('settings.dataSources.custom.name')}</label>
+                        <input value={config.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>{t('settings.dataSources.custom.url')}</label>
+                        <input
+                            value={config.url}
+                            onChange={(e) => update({ url: e.target.value })}
+                            placeholder="https://registry.example.com/api/models"
+                            className={`${inputClass} font-mono`}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>{t('settings.dataSources.custom.itemsPath')}</label>
+                        <input
+                            value={config.itemsPath}
+                            onChange={(e) => update({ itemsPath: e.target.value })}
+                            placeholder="$.data.items"
+                            className={`${inputClass} font-mono`}
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div>
+                            <label className={labelClass}>{t('settings.dataSources.custom.authHeader')}</label>
+                            <input
+                                value={config.auth?.header ?? ''}
+                                onChange={(e) => update({ auth: { header: e.target.value, value: config.auth?.value ?? '' } })}
+                                placeholder="Authorization"
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className={labelClass}>{t('settings.dataSources.custom.authValue')}</label>
+                            <input
+                                type="password"
+                                value={config.auth?.value ?? ''}
+                                onChange={(e) => update({ auth: { header: config.auth?.header ?? 'Authorization', value: e.target.value } })}
+                                placeholder="Bearer ..."
+                                className={`${inputClass} font-mono`}
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                {/* Pagination */}
+                <div>
+                    <h5 className="text-sm font-medium mb-2">{t('settings.dataSources.custom.pagination')}</h5>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                        <ThemedSelect
+                            value={pagination.style}
+                            onChange={(v) => updatePagination({ style: v as CustomSourcePagination['style'] })}
+                            options={PAGINATION_STYLES.map(style => ({ value: style, label: t(`settings.dataSources.custom.styles.${style}`) }))}
+                            ariaLabel={t('settings.dataSources.custom.pagination')}
+                        />
+                        {pagination.style !== 'none' && (
+                            <>
+                                <input
+                                    value={pagination.param ?? ''}
+                                    onChange={(e) => updatePagination({ param: e.target.value })}
+                                    placeholder={pagination.style === 'cursor' ? 'cursor' : pagination.style === 'offset' ? 'offset' : 'page'}
+                                    title={t('settings.dataSources.custom.param')}
+                                    className={inputClass}
+                                />
+                                <input
+                                    value={pagination.sizeParam ?? ''}
+                                    onChange={(e) => updatePagination({ sizeParam: e.target.value })}
+                                    placeholder="limit"
+                                    title={t('settings.dataSources.custom.sizeParam')}
+                                    className={inputClass}
+                                />
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={pagination.pageSize ?? ''}
+                                    onChange={(e) => updatePagination({ pageSize: e.target.value ? parseInt(e.target.value) : undefined })}
+                                    placeholder="100"
+                                    title={t('settings.dataSources.custom.pageSize')}
+                                    className={inputClass}
+                                />
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={pagination.maxPages ?? ''}
+                                    onChange={(e) => updatePagination({ maxPages: e.target.value ? parseInt(e.target.value) : undefined })}
+                                    placeholder="10"
+                                    title={t('settings.dataSources.custom.maxPages')}
+                                    className={inputClass}
+                                />
+                            </>
+                        )}
+                    </div>
+                    {pagination.style === 'cursor' && (
+                        <input
+                            value={pagination.cursorPath ?? ''}
+                            onChange={(e) => updatePagination({ cursorPath: e.target.value })}
+                            placeholder="$.next_cursor"
+                            title={t('settings.dataSources.custom.cursorPath')}
+                            className={`${inputClass} font-mono mt-2`}
+                        />
+                    )}
+                </div>
+
+                {/* Field mapping */}
+                <div>
+                    <h5 className="text-sm font-medium mb-1">{t('settings.dataSources.custom.mapping')}</h5>
+                    <p className="text-xs text-text-subtle mb-2">{t('settings.dataSources.custom.mappingHint')}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                        {CUSTOM_SOURCE_FIELDS.map(field => (
+                            <div key={field} className="flex items-center gap-2">
+                                <span className="text-xs text-text-secondary w-28 shrink-0 font-mono">{field}</span>
+                                <input
+                                    value={config.mapping[field] ?? ''}
+                                    onChange={(e) => update({ mapping: { ...config.mapping, [field]: e.target.value || undefined } })}
+                                    placeholder={`$.${field}`}
+                                    className={`${inputClass} font-mono`}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                {/* Transforms */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                        <label className={labelClass}>{t('settings.dataSources.custom.domainMap')}</label>
+                        <textarea
+                            value={domainMapText}
+                            onChange={(e) => setDomainMapText(e.target.value)}
+                            rows={3}
+                            placeholder={'text-generation = LLM\ntext-to-image = ImageGen'}
+                            className={`${inputClass} font-mono`}
+                        />
+                    </div>
+                    <div>
+                        <label className={labelClass}>{t('settings.dataSources.custom.licenseMap')}</label>
+                        <textarea
+                            value={licenseMapText}
+                            onChange={(e) => setLicenseMapText(e.target.value)}
+                            rows={3}
+                            placeholder={'internal = Proprietary\napache2 = Apache-2.0'}
+                            className={`${inputClass} font-mono`}
+                        />
+                    </div>
+                </div>
+
+                {errors.length > 0 && (
+                    <ul className="p-3 rounded-lg border border-red-500/40 bg-red-500/10 text-xs text-red-400 list-disc list-inside">
+                        {errors.map(err => <li key={err}>{err}</li>)}
+                    </ul>
+                )}
+
+                <div className="flex items-center justify-end gap-2">
+                    <button
+                        onClick={() => { setDraft(null); setPreview(null); }}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm border border-border hover:bg-bg-elevated transition-colors"
+                    >
+                        <X size={14} />
+                        {t('common.cancel')}
+                    </button>
+                    <button
+                        onClick={handlePreview}
+                        disabled={preview?.loading}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm border border-border hover:bg-bg-elevated disabled:opacity-60 transition-colors"
+                    >
+                        {preview?.loading ? <RefreshCw size={14} className="animate-spin" /> : <Eye size={14} />}
+                        {t('settings.dataSources.custom.preview')}
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm bg-accent hover:bg-accent-dark text-white transition-colors"
+                    >
+                        <Check size={14} />
+                        {t('common.save')}
+                    </button>
+                </div>
+
+                {preview && !preview.loading && renderPreview(preview)}
+            </div>
+        );
+    };
+
+    const renderPreview = ({ error, models = [], records = [] }: PreviewState) => {
+        if (error) {
+            return <p className="text-xs text-red-400">{t('settings.dataSources.custom.previewFailed', { error })}</p>;
+        }
+        return (
+            <div className="space-y-2">
+                <p className="text-xs text-text-secondary">
+                    {t('settings.dataSources.custom.previewSummary', { records: records.length, models: models.length })}
+                </p>
+                {models.length > 0 && (
+                    <div className="overflow-x-auto rounded-lg border border-border">
+                        <table className="w-full text-xs">
+                            <thead className="bg-bg-elevated text-text-secondary">
+                                <tr>
+                                    {['id', 'name', 'provider', 'domain', 'license', 'parameters'].map(col => (
+                                        <th key={col} className="px-2 py-1.5 text-left font-medium">{col}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-border">
+                                {models.slice(0, PREVIEW_ROWS).map(m => (
+                                    <tr key={m.id}>
+                                        <td className="px-2 py-1 font-mono truncate max-w-[12rem]">{m.id}</td>
+                                        <td className="px-2 py-1">{m.name}</td>
+                                        <td className="px-2 py-1">{m.provider || '—'}</td>
+                                        <td className="px-2 py-1">{m.domain}</td>
+                                        <td className="px-2 py-1">{m.license?.name} ({m.license?.type})</td>
+                                        <td className="px-2 py-1">{m.parameters || '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                {records.length > 0 && (
+                    <details className="text-xs">
+                        <summary className="cursor-pointer text-text-secondary">{t('settings.dataSources.custom.rawSample')}</summary>
+                        <pre className="mt-2 p-2 rounded bg-bg-elevated overflow-auto max-h-64">{JSON.stringify(records[0], null, 2)}</pre>
+                    </details>
+                )}
+            </div>
+        );
+    };
+
+    return (
+        <div className="rounded-xl border p-4 border-border bg-bg-card text-text">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h4 className="font-medium flex items-center gap-2">
+                        <Globe size={16} className="text-text-secondary" />
+                        {t('settings.dataSources.custom.title')}
+                    </h4>
+                    <p className="text-sm text-text-secondary mt-1">
+                        {t('settings.dataSources.custom.description')}
+                    </p>
+                </div>
+                {!draft && (
+                    <button
+                        onClick={() => openEditor(emptySource())}
+                        className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border border-border bg-bg-input hover:bg-bg-elevated transition-colors shrink-0"
+                    >
+                        <Plus size={14} />
+                        {t('settings.dataSources.custom.add')}
+                    </button>
+                )}
+            </div>
+
+            {sources.length > 0 && (
+                <div className="mt-4 divide-y divide-border">
+                    {sources.map(source => (
+                        <div key={source.id} className="py-2 flex items-center gap-3">
+                            <button
+                                onClick={() => toggleEnabled(source)}
+                                title={t('settings.dataSources.custom.toggle')}
+                                className={`w-6 h-6 rounded-full border-2 flex items-center justify-center shrink-0 transition-all ${source.enabled
+                                    ? 'bg-accent border-accent text-white'
+                                    : 'border-border-input hover:border-accent'
+                                    }`}
+                            >
+                                {source.enabled && <Check size={14} strokeWidth={3} className="text-white" />}
+                            </button>
+                            <div className="flex-1 min-w-0">
+                                <div className={`text-sm font-medium ${source.enabled ? 'text-accent' : ''}`}>{source.name}</div>
+                                <div className="text-xs text-text-subtle font-mono truncate">{source.url}</div>
+                            </div>
+                            <button
+                                onClick={() => openEditor(source)}
+                                title={t('settings.dataSources.custom.edit')}
+                                className="p-1.5 rounded-lg text-text-subtle hover:text-text hover:bg-bg-elevated transition-colors"
+                            >
+                                <Pencil size={14} />
+                            </button>
+                            <button
+                                onClick={() => handleDelete(source)}
+                                title={t('settings.dataSources.custom.delete')}
+                                className="p-1.5 rounded-lg text-text-subtle hover:text-red-400 hover:bg-bg-elevated transition-colors"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {draft && renderEditor(draft)}
+        </div>
+    );
+}
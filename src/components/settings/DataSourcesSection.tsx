@@ -1,10 +1,23 @@
-import React, { useContext, useState } from 'react';
+import React, { useContext, useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Database, RefreshCw, Check } from 'lucide-react';
+import { Database, RefreshCw, Check, Clock } from 'lucide-react';
 import ThemeContext from '../../context/ThemeContext';
 import { useSettings } from '../../context/SettingsContext';
 import { ThemedSelect } from '../ThemedSelect';
 import { handleExternalLink } from '../../utils/external-links';
+import { PluginSourcesCard } from './PluginSourcesCard';
+import { CustomSourcesCard } from './CustomSourcesCard';
+import { LocalRuntimesCard } from './LocalRuntimesCard';
+import {
+  InstalledPlugin,
+  SCHEDULE_INTERVALS,
+  SourceLastSuccess,
+  getFetcherRegistry,
+  loadPluginFetchers,
+  loadSourceLastSuccess,
+  registerCustomSourceFetchers,
+  resolveInterval
+} from '../../services/syncService';
 
 interface DataSourcesSectionProps {
   onSync: (options?: any) => void;
@@ -18,6 +31,34 @@ export function DataSourcesSection({ onSync, addConsoleLog }: DataSourcesSection
   const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'done' | 'error'>('idle');
   const [savedKeys, setSavedKeys] = useState<Record<string, boolean>>({});
   const [pendingKeys, setPendingKeys] = useState<Record<string, string>>({});
+  const [lastSuccess, setLastSuccess] = useState<SourceLastSuccess>({});
+  const [plugins, setPlugins] = useState<InstalledPlugin[]>([]);
+
+  useEffect(() => {
+    loadSourceLastSuccess().then(setLastSuccess);
+  }, [syncStatus]);
+
+  // Registers plugin fetchers so they also show up in the schedule list
+  useEffect(() => {
+    loadPluginFetchers().then(setPlugins);
+  }, []);
+
+  // Keep custom source fetchers in the schedule list in step with their configs
+  const [, setRegistryVersion] = useState(0);
+  useEffect(() => {
+    registerCustomSourceFetchers(getFetcherRegistry(), settings.customSources || []);
+    setRegistryVersion(v => v + 1);
+  }, [settings.customSources]);
+
+  const handlePluginsChange = () => {
+    loadPluginFetchers().then(setPlugins);
+  };
+
+  const scheduledSync = settings.scheduledSync || { enabled: false, intervals: {} };
+  const scheduleOptions = SCHEDULE_INTERVALS.map(minutes => ({
+    value: String(minutes),
+    label: t(`settings.dataSources.schedule.intervals.${minutes}`)
+  }));
 
   const bgCard = 'border-border bg-bg-card text-text';
   const bgInput = 'border-border bg-bg-input text-text';
@@ -30,14 +71,15 @@ export function DataSourcesSection({ onSync, addConsoleLog }: DataSourcesSection
     { key: 'openmodeldb', label: t('settings.dataSources.openmodeldb'), description: t('settings.dataSources.descriptions.openmodeldb') },
     { key: 'civitasbay', label: t('settings.dataSources.civitasbay'), description: t('settings.dataSources.descriptions.civitasbay') },
     { key: 'ollamaLibrary', label: t('settings.dataSources.ollama'), description: t('settings.dataSources.descriptions.ollamaLibrary') },
+    { key: 'modelscope', label: t('settings.dataSources.modelscope'), description: t('settings.dataSources.descriptions.modelscope') },
   ];
 
-  const handleSync = async () => {
+  const handleSync = async (fullRebuild = false) => {
     setSyncStatus('syncing');
-    addConsoleLog('Starting data source sync...');
+    addConsoleLog(fullRebuild ? 'Starting full rebuild of all data sources...' : 'Starting data source sync...');
 
     try {
-      await onSync();
+      await onSync(fullRebuild ? { fullRebuild: true } : undefined);
       setSyncStatus('done');
       addConsoleLog('Data source sync completed');
       setTimeout(() => setSyncStatus('idle'), 2000);
@@ -69,32 +111,42 @@ export function DataSourcesSection({ onSync, addConsoleLog }: DataSourcesSection
               {t('settings.dataSources.syncModelsDesc')}
             </p>
           </div>
-          <button
-            id="sync-now-btn"
-            onClick={handleSync}
-            disabled={syncStatus === 'syncing'}
-            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${syncStatus === 'syncing'
-              ? 'opacity-60 cursor-not-allowed'
-              : 'bg-accent hover:bg-accent-dark hover:text-white'
-              }`}
-          >
-            {syncStatus === 'syncing' ? (
-              <>
-                <RefreshCw size={16} className="animate-spin" />
-                {t('settings.dataSources.syncing')}
-              </>
-            ) : syncStatus === 'done' ? (
-              <>
-                <Check size={16} />
-                {t('settings.dataSources.done')}
-              </>
-            ) : (
-              <>
-                <RefreshCw size={16} />
-                {t('settings.dataSources.syncNow')}
-              </>
-            )}
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleSync(true)}
+              disabled={syncStatus === 'syncing'}
+              title={t('settings.dataSources.fullRebuildDesc')}
+              className="px-3 py-2 rounded-lg text-sm border border-border bg-bg-input hover:bg-bg-elevated disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+            >
+              {t('settings.dataSources.fullRebuild')}
+            </button>
+            <button
+              id="sync-now-btn"
+              onClick={() => handleSync()}
+              disabled={syncStatus === 'syncing'}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors ${syncStatus === 'syncing'
+                ? 'opacity-60 cursor-not-allowed'
+                : 'bg-accent hover:bg-accent-dark hover:text-white'
+                }`}
+            >
+              {syncStatus === 'syncing' ? (
+                <>
+                  <RefreshCw size={16} className="animate-spin" />
+                  {t('settings.dataSources.syncing')}
+                </>
+              ) : syncStatus === 'done' ? (
+                <>
+                  <Check size={16} />
+                  {t('settings.dataSources.done')}
+                </>
+              ) : (
+                <>
+                  <RefreshCw size={16} />
+                  {t('settings.dataSources.syncNow')}
+                </>
+              )}
+            </button>
+          </div>
         </div>
       </div>
 
@@ -202,6 +254,15 @@ export function DataSourcesSection({ onSync, addConsoleLog }: DataSourcesSection
         </div>
       </div>
 
+      {/* Plugin Sources */}
+      <PluginSourcesCard plugins={plugins} onPluginsChange={handlePluginsChange} addConsoleLog={addConsoleLog} />
+
+      {/* Custom JSON Sources */}
+      <CustomSourcesCard addConsoleLog={addConsoleLog} />
+
+      {/* Local Runtimes */}
+      <LocalRuntimesCard addConsoleLog={addConsoleLog} />
+
       {/* Sync Settings */}
       <div className={`rounded-xl border p-4 ${bgCard}`}>
         <h4 className="font-medium mb-4">{t('settings.dataSources.syncSettings')}</h4>
@@ -226,6 +287,64 @@ export function DataSourcesSection({ onSync, addConsoleLog }: DataSourcesSection
 
         </div>
       </div>
+
+      {/* Scheduled Sync */}
+      <div className={`rounded-xl border p-4 ${bgCard}`}>
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h4 className="font-medium flex items-center gap-2">
+              <Clock size={16} className="text-text-secondary" />
+              {t('settings.dataSources.schedule.title')}
+            </h4>
+            <p className="text-sm text-text-secondary mt-1">
+              {t('settings.dataSources.schedule.description')}
+            </p>
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer group select-none shrink-0">
+            <div className="relative">
+              <input
+                type="checkbox"
+                checked={scheduledSync.enabled}
+                onChange={(e) => saveSettings({ scheduledSync: { ...scheduledSync, enabled: e.target.checked } })}
+                className="sr-only"
+              />
+              <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center transition-all ${scheduledSync.enabled
+                ? 'bg-accent border-accent'
+                : 'border-border-input group-hover:border-accent border-text-subtle'
+                }`}>
+                {scheduledSync.enabled && <Check size={12} strokeWidth={3} className="text-white" />}
+              </div>
+            </div>
+            <span className="text-sm">{t('settings.dataSources.schedule.enable')}</span>
+          </label>
+        </div>
+
+        <div className="divide-y divide-border">
+          {getFetcherRegistry().getAll().map(fetcher => (
+            <div key={fetcher.id} className="py-2 grid grid-cols-1 md:grid-cols-[1fr_12rem] gap-2 items-center">
+              <div>
+                <div className="text-sm font-medium">{fetcher.name}</div>
+                <div className="text-xs text-text-subtle">
+                  {lastSuccess[fetcher.id]
+                    ? t('settings.dataSources.schedule.lastSuccess', { date: new Date(lastSuccess[fetcher.id]).toLocaleString() })
+                    : t('settings.dataSources.schedule.never')}
+                </div>
+              </div>
+              <ThemedSelect
+                value={String(resolveInterval(fetcher, scheduledSync.intervals))}
+                onChange={(value) => saveSettings({
+                  scheduledSync: {
+                    ...scheduledSync,
+                    intervals: { ...scheduledSync.intervals, [fetcher.id]: parseInt(value) }
+                  }
+                })}
+                options={scheduleOptions}
+                ariaLabel={`${fetcher.name} schedule`}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, HeartPulse, Trash2 } from 'lucide-react';
+import { FetcherRun } from '../../types';
+import { useFetcherHealth } from '../../hooks/useFetcherHealth';
+import { FetcherHealthStatus, FetcherHealthSummary, clearFetcherRuns, summarizeFetcherHealth } from '../../services/syncService';
+
+// Worst first, so broken sources are at the top
+const STATUS_ORDER: FetcherHealthStatus[] = ['failing', 'dropped', 'degraded', 'ok'];
+
+const STATUS_CLASS: Record<FetcherHealthStatus, string> = {
+    ok: 'bg-green-500/15 text-green-500',
+    degraded: 'bg-yellow-500/15 text-yellow-500',
+    dropped: 'bg-orange-500/15 text-orange-500',
+    failing: 'bg-red-500/15 text-red-400'
+};
+
+const formatDuration = (ms: number): string => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+/**
+ * Record counts of the recorded runs as bars, oldest left. Failed runs are
+ * red, incremental runs muted since their counts are not comparable.
+ */
+function CountTrend({ runs }: { runs: FetcherRun[] }) {
+    const { t } = useTranslation();
+    const max = Math.max(1, ...runs.map(r => r.count));
+    return (
+        <div className="flex items-end gap-px h-8" aria-label={t('settings.system.fetcherHealth.trend')}>
+            {runs.map(run => (
+                <div
+                    key={run.started_at}
+                    title={`${new Date(run.started_at).toLocaleString()}: ${run.ok ? run.count : t('settings.system.fetcherHealth.failed')}`}
+                    className={`w-1.5 rounded-sm ${!run.ok ? 'bg-red-500' : run.incremental ? 'bg-text-subtle/40' : 'bg-accent'}`}
+                    style={{ height: run.ok ? `${Math.max(8, (run.count / max) * 100)}%` : '100%' }}
+                />
+            ))}
+        </div>
+    );
+}
+
+function FetcherHealthRow({ summary, runs }: { summary: FetcherHealthSummary; runs: FetcherRun[] }) {
+    const { t } = useTranslation();
+    const { lastRun, drop } = summary;
+    return (
+        <div className="py-3 space-y-1.5">
+            <div className="flex items-center gap-3">
+                <span className="font-medium text-sm">{summary.name}</span>
+                <span className={`text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded ${STATUS_CLASS[summary.status]}`}>
+                    {t(`settings.system.fetcherHealth.status.${summary.status}`)}
+                </span>
+                <div className="ml-auto">
+                    <CountTrend runs={runs} />
+                </div>
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-0.5 text-xs text-text-secondary">
+                <span>{t('settings.system.fetcherHealth.lastRun', { time: new Date(lastRun.started_at).toLocaleString() })}</span>
+                <span>{t('settings.system.fetcherHealth.duration', { duration: formatDuration(lastRun.duration_ms) })}</span>
+                <span>{t('settings.system.fetcherHealth.counts', { count: lastRun.count, flagged: lastRun.flagged, rejected: lastRun.rejected })}</span>
+                {lastRun.http_status != null && (
+                    <span className="text-red-400">{t('settings.system.fetcherHealth.httpStatus', { status: lastRun.http_status })}</span>
+                )}
+                {lastRun.incremental && <span>{t('settings.system.fetcherHealth.incremental')}</span>}
+                <span>
+                    {t('settings.system.fetcherHealth.successRate', {
+                        rate: Math.round(summary.successRate * 100),
+                        runs: runs.length,
+                        duration: formatDuration(summary.avgDurationMs)
+                    })}
+                </span>
+            </div>
+            {drop && (
+                <p className="flex items-center gap-1.5 text-xs text-orange-500">
+                    <AlertTriangle size={12} />
+                    {t('settings.system.fetcherHealth.dropWarning', { latest: drop.latest, baseline: Math.round(drop.baseline) })}
+                </p>
+            )}
+            {lastRun.errors.length > 0 && (
+                <ul className="text-xs font-mono text-red-400 list-disc list-inside space-y-0.5">
+                    {lastRun.errors.map(err => <li key={err} className="truncate">{err}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Per-source metrics from recorded sync runs: last run, counts, errors,
+ * a count trend and a warning when a source's yield suddenly drops.
+ */
+export function FetcherHealthCard() {
+    const { t } = useTranslation();
+    const history = useFetcherHealth();
+
+    const summaries = Object.values(history)
+        .map(summarizeFetcherHealth)
+        .filter((s): s is FetcherHealthSummary => s !== null)
+        .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.name.localeCompare(b.name));
+
+    const handleClear = () => {
+        if (!confirm(t('settings.system.fetcherHealth.confirmClear'))) return;
+        clearFetcherRuns();
+    };
+
+    return (
+        <div className="rounded-xl border p-4 border-border bg-bg-card">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h4 className="font-medium flex items-center gap-2">
+                        <HeartPulse size={18} className="text-accent" />
+                        {t('settings.system.fetcherHealth.title')}
+                    </h4>
+                    <p className="text-sm text-text-secondary mt-1">
+                        {t('settings.system.fetcherHealth.description')}
+                    </p>
+                </div>
+                {summaries.length > 0 && (
+                    <button
+                        onClick={handleClear}
+                        className="flex items-center gap-1.5 shrink-0 text-xs px-3 py-1 rounded-md bg-bg-input hover:bg-bg-elevated transition-colors"
+                    >
+                        <Trash2 size={12} />
+                        {t('settings.system.fetcherHealth.clear')}
+                    </button>
+                )}
+            </div>
+
+            {summaries.length === 0 ? (
+                <p className="mt-3 text-sm text-text-secondary">{t('settings.system.fetcherHealth.empty')}</p>
+            ) : (
+                <div className="mt-2 divide-y divide-border">
+                    {summaries.map(summary => (
+                        <FetcherHealthRow key={summary.fetcherId} summary={summary} runs={history[summary.fetcherId]} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
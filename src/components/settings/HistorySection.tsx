@@ -1,9 +1,12 @@
 
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { History, RotateCcw, Trash2, HardDrive, AlertTriangle } from 'lucide-react';
+import { History, RotateCcw, Trash2, HardDrive, AlertTriangle, GitCompare, Pin, PinOff } from 'lucide-react';
 import { useSyncHistory, HistoryItem } from '../../hooks/useSyncHistory';
-import { Model } from '../../types';
+import { useSettings } from '../../context/SettingsContext';
+import { Model, SnapshotRetention } from '../../types';
+import { diffSnapshots, SnapshotDiff } from '../../utils/snapshotDiff';
+import { SnapshotDiffPanel } from './SnapshotDiffPanel';
 
 interface HistorySectionProps {
     currentModels: Model[];
@@ -13,17 +16,19 @@ interface HistorySectionProps {
 
 export function HistorySection({ currentModels, onRestore, addConsoleLog }: HistorySectionProps) {
     const { t } = useTranslation();
-    const { history, saveSnapshot, restoreSnapshot, clearHistory, deleteSnapshot } = useSyncHistory();
+    const { settings, saveSettings } = useSettings();
+    const { history, retention, saveSnapshot, restoreSnapshot, clearHistory, deleteSnapshot, togglePinned, applyRetention } = useSyncHistory();
     const [confirmClear, setConfirmClear] = useState(false);
+    const [diff, setDiff] = useState<SnapshotDiff | null>(null);
 
-    const handleCreateSnapshot = () => {
-        saveSnapshot(currentModels, `${t('settings.history.manualSnapshot')} (${currentModels.length} ${t('settings.history.models')})`);
+    const handleCreateSnapshot = async () => {
+        await saveSnapshot(currentModels, `${t('settings.history.manualSnapshot')} (${currentModels.length} ${t('settings.history.models')})`);
         addConsoleLog(t('settings.history.createdManual'));
     };
 
-    const handleRestore = (item: HistoryItem) => {
+    const handleRestore = async (item: HistoryItem) => {
         if (window.confirm(t('settings.history.confirmRestore', { date: item.dateStr }))) {
-            const models = restoreSnapshot(item.id);
+            const models = await restoreSnapshot(item.id);
             if (models) {
                 onRestore(models);
                 addConsoleLog(t('settings.history.restored', { desc: item.description }));
@@ -33,6 +38,27 @@ export function HistorySection({ currentModels, onRestore, addConsoleLog }: Hist
         }
     };
 
+    const handleCompare = async (item: HistoryItem) => {
+        const models = await restoreSnapshot(item.id);
+        if (!models) {
+            addConsoleLog(t('settings.history.restoreFailed', { id: item.id }));
+            return;
+        }
+        setDiff(diffSnapshots(models, currentModels, {
+            from: `${item.description} (${item.dateStr})`,
+            to: t('settings.history.diff.currentDatabase')
+        }));
+    };
+
+    const updateRetention = (key: keyof SnapshotRetention, value: string) => {
+        saveSettings({
+            historyRetention: { ...(settings.historyRetention || retention), [key]: Math.max(0, parseInt(value) || 0) }
+        });
+    };
+
+    const totalStored = history.reduce((sum, h) => sum + h.storedBytes, 0);
+    const totalFull = history.reduce((sum, h) => sum + h.sizeBytes, 0);
+
     const formatBytes = (bytes: number) => {
         if (bytes === 0) return '0 B';
         const k = 1024;
@@ -61,12 +87,19 @@ export function HistorySection({ currentModels, onRestore, addConsoleLog }: Hist
 
             <div className="border border-border rounded-lg overflow-hidden bg-bg-card">
                 <div className="bg-muted/50 px-4 py-3 border-b border-border flex justify-between items-center">
-                    <span className="text-xs font-semibold uppercase tracking-wider text-text-subtle">{t('settings.history.recentSnapshots')}</span>
+                    <div className="flex items-center gap-3">
+                        <span className="text-xs font-semibold uppercase tracking-wider text-text-subtle">{t('settings.history.recentSnapshots')}</span>
+                        {history.length > 0 && (
+                            <span className="text-xs text-text-subtle">
+                                {t('settings.history.totalSize', { stored: formatBytes(totalStored), full: formatBytes(totalFull) })}
+                            </span>
+                        )}
+                    </div>
                     {history.length > 0 && (
                         <button
-                            onClick={() => {
+                            onClick={async () => {
                                 if (confirmClear) {
-                                    clearHistory();
+                                    await clearHistory();
                                     setConfirmClear(false);
                                     addConsoleLog(t('settings.history.clearedAll'));
                                 } else {
@@ -94,7 +127,7 @@ export function HistorySection({ currentModels, onRestore, addConsoleLog }: Hist
                             <div key={item.id} className="p-4 flex items-center justify-between hover:bg-bg-input/50 transition-colors">
                                 <div className="flex items-start gap-3">
                                     <div className="mt-1 p-2 bg-accent/10 text-accent rounded-full">
-                                        <History size={16} />
+                                        {item.pinned ? <Pin size={16} /> : <History size={16} />}
                                     </div>
                                     <div>
                                         <h4 className="text-sm font-medium">{item.description}</h4>
@@ -103,12 +136,30 @@ export function HistorySection({ currentModels, onRestore, addConsoleLog }: Hist
                                             <span>•</span>
                                             <span>{item.modelCount.toLocaleString()} {t('settings.history.models')}</span>
                                             <span>•</span>
-                                            <span>{formatBytes(item.sizeBytes)}</span>
+                                            <span title={t('settings.history.fullSize', { size: formatBytes(item.sizeBytes) })}>
+                                                {formatBytes(item.storedBytes)}
+                                                {item.isDelta && ` (${t('settings.history.delta')})`}
+                                            </span>
                                         </div>
                                     </div>
                                 </div>
 
                                 <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => togglePinned(item.id, !item.pinned)}
+                                        className={`p-1.5 rounded-md transition-colors ${item.pinned ? 'text-accent' : 'text-text-subtle hover:text-text'}`}
+                                        title={item.pinned ? t('settings.history.unpin') : t('settings.history.pin')}
+                                    >
+                                        {item.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                                    </button>
+                                    <button
+                                        onClick={() => handleCompare(item)}
+                                        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-bg-input hover:bg-bg-elevated rounded-md transition-colors"
+                                        title={t('settings.history.compare')}
+                                    >
+                                        <GitCompare size={14} />
+                                        {t('settings.history.compare')}
+                                    </button>
                                     <button
                                         onClick={() => handleRestore(item)}
                                         className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-bg-input hover:bg-bg-elevated rounded-md transition-colors"
@@ -118,7 +169,10 @@ export function HistorySection({ currentModels, onRestore, addConsoleLog }: Hist
                                         {t('settings.history.restore')}
                                     </button>
                                     <button
-                                        onClick={() => deleteSnapshot(item.id)}
+                                        onClick={async () => {
+                                            await deleteSnapshot(item.id);
+                                            setDiff(null);
+                                        }}
                                         className="p-1.5 text-text-subtle hover:text-red-500 rounded-md transition-colors"
                                         title="Delete snapshot"
                                     >
@@ -131,6 +185,37 @@ export function HistorySection({ currentModels, onRestore, addConsoleLog }: Hist
                 )}
             </div>
 
+            {diff && <SnapshotDiffPanel diff={diff} onClose={() => setDiff(null)} />}
+
+            <div className="rounded-xl border p-4 border-border bg-bg-card text-text">
+                <div className="flex items-center justify-between mb-4">
+                    <div>
+                        <h4 className="font-medium">{t('settings.history.retention.title')}</h4>
+                        <p className="text-xs text-text-subtle mt-1">{t('settings.history.retention.description')}</p>
+                    </div>
+                    <button
+                        onClick={applyRetention}
+                        className="px-3 py-1.5 text-xs font-medium bg-bg-input hover:bg-bg-elevated rounded-md transition-colors"
+                    >
+                        {t('settings.history.retention.applyNow')}
+                    </button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {(['maxSnapshots', 'maxAgeDays', 'maxSizeMB'] as const).map(key => (
+                        <div key={key}>
+                            <label className="block text-sm font-medium mb-2">{t(`settings.history.retention.${key}`)}</label>
+                            <input
+                                type="number"
+                                value={retention[key]}
+                                onChange={(e) => updateRetention(key, e.target.value)}
+                                className="w-full rounded-lg border px-3 py-2 text-sm border-border bg-bg-input text-text"
+                                min="0"
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+
             <div className="flex items-start gap-2 text-xs text-yellow-500 bg-yellow-500/10 p-3 rounded-lg border border-yellow-500/20">
                 <AlertTriangle size={16} className="shrink-0 mt-0.5" />
                 <p>
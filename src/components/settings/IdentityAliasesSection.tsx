@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Fingerprint, Plus, Trash2 } from 'lucide-react';
+import { useSettings } from '../../context/SettingsContext';
+import { ThemedSelect } from '../ThemedSelect';
+import { EXTERNAL_ID_KINDS, ExternalIdKind } from '../../types';
+import { upsertAlias } from '../../utils/identity';
+
+export function IdentityAliasesSection() {
+  const { t } = useTranslation();
+  const { settings, saveSettings } = useSettings();
+  const [kind, setKind] = useState<ExternalIdKind>('huggingface');
+  const [externalId, setExternalId] = useState('');
+  const [canonicalId, setCanonicalId] = useState('');
+
+  const bgCard = 'border-border bg-bg-card text-text';
+  const inputClass = 'w-full rounded-lg border px-3 py-2 text-sm border-border bg-bg-input text-text';
+  const aliases = settings.identityAliases || [];
+
+  const kindOptions = EXTERNAL_ID_KINDS.map(k => ({ value: k, label: t(`settings.identityAliases.kinds.${k}`, k) }));
+
+  const addAlias = () => {
+    if (!externalId.trim() || !canonicalId.trim()) return;
+    saveSettings({
+      identityAliases: upsertAlias(aliases, {
+        kind,
+        external_id: externalId,
+        canonical_id: canonicalId.trim(),
+        created_at: new Date().toISOString()
+      })
+    });
+    setExternalId('');
+  };
+
+  const removeAlias = (index: number) => {
+    saveSettings({ identityAliases: aliases.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+          <Fingerprint size={20} className="text-text-secondary" />
+          {t('settings.identityAliases.title')}
+        </h3>
+        <p className="text-sm text-zinc-700 dark:text-zinc-400">
+          {t('settings.identityAliases.description')}
+        </p>
+      </div>
+
+      <div className={`rounded-xl border p-4 ${bgCard}`}>
+        <h4 className="font-medium mb-4">{t('settings.identityAliases.addTitle')}</h4>
+        <div className="grid grid-cols-1 md:grid-cols-[10rem_1fr_1fr_auto] gap-3 items-center">
+          <ThemedSelect
+            value={kind}
+            onChange={(val: string) => setKind(val as ExternalIdKind)}
+            options={kindOptions}
+            ariaLabel="External id kind"
+          />
+          <input
+            type="text"
+            value={externalId}
+            onChange={(e) => setExternalId(e.target.value)}
+            placeholder={t('settings.identityAliases.externalIdPlaceholder')}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={canonicalId}
+            onChange={(e) => setCanonicalId(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addAlias()}
+            placeholder={t('settings.identityAliases.canonicalIdPlaceholder')}
+            className={inputClass}
+          />
+          <button
+            onClick={addAlias}
+            disabled={!externalId.trim() || !canonicalId.trim()}
+            className="flex items-center justify-center gap-1.5 px-3 py-2 text-sm rounded-lg bg-accent text-white hover:opacity-90 disabled:opacity-40"
+          >
+            <Plus size={14} />
+            {t('common.add', 'Add')}
+          </button>
+        </div>
+        <p className="text-xs text-text-subtle mt-3">{t('settings.identityAliases.hint')}</p>
+      </div>
+
+      <div className={`rounded-xl border p-4 ${bgCard}`}>
+        <h4 className="font-medium mb-4">{t('settings.identityAliases.tableTitle', { count: aliases.length })}</h4>
+        {aliases.length === 0 ? (
+          <p className="text-sm text-text-secondary">{t('settings.identityAliases.empty')}</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-text-secondary">
+                <th className="py-2 pr-3">{t('settings.identityAliases.kind')}</th>
+                <th className="py-2 pr-3">{t('settings.identityAliases.externalId')}</th>
+                <th className="py-2 pr-3">{t('settings.identityAliases.canonicalId')}</th>
+                <th className="py-2 w-8" />
+              </tr>
+            </thead>
+            <tbody>
+              {aliases.map((alias, index) => (
+                <tr key={`${alias.kind}:${alias.external_id}`} className="border-t border-border">
+                  <td className="py-2 pr-3">{t(`settings.identityAliases.kinds.${alias.kind}`, alias.kind)}</td>
+                  <td className="py-2 pr-3 font-mono break-all">{alias.external_id}</td>
+                  <td className="py-2 pr-3 font-mono break-all">{alias.canonical_id}</td>
+                  <td className="py-2">
+                    <button
+                      onClick={() => removeAlias(index)}
+                      className="p-1 rounded hover:bg-red-500/10 text-text-secondary hover:text-red-500"
+                      title={t('common.delete')}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
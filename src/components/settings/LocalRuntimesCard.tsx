@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, HardDrive, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { useSettings } from '../../context/SettingsContext';
+import { LocalInventory, LocalRuntimeConfig, LocalRuntimeKind } from '../../types';
+import { ThemedSelect } from '../ThemedSelect';
+import { LOCAL_INVENTORY_EVENT, probeLocalRuntimes } from '../../services/syncService';
+
+interface LocalRuntimesCardProps {
+    addConsoleLog: (msg: string) => void;
+}
+
+const KINDS: LocalRuntimeKind[] = ['ollama', 'openai'];
+
+// Installed names listed per runtime before collapsing into "+N more"
+const LISTED_MODELS = 12;
+
+export function LocalRuntimesCard({ addConsoleLog }: LocalRuntimesCardProps) {
+    const { t } = useTranslation();
+    const { settings, saveSettings } = useSettings();
+    const runtimes = settings.localRuntimes || [];
+    const [inventory, setInventory] = useState<LocalInventory | null>(null);
+    const [probing, setProbing] = useState(false);
+
+    const inputClass = 'w-full rounded border border-border bg-bg-input text-text px-2 py-1.5 text-xs';
+
+    const update = (id: string, patch: Partial<LocalRuntimeConfig>) => {
+        saveSettings({ localRuntimes: runtimes.map(r => r.id === id ? { ...r, ...patch } : r) });
+    };
+
+    const handleAdd = () => {
+        let n = runtimes.length + 1;
+        while (runtimes.some(r => r.id === `runtime-${n}`)) n++;
+        saveSettings({
+            localRuntimes: [...runtimes, { id: `runtime-${n}`, name: `Runtime ${n}`, kind: 'openai', baseUrl: 'http://127.0.0.1:8000', enabled: false }]
+        });
+    };
+
+    const handleDelete = (runtime: LocalRuntimeConfig) => {
+        saveSettings({ localRuntimes: runtimes.filter(r => r.id !== runtime.id) });
+    };
+
+    const handleProbe = async () => {
+        setProbing(true);
+        try {
+            const result = await probeLocalRuntimes(runtimes);
+            setInventory(result);
+            window.dispatchEvent(new CustomEvent(LOCAL_INVENTORY_EVENT, { detail: result }));
+            const reachable = result.runtimes.filter(r => r.ok).length;
+            addConsoleLog(`Local runtimes: ${reachable}/${result.runtimes.length} reachable, ${result.models.length} models installed`);
+        } finally {
+            setProbing(false);
+        }
+    };
+
+    const statusOf = (id: string) => inventory?.runtimes.find(r => r.id === id);
+
+    return (
+        <div className="rounded-xl border p-4 border-border bg-bg-card text-text">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h4 className="font-medium flex items-center gap-2">
+                        <HardDrive size={16} className="text-text-secondary" />
+                        {t('settings.dataSources.localRuntimes.title')}
+                    </h4>
+                    <p className="text-sm text-text-secondary mt-1">
+                        {t('settings.dataSources.localRuntimes.description')}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                    <button
+                        onClick={handleAdd}
+                        className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border border-border bg-bg-input hover:bg-bg-elevated transition-colors"
+                    >
+                        <Plus size={14} />
+                        {t('settings.dataSources.localRuntimes.add')}
+                    </button>
+                    <button
+                        onClick={handleProbe}
+                        disabled={probing}
+                        className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm bg-accent hover:bg-accent-dark text-white disabled:opacity-60 transition-colors"
+                    >
+                        <RefreshCw size={14} className={probing ? 'animate-spin' : ''} />
+                        {t('settings.dataSources.localRuntimes.probe')}
+                    </button>
+                </div>
+            </div>
+
+            {runtimes.length > 0 && (
+                <div className="mt-4 divide-y divide-border">
+                    {runtimes.map(runtime => {
+                        const status = statusOf(runtime.id);
+                        const names = inventory?.models.filter(m => m.runtimeId === runtime.id).map(m => m.name) || [];
+                        return (
+                            <div key={runtime.id} className="py-2 space-y-1">
+                                <div className="flex items-center gap-3">
+                                    <button
+                                        onClick={() => update(runtime.id, { enabled: !runtime.enabled })}
+                                        title={t('settings.dataSources.localRuntimes.toggle')}
+                                        className={`w-6 h-6 rounded-full border-2 flex items-center justify-center shrink-0 transition-all ${runtime.enabled
+                                            ? 'bg-accent border-accent text-white'
+                                            : 'border-border-input hover:border-accent'
+                                            }`}
+                                    >
+                                        {runtime.enabled && <Check size={14} strokeWidth={3} className="text-white" />}
+                                    </button>
+                                    <input
+                                        value={runtime.name}
+                                        onChange={(e) => update(runtime.id, { name: e.target.value })}
+                                        aria-label={t('settings.dataSources.localRuntimes.name')}
+                                        className={`${inputClass} max-w-[10rem]`}
+                                    />
+                                    <div className="w-36 shrink-0">
+                                        <ThemedSelect
+                                            value={runtime.kind}
+                                            onChange={(v) => update(runtime.id, { kind: v as LocalRuntimeKind })}
+                                            options={KINDS.map(kind => ({ value: kind, label: t(`settings.dataSources.localRuntimes.kinds.${kind}`) }))}
+                                            ariaLabel={t('settings.dataSources.localRuntimes.kind')}
+                                        />
+                                    </div>
+                                    <input
+                                        value={runtime.baseUrl}
+                                        onChange={(e) => update(runtime.id, { baseUrl: e.target.value })}
+                                        aria-label={t('settings.dataSources.localRuntimes.baseUrl')}
+                                        placeholder="http://127.0.0.1:11434"
+                                        className={`${inputClass} font-mono flex-1`}
+                                    />
+                                    <button
+                                        onClick={() => handleDelete(runtime)}
+                                        title={t('settings.dataSources.localRuntimes.delete')}
+                                        className="p-1.5 rounded-lg text-text-subtle hover:text-red-400 hover:bg-bg-elevated transition-colors"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+                                {status && (
+                                    <p className={`text-xs pl-9 ${status.ok ? 'text-text-secondary' : 'text-red-400'}`}>
+                                        {status.ok
+                                            ? t('settings.dataSources.localRuntimes.found', { count: status.count })
+                                            : t('settings.dataSources.localRuntimes.unreachable', { error: status.error })}
+                                        {names.length > 0 && (
+                                            <span className="font-mono text-text-subtle">
+                                                {' — '}{names.slice(0, LISTED_MODELS).join(', ')}
+                                                {names.length > LISTED_MODELS && ` +${names.length - LISTED_MODELS}`}
+                                            </span>
+                                        )}
+                                    </p>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
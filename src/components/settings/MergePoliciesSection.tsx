@@ -0,0 +1,104 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { GitMerge, Check, RotateCcw } from 'lucide-react';
+import { useSettings } from '../../context/SettingsContext';
+import { ThemedSelect } from '../ThemedSelect';
+import { FieldMergePolicy, MERGE_POLICY_FIELDS, MergePolicyField, MergeStrategy } from '../../types';
+import { resolveMergePolicies } from '../../utils/mergePolicies';
+
+const STRATEGIES: MergeStrategy[] = ['default', 'newest', 'preferSource', 'union', 'max'];
+
+export function MergePoliciesSection() {
+  const { t } = useTranslation();
+  const { settings, saveSettings } = useSettings();
+
+  const bgCard = 'border-border bg-bg-card text-text';
+  const policies = resolveMergePolicies(settings.mergePolicies);
+
+  const strategyOptions = STRATEGIES.map(strategy => ({
+    value: strategy,
+    label: t(`settings.mergePolicies.strategies.${strategy}`)
+  }));
+
+  const updatePolicy = (field: MergePolicyField, patch: Partial<FieldMergePolicy>) => {
+    saveSettings({
+      mergePolicies: {
+        ...settings.mergePolicies,
+        [field]: { ...policies[field], ...patch }
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+          <GitMerge size={20} className="text-text-secondary" />
+          {t('settings.mergePolicies.title')}
+        </h3>
+        <p className="text-sm text-zinc-700 dark:text-zinc-400">
+          {t('settings.mergePolicies.description')}
+        </p>
+      </div>
+
+      <div className={`rounded-xl border p-4 ${bgCard}`}>
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="font-medium">{t('settings.mergePolicies.fieldsTitle')}</h4>
+          <button
+            onClick={() => saveSettings({ mergePolicies: {} })}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-xs rounded-lg border border-border hover:bg-bg-hover transition-colors"
+          >
+            <RotateCcw size={12} />
+            {t('settings.mergePolicies.reset')}
+          </button>
+        </div>
+        <div className="space-y-4">
+          {MERGE_POLICY_FIELDS.map(field => {
+            const policy = policies[field];
+            const keepManualId = `merge-keep-manual-${field}`;
+            return (
+              <div key={field} className="grid grid-cols-1 md:grid-cols-[10rem_1fr] gap-3 items-start border-b border-border pb-4 last:border-b-0 last:pb-0">
+                <div className="font-medium text-sm pt-2">{t(`settings.mergePolicies.fields.${field}`, field)}</div>
+                <div className="space-y-2">
+                  <ThemedSelect
+                    value={policy.strategy}
+                    onChange={(val: string) => updatePolicy(field, { strategy: val as MergeStrategy })}
+                    options={strategyOptions}
+                    ariaLabel={`${field} merge strategy`}
+                  />
+                  {policy.strategy === 'preferSource' && (
+                    <input
+                      type="text"
+                      value={(policy.sources || []).join(', ')}
+                      onChange={(e) => updatePolicy(field, { sources: e.target.value.split(',').map(s => s.trim()).filter(Boolean) })}
+                      placeholder={t('settings.mergePolicies.sourcesPlaceholder')}
+                      className="w-full rounded-lg border px-3 py-2 text-sm border-border bg-bg-input text-text"
+                    />
+                  )}
+                  <label htmlFor={keepManualId} className="flex items-center gap-2 cursor-pointer group select-none">
+                    <div className="relative">
+                      <input
+                        type="checkbox"
+                        id={keepManualId}
+                        checked={Boolean(policy.keepManual)}
+                        onChange={(e) => updatePolicy(field, { keepManual: e.target.checked })}
+                        className="sr-only"
+                      />
+                      <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center transition-all ${policy.keepManual
+                        ? 'bg-accent border-accent'
+                        : 'border-border-input group-hover:border-accent border-text-subtle'
+                        }`}>
+                        {policy.keepManual && <Check size={12} strokeWidth={3} className="text-white" />}
+                      </div>
+                    </div>
+                    <span className="text-xs text-text-secondary">{t('settings.mergePolicies.keepManual')}</span>
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, Puzzle, Trash2, Upload } from 'lucide-react';
+import { useSettings } from '../../context/SettingsContext';
+import { PluginSourceSettings } from '../../types';
+import { ThemedSelect } from '../ThemedSelect';
+import {
+    InstalledPlugin,
+    PluginConfigField,
+    installPlugin,
+    resolvePluginConfig,
+    uninstallPlugin
+} from '../../services/syncService';
+
+interface PluginSourcesCardProps {
+    plugins: InstalledPlugin[];
+    onPluginsChange: (plugins: InstalledPlugin[]) => void;
+    addConsoleLog: (msg: string) => void;
+}
+
+type ConfigValue = PluginSourceSettings['config'][string];
+
+export function PluginSourcesCard({ plugins, onPluginsChange, addConsoleLog }: PluginSourcesCardProps) {
+    const { t } = useTranslation();
+    const { settings, saveSettings } = useSettings();
+    const fileInput = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [installing, setInstalling] = useState(false);
+    // Unsaved text entries per "pluginId.key", committed on blur
+    const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+    const pluginSettings = settings.fetcherPlugins || {};
+    const stateOf = (id: string): PluginSourceSettings => pluginSettings[id] || { enabled: false, config: {} };
+
+    const savePluginState = (id: string, patch: Partial<PluginSourceSettings>) => {
+        saveSettings({ fetcherPlugins: { ...pluginSettings, [id]: { ...stateOf(id), ...patch } } });
+    };
+
+    const saveValue = (id: string, key: string, value: ConfigValue) => {
+        savePluginState(id, { config: { ...stateOf(id).config, [key]: value } });
+    };
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setError(null);
+        setInstalling(true);
+        try {
+            const next = await installPlugin(await file.text());
+            onPluginsChange(next);
+            const installed = next[next.length - 1].manifest;
+            addConsoleLog(`Installed plugin ${installed.name} ${installed.version}`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setInstalling(false);
+        }
+    };
+
+    const handleRemove = async (plugin: InstalledPlugin) => {
+        const { id, name } = plugin.manifest;
+        if (!confirm(t('settings.dataSources.plugins.confirmRemove', { name }))) return;
+        onPluginsChange(await uninstallPlugin(id));
+        const { [id]: _removed, ...rest } = pluginSettings;
+        saveSettings({ fetcherPlugins: rest });
+        addConsoleLog(`Removed plugin ${name}`);
+    };
+
+    const renderField = (pluginId: string, field: PluginConfigField, value: ConfigValue | undefined) => {
+        const draftKey = `${pluginId}.${field.key}`;
+        const inputClass = 'w-full rounded border border-border bg-bg-input text-text px-2 py-1.5 text-xs';
+
+        if (field.type === 'boolean') {
+            const checked = value === true;
+            return (
+                <label className="flex items-center gap-2 cursor-pointer group select-none">
+                    <div className="relative">
+                        <input
+                            type="checkbox"
+                            checked={checked}
+                            onChange={(e) => saveValue(pluginId, field.key, e.target.checked)}
+                            className="sr-only"
+                        />
+                        <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center transition-all ${checked
+                            ? 'bg-accent border-accent'
+                            : 'border-border-input group-hover:border-accent border-text-subtle'
+                            }`}>
+                            {checked && <Check size={12} strokeWidth={3} className="text-white" />}
+                        </div>
+                    </div>
+                    <span className="text-xs">{field.label}</span>
+                </label>
+            );
+        }
+
+        if (field.type === 'select') {
+            return (
+                <ThemedSelect
+                    value={String(value ?? '')}
+                    onChange={(v) => saveValue(pluginId, field.key, v)}
+                    options={field.options || []}
+                    ariaLabel={field.label}
+                />
+            );
+        }
+
+        return (
+            <input
+                type={field.type === 'secret' ? 'password' : field.type === 'number' ? 'number' : 'text'}
+                value={drafts[draftKey] ?? (value === undefined ? '' : String(value))}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [draftKey]: e.target.value }))}
+                onBlur={() => {
+                    const draft = drafts[draftKey];
+                    if (draft === undefined) return;
+                    saveValue(pluginId, field.key, field.type === 'number' && draft !== '' ? Number(draft) : draft);
+                    setDrafts(({ [draftKey]: _saved, ...rest }) => rest);
+                }}
+                placeholder={field.default !== undefined ? String(field.default) : field.type === 'url' ? 'https://' : ''}
+                className={`${inputClass} ${field.type === 'secret' ? 'font-mono' : ''}`}
+            />
+        );
+    };
+
+    return (
+        <div className="rounded-xl border p-4 border-border bg-bg-card text-text">
+            <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                    <h4 className="font-medium flex items-center gap-2">
+                        <Puzzle size={16} className="text-text-secondary" />
+                        {t('settings.dataSources.plugins.title')}
+                    </h4>
+                    <p className="text-sm text-text-secondary mt-1">
+                        {t('settings.dataSources.plugins.description')}
+                    </p>
+                </div>
+                <button
+                    onClick={() => fileInput.current?.click()}
+                    disabled={installing}
+                    className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border border-border bg-bg-input hover:bg-bg-elevated disabled:opacity-60 disabled:cursor-not-allowed transition-colors shrink-0"
+                >
+                    <Upload size={14} />
+                    {t('settings.dataSources.plugins.install')}
+                </button>
+                <input ref={fileInput} type="file" accept=".js,text/javascript" onChange={handleFile} className="hidden" />
+            </div>
+
+            {error && (
+                <pre className="mb-4 p-3 rounded-lg border border-red-500/40 bg-red-500/10 text-xs text-red-400 whitespace-pre-wrap">
+                    {error}
+                </pre>
+            )}
+
+            {plugins.length === 0 ? (
+                <p className="text-sm text-text-subtle">{t('settings.dataSources.plugins.empty')}</p>
+            ) : (
+                <div className="space-y-3">
+                    {plugins.map(plugin => {
+                        const { manifest } = plugin;
+                        const state = stateOf(manifest.id);
+                        const { missing } = resolvePluginConfig(manifest, state.config);
+
+                        return (
+                            <div
+                                key={manifest.id}
+                                className={`p-4 rounded-lg border-2 transition-all duration-200 ${state.enabled
+                                    ? 'border-accent bg-accent/10'
+                                    : 'border-border bg-bg-input/50'
+                                    }`}
+                            >
+                                <div className="flex items-start justify-between gap-3">
+                                    <button
+                                        onClick={() => savePluginState(manifest.id, { enabled: !state.enabled })}
+                                        className="flex-1 min-w-0 text-left group flex items-start gap-3"
+                                    >
+                                        <div className={`mt-0.5 w-6 h-6 rounded-full border-2 flex items-center justify-center shrink-0 transition-all ${state.enabled
+                                            ? 'bg-accent border-accent text-white'
+                                            : 'border-border-input group-hover:border-accent'
+                                            }`}>
+                                            {state.enabled && <Check size={14} strokeWidth={3} className="text-white" />}
+                                        </div>
+                                        <div className="min-w-0">
+                                            <div className={`font-semibold text-sm ${state.enabled ? 'text-accent' : 'text-text'}`}>
+                                                {manifest.name}
+                                                <span className="ml-2 text-xs font-normal text-text-subtle">
+                                                    v{manifest.version}{manifest.author ? ` · ${manifest.author}` : ''}
+                                                </span>
+                                            </div>
+                                            {manifest.description && (
+                                                <div className="text-xs mt-1 text-text-secondary">{manifest.description}</div>
+                                            )}
+                                            <div className="text-xs mt-1 text-text-subtle">
+                                                {t('settings.dataSources.plugins.allowedHosts', { hosts: manifest.allowedHosts.join(', ') })}
+                                            </div>
+                                        </div>
+                                    </button>
+                                    <button
+                                        onClick={() => handleRemove(plugin)}
+                                        title={t('settings.dataSources.plugins.remove')}
+                                        className="p-1.5 rounded-lg text-text-subtle hover:text-red-400 hover:bg-bg-elevated transition-colors"
+                                    >
+                                        <Trash2 size={14} />
+                                    </button>
+                                </div>
+
+                                {manifest.config.length > 0 && (
+                                    <div className="mt-3 pt-3 border-t border-border grid grid-cols-1 md:grid-cols-2 gap-3">
+                                        {manifest.config.map(field => (
+                                            <div key={field.key}>
+                                                {field.type !== 'boolean' && (
+                                                    <label className="text-xs text-text-subtle block mb-1">
+                                                        {field.label}{field.required ? ' *' : ''}
+                                                    </label>
+                                                )}
+                                                {renderField(manifest.id, field, state.config[field.key])}
+                                                {field.description && (
+                                                    <p className="text-[11px] text-text-subtle mt-1">{field.description}</p>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {state.enabled && missing.length > 0 && (
+                                    <p className="mt-2 text-xs text-amber-500">
+                                        {t('settings.dataSources.plugins.missing', { fields: missing.join(', ') })}
+                                    </p>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FileJson, FileText, Minus, Plus, X } from 'lucide-react';
+import { ChangeCategory, SnapshotDiff, formatChangeValue } from '../../utils/snapshotDiff';
+import { exportChangelog } from '../../services/exportService';
+
+interface SnapshotDiffPanelProps {
+    diff: SnapshotDiff;
+    onClose: () => void;
+}
+
+type DiffTab = 'added' | 'removed' | 'changed';
+
+const CATEGORIES: ChangeCategory[] = ['license', 'pricing', 'version', 'other'];
+const MAX_ROWS = 200;
+
+export function SnapshotDiffPanel({ diff, onClose }: SnapshotDiffPanelProps) {
+    const { t } = useTranslation();
+    const [tab, setTab] = useState<DiffTab>('changed');
+    const [category, setCategory] = useState<ChangeCategory | 'all'>('all');
+
+    const changed = category === 'all'
+        ? diff.changed
+        : diff.changed
+            .map(mc => ({ ...mc, changes: mc.changes.filter(c => c.category === category) }))
+            .filter(mc => mc.changes.length > 0);
+
+    const tabs: { key: DiffTab; count: number }[] = [
+        { key: 'changed', count: diff.summary.changed },
+        { key: 'added', count: diff.summary.added },
+        { key: 'removed', count: diff.summary.removed },
+    ];
+
+    const models = tab === 'added' ? diff.added : diff.removed;
+
+    return (
+        <div className="rounded-xl border p-4 border-border bg-bg-card text-text space-y-4">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h4 className="font-medium">{t('settings.history.diff.title')}</h4>
+                    <p className="text-xs text-text-subtle mt-1">
+                        {t('settings.history.diff.comparing', { from: diff.from, to: diff.to })}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => exportChangelog(diff, 'json')}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-bg-input hover:bg-bg-elevated rounded-md transition-colors"
+                    >
+                        <FileJson size={14} />
+                        {t('settings.history.diff.exportJson')}
+                    </button>
+                    <button
+                        onClick={() => exportChangelog(diff, 'md')}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-bg-input hover:bg-bg-elevated rounded-md transition-colors"
+                    >
+                        <FileText size={14} />
+                        {t('settings.history.diff.exportMarkdown')}
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 text-text-subtle hover:text-text rounded-md transition-colors"
+                        title={t('common.close', 'Close')}
+                    >
+                        <X size={14} />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-xs">
+                {tabs.map(({ key, count }) => (
+                    <button
+                        key={key}
+                        onClick={() => setTab(key)}
+                        className={`px-3 py-1.5 rounded-md transition-colors ${tab === key ? 'bg-accent text-white' : 'bg-bg-input hover:bg-bg-elevated'}`}
+                    >
+                        {t(`settings.history.diff.tabs.${key}`)} ({count.toLocaleString()})
+                    </button>
+                ))}
+                <span className="ml-auto text-text-subtle self-center">
+                    {t('settings.history.diff.unchanged', { count: diff.summary.unchanged })}
+                </span>
+            </div>
+
+            {tab === 'changed' ? (
+                <div className="space-y-3">
+                    <div className="flex flex-wrap gap-2 text-xs">
+                        {(['all', ...CATEGORIES] as const).map(c => (
+                            <button
+                                key={c}
+                                onClick={() => setCategory(c)}
+                                className={`px-2 py-1 rounded border transition-colors ${category === c ? 'border-accent text-accent' : 'border-border text-text-secondary hover:text-text'}`}
+                            >
+                                {t(`settings.history.diff.categories.${c}`)}
+                                {c !== 'all' && ` (${diff.summary[c]})`}
+                            </button>
+                        ))}
+                    </div>
+                    {changed.length === 0 ? (
+                        <p className="text-sm text-text-secondary">{t('settings.history.diff.noChanges')}</p>
+                    ) : (
+                        <div className="max-h-96 overflow-y-auto">
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-left text-text-secondary">
+                                        <th className="py-2 pr-3">{t('settings.history.diff.model')}</th>
+                                        <th className="py-2 pr-3">{t('settings.history.diff.field')}</th>
+                                        <th className="py-2 pr-3">{t('settings.history.diff.before')}</th>
+                                        <th className="py-2">{t('settings.history.diff.after')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {changed.slice(0, MAX_ROWS).flatMap(mc => mc.changes.map((change, i) => (
+                                        <tr key={`${mc.id}:${change.field}`} className="border-t border-border align-top">
+                                            <td className="py-2 pr-3 font-medium">{i === 0 ? mc.name : ''}</td>
+                                            <td className="py-2 pr-3 text-text-secondary">{change.field}</td>
+                                            <td className="py-2 pr-3 text-red-500 break-words">{formatChangeValue(change.field, change.before)}</td>
+                                            <td className="py-2 text-green-600 break-words">{formatChangeValue(change.field, change.after)}</td>
+                                        </tr>
+                                    )))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            ) : models.length === 0 ? (
+                <p className="text-sm text-text-secondary">{t('settings.history.diff.noChanges')}</p>
+            ) : (
+                <ul className="max-h-96 overflow-y-auto divide-y divide-border text-sm">
+                    {models.slice(0, MAX_ROWS).map(m => (
+                        <li key={m.id} className="py-2 flex items-center gap-2">
+                            {tab === 'added'
+                                ? <Plus size={14} className="text-green-600 shrink-0" />
+                                : <Minus size={14} className="text-red-500 shrink-0" />}
+                            <span className="font-medium">{m.name}</span>
+                            <span className="text-xs text-text-subtle">
+                                {[m.provider, m.source, m.license?.name].filter(Boolean).join(' • ')}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {(tab === 'changed' ? changed.length : models.length) > MAX_ROWS && (
+                <p className="text-xs text-text-subtle">{t('settings.history.diff.truncated', { count: MAX_ROWS })}</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Circle, Disc3, Play, X } from 'lucide-react';
+import { parseCassette } from '../../services/api';
+import { ArmedSyncCassette, SYNC_CASSETTE_EVENT, armSyncCassette, getArmedSyncCassette } from '../../services/syncService';
+
+/**
+ * Arms the next sync to record its HTTP responses into a cassette file, or
+ * to replay a cassette (for example one attached to a bug report) offline.
+ */
+export function SyncCassetteCard() {
+    const { t } = useTranslation();
+    const [armed, setArmed] = useState<ArmedSyncCassette | null>(getArmedSyncCassette);
+    const [error, setError] = useState<string | null>(null);
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        const onUpdate = (e: Event) => setArmed((e as CustomEvent<ArmedSyncCassette | null>).detail);
+        window.addEventListener(SYNC_CASSETTE_EVENT, onUpdate);
+        return () => window.removeEventListener(SYNC_CASSETTE_EVENT, onUpdate);
+    }, []);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            armSyncCassette({ mode: 'replay', cassette: parseCassette(await file.text()) });
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            if (fileInput.current) fileInput.current.value = '';
+        }
+    };
+
+    const buttonClass = 'flex items-center gap-1.5 text-xs px-3 py-1 rounded-md bg-bg-input hover:bg-bg-elevated transition-colors';
+
+    return (
+        <div className="rounded-xl border p-4 border-border bg-bg-card">
+            <h4 className="font-medium flex items-center gap-2">
+                <Disc3 size={18} className="text-text-secondary" />
+                {t('settings.system.cassette.title')}
+            </h4>
+            <p className="text-sm text-text-secondary mt-1 mb-3">
+                {t('settings.system.cassette.description')}
+            </p>
+
+            {armed ? (
+                <div className="flex items-center justify-between gap-3 rounded-lg px-3 py-2 border border-accent/40 bg-accent/10 text-sm">
+                    <span>
+                        {armed.mode === 'record'
+                            ? t('settings.system.cassette.armedRecord')
+                            : t('settings.system.cassette.armedReplay', { name: armed.cassette.name, count: armed.cassette.entries.length })}
+                    </span>
+                    <button onClick={() => armSyncCassette(null)} className={buttonClass}>
+                        <X size={12} />
+                        {t('settings.system.cassette.cancel')}
+                    </button>
+                </div>
+            ) : (
+                <div className="flex items-center gap-2">
+                    <button onClick={() => armSyncCassette({ mode: 'record' })} className={buttonClass}>
+                        <Circle size={12} className="text-red-500 fill-red-500" />
+                        {t('settings.system.cassette.record')}
+                    </button>
+                    <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+                        <Play size={12} />
+                        {t('settings.system.cassette.replay')}
+                    </button>
+                    <input
+                        ref={fileInput}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => handleFile(e.target.files?.[0])}
+                    />
+                </div>
+            )}
+            {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -5,6 +5,8 @@ import ThemeContext from '../../context/ThemeContext';
 import { useSettings } from '../../context/SettingsContext';
 import { isElectron, getAppVersion, getPlatform, checkForUpdates, onUpdateStatus, removeUpdateListener, UpdateStatus } from '../../utils/electron';
 import { useUpdate } from '../../context/UpdateContext';
+import { FetcherHealthCard } from './FetcherHealthCard';
+import { SyncCassetteCard } from './SyncCassetteCard';
 
 export function SystemSection() {
   const { t } = useTranslation();
@@ -170,6 +172,12 @@ export function SystemSection() {
         )}
       </div>
 
+      {/* Per-source sync metrics */}
+      <FetcherHealthCard />
+
+      {/* Sync record/replay */}
+      <SyncCassetteCard />
+
       {/* Application Info */}
       <div className={`rounded-xl border p-4 ${bgCard}`}>
         <h4 className="font-medium mb-4 flex items-center gap-2">
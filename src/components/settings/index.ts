@@ -10,5 +10,9 @@ export { DisplaySection } from './DisplaySection';
 export { SecuritySection } from './SecuritySection';
 export { SystemSection } from './SystemSection';
 export { HistorySection } from './HistorySection';
+export { MergePoliciesSection } from './MergePoliciesSection';
+export { IdentityAliasesSection } from './IdentityAliasesSection';
 export { SystemHealthSection } from './SystemHealthSection';
+export { FetcherHealthCard } from './FetcherHealthCard';
+export { SyncCassetteCard } from './SyncCassetteCard';
 export { ProviderCard } from './ProviderCard';
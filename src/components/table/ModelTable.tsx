@@ -9,7 +9,7 @@
 
 import React, { useRef, useState, useLayoutEffect, useEffect } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
-import { Model } from '../../types';
+import { InstalledModel, Model } from '../../types';
 import { SortKey } from '../../hooks/useUIState';
 import { ModelRow } from '../ModelRow';
 import { TableHeader } from './TableHeader';
@@ -38,6 +38,9 @@ export interface ModelTableProps {
     onToggleFavorite?: (model: Model) => void;
     onToggleNSFWFlag?: (model: Model) => void;
     activeModelId?: string | null;
+
+    // Local runtime inventory, keyed by model id
+    installed?: Map<string, InstalledModel[]>;
 }
 
 export function ModelTable({
@@ -56,10 +59,12 @@ export function ModelTable({
     onSelectAll,
     onToggleFavorite,
     onToggleNSFWFlag,
-    activeModelId
+    activeModelId,
+    installed
 }: ModelTableProps) {
     // Styling based on theme
     const bgCard = 'border-border bg-bg-card';
+    const showLocalColumn = !!installed && installed.size > 0;
 
     // Ref for the table body container to measure offset
     const parentRef = useRef<HTMLDivElement>(null);
@@ -190,6 +195,7 @@ export function ModelTable({
                     theme={theme}
                     isAllSelected={!!isAllSelected}
                     onSelectAll={onSelectAll}
+                    showLocalColumn={showLocalColumn}
                 />
             </div>
 
@@ -238,6 +244,8 @@ export function ModelTable({
                                     isFocused={focusedIndex === virtualRow.index}
                                     onToggleFavorite={onToggleFavorite}
                                     onToggleNSFWFlag={onToggleNSFWFlag}
+                                    installed={installed?.get(m.id)}
+                                    showLocalColumn={showLocalColumn}
                                 />
                             </div>
                         </div>
@@ -23,6 +23,8 @@ export interface TableHeaderProps {
     theme: 'light' | 'dark';
     isAllSelected?: boolean;
     onSelectAll?: (selected: boolean) => void;
+    /** Show the Local column for models installed on local runtimes */
+    showLocalColumn?: boolean;
 }
 
 export function TableHeader({
@@ -31,7 +33,8 @@ export function TableHeader({
     onSortChange,
     theme,
     isAllSelected,
-    onSelectAll
+    onSelectAll,
+    showLocalColumn
 }: TableHeaderProps) {
     const { t } = useTranslation();
     const textSubtle = theme === 'dark' ? 'text-zinc-400' : 'text-gray-800';
@@ -94,7 +97,8 @@ export function TableHeader({
             {renderSortButton('release_date', t('table.releaseDate'), 'col-span-2')}
             {renderSortButton('domain', t('table.domain'), 'col-span-2')}
             {renderSortButton('parameters', t('modelDetail.pricing'), 'col-span-2')}
-            {renderSortButton('license', t('table.license'), 'col-span-2')}
+            {renderSortButton('license', t('table.license'), showLocalColumn ? 'col-span-1' : 'col-span-2')}
+            {showLocalColumn && <div className="col-span-1">{t('table.local')}</div>}
         </div>
     );
 }
@@ -58,6 +58,12 @@ export function ImportToast({ importToast, onDismiss, theme }: ImportToastProps)
                         <span>Blocked/NSFW</span>
                         <span className="font-medium">{importToast.flagged ?? 0}</span>
                     </div>
+                    {!!importToast.rejected && (
+                        <div className="flex items-center justify-between text-orange-500/90">
+                            <span>Rejected (invalid)</span>
+                            <span className="font-medium">{importToast.rejected}</span>
+                        </div>
+                    )}
                     <div className="flex items-center justify-between text-green-500/90">
                         <span>Brand New</span>
                         <span className="font-medium">{importToast.added}</span>
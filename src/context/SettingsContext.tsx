@@ -1,7 +1,9 @@
 import React, { createContext, useState, ReactNode, useContext, useEffect } from 'react';
-import { ApiDir } from '../types';
+import { ApiDir, CustomSourceConfig, DuplicateDecision, IdentityAlias, LocalRuntimeConfig, MergePolicies, PluginSourceSettings, SnapshotRetention } from '../types';
 import { DEFAULT_API_DIR } from '../services/api';
 import { CurrencyCode } from '../utils/currency';
+import { DEFAULT_SNAPSHOT_RETENTION } from '../utils/snapshotDelta';
+import { DEFAULT_LOCAL_RUNTIMES } from '../services/sync/LocalInventory';
 import { LanguageCode } from '../i18n';
 
 export interface Settings {
@@ -12,10 +14,24 @@ export interface Settings {
     interval: number;
     unit: 'minutes' | 'hours' | 'days';
   };
+  // Background sync: stale sources are fetched incrementally on their own cadence
+  scheduledSync: {
+    enabled: boolean;
+    // Cadence in minutes per fetcher id (0 = manual only); unset uses the fetcher default
+    intervals: Record<string, number>;
+  };
+  // Enabled state and config values per installed fetcher plugin id
+  fetcherPlugins: Record<string, PluginSourceSettings>;
+  // JSON/REST registries synced through a field mapping
+  customSources: CustomSourceConfig[];
+  // Local inference servers probed for the "installed locally" inventory
+  localRuntimes: LocalRuntimeConfig[];
   systemPrompt: string;
   currency: CurrencyCode;
   showCostValidation: boolean;
   autoMergeDuplicates: boolean;
+  // Per-field merge policies (fields not listed use DEFAULT_MERGE_POLICIES)
+  mergePolicies: MergePolicies;
   defaultPageSize: number | null;
   showImportToast: boolean;
   showConsoleButton: boolean;
@@ -44,6 +60,7 @@ export interface Settings {
     openmodeldb: boolean;
     civitasbay: boolean;
     ollamaLibrary: boolean;
+    modelscope: boolean;
   };
   // External API keys (user-provided)
   artificialAnalysisApiKey: string;
@@ -58,6 +75,8 @@ export interface Settings {
   importAutoMerge: boolean;
   exportFormat: 'json' | 'csv' | 'xlsx';
   backupBeforeSync: boolean;
+  // Sync history snapshot retention (0 = unlimited)
+  historyRetention: SnapshotRetention;
   // Corporate safety settings
   enableNSFWFiltering: boolean;
   nsfwFilteringStrict: boolean;
@@ -65,6 +84,10 @@ export interface Settings {
   customNSFWKeywords: string[]; // User-defined NSFW keywords
   // Ignored models (prevent re-sync after deletion)
   ignoredModels: string[];
+  // Duplicate workbench decisions (remembered across syncs)
+  duplicateDecisions: DuplicateDecision[];
+  // Identity aliases: external ids (HF repo, Civitai id, Ollama tag, OpenRouter slug) -> canonical model id
+  identityAliases: IdentityAlias[];
   // System state
   configVersion: number;
 }
@@ -87,10 +110,18 @@ const defaultSettings: Settings = {
     interval: 24,
     unit: 'hours'
   },
+  scheduledSync: {
+    enabled: false,
+    intervals: {}
+  },
+  fetcherPlugins: {},
+  customSources: [],
+  localRuntimes: DEFAULT_LOCAL_RUNTIMES,
   systemPrompt: "",
   currency: 'USD',
   showCostValidation: true,
   autoMergeDuplicates: true,
+  mergePolicies: {},
   defaultPageSize: 50,
   showImportToast: true,
   showConsoleButton: false,
@@ -119,6 +150,7 @@ const defaultSettings: Settings = {
     openmodeldb: true,
     civitasbay: true, // Enabled - good for model preservation
     ollamaLibrary: true,
+    modelscope: true,
   },
   // External API keys (user-provided)
   artificialAnalysisApiKey: "",
@@ -133,12 +165,15 @@ const defaultSettings: Settings = {
   importAutoMerge: true,
   exportFormat: 'json',
   backupBeforeSync: false,
+  historyRetention: DEFAULT_SNAPSHOT_RETENTION,
   // Corporate safety settings
   enableNSFWFiltering: true, // Enabled by default for corporate use
   nsfwFilteringStrict: true, // Strict filtering for corporate environment
   logNSFWAttempts: true, // Log NSFW attempts for compliance
   customNSFWKeywords: [], // Default to empty list
   ignoredModels: [],
+  duplicateDecisions: [],
+  identityAliases: [],
   // System state
   configVersion: 1, // Default to 1 (pre-Ollama update)
 };
@@ -174,6 +209,18 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
               ...defaultSettings.autoRefresh,
               ...(parsedSettings.autoRefresh || {})
             },
+            scheduledSync: {
+              ...defaultSettings.scheduledSync,
+              ...(parsedSettings.scheduledSync || {})
+            },
+            mergePolicies: {
+              ...defaultSettings.mergePolicies,
+              ...(parsedSettings.mergePolicies || {})
+            },
+            historyRetention: {
+              ...defaultSettings.historyRetention,
+              ...(parsedSettings.historyRetention || {})
+            },
             // apiConfig needs special handling for encryption below, so we start with merged
             apiConfig: {
               ...defaultSettings.apiConfig,
@@ -208,6 +255,17 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
             decryptedSettings.gitHubToken = await window.electronAPI.decryptString(decryptedSettings.gitHubToken) || "";
           }
 
+          // Decrypt custom source auth header values
+          if (decryptedSettings.customSources?.length && window.electronAPI?.decryptString) {
+            const customSources = [];
+            for (const source of decryptedSettings.customSources) {
+              customSources.push(source.auth?.value
+                ? { ...source, auth: { ...source.auth, value: await window.electronAPI.decryptString(source.auth.value) || "" } }
+                : source);
+            }
+            decryptedSettings.customSources = customSources;
+          }
+
           setSettings(decryptedSettings);
         }
       } catch (error) {
@@ -263,6 +321,17 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
         storageSettings.gitHubToken = await window.electronAPI.encryptString(storageSettings.gitHubToken) || "";
       }
 
+      // Encrypt custom source auth header values
+      if (storageSettings.customSources?.length && window.electronAPI?.encryptString) {
+        const customSources = [];
+        for (const source of storageSettings.customSources) {
+          customSources.push(source.auth?.value
+            ? { ...source, auth: { ...source.auth, value: await window.electronAPI.encryptString(source.auth.value) || "" } }
+            : source);
+        }
+        storageSettings.customSources = customSources;
+      }
+
       localStorage.setItem('aiModelDB_settings', JSON.stringify(storageSettings));
     } catch (error) {
       console.error('Error saving settings to localStorage:', error);
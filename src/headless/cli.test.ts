@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// The headless build swaps IndexedDB for file storage; do the same here
+vi.mock('../services/storage/indexedDBStorage', () => import('../services/storage/fileStorage'));
+
+import { runCli } from './cli';
+import { configureFileStorage, loadModels, saveModels } from '../services/storage/fileStorage';
+import { saveHistorySnapshot } from '../services/storage';
+import { DEFAULT_SNAPSHOT_RETENTION } from '../utils/snapshotDelta';
+import { withCassette } from '../test/cassette';
+import { Model } from '../types';
+
+const model = (id: string, overrides: Partial<Model> = {}): Model => ({
+    id,
+    name: id,
+    provider: 'acme',
+    domain: 'LLM',
+    source: 'HuggingFace',
+    url: null,
+    repo: null,
+    license: { name: 'Apache-2.0', type: 'OSI', commercial_use: true, attribution_required: false, share_alike: false, copyleft: false },
+    tags: [],
+    ...overrides
+} as Model);
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'model-cli-'));
+let dir: string;
+
+const run = async (...argv: string[]) => {
+    let stdout = '';
+    let stderr = '';
+    const code = await runCli(['--dir', dir, ...argv], {
+        stdout: text => { stdout += text; },
+        stderr: text => { stderr += text; },
+        env: {}
+    });
+    return { code, stdout, stderr };
+};
+
+beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(root, 'store-'));
+    configureFileStorage(dir);
+    await saveModels([
+        model('acme/zeta-7b', { tags: ['chat'] }),
+        model('acme/alpha', { license: { name: 'CC-BY-NC-4.0', type: 'Non-Commercial', commercial_use: false, attribution_required: true, share_alike: false, copyleft: false } }),
+        model('acme/painter', { domain: 'ImageGen' })
+    ]);
+});
+
+afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('runCli', () => {
+    it('queries with the advanced search syntax', async () => {
+        const { code, stdout, stderr } = await run('query', 'is:commercial domain:LLM');
+        expect(code).toBe(0);
+        expect(stdout.trim().split('\n')).toEqual([expect.stringMatching(/^acme\/zeta-7b\s+acme\s+LLM\s+Apache-2\.0$/)]);
+        expect(stderr).toBe('1 match\n');
+
+        const json = JSON.parse((await run('query', '', '--domain', 'LLM', '--json')).stdout);
+        expect(json.map((m: Model) => m.id)).toEqual(['acme/alpha', 'acme/zeta-7b']);
+    });
+
+    it('exports a stable, name-sorted catalog to a file', async () => {
+        const out = path.join(dir, 'catalog.csv');
+        expect((await run('export', '--format', 'csv', '--out', out)).code).toBe(0);
+        const lines = fs.readFileSync(out, 'utf8').trim().split('\n');
+        expect(lines[0]).toMatch(/^"?name"?,/);
+        expect(lines.slice(1).map(line => line.split(',')[0].replace(/"/g, ''))).toEqual(['acme/alpha', 'acme/painter', 'acme/zeta-7b']);
+
+        const yaml = await run('export', '--format', 'yaml', '--query', 'domain:ImageGen');
+        expect(yaml.stdout).toContain('- name: "acme/painter"');
+        expect(yaml.stdout).not.toContain('acme/alpha');
+    });
+
+    it('diffs a snapshot against the current store', async () => {
+        await saveHistorySnapshot(await loadModels(), 'before', DEFAULT_SNAPSHOT_RETENTION);
+        await saveModels([...(await loadModels()).filter(m => m.id !== 'acme/painter'), model('acme/new')]);
+
+        const { code, stdout } = await run('diff', 'latest', 'current', '--format', 'json');
+        expect(code).toBe(0);
+        const diff = JSON.parse(stdout);
+        expect(diff.summary).toMatchObject({ added: 1, removed: 1, changed: 0 });
+        expect((await run('snapshots')).stdout).toMatch(/3 models {2}before/);
+        expect(await run('diff', 'missing', 'current')).toMatchObject({ code: 1, stderr: expect.stringContaining('No snapshot "missing"') });
+    });
+
+    it('syncs into the store and keeps a pre-sync snapshot', async () => {
+        const { result, misses } = await withCassette('sync-openmodeldb-modelscope', () => run('sync', '--sources', 'openmodeldb,modelscope'));
+        expect(misses).toEqual([]);
+        expect(result.code).toBe(0);
+        expect(result.stdout).toMatch(/^Synced \d+ models \(4 added/);
+        expect((await loadModels()).map(m => m.id)).toContain('openmodeldb-4x-UltraSharp');
+        expect((await run('snapshots')).stdout).toContain('Pre-sync backup (3 models)');
+    });
+
+    it('reports usage errors with exit code 2', async () => {
+        expect((await run('frobnicate')).code).toBe(2);
+        expect((await run('toString')).code).toBe(2);
+        expect((await run('validate', '--provider', 'constructor')).code).toBe(2);
+        expect((await run('export', '--format', 'docx')).code).toBe(2);
+        expect((await run('validate', '--provider', 'nobody')).code).toBe(2);
+        expect((await run('query', '--bogus')).code).toBe(2);
+        expect((await run('--help')).code).toBe(0);
+    });
+});
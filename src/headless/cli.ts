@@ -0,0 +1,272 @@
+/**
+ * ai-model-db command-line interface
+ *
+ * Runs the app's sync, search, export, snapshot diff and validation logic
+ * against the file-backed store, e.g. for nightly syncs on a server whose
+ * exported catalog is committed to git. The bin script (bin/ai-model-db.mjs)
+ * loads this from the headless build.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { parseArgs } from 'util';
+import { DOMAINS, Domain, Model } from '../types';
+import { FilterOptions, filterModels } from '../utils/filterLogic';
+import { stampChangedFields } from '../utils/provenance';
+import { changelogToJSON, changelogToMarkdown, diffSnapshots } from '../utils/snapshotDiff';
+import { EXPORT_FORMATS, ExportFormat, formatModels } from '../services/exportService';
+import { DEFAULT_API_DIR } from '../services/api/config';
+import { validateAllModels } from '../services/validationService';
+import { listSnapshots, loadHistorySnapshot, loadModels, saveModels } from '../services/storage';
+import { configureFileStorage, getFileStorageDir } from '../services/storage/fileStorage';
+import { syncOptionsFromEnv } from './syncConfig';
+import { syncStore } from './storeSync';
+import { createMcpServer } from './mcp/mcpServer';
+
+export interface CliIO {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    env: Record<string, string | undefined>;
+    /** Read by `mcp`; defaults to process.stdin */
+    stdin?: NodeJS.ReadableStream;
+}
+
+const USAGE = `Usage: ai-model-db <command> [options]
+
+Commands:
+  sync [--sources a,b] [--full]             Fetch from the data sources and merge into the store
+  query "<advanced query>" [--domain D] [--sort KEY] [--desc] [--limit N] [--json]
+                                            Search the store (same syntax as the search box)
+  export [--format csv] [--query Q] [--out FILE] [--provenance]
+                                            Write the catalog as ${EXPORT_FORMATS.join('/')}
+  snapshots                                 List stored snapshots
+  diff <from> <to> [--format md|json] [--out FILE]
+                                            Changelog between two snapshots
+  validate --provider <key> [--model M] [--base-url URL] [--batch-size N] [--dry-run]
+                                            Fill missing fields with an LLM provider
+  mcp                                       Serve the catalog to agents over MCP (stdio)
+
+Snapshots are referenced by id, "latest" (newest snapshot), "current" (the
+store) or the path of a JSON export.
+
+Options:
+  --dir <path>   Store directory (default: MODEL_DB_DIR or ./model-db-data)
+  -h, --help     Show this help
+
+Environment: MODEL_DB_SOURCES, ARTIFICIAL_ANALYSIS_API_KEY, <PROVIDER>_API_KEY (validate)`;
+
+const SORT_KEYS: FilterOptions['sortKey'][] = ['recent', 'name', 'provider', 'downloads', 'release_date', 'domain', 'parameters', 'license'];
+
+class UsageError extends Error { }
+
+// Command and provider names come from argv; inherited keys like "toString" are not entries
+const hasOwn = (record: object, key: string): boolean => Object.prototype.hasOwnProperty.call(record, key);
+
+const defaultIO: CliIO = {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    env: process.env
+};
+
+function parse(args: string[]) {
+    try {
+        return parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                dir: { type: 'string' },
+                help: { type: 'boolean', short: 'h' },
+                sources: { type: 'string' },
+                full: { type: 'boolean' },
+                domain: { type: 'string' },
+                sort: { type: 'string' },
+                desc: { type: 'boolean' },
+                limit: { type: 'string' },
+                json: { type: 'boolean' },
+                format: { type: 'string' },
+                query: { type: 'string' },
+                out: { type: 'string' },
+                provenance: { type: 'boolean' },
+                provider: { type: 'string' },
+                model: { type: 'string' },
+                'base-url': { type: 'string' },
+                'batch-size': { type: 'string' },
+                'dry-run': { type: 'boolean' }
+            }
+        });
+    } catch (error) {
+        throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+}
+
+type Parsed = ReturnType<typeof parse>['values'];
+
+function search(models: Model[], query: string, values: Parsed): Model[] {
+    if (values.domain && !DOMAINS.includes(values.domain as Domain)) {
+        throw new UsageError(`Unknown domain "${values.domain}"; use one of: ${DOMAINS.join(', ')}`);
+    }
+    const sortKey = (values.sort ?? 'name') as FilterOptions['sortKey'];
+    if (!SORT_KEYS.includes(sortKey)) throw new UsageError(`Sort by one of: ${SORT_KEYS.join(', ')}`);
+    return filterModels(models, {
+        query,
+        domainPick: (values.domain as Domain) ?? 'All',
+        sortKey,
+        sortDirection: values.desc ? 'desc' : 'asc',
+        minDownloads: 0,
+        pageSize: null
+    });
+}
+
+async function loadRef(ref: string): Promise<Model[]> {
+    if (ref === 'current') return loadModels();
+    if (ref.endsWith('.json')) {
+        const parsed = JSON.parse(await fs.readFile(ref, 'utf8'));
+        if (!Array.isArray(parsed)) throw new Error(`${ref} is not a JSON export of models`);
+        return parsed;
+    }
+    const id = ref === 'latest'
+        ? (await listSnapshots()).sort((a, b) => b.timestamp - a.timestamp)[0]?.id
+        : ref;
+    const models = id ? await loadHistorySnapshot(id) : null;
+    if (!models) throw new Error(`No snapshot "${ref}"; run \`ai-model-db snapshots\` to list them`);
+    return models;
+}
+
+async function write(content: string, out: string | undefined, io: CliIO): Promise<void> {
+    const text = content.endsWith('\n') ? content : `${content}\n`;
+    if (out) await fs.writeFile(out, text, 'utf8');
+    else io.stdout(text);
+}
+
+const commands: Record<string, (positionals: string[], values: Parsed, io: CliIO) => Promise<number>> = {
+    async sync(_, values, io) {
+        const sources = values.sources?.split(',').map(s => s.trim()).filter(Boolean);
+        const result = await syncStore(syncOptionsFromEnv(io.env), {
+            sources,
+            fullRebuild: values.full,
+            onLog: message => io.stderr(`${message}\n`)
+        });
+        io.stdout(`Synced ${result.found} models (${result.added} added, ${result.updated} updated, ${result.flagged} flagged, ${result.rejected} rejected); ${result.total} in ${getFileStorageDir()}\n`);
+        return 0;
+    },
+
+    async query([query = ''], values, io) {
+        const matches = search(await loadModels(), query, values);
+        const limit = values.limit ? parseInt(values.limit, 10) : 50;
+        const shown = Number.isFinite(limit) && limit > 0 ? matches.slice(0, limit) : matches;
+        if (values.json) {
+            io.stdout(`${JSON.stringify(shown, null, 2)}\n`);
+            return 0;
+        }
+        const rows = shown.map(m => [m.id, m.provider || '', m.domain, m.license?.name || '']);
+        const widths = [0, 1, 2].map(col => Math.min(60, Math.max(...rows.map(r => r[col].length), 2)));
+        for (const row of rows) {
+            io.stdout(`${row.map((cell, col) => col < 3 ? cell.padEnd(widths[col]) : cell).join('  ')}\n`);
+        }
+        io.stderr(`${matches.length} match${matches.length === 1 ? '' : 'es'}${shown.length < matches.length ? `, showing ${shown.length}` : ''}\n`);
+        return 0;
+    },
+
+    async export(_, values, io) {
+        const format = (values.format ?? 'csv') as ExportFormat;
+        if (!EXPORT_FORMATS.includes(format)) throw new UsageError(`Export as one of: ${EXPORT_FORMATS.join(', ')}`);
+        // Sorted by name (then id) so repeated exports diff cleanly in git
+        const models = search(await loadModels(), values.query ?? '', { ...values, sort: 'name', desc: false })
+            .sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id));
+        await write(formatModels(models, format, values.provenance), values.out, io);
+        if (values.out) io.stderr(`Wrote ${models.length} models to ${values.out}\n`);
+        return 0;
+    },
+
+    async snapshots(_, __, io) {
+        const snapshots = (await listSnapshots()).sort((a, b) => b.timestamp - a.timestamp);
+        if (snapshots.length === 0) io.stderr('No snapshots yet; one is kept before each sync\n');
+        for (const s of snapshots) {
+            io.stdout(`${s.id}  ${new Date(s.timestamp).toISOString()}  ${String(s.modelCount).padStart(6)} models  ${s.pinned ? '[pinned] ' : ''}${s.description}\n`);
+        }
+        return 0;
+    },
+
+    async diff([from, to], values, io) {
+        if (!from || !to) throw new UsageError('diff needs two snapshots, e.g. `ai-model-db diff latest current`');
+        const format = values.format ?? 'md';
+        if (format !== 'md' && format !== 'json') throw new UsageError('Diff format is md or json');
+        const diff = diffSnapshots(await loadRef(from), await loadRef(to), { from, to });
+        await write(format === 'json' ? changelogToJSON(diff) : changelogToMarkdown(diff), values.out, io);
+        return 0;
+    },
+
+    async validate(_, values, io) {
+        const provider = values.provider;
+        if (!provider || !hasOwn(DEFAULT_API_DIR, provider)) {
+            throw new UsageError(`validate needs --provider, one of: ${Object.keys(DEFAULT_API_DIR).join(', ')}`);
+        }
+        const cfg = {
+            ...DEFAULT_API_DIR[provider],
+            enabled: true,
+            apiKey: io.env[`${provider.toUpperCase()}_API_KEY`] || DEFAULT_API_DIR[provider].apiKey,
+            ...(values.model ? { model: values.model } : {}),
+            ...(values['base-url'] ? { baseUrl: values['base-url'] } : {})
+        };
+        const batchSize = values['batch-size'] ? parseInt(values['batch-size'], 10) : undefined;
+
+        const models = await loadModels();
+        const result = await validateAllModels(models, { apiConfig: { [provider]: cfg }, batchSize }, {
+            onLog: message => io.stderr(`${message}\n`)
+        });
+        if (!result.success) {
+            io.stderr(`Validation failed: ${result.error}\n`);
+            return 1;
+        }
+
+        const validated = new Map((result.updatedModels || []).map(m => [m.id, m]));
+        const updated = models.map(m => {
+            const next = validated.get(m.id);
+            return next ? stampChangedFields(m, next, { source: cfg.name || provider, kind: 'llm' }) : m;
+        });
+        const { summary } = diffSnapshots(models, updated);
+        if (!values['dry-run'] && summary.changed > 0) await saveModels(updated);
+        io.stdout(`${values['dry-run'] ? 'Would update' : 'Updated'} ${summary.changed} of ${models.length} models\n`);
+        return 0;
+    },
+
+    async mcp(_, __, io) {
+        // stdout carries the protocol, so the app's console logging goes to stderr
+        if (io === defaultIO) console.log = console.info = console.debug = console.error;
+        const server = createMcpServer({ onLog: message => io.stderr(`${message}\n`) });
+        const lines = readline.createInterface({ input: io.stdin ?? process.stdin, crlfDelay: Infinity });
+        for await (const line of lines) {
+            const response = await server.handleLine(line);
+            if (response) io.stdout(`${JSON.stringify(response)}\n`);
+        }
+        return 0;
+    }
+};
+
+/**
+ * Run one CLI invocation and return its exit code
+ */
+export async function runCli(argv: string[], io: CliIO = defaultIO): Promise<number> {
+    try {
+        const { values, positionals } = parse(argv);
+        const [name, ...rest] = positionals;
+        if (values.help || !name) {
+            (values.help ? io.stdout : io.stderr)(`${USAGE}\n`);
+            return values.help ? 0 : 2;
+        }
+        const command = hasOwn(commands, name) ? commands[name] : undefined;
+        if (!command) throw new UsageError(`Unknown command "${name}"`);
+
+        const dir = values.dir ?? io.env.MODEL_DB_DIR;
+        if (dir) configureFileStorage(path.resolve(dir));
+        return await command(rest, values, io);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            io.stderr(`${error.message}\n\n${USAGE}\n`);
+            return 2;
+        }
+        io.stderr(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+        return 1;
+    }
+}
@@ -0,0 +1,25 @@
+/**
+ * Headless entry point
+ *
+ * Built with `npm run build:server` into dist-server/ for Node, with the
+ * storage module backed by files instead of IndexedDB. The Express server
+ * loads it to serve the REST API and web search; bin/ai-model-db.mjs runs
+ * the CLI from it.
+ */
+
+export { createModelApi } from './modelApi';
+export type { ApiRequest, ApiResponse, ModelApi, ModelApiOptions, SyncJob } from './modelApi';
+export { syncOptionsFromEnv } from './syncConfig';
+export { configureFileStorage, getFileStorageDir } from '../services/storage/fileStorage';
+export { createSearchService, searchOptionsFromEnv } from './search/searchService';
+export type { SearchService, SearchServiceOptions } from './search/searchService';
+export { searxngProvider, braveProvider, bingProvider, localIndexProvider } from './search/providers';
+export type { SearchProvider, SearchResult } from './search/providers';
+export { runCli } from './cli';
+export type { CliIO } from './cli';
+export { syncStore } from './storeSync';
+export type { StoreSyncResult, StoreSyncRun } from './storeSync';
+export { createMcpServer } from './mcp/mcpServer';
+export type { JsonRpcResponse, McpServer, McpServerOptions } from './mcp/mcpServer';
+export { MCP_TOOLS } from './mcp/tools';
+export type { McpTool } from './mcp/tools';
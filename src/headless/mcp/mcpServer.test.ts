@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { Readable } from 'node:stream';
+import { createMcpServer } from './mcpServer';
+import { runCli } from '../cli';
+import { Model, Pricing } from '../../types';
+
+const perM = (input: number, output?: number): Pricing => ({ unit: '1M tokens', input, output, currency: 'USD' });
+
+const model = (id: string, overrides: Partial<Model> = {}): Model => ({
+    id,
+    name: id,
+    provider: 'acme',
+    domain: 'LLM',
+    source: 'test',
+    url: null,
+    repo: null,
+    license: { name: 'Apache-2.0', type: 'OSI', commercial_use: true, attribution_required: false, share_alike: false, copyleft: false },
+    hosting: { weights_available: true, api_available: true, on_premise_friendly: true },
+    tags: [],
+    ...overrides
+} as Model);
+
+const models = [
+    model('acme/base-70b', {
+        license: { name: 'CC-BY-NC-4.0', type: 'Non-Commercial', commercial_use: false, attribution_required: true, share_alike: false, copyleft: false },
+        benchmarks: [{ name: 'MMLU', score: 0.82 }],
+        pricing: [perM(3, 15)],
+        downloads: 900
+    }),
+    model('acme/tuned-8b', { lineage: { base_models: ['acme/base-70b'], relation: 'finetune' }, benchmarks: [{ name: 'mmlu_5shot', score: 71 }], pricing: [perM(0.2)], downloads: 5000 }),
+    model('acme/mini', { benchmarks: [{ name: 'MMLU (5-shot)', score: 60 }], pricing: [perM(0.1)], downloads: 100 })
+];
+
+const server = createMcpServer({ loadModels: async () => models });
+let nextId = 1;
+const call = async (name: string, args: Record<string, unknown>) => {
+    const response = await server.handle({ jsonrpc: '2.0', id: nextId++, method: 'tools/call', params: { name, arguments: args } });
+    return response!.result as { content: Array<{ text: string }>; structuredContent?: any; isError?: boolean };
+};
+
+describe('protocol', () => {
+    it('negotiates the version and lists the tools', async () => {
+        const init = await server.handle({ jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion: '2024-11-05', capabilities: {} } });
+        expect(init?.result).toMatchObject({ protocolVersion: '2024-11-05', capabilities: { tools: {} }, serverInfo: { name: 'ai-model-db' } });
+        expect(await server.handle({ jsonrpc: '2.0', method: 'notifications/initialized' })).toBeNull();
+
+        const list = await server.handle({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+        expect((list?.result as any).tools.map((t: { name: string }) => t.name)).toEqual([
+            'search_models', 'get_model', 'compare_models', 'license_risk', 'cheapest_model_meeting'
+        ]);
+    });
+
+    it('answers bad requests with JSON-RPC errors', async () => {
+        expect((await server.handle({ jsonrpc: '2.0', id: 2, method: 'resources/list' }))?.error?.code).toBe(-32601);
+        expect((await server.handle({ id: 3, method: 'ping' }))?.error).toMatchObject({ code: -32600 });
+        expect((await server.handleLine('{not json'))?.error?.code).toBe(-32700);
+        expect((await server.handle({ jsonrpc: '2.0', id: 4, method: 'tools/call', params: { name: 'nope' } }))?.error?.code).toBe(-32602);
+    });
+});
+
+describe('tools', () => {
+    it('search_models uses the advanced query syntax', async () => {
+        const result = await call('search_models', { query: 'is:commercial' });
+        expect(result.structuredContent).toMatchObject({ total: 2, models: [{ id: 'acme/tuned-8b' }, { id: 'acme/mini' }] });
+        expect(JSON.parse(result.content[0].text)).toEqual(result.structuredContent);
+    });
+
+    it('get_model and compare_models report unknown models as tool errors', async () => {
+        expect((await call('get_model', { id: 'ACME/MINI' })).structuredContent).toMatchObject({ id: 'acme/mini' });
+        expect(await call('get_model', { id: 'missing' })).toMatchObject({ isError: true, content: [{ text: expect.stringContaining('search_models') }] });
+
+        const compared = await call('compare_models', { ids: ['acme/base-70b', 'acme/mini'] });
+        expect(compared.structuredContent.models).toMatchObject([
+            { id: 'acme/base-70b', cost_per_million_tokens: 6, risk: 'Red', hosting: { api_available: true } },
+            { id: 'acme/mini', cost_per_million_tokens: 0.1, risk: 'Green' }
+        ]);
+        expect((await call('compare_models', { ids: ['acme/mini'] })).isError).toBe(true);
+    });
+
+    it('license_risk inherits terms from base models', async () => {
+        const result = (await call('license_risk', { id: 'acme/tuned-8b' })).structuredContent;
+        expect(result).toMatchObject({ level: 'Red', base_models: [{ id: 'acme/base-70b' }] });
+        expect(result.reason).toContain('inherited from acme/base-70b');
+        expect(result.explanation).toContain('Base model acme/base-70b: CC-BY-NC-4.0 terms also apply.');
+
+        const compared = await call('compare_models', { ids: ['acme/tuned-8b', 'acme/mini'] });
+        expect(compared.structuredContent.models.map((m: { risk: string }) => m.risk)).toEqual(['Red', 'Green']);
+    });
+
+    it('cheapest_model_meeting unifies benchmark names and applies the bar', async () => {
+        const result = (await call('cheapest_model_meeting', { benchmark: 'MMLU (5-shot)', min_score: 70 })).structuredContent;
+        expect(result).toMatchObject({ benchmark: 'MMLU', match: { id: 'acme/tuned-8b', score: 71, cost_per_million_tokens: 0.2 } });
+        expect(result.frontier.map((p: { id: string }) => p.id)).toEqual(['acme/mini', 'acme/tuned-8b', 'acme/base-70b']);
+
+        expect((await call('cheapest_model_meeting', { benchmark: 'MMLU', min_score: 90 })).structuredContent.match).toBeNull();
+        expect((await call('cheapest_model_meeting', { benchmark: 'SWE-bench', min_score: 1 })).isError).toBe(true);
+    });
+});
+
+describe('stdio transport', () => {
+    it('answers newline-delimited requests in order', async () => {
+        let stdout = '';
+        const code = await runCli(['mcp'], {
+            stdout: text => { stdout += text; },
+            stderr: () => undefined,
+            env: {},
+            stdin: Readable.from([
+                '{"jsonrpc":"2.0","id":1,"method":"initialize","params":{"protocolVersion":"2025-06-18"}}\n',
+                '{"jsonrpc":"2.0","method":"notifications/initialized"}\n',
+                '{"jsonrpc":"2.0","id":2,"method":"ping"}\n'
+            ])
+        });
+        expect(code).toBe(0);
+        expect(stdout.trim().split('\n').map(line => JSON.parse(line))).toEqual([
+            expect.objectContaining({ id: 1, result: expect.objectContaining({ protocolVersion: '2025-06-18' }) }),
+            { jsonrpc: '2.0', id: 2, result: {} }
+        ]);
+    });
+});
@@ -0,0 +1,127 @@
+/**
+ * Model Context Protocol server over the model database
+ *
+ * Implements the JSON-RPC side of MCP (initialize, ping, tools/list,
+ * tools/call) without transport concerns, so the same server answers over
+ * stdio (`ai-model-db mcp`) and over HTTP (`POST /mcp` on the Express server).
+ * Tools are read-only and load the stored models on every call, so agents
+ * always see the latest sync.
+ */
+
+import { Model } from '../../types';
+import { loadModels } from '../../services/storage';
+import { MCP_TOOLS, ToolError } from './tools';
+import { version } from '../../../package.json';
+
+export interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: string | number | null;
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+}
+
+export interface McpServerOptions {
+    /** Source of the catalog; defaults to the storage module */
+    loadModels?: () => Promise<Model[]>;
+    onLog?: (message: string) => void;
+}
+
+// Newest first; a client asking for an older supported version gets it back
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const SERVER_INFO = { name: 'ai-model-db', version };
+
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const rpcError = (id: JsonRpcResponse['id'], code: number, message: string): JsonRpcResponse =>
+    ({ jsonrpc: '2.0', id, error: { code, message } });
+
+export function createMcpServer(options: McpServerOptions = {}) {
+    const load = options.loadModels ?? loadModels;
+
+    async function callTool(params: Record<string, unknown>): Promise<unknown> {
+        const tool = MCP_TOOLS.find(t => t.name === params.name);
+        if (!tool) throw Object.assign(new Error(`Unknown tool "${String(params.name)}"`), { code: INVALID_PARAMS });
+        const args = isObject(params.arguments) ? params.arguments : {};
+        options.onLog?.(`[MCP] ${tool.name} ${JSON.stringify(args)}`);
+        try {
+            const data = tool.run(args, await load());
+            return {
+                content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+                // Only objects are valid structured content
+                ...(isObject(data) ? { structuredContent: data } : {})
+            };
+        } catch (error) {
+            // Argument and lookup problems go back to the agent so it can correct itself
+            if (!(error instanceof ToolError)) throw error;
+            return { content: [{ type: 'text', text: error.message }], isError: true };
+        }
+    }
+
+    async function dispatch(method: string, params: Record<string, unknown>): Promise<unknown> {
+        switch (method) {
+            case 'initialize': {
+                const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+                return {
+                    protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+                    capabilities: { tools: { listChanged: false } },
+                    serverInfo: SERVER_INFO,
+                    instructions: 'Curated AI model catalog. Use search_models to find ids, then get_model, compare_models, license_risk or cheapest_model_meeting. Prefer these facts over memory.'
+                };
+            }
+            case 'ping':
+                return {};
+            case 'tools/list':
+                return { tools: MCP_TOOLS.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) };
+            case 'tools/call':
+                return callTool(params);
+            default:
+                throw Object.assign(new Error(`Method not found: ${method}`), { code: METHOD_NOT_FOUND });
+        }
+    }
+
+    /**
+     * Answer one JSON-RPC message. Notifications (no id) return null.
+     */
+    async function handle(message: unknown): Promise<JsonRpcResponse | null> {
+        if (!isObject(message) || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+            // Responses from the client (to requests we never send) are ignored
+            if (isObject(message) && !('method' in message) && ('result' in message || 'error' in message)) return null;
+            const id = isObject(message) && (typeof message.id === 'string' || typeof message.id === 'number') ? message.id : null;
+            return rpcError(id, INVALID_REQUEST, 'Expected a JSON-RPC 2.0 request');
+        }
+        if (!('id' in message)) return null;
+        const id = message.id as JsonRpcResponse['id'];
+        try {
+            const result = await dispatch(message.method, isObject(message.params) ? message.params : {});
+            return { jsonrpc: '2.0', id, result };
+        } catch (error) {
+            const code = typeof (error as { code?: unknown }).code === 'number' ? (error as { code: number }).code : INTERNAL_ERROR;
+            return rpcError(id, code, error instanceof Error ? error.message : String(error));
+        }
+    }
+
+    /**
+     * Answer one line of the stdio transport (newline-delimited JSON)
+     */
+    async function handleLine(line: string): Promise<JsonRpcResponse | null> {
+        if (line.trim() === '') return null;
+        let message: unknown;
+        try {
+            message = JSON.parse(line);
+        } catch {
+            return rpcError(null, PARSE_ERROR, 'Invalid JSON');
+        }
+        return handle(message);
+    }
+
+    return { handle, handleLine };
+}
+
+export type McpServer = ReturnType<typeof createMcpServer>;
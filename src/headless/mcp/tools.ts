@@ -0,0 +1,212 @@
+/**
+ * Catalog tools exposed to agents over MCP
+ *
+ * Each tool takes JSON arguments (described by a JSON Schema for the client)
+ * and returns plain data from the stored models, computed with the same
+ * helpers the app uses for search, comparison, license risk and the
+ * price/performance frontier.
+ */
+
+import { DOMAINS, Domain, Model } from '../../types';
+import { FilterOptions, filterModels } from '../../utils/filterLogic';
+import { riskExplainer, riskScore } from '../../utils/format';
+import { ancestorsOf, buildLineageGraph } from '../../utils/lineage';
+import { listBenchmarks, resolveBenchmark } from '../../utils/benchmarks';
+import { CURRENCY_NAMES, CurrencyCode } from '../../utils/currency';
+import { HostingFilter, buildFrontier, cheapestMeeting, costPerMillion } from '../../utils/frontier';
+
+export interface McpTool {
+    name: string;
+    description: string;
+    inputSchema: Record<string, unknown>;
+    run(args: Record<string, unknown>, models: Model[]): unknown;
+}
+
+/** Thrown for bad arguments or unknown models; reported to the agent as a tool error */
+export class ToolError extends Error { }
+
+const SORT_KEYS: FilterOptions['sortKey'][] = ['recent', 'name', 'provider', 'downloads', 'release_date', 'domain', 'parameters', 'license'];
+const HOSTING: HostingFilter[] = ['all', 'api', 'weights', 'on-premise'];
+const CURRENCIES = Object.keys(CURRENCY_NAMES) as CurrencyCode[];
+const MAX_RESULTS = 100;
+const MAX_COMPARE = 6;
+
+const str = (args: Record<string, unknown>, key: string, required = false): string | undefined => {
+    const value = args[key];
+    if (typeof value === 'string' && value.trim() !== '') return value.trim();
+    if (required) throw new ToolError(`"${key}" is required`);
+    return undefined;
+};
+
+const oneOf = <T extends string>(args: Record<string, unknown>, key: string, allowed: readonly T[], fallback: T): T => {
+    const value = str(args, key);
+    if (value === undefined) return fallback;
+    if (!allowed.includes(value as T)) throw new ToolError(`"${key}" must be one of: ${allowed.join(', ')}`);
+    return value as T;
+};
+
+/**
+ * Look a model up by id, falling back to an unambiguous case-insensitive name
+ */
+function findModel(models: Model[], ref: string): Model {
+    const byId = models.find(m => m.id === ref);
+    if (byId) return byId;
+    const lower = ref.toLowerCase();
+    const byName = models.filter(m => m.id.toLowerCase() === lower || m.name.toLowerCase() === lower);
+    if (byName.length === 1) return byName[0];
+    if (byName.length > 1) throw new ToolError(`"${ref}" matches ${byName.length} models; use one of these ids: ${byName.map(m => m.id).join(', ')}`);
+    throw new ToolError(`No model "${ref}"; use search_models to find its id`);
+}
+
+const summary = (m: Model) => ({
+    id: m.id,
+    name: m.name,
+    provider: m.provider,
+    domain: m.domain,
+    parameters: m.parameters ?? null,
+    context_window: m.context_window ?? null,
+    license: m.license?.name ?? null,
+    commercial_use: m.license?.commercial_use ?? null,
+    downloads: m.downloads ?? null,
+    release_date: m.release_date ?? null,
+    url: m.url ?? null
+});
+
+const domainSchema = { type: 'string', enum: ['All', ...DOMAINS] };
+const currencySchema = { type: 'string', enum: CURRENCIES, description: 'Currency for costs (default USD)' };
+
+export const MCP_TOOLS: McpTool[] = [
+    {
+        name: 'search_models',
+        description: 'Search the curated model catalog. The query uses the app\'s advanced syntax: free text plus filters such as domain:LLM, license:apache, is:commercial, provider:meta, tag:code, downloads:>1000, derives:llama-3, fits:8gb.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'Advanced search query; empty lists everything' },
+                domain: domainSchema,
+                sort: { type: 'string', enum: SORT_KEYS },
+                order: { type: 'string', enum: ['asc', 'desc'] },
+                limit: { type: 'integer', minimum: 1, maximum: MAX_RESULTS, description: 'Default 20' }
+            }
+        },
+        run(args, models) {
+            const domain = oneOf<Domain | 'All'>(args, 'domain', ['All', ...DOMAINS], 'All');
+            const matches = filterModels(models, {
+                query: str(args, 'query') ?? '',
+                domainPick: domain,
+                sortKey: oneOf(args, 'sort', SORT_KEYS, 'downloads'),
+                sortDirection: oneOf(args, 'order', ['asc', 'desc'] as const, 'desc'),
+                minDownloads: 0,
+                pageSize: null
+            });
+            const limit = Math.min(Math.max(1, Number(args.limit) || 20), MAX_RESULTS);
+            return { total: matches.length, models: matches.slice(0, limit).map(summary) };
+        }
+    },
+    {
+        name: 'get_model',
+        description: 'Full catalog record for one model: license, pricing, hosting, benchmarks, lineage and per-field provenance.',
+        inputSchema: {
+            type: 'object',
+            properties: { id: { type: 'string', description: 'Model id (or exact name)' } },
+            required: ['id']
+        },
+        run(args, models) {
+            return findModel(models, str(args, 'id', true)!);
+        }
+    },
+    {
+        name: 'compare_models',
+        description: 'Side-by-side comparison of 2 to 6 models: specs, hosting options, license, downloads, pricing and blended cost per million tokens.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                ids: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: MAX_COMPARE },
+                currency: currencySchema
+            },
+            required: ['ids']
+        },
+        run(args, models) {
+            const ids = Array.isArray(args.ids) ? args.ids.filter((id): id is string => typeof id === 'string') : [];
+            if (ids.length < 2 || ids.length > MAX_COMPARE) throw new ToolError(`"ids" must list 2 to ${MAX_COMPARE} models`);
+            const currency = oneOf(args, 'currency', CURRENCIES, 'USD');
+            const graph = buildLineageGraph(models);
+            return {
+                currency,
+                models: ids.map(id => findModel(models, id)).map(m => ({
+                    ...summary(m),
+                    description: m.description ?? null,
+                    hosting: {
+                        weights_available: !!m.hosting?.weights_available,
+                        api_available: !!m.hosting?.api_available,
+                        on_premise_friendly: !!m.hosting?.on_premise_friendly
+                    },
+                    license_type: m.license?.type ?? null,
+                    pricing: m.pricing?.[0] ?? null,
+                    cost_per_million_tokens: costPerMillion(m, currency)?.cost ?? null,
+                    // Same inherited-terms rating as license_risk
+                    risk: riskScore(m, ancestorsOf(graph, m.id).map(node => node.model)).level
+                }))
+            };
+        }
+    },
+    {
+        name: 'license_risk',
+        description: 'Commercial-use risk of a model (Green/Amber/Red) with the reasons, including terms inherited from its base models.',
+        inputSchema: {
+            type: 'object',
+            properties: { id: { type: 'string', description: 'Model id (or exact name)' } },
+            required: ['id']
+        },
+        run(args, models) {
+            const model = findModel(models, str(args, 'id', true)!);
+            const ancestors = ancestorsOf(buildLineageGraph(models), model.id).map(node => node.model);
+            const risk = riskScore(model, ancestors);
+            return {
+                id: model.id,
+                license: model.license ?? null,
+                level: risk.level,
+                reason: risk.reason,
+                explanation: riskExplainer(model, ancestors),
+                base_models: ancestors.map(m => ({ id: m.id, name: m.name, license: m.license?.name ?? null }))
+            };
+        }
+    },
+    {
+        name: 'cheapest_model_meeting',
+        description: 'Cheapest priced model whose score on a benchmark meets a bar, with the price/performance frontier around it. Benchmark names are unified, so "mmlu_5shot" and "MMLU (5-shot)" both mean MMLU.',
+        inputSchema: {
+            type: 'object',
+            properties: {
+                benchmark: { type: 'string', description: 'Benchmark name, e.g. MMLU, HumanEval, GPQA' },
+                min_score: { type: 'number', description: 'Quality bar on the benchmark\'s scale (percent for accuracy benchmarks); a maximum for lower-is-better benchmarks' },
+                domain: domainSchema,
+                hosting: { type: 'string', enum: HOSTING },
+                currency: currencySchema
+            },
+            required: ['benchmark', 'min_score']
+        },
+        run(args, models) {
+            const benchmark = resolveBenchmark(str(args, 'benchmark', true)!);
+            const threshold = Number(args.min_score);
+            if (!Number.isFinite(threshold)) throw new ToolError('"min_score" must be a number');
+            const domain = oneOf<Domain | 'All'>(args, 'domain', ['All', ...DOMAINS], 'All');
+            const currency = oneOf(args, 'currency', CURRENCIES, 'USD');
+
+            const points = buildFrontier(models, benchmark.key, { domain, hosting: oneOf(args, 'hosting', HOSTING, 'all'), currency });
+            if (points.length === 0) {
+                const known = listBenchmarks(models, domain).slice(0, 15).map(b => b.label);
+                throw new ToolError(`No priced models report ${benchmark.label}. Benchmarks in the catalog: ${known.join(', ') || 'none'}`);
+            }
+            const point = (p: typeof points[number]) => ({ ...summary(p.model), score: p.score, cost_per_million_tokens: p.cost, pricing: p.pricing });
+            const best = cheapestMeeting(points, threshold, benchmark.lowerIsBetter);
+            return {
+                benchmark: benchmark.label,
+                lower_is_better: benchmark.lowerIsBetter,
+                currency,
+                match: best ? point(best) : null,
+                frontier: points.filter(p => p.onFrontier).map(point)
+            };
+        }
+    }
+];
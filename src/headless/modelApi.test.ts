@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// The headless build swaps IndexedDB for file storage; do the same here
+vi.mock('../services/storage/indexedDBStorage', () => import('../services/storage/fileStorage'));
+
+import { createModelApi } from './modelApi';
+import { syncOptionsFromEnv } from './syncConfig';
+import { configureFileStorage, loadMetadata, loadModels, saveModels } from '../services/storage/fileStorage';
+import { withCassette } from '../test/cassette';
+import { Model } from '../types';
+
+const model = (id: string, overrides: Partial<Model> = {}): Model => ({
+    id,
+    name: id,
+    provider: 'acme',
+    domain: 'LLM',
+    source: 'HuggingFace',
+    url: null,
+    repo: null,
+    license: { name: 'Apache-2.0', type: 'OSI', commercial_use: true, attribution_required: false, share_alike: false, copyleft: false },
+    tags: [],
+    ...overrides
+} as Model);
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'model-api-'));
+const auth = { authorization: 'Bearer s3cret' };
+
+beforeEach(async () => {
+    configureFileStorage(fs.mkdtempSync(path.join(root, 'store-')));
+    await saveModels([
+        model('acme/chat-7b', { tags: ['chat'], downloads: 5000 }),
+        model('acme/research', { license: { name: 'CC-BY-NC-4.0', type: 'Non-Commercial', commercial_use: false, attribution_required: true, share_alike: false, copyleft: false } }),
+        model('acme/painter', { domain: 'ImageGen' })
+    ]);
+});
+
+afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('GET /models', () => {
+    it('answers advanced queries with paging', async () => {
+        const api = createModelApi();
+        const res = await api.handle({ method: 'GET', path: '/models', query: { q: 'is:commercial domain:LLM' } });
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ total: 1, models: [{ id: 'acme/chat-7b' }] });
+
+        const page = await api.handle({ method: 'GET', path: '/models', query: { sort: 'name', order: 'desc', limit: '1', offset: '1' } });
+        expect(page.body).toMatchObject({ total: 3, limit: 1, offset: 1, models: [{ id: 'acme/painter' }] });
+    });
+
+    it('rejects unknown domains and sort keys', async () => {
+        const api = createModelApi();
+        expect((await api.handle({ method: 'GET', path: '/models', query: { domain: 'Robots' } })).status).toBe(400);
+        expect((await api.handle({ method: 'GET', path: '/models', query: { sort: 'vibes' } })).status).toBe(400);
+    });
+});
+
+describe('GET /models/:id', () => {
+    it('finds ids containing slashes', async () => {
+        const api = createModelApi();
+        const res = await api.handle({ method: 'GET', path: '/models/acme%2Fresearch' });
+        expect(res.body).toMatchObject({ id: 'acme/research', license: { commercial_use: false } });
+        expect((await api.handle({ method: 'GET', path: '/models/acme/research' })).status).toBe(200);
+        expect((await api.handle({ method: 'GET', path: '/models/missing' })).status).toBe(404);
+    });
+});
+
+describe('PATCH /models/:id', () => {
+    it('requires a configured token and the matching bearer', async () => {
+        const patch = { method: 'PATCH', path: '/models/acme/chat-7b', body: { parameters: '7B' } };
+        expect((await createModelApi().handle({ ...patch, headers: auth })).status).toBe(403);
+        expect((await createModelApi({ token: 's3cret' }).handle(patch)).status).toBe(401);
+    });
+
+    it('validates, stamps manual provenance and persists the edit', async () => {
+        const api = createModelApi({ token: 's3cret' });
+        const res = await api.handle({ method: 'PATCH', path: '/models/acme/chat-7b', headers: auth, body: { parameters: '7B' } });
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({ parameters: '7B', provenance: { parameters: { source: 'REST API', kind: 'manual' } } });
+        expect((await loadModels()).find(m => m.id === 'acme/chat-7b')?.parameters).toBe('7B');
+
+        const invalid = await api.handle({ method: 'PATCH', path: '/models/acme/chat-7b', headers: auth, body: { domain: 'Robots' } });
+        expect(invalid.status).toBe(422);
+        expect((await api.handle({ method: 'PATCH', path: '/models/acme/chat-7b', headers: auth, body: { id: 'other' } })).status).toBe(400);
+    });
+
+    it('merges a partial license into the existing one', async () => {
+        const api = createModelApi({ token: 's3cret' });
+        const res = await api.handle({ method: 'PATCH', path: '/models/acme/research', headers: auth, body: { license: { name: 'CC-BY-NC-SA-4.0' } } });
+        expect(res.status).toBe(200);
+        const saved = (await loadModels()).find(m => m.id === 'acme/research');
+        expect(saved?.license).toMatchObject({ name: 'CC-BY-NC-SA-4.0', commercial_use: false, attribution_required: true });
+    });
+
+    it('keeps both of two concurrent edits', async () => {
+        const api = createModelApi({ token: 's3cret' });
+        const patch = (body: Record<string, unknown>) => api.handle({ method: 'PATCH', path: '/models/acme/chat-7b', headers: auth, body });
+        const results = await Promise.all([patch({ parameters: '7B' }), patch({ context_window: '32k' })]);
+        expect(results.map(r => r.status)).toEqual([200, 200]);
+        expect((await loadModels()).find(m => m.id === 'acme/chat-7b')).toMatchObject({ parameters: '7B', context_window: '32k' });
+    });
+
+    it('rejects fields the model schema does not know', async () => {
+        const api = createModelApi({ token: 's3cret' });
+        const res = await api.handle({ method: 'PATCH', path: '/models/acme/chat-7b', headers: auth, body: { parameters: '7B', secret_note: 'x', license: { evil: true } } });
+        expect(res).toMatchObject({ status: 400, body: { error: 'unknown_field', message: 'Unknown fields: secret_note, license.evil' } });
+        expect((await loadModels()).find(m => m.id === 'acme/chat-7b')?.parameters).toBeUndefined();
+    });
+
+    it('rejects malformed percent-encoding in the id', async () => {
+        const res = await createModelApi().handle({ method: 'GET', path: '/models/acme%E0%A4%A' });
+        expect(res).toMatchObject({ status: 400, body: { error: 'invalid_id' } });
+    });
+});
+
+describe('/sync', () => {
+    it('rejects unknown source names', async () => {
+        const api = createModelApi({ token: 's3cret', syncOptions: syncOptionsFromEnv({}) });
+        const res = await api.handle({ method: 'POST', path: '/sync', headers: auth, body: { sources: ['openmodeldb', 'nope'] } });
+        expect(res).toMatchObject({ status: 400, body: { error: 'unknown_source' } });
+        expect((await api.handle({ method: 'GET', path: '/sync' })).status).toBe(404);
+    });
+
+    it('syncs in the background and merges the results into the store', async () => {
+        const api = createModelApi({ token: 's3cret', syncOptions: syncOptionsFromEnv({ MODEL_DB_SOURCES: 'openmodeldb,modelscope' }) });
+        const { misses } = await withCassette('sync-openmodeldb-modelscope', async () => {
+            const started = await api.handle({ method: 'POST', path: '/sync', headers: auth, body: { sources: ['openmodeldb', 'modelscope'] } });
+            expect(started).toMatchObject({ status: 202, body: { state: 'running', sources: ['openmodeldb', 'modelscope'] } });
+            expect((await api.handle({ method: 'POST', path: '/sync', headers: auth })).status).toBe(409);
+            await api.whenIdle();
+        });
+
+        expect(misses).toEqual([]);
+        const status = await api.handle({ method: 'GET', path: '/sync' });
+        expect(status.body).toMatchObject({ state: 'done', added: 4 });
+        expect((await loadModels()).map(m => m.id)).toContain('openmodeldb-4x-UltraSharp');
+        expect(await loadMetadata('lastSync')).not.toBeNull();
+    });
+});
+
+describe('syncOptionsFromEnv', () => {
+    it('enables keyless sources by default and Artificial Analysis with a key', () => {
+        expect(syncOptionsFromEnv({}).dataSources).not.toHaveProperty('artificialanalysis');
+        expect(syncOptionsFromEnv({ ARTIFICIAL_ANALYSIS_API_KEY: 'k' }).dataSources.artificialanalysis).toBe(true);
+        expect(syncOptionsFromEnv({ MODEL_DB_SOURCES: 'huggingface' }).dataSources).toEqual({ huggingface: true });
+    });
+});
@@ -0,0 +1,296 @@
+/**
+ * REST API over the model database
+ *
+ * Framework-agnostic request handlers used by the Express server under
+ * /api. Reads are open; edits and syncs require the configured bearer
+ * token. Models are read from and written to the storage module, which the
+ * headless build backs with files.
+ *
+ * Routes (relative to /api):
+ * - GET    /models?q=<advanced query>&domain=&sort=&order=&limit=&offset=
+ * - GET    /models/:id
+ * - PATCH  /models/:id         body: fields to change
+ * - POST   /sync               body: { sources?: string[], fullRebuild?: boolean }
+ * - GET    /sync               status of the running or last sync
+ */
+
+import { DOMAINS, Domain, Model } from '../types';
+import { FilterOptions, filterModels } from '../utils/filterLogic';
+import { stampChangedFields } from '../utils/provenance';
+import { HostingSchema, LicenseSchema, ModelSchema } from '../services/api/schemas';
+import { loadModels, saveModels } from '../services/storage';
+import { getFetcherRegistry, loadPluginFetchers } from '../services/sync/SyncOrchestrator';
+import { registerCustomSourceFetchers } from '../services/sync/CustomSources';
+import type { SyncOptions } from '../services/sync/SyncTypes';
+import { syncStore, withStoreLock } from './storeSync';
+
+export interface ApiRequest {
+    method: string;
+    /** Path below the API mount point, e.g. /models/openai-gpt-4o */
+    path: string;
+    query?: Record<string, unknown>;
+    headers?: Record<string, string | string[] | undefined>;
+    body?: unknown;
+}
+
+export interface ApiResponse {
+    status: number;
+    body: unknown;
+}
+
+export interface SyncJob {
+    id: string;
+    state: 'running' | 'done' | 'failed';
+    started_at: string;
+    finished_at?: string;
+    sources: string[] | 'all';
+    found?: number;
+    flagged?: number;
+    rejected?: number;
+    added?: number;
+    updated?: number;
+    error?: string;
+    /** Last lines of the sync log */
+    log: string[];
+}
+
+export interface ModelApiOptions {
+    /** Bearer token for PATCH and sync; without one, writes are refused */
+    token?: string;
+    /** Sync settings (enabled sources, API keys) used by POST /sync */
+    syncOptions?: SyncOptions;
+    onLog?: (message: string) => void;
+}
+
+const SORT_KEYS: FilterOptions['sortKey'][] = ['recent', 'name', 'provider', 'downloads', 'release_date', 'domain', 'parameters', 'license'];
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+const LOG_LINES = 50;
+const API_EDIT_ORIGIN = { source: 'REST API', kind: 'manual' as const };
+// Fields an edit may not touch
+const READ_ONLY_FIELDS = ['id', 'provenance'];
+// Nested objects an edit merges into instead of replacing, with their known keys
+const MERGED_FIELDS: Record<string, string[]> = {
+    license: Object.keys(LicenseSchema.shape),
+    hosting: Object.keys(HostingSchema.shape)
+};
+// The schema passes unknown keys through; edits may only set the ones it checks
+const MODEL_FIELDS = Object.keys(ModelSchema.shape);
+
+const json = (status: number, body: unknown): ApiResponse => ({ status, body });
+const fail = (status: number, error: string, message: string): ApiResponse => json(status, { error, message });
+
+const param = (query: ApiRequest['query'], key: string): string | undefined => {
+    const value = query?.[key];
+    const first = Array.isArray(value) ? value[0] : value;
+    return typeof first === 'string' && first.trim() !== '' ? first.trim() : undefined;
+};
+
+const intParam = (query: ApiRequest['query'], key: string, fallback: number): number => {
+    const parsed = parseInt(param(query, key) ?? '', 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const header = (headers: ApiRequest['headers'], name: string): string | undefined => {
+    const value = headers?.[name] ?? headers?.[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Create the API. Sync state lives in the returned instance, so the server
+ * keeps one for its lifetime.
+ */
+export function createModelApi(options: ModelApiOptions = {}) {
+    let job: SyncJob | null = null;
+    let running: Promise<void> | null = null;
+
+    const authorize = (req: ApiRequest): ApiResponse | null => {
+        if (!options.token) {
+            return fail(403, 'writes_disabled', 'Set MODEL_DB_API_TOKEN on the server to enable edits and syncs');
+        }
+        if (header(req.headers, 'authorization') !== `Bearer ${options.token}`) {
+            return fail(401, 'unauthorized', 'Missing or invalid bearer token');
+        }
+        return null;
+    };
+
+    async function listModels(req: ApiRequest): Promise<ApiResponse> {
+        const domain = param(req.query, 'domain');
+        if (domain && !DOMAINS.includes(domain as Domain)) {
+            return fail(400, 'invalid_domain', `Unknown domain "${domain}"`);
+        }
+        const sort = param(req.query, 'sort') ?? 'name';
+        if (!SORT_KEYS.includes(sort as FilterOptions['sortKey'])) {
+            return fail(400, 'invalid_sort', `Sort by one of: ${SORT_KEYS.join(', ')}`);
+        }
+        const limit = Math.min(intParam(req.query, 'limit', DEFAULT_LIMIT), MAX_LIMIT);
+        const offset = intParam(req.query, 'offset', 0);
+
+        const matches = filterModels(await loadModels(), {
+            query: param(req.query, 'q') ?? '',
+            domainPick: (domain as Domain) ?? 'All',
+            sortKey: sort as FilterOptions['sortKey'],
+            sortDirection: param(req.query, 'order') === 'desc' ? 'desc' : 'asc',
+            minDownloads: 0,
+            pageSize: null
+        });
+        return json(200, { total: matches.length, offset, limit, models: matches.slice(offset, offset + limit) });
+    }
+
+    async function getModel(id: string): Promise<ApiResponse> {
+        const model = (await loadModels()).find(m => m.id === id);
+        return model ? json(200, model) : fail(404, 'not_found', `No model with id "${id}"`);
+    }
+
+    async function patchModel(id: string, req: ApiRequest): Promise<ApiResponse> {
+        const denied = authorize(req);
+        if (denied) return denied;
+        if (!isObject(req.body)) return fail(400, 'invalid_body', 'Expected a JSON object of fields to change');
+        const locked = READ_ONLY_FIELDS.filter(field => field in (req.body as object));
+        if (locked.length) return fail(400, 'read_only_field', `Cannot change: ${locked.join(', ')}`);
+
+        const body = req.body;
+        const unknown = Object.keys(body).filter(field => !MODEL_FIELDS.includes(field));
+        for (const [field, keys] of Object.entries(MERGED_FIELDS)) {
+            const value = body[field];
+            if (isObject(value)) unknown.push(...Object.keys(value).filter(key => !keys.includes(key)).map(key => `${field}.${key}`));
+        }
+        if (unknown.length) return fail(400, 'unknown_field', `Unknown fields: ${unknown.join(', ')}`);
+
+        // Load and save under the store lock so concurrent edits and syncs are not lost
+        return withStoreLock(async () => {
+            const models = await loadModels();
+            const index = models.findIndex(m => m.id === id);
+            if (index < 0) return fail(404, 'not_found', `No model with id "${id}"`);
+
+            const current = models[index] as unknown as Record<string, unknown>;
+            const edited: Record<string, unknown> = { ...current, ...body, id };
+            for (const field of Object.keys(MERGED_FIELDS)) {
+                const value = body[field];
+                if (isObject(current[field]) && isObject(value)) edited[field] = { ...current[field], ...value };
+            }
+            const checked = ModelSchema.safeParse(edited);
+            if (!checked.success) {
+                return json(422, {
+                    error: 'invalid_model',
+                    message: 'The edit does not produce a valid model',
+                    issues: checked.error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`)
+                });
+            }
+
+            // Save the edit itself: the schema output fills defaults for fields the caller never sent
+            const updated = { ...stampChangedFields(models[index], edited as unknown as Model, API_EDIT_ORIGIN), updated_at: new Date().toISOString() };
+            models[index] = updated;
+            await saveModels(models);
+            options.onLog?.(`[API] Edited ${id}: ${Object.keys(body).join(', ')}`);
+            return json(200, updated);
+        });
+    }
+
+    async function knownSources(syncOptions: SyncOptions): Promise<string[]> {
+        await loadPluginFetchers();
+        const registry = getFetcherRegistry();
+        registerCustomSourceFetchers(registry, syncOptions.customSources || []);
+        return registry.getAll().map(f => f.id);
+    }
+
+    async function startSync(req: ApiRequest): Promise<ApiResponse> {
+        const denied = authorize(req);
+        if (denied) return denied;
+        if (running && job) return json(409, { error: 'sync_running', message: 'A sync is already running', job });
+        if (!options.syncOptions) return fail(501, 'sync_unconfigured', 'The server has no sync configuration');
+
+        const body = isObject(req.body) ? req.body : {};
+        let sources: string[] | undefined;
+        if (body.sources !== undefined) {
+            if (!Array.isArray(body.sources) || !body.sources.every((s): s is string => typeof s === 'string')) {
+                return fail(400, 'invalid_sources', 'Expected sources to be an array of source ids');
+            }
+            const known = await knownSources(options.syncOptions);
+            const unknown = body.sources.filter(s => !known.includes(s));
+            if (unknown.length) return fail(400, 'unknown_source', `Unknown sources: ${unknown.join(', ')}. Valid: ${known.join(', ')}`);
+            sources = body.sources;
+        }
+        // The source check awaits; another request may have started a sync meanwhile
+        if (running && job) return json(409, { error: 'sync_running', message: 'A sync is already running', job });
+        const current: SyncJob = {
+            id: Date.now().toString(36),
+            state: 'running',
+            started_at: new Date().toISOString(),
+            sources: sources ?? 'all',
+            log: []
+        };
+        job = current;
+
+        const onLog = (message: string) => {
+            current.log.push(message);
+            if (current.log.length > LOG_LINES) current.log.shift();
+            options.onLog?.(message);
+        };
+
+        running = (async () => {
+            try {
+                const result = await syncStore(options.syncOptions!, { sources, fullRebuild: body.fullRebuild === true, onLog });
+                Object.assign(current, {
+                    state: 'done',
+                    found: result.found,
+                    flagged: result.flagged,
+                    rejected: result.rejected,
+                    added: result.added,
+                    updated: result.updated
+                });
+            } catch (error) {
+                current.state = 'failed';
+                current.error = error instanceof Error ? error.message : String(error);
+                onLog(`[API] Sync failed: ${current.error}`);
+            } finally {
+                current.finished_at = new Date().toISOString();
+                running = null;
+            }
+        })();
+
+        return json(202, job);
+    }
+
+    return {
+        async handle(req: ApiRequest): Promise<ApiResponse> {
+            const method = req.method.toUpperCase();
+            const path = req.path.replace(/\/+$/, '') || '/';
+            try {
+                if (path === '/models') {
+                    return method === 'GET' ? await listModels(req) : fail(405, 'method_not_allowed', `${method} not supported on /models`);
+                }
+                if (path.startsWith('/models/')) {
+                    // Ids may contain slashes (e.g. modelscope-Qwen/Qwen2.5-7B-Instruct)
+                    let id: string;
+                    try {
+                        id = decodeURIComponent(path.slice('/models/'.length));
+                    } catch {
+                        return fail(400, 'invalid_id', 'The model id is not valid percent-encoding');
+                    }
+                    if (method === 'GET') return await getModel(id);
+                    if (method === 'PATCH') return await patchModel(id, req);
+                    return fail(405, 'method_not_allowed', `${method} not supported on /models/:id`);
+                }
+                if (path === '/sync') {
+                    if (method === 'POST') return await startSync(req);
+                    if (method === 'GET') return job ? json(200, job) : fail(404, 'no_sync', 'No sync has run since the server started');
+                    return fail(405, 'method_not_allowed', `${method} not supported on /sync`);
+                }
+                return fail(404, 'not_found', `No route for ${method} ${path}`);
+            } catch (error) {
+                return fail(500, 'internal_error', error instanceof Error ? error.message : String(error));
+            }
+        },
+
+        /** Resolves once the running sync (if any) has finished */
+        async whenIdle(): Promise<void> {
+            await running;
+        }
+    };
+}
+
+export type ModelApi = ReturnType<typeof createModelApi>;
@@ -0,0 +1,79 @@
+/**
+ * Small in-memory full-text index with BM25 ranking, used by the local
+ * search provider over the stored model records.
+ */
+
+export interface IndexedDocument {
+    id: string;
+    title: string;
+    url: string;
+    text: string;
+}
+
+export interface TextIndex {
+    docs: IndexedDocument[];
+    /** term -> (doc index -> term frequency) */
+    postings: Map<string, Map<number, number>>;
+    lengths: number[];
+    avgLength: number;
+}
+
+const K1 = 1.2;
+const B = 0.75;
+// Title matches count as several body occurrences
+const TITLE_WEIGHT = 3;
+
+export const tokenize = (text: string): string[] =>
+    text.toLowerCase().split(/[^\p{L}\p{N}.]+/u)
+        .map(token => token.replace(/^\.+|\.+$/g, ''))
+        .filter(token => token.length > 1);
+
+export function buildTextIndex(docs: IndexedDocument[]): TextIndex {
+    const postings = new Map<string, Map<number, number>>();
+    const lengths: number[] = [];
+
+    docs.forEach((doc, i) => {
+        const tokens = [...Array(TITLE_WEIGHT).fill(tokenize(doc.title)).flat(), ...tokenize(doc.text)];
+        lengths.push(tokens.length);
+        for (const token of tokens) {
+            let entry = postings.get(token);
+            if (!entry) postings.set(token, entry = new Map());
+            entry.set(i, (entry.get(i) || 0) + 1);
+        }
+    });
+
+    const total = lengths.reduce((sum, n) => sum + n, 0);
+    return { docs, postings, lengths, avgLength: docs.length ? total / docs.length : 0 };
+}
+
+/**
+ * Documents matching every query term, best first
+ */
+export function searchTextIndex(index: TextIndex, query: string, limit = 10): Array<{ doc: IndexedDocument; score: number }> {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0) return [];
+
+    const scores = new Map<number, number>();
+    terms.forEach((term, t) => {
+        const entry = index.postings.get(term);
+        if (!entry) {
+            scores.clear();
+            return;
+        }
+        const idf = Math.log(1 + (index.docs.length - entry.size + 0.5) / (entry.size + 0.5));
+        for (const [i, tf] of entry) {
+            // Every term must match: only documents that matched all earlier terms carry on
+            if (t > 0 && !scores.has(i)) continue;
+            const norm = tf + K1 * (1 - B + B * index.lengths[i] / (index.avgLength || 1));
+            scores.set(i, (scores.get(i) || 0) + idf * (tf * (K1 + 1)) / norm);
+        }
+        if (t > 0) {
+            for (const i of [...scores.keys()]) if (!entry.has(i)) scores.delete(i);
+        }
+    });
+
+    return [...scores.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+        .slice(0, limit)
+        .map(([i, score]) => ({ doc: index.docs[i], score }));
+}
@@ -0,0 +1,139 @@
+/**
+ * Fetch a result page and reduce it to readable text
+ */
+
+import { lookup } from 'dns';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, LookupFunction, isIP } from 'net';
+import * as cheerio from 'cheerio';
+
+export interface PageTextOptions {
+    timeoutMs?: number;
+    /** Text is cut to this many characters */
+    maxChars?: number;
+    /** Bytes read from the response before giving up on the rest */
+    maxBytes?: number;
+    /** Allow localhost and private network addresses (tests, intranet SearXNG) */
+    allowPrivateHosts?: boolean;
+}
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges.
+// BlockList also matches IPv4-mapped IPv6 (::ffff:7f00:1) against the IPv4 rules.
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+const PRIVATE_NAME = /^localhost$|\.localhost$/i;
+const MAX_REDIRECTS = 5;
+const HEADERS = { Accept: 'text/html,text/plain;q=0.9', 'User-Agent': 'AI-Model-DB-Search/1.0' };
+
+/**
+ * True for an IP address (with or without brackets) in a private range
+ */
+export const isPrivateAddress = (address: string): boolean => {
+    const bare = address.replace(/^\[|\]$/g, '');
+    const family = isIP(bare);
+    return family !== 0 && PRIVATE_RANGES.check(bare, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+/**
+ * True for localhost names and private IP literals. Other names are checked
+ * when they are resolved for the connection (see publicOnlyLookup).
+ */
+export const isPrivateHost = (hostname: string): boolean =>
+    PRIVATE_NAME.test(hostname) || isPrivateAddress(hostname);
+
+/**
+ * Resolver for the connection itself, so the addresses that are checked are
+ * the ones connected to (no second lookup a rebinding DNS server could answer)
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, '');
+        if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+            return callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: 'EPRIVATE' }), '');
+        }
+        if (options.all) callback(null, addresses);
+        else callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+function get(url: URL, lookupFn: LookupFunction | undefined, signal: AbortSignal): Promise<IncomingMessage> {
+    return new Promise((resolve, reject) => {
+        const client = url.protocol === 'https:' ? https : http;
+        client.get(url, { headers: HEADERS, lookup: lookupFn, signal }, resolve).on('error', reject);
+    });
+}
+
+async function readCapped(res: IncomingMessage, maxBytes: number): Promise<string> {
+    const decoder = new TextDecoder();
+    let text = '';
+    let size = 0;
+    for await (const chunk of res as AsyncIterable<Buffer>) {
+        const part = chunk.subarray(0, maxBytes - size);
+        size += part.byteLength;
+        text += decoder.decode(part, { stream: true });
+        if (size >= maxBytes) break;
+    }
+    res.destroy();
+    return text + decoder.decode();
+}
+
+/**
+ * Returns the visible text of an HTML page, or null when the URL is not
+ * fetchable (non-HTTP, private host, error status, non-HTML content).
+ */
+export async function fetchPageText(url: string, options: PageTextOptions = {}): Promise<string | null> {
+    const { timeoutMs = 8000, maxChars = 4000, maxBytes = 1_000_000, allowPrivateHosts = false } = options;
+
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return null;
+    }
+    if (!/^https?:$/.test(parsed.protocol)) return null;
+
+    try {
+        const signal = AbortSignal.timeout(timeoutMs);
+        let res: IncomingMessage | null = null;
+        // Follow redirects by hand so every hop gets the same host check
+        for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+            if (!/^https?:$/.test(parsed.protocol)) return null;
+            if (!allowPrivateHosts && isPrivateHost(parsed.hostname)) return null;
+            res = await get(parsed, allowPrivateHosts ? undefined : publicOnlyLookup, signal);
+            const status = res.statusCode ?? 0;
+            const location = res.headers.location;
+            if (status < 300 || status >= 400 || !location) break;
+            res.destroy();
+            parsed = new URL(location, parsed);
+            res = null;
+        }
+        const status = res?.statusCode ?? 0;
+        if (!res || status < 200 || status >= 300) {
+            res?.destroy();
+            return null;
+        }
+        const type = res.headers['content-type'] || '';
+        const body = await readCapped(res, maxBytes);
+        if (type.includes('text/plain')) return body.replace(/\s+/g, ' ').trim().slice(0, maxChars);
+        if (!type.includes('html')) return null;
+
+        const $ = cheerio.load(body);
+        $('script, style, noscript, nav, header, footer, svg, iframe, form').remove();
+        // Keep block boundaries as word breaks once tags are stripped
+        $('p, div, li, br, tr, td, th, h1, h2, h3, h4, h5, h6, section, article, blockquote, pre').after(' ');
+        const text = $('main').text() || $('article').text() || $('body').text();
+        return text.replace(/\s+/g, ' ').trim().slice(0, maxChars) || null;
+    } catch {
+        return null;
+    }
+}
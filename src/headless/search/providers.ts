@@ -0,0 +1,143 @@
+/**
+ * Web search providers for the /search endpoint
+ *
+ * Each provider turns a query into a list of results; page text is fetched
+ * afterwards by the search service. Endpoints can be overridden so tests
+ * (and self-hosted mirrors) can point a provider at a local server.
+ */
+
+import { Model } from '../../types';
+import { IndexedDocument, TextIndex, buildTextIndex, searchTextIndex } from './localIndex';
+
+export interface SearchResult {
+    title: string;
+    url: string;
+    snippet: string;
+    /** Provider that returned the result */
+    source: string;
+    /** Readable text of the page, when fetched */
+    text?: string;
+}
+
+export interface SearchProvider {
+    id: string;
+    /** Requests allowed per window; omitted for providers without a quota */
+    rateLimit?: { maxRequests: number; windowMs: number };
+    search(query: string, limit: number, signal?: AbortSignal): Promise<SearchResult[]>;
+}
+
+async function getJson(url: string, init: RequestInit, provider: string): Promise<any> {
+    const res = await fetch(url, { ...init, headers: { Accept: 'application/json', ...init.headers } });
+    if (!res.ok) throw new Error(`${provider} returned ${res.status}`);
+    return res.json();
+}
+
+/**
+ * SearXNG instance with the JSON output format enabled
+ */
+export function searxngProvider(options: { baseUrl: string }): SearchProvider {
+    const base = options.baseUrl.replace(/\/+$/, '');
+    return {
+        id: 'searxng',
+        rateLimit: { maxRequests: 30, windowMs: 60_000 },
+        async search(query, limit, signal) {
+            const data = await getJson(`${base}/search?q=${encodeURIComponent(query)}&format=json`, { signal }, 'SearXNG');
+            return (data.results || []).slice(0, limit).map((r: any) => ({
+                title: r.title || r.url,
+                url: r.url,
+                snippet: r.content || '',
+                source: 'searxng'
+            }));
+        }
+    };
+}
+
+/**
+ * Brave Search API (https://api.search.brave.com)
+ */
+export function braveProvider(options: { apiKey: string; endpoint?: string }): SearchProvider {
+    const endpoint = options.endpoint || 'https://api.search.brave.com/res/v1/web/search';
+    return {
+        id: 'brave',
+        // Free plan: 1 request per second
+        rateLimit: { maxRequests: 1, windowMs: 1_000 },
+        async search(query, limit, signal) {
+            const data = await getJson(
+                `${endpoint}?q=${encodeURIComponent(query)}&count=${Math.min(limit, 20)}`,
+                { signal, headers: { 'X-Subscription-Token': options.apiKey } },
+                'Brave'
+            );
+            return (data.web?.results || []).slice(0, limit).map((r: any) => ({
+                title: r.title || r.url,
+                url: r.url,
+                snippet: r.description || '',
+                source: 'brave'
+            }));
+        }
+    };
+}
+
+/**
+ * Bing Web Search API v7
+ */
+export function bingProvider(options: { apiKey: string; endpoint?: string }): SearchProvider {
+    const endpoint = options.endpoint || 'https://api.bing.microsoft.com/v7.0/search';
+    return {
+        id: 'bing',
+        rateLimit: { maxRequests: 3, windowMs: 1_000 },
+        async search(query, limit, signal) {
+            const data = await getJson(
+                `${endpoint}?q=${encodeURIComponent(query)}&count=${Math.min(limit, 50)}&responseFilter=Webpages`,
+                { signal, headers: { 'Ocp-Apim-Subscription-Key': options.apiKey } },
+                'Bing'
+            );
+            return (data.webPages?.value || []).slice(0, limit).map((r: any) => ({
+                title: r.name || r.url,
+                url: r.url,
+                snippet: r.snippet || '',
+                source: 'bing'
+            }));
+        }
+    };
+}
+
+const modelDocument = (model: Model): IndexedDocument => ({
+    id: model.id,
+    title: model.name,
+    url: model.url || model.repo || '',
+    text: [
+        model.provider,
+        model.domain,
+        model.parameters,
+        model.license?.name,
+        (model.tags || []).join(' '),
+        model.description
+    ].filter(Boolean).join('\n')
+});
+
+/**
+ * Full-text search over the stored model records, with no network access.
+ * The index is rebuilt when it is older than `ttlMs`.
+ */
+export function localIndexProvider(options: { loadModels: () => Promise<Model[]>; ttlMs?: number }): SearchProvider {
+    const ttlMs = options.ttlMs ?? 60_000;
+    let index: TextIndex | null = null;
+    let builtAt = 0;
+
+    return {
+        id: 'local',
+        async search(query, limit) {
+            if (!index || Date.now() - builtAt > ttlMs) {
+                index = buildTextIndex((await options.loadModels()).map(modelDocument));
+                builtAt = Date.now();
+            }
+            return searchTextIndex(index, query, limit).map(({ doc }) => ({
+                title: doc.title,
+                url: doc.url,
+                snippet: doc.text.replace(/\s+/g, ' ').slice(0, 200),
+                source: 'local',
+                text: doc.text
+            }));
+        }
+    };
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createSearchService } from './searchService';
+import { bingProvider, braveProvider, localIndexProvider, searxngProvider } from './providers';
+import { fetchPageText, isPrivateAddress, isPrivateHost } from './pageText';
+import { buildTextIndex, searchTextIndex } from './localIndex';
+import { Model } from '../../types';
+
+// Names the fetchPageText tests resolve without a network
+vi.mock('dns', () => {
+    const hosts: Record<string, string> = { 'rebind.example': '127.0.0.1', 'mapped.example': '::ffff:a9fe:a9fe' };
+    const lookup = (hostname: string, _options: unknown, callback: (error: Error | null, addresses?: unknown) => void) => {
+        if (!(hostname in hosts)) return callback(new Error(`ENOTFOUND ${hostname}`));
+        callback(null, [{ address: hosts[hostname], family: hosts[hostname].includes(':') ? 6 : 4 }]);
+    };
+    return { default: { lookup }, lookup };
+});
+
+let server: http.Server;
+let base: string;
+const hits: string[] = [];
+
+// Stub search engines and result pages
+beforeAll(async () => {
+    server = http.createServer((req, res) => {
+        const url = new URL(req.url!, 'http://stub');
+        hits.push(url.pathname);
+        const json = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+        switch (url.pathname) {
+            case '/searx/search':
+                return json(200, { results: [
+                    { title: 'Qwen2.5 release', url: `${base}/page/qwen`, content: 'Qwen2.5 blog' },
+                    { title: 'Second', url: `${base}/page/missing`, content: 'Another' }
+                ] });
+            case '/brave':
+                if (req.headers['x-subscription-token'] !== 'brave-key') return json(401, {});
+                return json(200, { web: { results: [{ title: 'Brave hit', url: `${base}/page/qwen`, description: 'from brave' }] } });
+            case '/bing':
+                return json(500, { error: 'down' });
+            case '/hop':
+                res.writeHead(302, { Location: '/page/qwen' });
+                return res.end();
+            case '/page/qwen':
+                res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                return res.end('<html><head><style>p{}</style></head><body><nav>Menu</nav><main><h1>Qwen2.5</h1><p>Released under   Apache-2.0 with 7B parameters.</p></main><script>track()</script></body></html>');
+            default:
+                return json(404, {});
+        }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+const stubbed = () => ({
+    searxng: searxngProvider({ baseUrl: `${base}/searx/` }),
+    brave: braveProvider({ apiKey: 'brave-key', endpoint: `${base}/brave` }),
+    bing: bingProvider({ apiKey: 'bing-key', endpoint: `${base}/bing` })
+});
+
+describe('createSearchService', () => {
+    it('returns results with the readable text of the top pages', async () => {
+        const service = createSearchService({ providers: [stubbed().searxng], allowPrivateHosts: true });
+        const res = await service.search({ query: 'qwen2.5 license' });
+
+        expect(res.status).toBe(200);
+        expect(res.body).toMatchObject({
+            provider: 'searxng',
+            total: 2,
+            cached: false,
+            results: [
+                { title: 'Qwen2.5 release', source: 'searxng', text: 'Qwen2.5 Released under Apache-2.0 with 7B parameters.' },
+                { title: 'Second' }
+            ]
+        });
+        expect((res.body as any).results[1].text).toBeUndefined();
+    });
+
+    it('caches by query and falls back past failing providers', async () => {
+        const { bing, brave } = stubbed();
+        const service = createSearchService({ providers: [bing, brave], fetchTextCount: 0 });
+
+        const first = await service.search({ query: 'Qwen2.5', limit: 5 });
+        expect(first.body).toMatchObject({ provider: 'brave', results: [{ title: 'Brave hit', snippet: 'from brave' }] });
+
+        const before = hits.length;
+        const again = await service.search({ query: 'qwen2.5', limit: 5 });
+        expect(again.body).toMatchObject({ provider: 'brave', cached: true });
+        expect(hits.length).toBe(before);
+
+        const failed = await service.search({ query: 'other', provider: 'bing' });
+        expect(failed).toMatchObject({ status: 502, body: { error: 'search_failed', attempts: [{ provider: 'bing', error: 'Bing returned 500' }] } });
+    });
+
+    it('skips providers that are out of requests for their window', async () => {
+        const limited = { ...stubbed().searxng, rateLimit: { maxRequests: 1, windowMs: 60_000 } };
+        const service = createSearchService({ providers: [limited], cacheTtlMs: 0, fetchTextCount: 0 });
+
+        expect((await service.search({ query: 'one' })).status).toBe(200);
+        expect(await service.search({ query: 'two' })).toMatchObject({ status: 429, body: { error: 'rate_limited' } });
+    });
+
+    it('validates the request', async () => {
+        const service = createSearchService({ providers: [] });
+        expect((await service.search({})).status).toBe(400);
+        expect((await service.search({ query: 'x' })).status).toBe(503);
+    });
+});
+
+describe('fetchPageText', () => {
+    it('refuses private hosts unless allowed', async () => {
+        expect(await fetchPageText(`${base}/page/qwen`)).toBeNull();
+        expect(await fetchPageText('file:///etc/passwd', { allowPrivateHosts: true })).toBeNull();
+        expect(await fetchPageText(`${base}/page/qwen`, { allowPrivateHosts: true, maxChars: 6 })).toBe('Qwen2.');
+        expect(isPrivateHost('localhost')).toBe(true);
+        expect(isPrivateHost('[fe80::1]')).toBe(true);
+    });
+
+    it('classifies mapped, CGNAT and unspecified addresses as private', () => {
+        for (const address of ['::ffff:127.0.0.1', '::ffff:7f00:1', '[::ffff:a9fe:a9fe]', '100.64.0.1', '::', '::1', 'fd00::1']) {
+            expect(isPrivateAddress(address)).toBe(true);
+        }
+        expect(isPrivateAddress('93.184.216.34')).toBe(false);
+        expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+    });
+
+    it('refuses mapped IPv6 literals and names that resolve to private addresses', async () => {
+        const port = new URL(base).port;
+        hits.length = 0;
+        expect(await fetchPageText(`http://[::ffff:7f00:1]:${port}/page/qwen`)).toBeNull();
+        expect(await fetchPageText(`http://rebind.example:${port}/page/qwen`)).toBeNull();
+        expect(await fetchPageText(`http://mapped.example:${port}/page/qwen`)).toBeNull();
+        expect(hits).toEqual([]);
+    });
+
+    it('follows redirects', async () => {
+        expect(await fetchPageText(`${base}/hop`, { allowPrivateHosts: true, maxChars: 6 })).toBe('Qwen2.');
+    });
+});
+
+describe('local index', () => {
+    const models = [
+        { id: 'qwen', name: 'Qwen2.5-7B-Instruct', provider: 'Alibaba', tags: ['chat'], description: 'Instruction tuned Qwen model', url: 'https://hf.co/qwen' },
+        { id: 'llama', name: 'Llama 3.1 8B', provider: 'Meta', tags: ['chat'], description: 'Mentions qwen once as a baseline' },
+        { id: 'sdxl', name: 'SDXL', provider: 'Stability', tags: ['image'], description: 'Image model' }
+    ] as Model[];
+
+    it('ranks title matches first and requires every term', () => {
+        const index = buildTextIndex(models.map(m => ({ id: m.id, title: m.name, url: '', text: m.description! })));
+        expect(searchTextIndex(index, 'qwen').map(r => r.doc.id)).toEqual(['qwen', 'llama']);
+        expect(searchTextIndex(index, 'qwen instruction').map(r => r.doc.id)).toEqual(['qwen']);
+        expect(searchTextIndex(index, 'qwen image')).toEqual([]);
+    });
+
+    it('serves stored model cards as a provider', async () => {
+        const service = createSearchService({ providers: [localIndexProvider({ loadModels: async () => models })] });
+        const res = await service.search({ query: 'alibaba chat' });
+        expect(res.body).toMatchObject({ provider: 'local', results: [{ title: 'Qwen2.5-7B-Instruct', url: 'https://hf.co/qwen', source: 'local' }] });
+    });
+});
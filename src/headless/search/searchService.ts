@@ -0,0 +1,141 @@
+/**
+ * Search service behind POST /search
+ *
+ * Tries the configured providers in order, skipping any that are out of
+ * requests for their rate-limit window or that fail, then fetches the text
+ * of the top results. Responses are cached per query.
+ *
+ * Request body: { query: string, limit?: number, provider?: string, fetchText?: boolean }
+ * Response: { query, provider, results: SearchResult[], total, cached, timestamp }
+ */
+
+import { RateLimiter } from '../../services/rateLimiter';
+import { loadModels } from '../../services/storage';
+import type { ApiResponse } from '../modelApi';
+import { fetchPageText } from './pageText';
+import { SearchProvider, SearchResult, bingProvider, braveProvider, localIndexProvider, searxngProvider } from './providers';
+
+export interface SearchServiceOptions {
+    providers: SearchProvider[];
+    /** How long a query's results are reused (default 10 minutes; 0 disables) */
+    cacheTtlMs?: number;
+    /** Number of top results whose page text is fetched (default 3) */
+    fetchTextCount?: number;
+    pageTimeoutMs?: number;
+    /** Allow page fetches from localhost and private networks */
+    allowPrivateHosts?: boolean;
+    onLog?: (message: string) => void;
+}
+
+interface CachedSearch {
+    expires: number;
+    provider: string;
+    results: SearchResult[];
+}
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const MAX_CACHE_ENTRIES = 200;
+
+const fail = (status: number, error: string, message: string, extra: object = {}): ApiResponse =>
+    ({ status, body: { error, message, ...extra } });
+
+export function createSearchService(options: SearchServiceOptions) {
+    const cacheTtlMs = options.cacheTtlMs ?? 10 * 60_000;
+    const fetchTextCount = options.fetchTextCount ?? 3;
+    const cache = new Map<string, CachedSearch>();
+    const limiters = new Map<string, RateLimiter>(
+        options.providers
+            .filter(p => p.rateLimit)
+            .map(p => [p.id, new RateLimiter(p.rateLimit!.maxRequests, p.rateLimit!.windowMs / 60_000, 0)])
+    );
+
+    const remember = (key: string, entry: CachedSearch) => {
+        if (cacheTtlMs <= 0) return;
+        cache.delete(key);
+        cache.set(key, entry);
+        // Map keeps insertion order, so the first key is the oldest
+        if (cache.size > MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value!);
+    };
+
+    async function withPageText(results: SearchResult[]): Promise<SearchResult[]> {
+        return Promise.all(results.map(async (result, i) => {
+            if (result.text || i >= fetchTextCount) return result;
+            const text = await fetchPageText(result.url, { timeoutMs: options.pageTimeoutMs, allowPrivateHosts: options.allowPrivateHosts });
+            return text ? { ...result, text } : result;
+        }));
+    }
+
+    async function search(body: unknown): Promise<ApiResponse> {
+        const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+        const query = typeof input.query === 'string' ? input.query.trim() : '';
+        if (!query) return fail(400, 'missing_query', 'Query parameter is required');
+        const limit = Math.min(Math.max(1, Number(input.limit) || DEFAULT_LIMIT), MAX_LIMIT);
+        const only = typeof input.provider === 'string' ? input.provider : undefined;
+
+        const providers = only ? options.providers.filter(p => p.id === only) : options.providers;
+        if (providers.length === 0) {
+            return only
+                ? fail(400, 'unknown_provider', `No search provider "${only}"; configured: ${options.providers.map(p => p.id).join(', ') || 'none'}`)
+                : fail(503, 'search_unconfigured', 'No search providers are configured');
+        }
+
+        const key = JSON.stringify([query.toLowerCase(), limit, only ?? '', input.fetchText !== false]);
+        const hit = cache.get(key);
+        if (hit && hit.expires > Date.now()) {
+            return { status: 200, body: { query, provider: hit.provider, results: hit.results, total: hit.results.length, cached: true, timestamp: new Date().toISOString() } };
+        }
+
+        const attempts: Array<{ provider: string; error: string }> = [];
+        let limited = 0;
+        for (const provider of providers) {
+            const limiter = limiters.get(provider.id);
+            if (limiter && limiter.getStatus().remaining === 0) {
+                limited++;
+                attempts.push({ provider: provider.id, error: 'rate_limited' });
+                continue;
+            }
+            try {
+                await limiter?.waitForSlot();
+                const found = await provider.search(query, limit);
+                const results = input.fetchText === false ? found : await withPageText(found);
+                options.onLog?.(`[SEARCH] ${provider.id}: ${results.length} results for "${query}"`);
+                remember(key, { expires: Date.now() + cacheTtlMs, provider: provider.id, results });
+                return { status: 200, body: { query, provider: provider.id, results, total: results.length, cached: false, timestamp: new Date().toISOString() } };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                attempts.push({ provider: provider.id, error: message });
+                options.onLog?.(`[SEARCH] ${provider.id} failed: ${message}`);
+            }
+        }
+
+        if (limited === providers.length) {
+            return fail(429, 'rate_limited', 'Every search provider is out of requests; try again shortly', { attempts });
+        }
+        return fail(502, 'search_failed', 'No search provider returned results', { attempts });
+    }
+
+    return { search };
+}
+
+export type SearchService = ReturnType<typeof createSearchService>;
+
+/**
+ * Search providers for headless runs, read from the environment:
+ * - SEARCH_PROVIDERS: comma-separated order to try (default: searxng,brave,bing,local)
+ * - SEARXNG_URL, BRAVE_SEARCH_API_KEY, BING_SEARCH_API_KEY: providers without
+ *   their setting are left out; the local model index needs none
+ * - SEARCH_CACHE_TTL_SECONDS: result cache lifetime
+ */
+export function searchOptionsFromEnv(env: Record<string, string | undefined>): SearchServiceOptions {
+    const order = env.SEARCH_PROVIDERS?.split(',').map(s => s.trim()).filter(Boolean) ?? ['searxng', 'brave', 'bing', 'local'];
+    const providers: SearchProvider[] = [];
+    for (const id of order) {
+        if (id === 'searxng' && env.SEARXNG_URL) providers.push(searxngProvider({ baseUrl: env.SEARXNG_URL }));
+        if (id === 'brave' && env.BRAVE_SEARCH_API_KEY) providers.push(braveProvider({ apiKey: env.BRAVE_SEARCH_API_KEY }));
+        if (id === 'bing' && env.BING_SEARCH_API_KEY) providers.push(bingProvider({ apiKey: env.BING_SEARCH_API_KEY }));
+        if (id === 'local') providers.push(localIndexProvider({ loadModels }));
+    }
+    const ttl = parseInt(env.SEARCH_CACHE_TTL_SECONDS ?? '', 10);
+    return { providers, cacheTtlMs: Number.isFinite(ttl) && ttl >= 0 ? ttl * 1000 : undefined };
+}
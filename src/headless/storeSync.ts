@@ -0,0 +1,76 @@
+/**
+ * Sync into the stored database, shared by the REST API and the CLI
+ */
+
+import { performMergeBatch } from '../utils/mergeLogic';
+import { DEFAULT_SNAPSHOT_RETENTION } from '../utils/snapshotDelta';
+import { loadModels, saveHistorySnapshot, saveMetadata, saveModels } from '../services/storage';
+import { orchestrateSync } from '../services/sync/SyncOrchestrator';
+import type { SyncOptions } from '../services/sync/SyncTypes';
+
+export interface StoreSyncRun {
+    /** Limit the run to these data sources */
+    sources?: string[];
+    fullRebuild?: boolean;
+    onLog?: (message: string) => void;
+}
+
+export interface StoreSyncResult {
+    found: number;
+    flagged: number;
+    rejected: number;
+    added: number;
+    updated: number;
+    total: number;
+}
+
+let storeUpdate: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run a load → change → save of the stored models after the previous one has
+ * finished, so a REST edit and a sync cannot overwrite each other's changes
+ */
+export function withStoreLock<T>(task: () => Promise<T>): Promise<T> {
+    const run = storeUpdate.then(task, task);
+    storeUpdate = run.catch(() => undefined);
+    return run;
+}
+
+/**
+ * Fetch from the enabled sources, merge into the stored models and save.
+ * Like the app, a snapshot of the database is kept before it is overwritten.
+ */
+export async function syncStore(syncOptions: SyncOptions, run: StoreSyncRun = {}): Promise<StoreSyncResult> {
+    const result = await orchestrateSync(
+        { ...syncOptions, sources: run.sources, fullRebuild: run.fullRebuild === true },
+        { onLog: run.onLog }
+    );
+
+    // Fetching can take minutes; only the merge into the store holds the lock
+    const merged = await withStoreLock(async () => {
+        const existing = await loadModels();
+        if (existing.length > 0) {
+            await saveHistorySnapshot(existing, `Pre-sync backup (${existing.length} models)`, DEFAULT_SNAPSHOT_RETENTION);
+        }
+        const batch = performMergeBatch(
+            existing,
+            result.complete,
+            false,
+            syncOptions.mergePolicies,
+            syncOptions.duplicateDecisions,
+            syncOptions.identityAliases
+        );
+        await saveModels(batch.models);
+        await saveMetadata('lastSync', new Date().toISOString());
+        return batch;
+    });
+
+    return {
+        found: result.complete.length,
+        flagged: result.flagged.length,
+        rejected: result.rejected || 0,
+        added: merged.added,
+        updated: merged.updated,
+        total: merged.models.length
+    };
+}
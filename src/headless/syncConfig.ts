@@ -0,0 +1,24 @@
+import type { SyncOptions } from '../services/sync/SyncTypes';
+
+type DataSource = keyof SyncOptions['dataSources'];
+
+// Sources that need no API key; LLM and local discovery need a UI to configure
+const KEYLESS_SOURCES: DataSource[] = ['huggingface', 'openmodeldb', 'ollamaLibrary', 'modelscope', 'civitasbay'];
+
+/**
+ * Sync settings for headless runs, read from the environment:
+ * - MODEL_DB_SOURCES: comma-separated data sources to enable (default: every keyless source)
+ * - ARTIFICIAL_ANALYSIS_API_KEY: also enables Artificial Analysis
+ */
+export function syncOptionsFromEnv(env: Record<string, string | undefined>): SyncOptions {
+    const listed = env.MODEL_DB_SOURCES?.split(',').map(s => s.trim()).filter(Boolean) as DataSource[] | undefined;
+    const enabled = new Set<DataSource>(listed?.length ? listed : KEYLESS_SOURCES);
+    const artificialAnalysisApiKey = env.ARTIFICIAL_ANALYSIS_API_KEY || undefined;
+    if (artificialAnalysisApiKey && !listed?.length) enabled.add('artificialanalysis');
+
+    return {
+        dataSources: Object.fromEntries([...enabled].map(source => [source, true])),
+        artificialAnalysisApiKey,
+        enableNSFWFiltering: env.MODEL_DB_NSFW_FILTER !== 'false'
+    };
+}
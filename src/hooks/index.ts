@@ -21,6 +21,10 @@ export { useModelSelection } from './useModelSelection';
 // Sync & Data Hooks
 export { useSyncHistory } from './useSyncHistory';
 export { useSyncOperations } from './useSyncOperations';
+export { useScheduledSync } from './useScheduledSync';
+export { useLocalInventory } from './useLocalInventory';
+export { useQuarantine } from './useQuarantine';
+export { useFetcherHealth } from './useFetcherHealth';
 
 // UI & UX Hooks
 export { useLazyLoad } from './useLazyLoad';
@@ -9,6 +9,10 @@ import { useModelFiltering } from "./useModelFiltering";
 import { useLazyLoad } from "./useLazyLoad";
 import { ValidationSummary } from "../types/validation";
 import { useSyncOperations } from "./useSyncOperations";
+import { useScheduledSync } from "./useScheduledSync";
+import { useLocalInventory } from "./useLocalInventory";
+import { useQuarantine } from "./useQuarantine";
+import { addToQuarantine, gateRecords } from "../services/syncService";
 import { useNSFWScan } from "./useNSFWScan";
 import { useModelSelection } from "./useModelSelection";
 import { useUIState } from "./useUIState";
@@ -100,7 +104,9 @@ export function useDashboardController() {
         isLoading,
         loadingProgress,
         validationProgress,
-        setLastMergeStats
+        setLastMergeStats,
+        mergeLog,
+        setMergeLog
     } = modelsHook;
 
     // Filtering and pagination
@@ -116,7 +122,8 @@ export function useDashboardController() {
         includeTags: uiState.includeTags,
         excludeTags: uiState.excludeTags,
         favoritesOnly: uiState.favoritesOnly,
-        hideNSFW: uiState.hideNSFW
+        hideNSFW: uiState.hideNSFW,
+        maxSizeGB: uiState.maxSizeGB
     });
 
     const { filtered, total, page, setPage, totalPages, pageItems } = filteringResult;
@@ -132,7 +139,7 @@ export function useDashboardController() {
     const { visibleItems, hasMore, displayCount, totalCount, sentinelRef } = lazyLoadResult;
 
     // Sync operations hook
-    const { syncAll, handleLiveSync } = useSyncOperations({
+    const { syncAll, syncSources, handleLiveSync } = useSyncOperations({
         models,
         settings,
         callbacks: {
@@ -152,6 +159,18 @@ export function useDashboardController() {
         }
     });
 
+    // Background refresh of stale sources on their own cadence
+    useScheduledSync({
+        settings,
+        isSyncing: syncState.isSyncing,
+        isOnline,
+        runSources: syncSources
+    });
+
+    // Models installed in local runtimes (Ollama, LM Studio, llama.cpp)
+    const localInventory = useLocalInventory(models, settings);
+    const rejectedRecords = useQuarantine();
+
     // Model selection hook
     const selectionHook = useModelSelection({
         models,
@@ -185,11 +204,17 @@ export function useDashboardController() {
 
     // Wrapper for import to handle UI state
     const handleImportWrapper = useCallback((importedModels: Model[]) => {
-        importModels(importedModels);
+        const { accepted, rejected, repaired } = gateRecords(importedModels || [], { source: 'Import', kind: 'import' });
+        if (repaired > 0) consoleLogging.addConsoleLog(`Import: Repaired ${repaired} malformed records`);
+        if (rejected.length > 0) {
+            addToQuarantine(rejected);
+            consoleLogging.addConsoleLog(`Import: Quarantined ${rejected.length} records that failed validation`);
+        }
+        importModels(accepted);
         modalState.setShowImport(false);
-        const cnt = importedModels?.length || 0;
-        modalState.setImportToast({ found: cnt, added: cnt, updated: 0, flagged: 0 });
-    }, [importModels, modalState]);
+        const cnt = accepted.length;
+        modalState.setImportToast({ found: importedModels?.length || 0, added: cnt, updated: 0, flagged: 0, rejected: rejected.length });
+    }, [importModels, modalState, consoleLogging]);
 
     /**
      * Checks if API keys are available (local settings only)
@@ -302,8 +327,9 @@ export function useDashboardController() {
 
         const found = syncState.syncSummary?.found ?? (added + updated);
         const flagged = syncState.syncSummary?.flagged ?? 0;
+        const rejected = syncState.syncSummary?.rejected ?? 0;
 
-        modalState.setImportToast({ found, added, updated, flagged, duplicates });
+        modalState.setImportToast({ found, added, updated, flagged, duplicates, rejected });
         syncState.setSyncSummary(null);
 
         if (updated > 0) {
@@ -372,6 +398,8 @@ export function useDashboardController() {
 
         // Online status
         isOnline,
+        localInventory,
+        rejectedRecords,
 
         // Sync history
         syncHistory,
@@ -392,6 +420,8 @@ export function useDashboardController() {
         models,
         setModels,
         lastMergeStats,
+        mergeLog,
+        setMergeLog,
         addModel,
         importModels: handleImportWrapper,
         mergeInModels,
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { FetcherRun } from '../types';
+import { FETCHER_HEALTH_EVENT, loadFetcherRuns } from '../services/syncService';
+
+/**
+ * Recorded fetcher runs per fetcher id. Loaded once and kept current
+ * through FETCHER_HEALTH_EVENT, which every recorded run dispatches.
+ */
+export function useFetcherHealth() {
+    const [runs, setRuns] = useState<Record<string, FetcherRun[]>>({});
+
+    useEffect(() => {
+        let cancelled = false;
+        loadFetcherRuns().then(history => { if (!cancelled) setRuns(history); });
+        const onUpdate = (e: Event) => setRuns((e as CustomEvent<Record<string, FetcherRun[]>>).detail);
+        window.addEventListener(FETCHER_HEALTH_EVENT, onUpdate);
+        return () => {
+            cancelled = true;
+            window.removeEventListener(FETCHER_HEALTH_EVENT, onUpdate);
+        };
+    }, []);
+
+    return runs;
+}
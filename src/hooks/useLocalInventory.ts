@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { LocalInventory, Model } from '../types';
+import { Settings } from '../context/SettingsContext';
+import { LOCAL_INVENTORY_EVENT, matchInstalledModels, probeLocalRuntimes } from '../services/syncService';
+
+/**
+ * Probes the configured local runtimes on mount and whenever their settings
+ * change, and matches what they report to database records. Probes started
+ * elsewhere (Settings → Data Sources) arrive through LOCAL_INVENTORY_EVENT.
+ */
+export function useLocalInventory(models: Model[], settings: Settings) {
+    const [inventory, setInventory] = useState<LocalInventory | null>(null);
+    const [probing, setProbing] = useState(false);
+    const runtimes = settings.localRuntimes;
+    const latestRuntimes = useRef(runtimes);
+    latestRuntimes.current = runtimes;
+
+    const refresh = useCallback(async () => {
+        setProbing(true);
+        try {
+            const next = await probeLocalRuntimes(latestRuntimes.current || []);
+            setInventory(next);
+            return next;
+        } finally {
+            setProbing(false);
+        }
+    }, []);
+
+    const runtimesKey = JSON.stringify(runtimes || []);
+    useEffect(() => {
+        refresh();
+    }, [runtimesKey, refresh]);
+
+    useEffect(() => {
+        const onUpdate = (e: Event) => setInventory((e as CustomEvent<LocalInventory>).detail);
+        window.addEventListener(LOCAL_INVENTORY_EVENT, onUpdate);
+        return () => window.removeEventListener(LOCAL_INVENTORY_EVENT, onUpdate);
+    }, []);
+
+    const installed = useMemo(
+        () => matchInstalledModels(inventory?.models || [], models, settings.identityAliases),
+        [inventory, models, settings.identityAliases]
+    );
+
+    return { inventory, installed, probing, refresh };
+}
@@ -19,6 +19,8 @@ export interface ImportToastData {
     updated: number;
     flagged: number;
     duplicates?: number;
+    /** Records held back by the ingestion gate */
+    rejected?: number;
 }
 
 export interface ConfirmationToastData {
@@ -52,6 +54,14 @@ export interface ModalState {
     setShowEditModal: (show: boolean) => void;
     showExportModal: boolean;
     setShowExportModal: (show: boolean) => void;
+    showDuplicateWorkbench: boolean;
+    setShowDuplicateWorkbench: (show: boolean) => void;
+    showRejectedRecords: boolean;
+    setShowRejectedRecords: (show: boolean) => void;
+    showLeaderboard: boolean;
+    setShowLeaderboard: (show: boolean) => void;
+    showFrontier: boolean;
+    setShowFrontier: (show: boolean) => void;
 
     // Model editing state
     editingModel: Model | null;
@@ -105,6 +115,10 @@ export function useModalState(): ModalState {
     const [showFlaggedModal, setShowFlaggedModal] = useState(false);
     const [showEditModal, setShowEditModal] = useState(false);
     const [showExportModal, setShowExportModal] = useState(false);
+    const [showDuplicateWorkbench, setShowDuplicateWorkbench] = useState(false);
+    const [showRejectedRecords, setShowRejectedRecords] = useState(false);
+    const [showLeaderboard, setShowLeaderboard] = useState(false);
+    const [showFrontier, setShowFrontier] = useState(false);
 
     // Model editing state
     const [editingModel, setEditingModel] = useState<Model | null>(null);
@@ -136,6 +150,14 @@ export function useModalState(): ModalState {
         setShowEditModal,
         showExportModal,
         setShowExportModal,
+        showDuplicateWorkbench,
+        setShowDuplicateWorkbench,
+        showRejectedRecords,
+        setShowRejectedRecords,
+        showLeaderboard,
+        setShowLeaderboard,
+        showFrontier,
+        setShowFrontier,
         editingModel,
         setEditingModel,
         flaggedModels,
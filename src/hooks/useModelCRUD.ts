@@ -1,6 +1,9 @@
 import { useState } from 'react';
 import { Model } from '../types';
 import { dedupe } from '../utils/format';
+import { stampProvenance, stampChangedFields } from '../utils/provenance';
+
+const MANUAL_ORIGIN = { source: 'Manual edit', kind: 'manual' as const };
 
 export function useModelCRUD(setModels: React.Dispatch<React.SetStateAction<Model[]>>) {
     const [selectedModelForEdit, setSelectedModelForEdit] = useState<Model | null>(null);
@@ -8,13 +11,13 @@ export function useModelCRUD(setModels: React.Dispatch<React.SetStateAction<Mode
 
     // Function to add a new model
     const addModel = (model: Model) => {
-        setModels(prev => dedupe([...prev, model]));
+        setModels(prev => dedupe([...prev, stampProvenance(model, MANUAL_ORIGIN, true)]));
     };
 
     // Function to update a model
     const updateModel = (updatedModel: Model) => {
         setModels(prev =>
-            prev.map(model => model.id === updatedModel.id ? updatedModel : model)
+            prev.map(model => model.id === updatedModel.id ? stampChangedFields(model, updatedModel, MANUAL_ORIGIN) : model)
         );
     };
 
@@ -5,13 +5,13 @@ import { filterModels, FilterOptions } from '../utils/filterLogic';
 export type { FilterOptions };
 
 export function useModelFiltering(models: Model[], options: FilterOptions) {
-  const { query, domainPick, sortKey, sortDirection = 'asc', minDownloads, pageSize, licenseTypes = [], commercialAllowed = null, includeTags = [], excludeTags = [], favoritesOnly = false, hideNSFW = false } = options;
+  const { query, domainPick, sortKey, sortDirection = 'asc', minDownloads, pageSize, licenseTypes = [], commercialAllowed = null, includeTags = [], excludeTags = [], favoritesOnly = false, hideNSFW = false, maxSizeGB = null } = options;
   const [page, setPage] = useState(1);
 
   // Reset page when filters change
   useEffect(() => {
     setPage(1);
-  }, [query, domainPick, sortKey, sortDirection, minDownloads, licenseTypes.join(','), commercialAllowed, includeTags.join(','), excludeTags.join(','), favoritesOnly, hideNSFW]);
+  }, [query, domainPick, sortKey, sortDirection, minDownloads, licenseTypes.join(','), commercialAllowed, includeTags.join(','), excludeTags.join(','), favoritesOnly, hideNSFW, maxSizeGB]);
 
   const filtered = useMemo(() => {
     return filterModels(models, options);
@@ -28,7 +28,8 @@ export function useModelFiltering(models: Model[], options: FilterOptions) {
     includeTags.join(','),
     excludeTags.join(','),
     favoritesOnly,
-    hideNSFW
+    hideNSFW,
+    maxSizeGB
   ]);
 
   const total = filtered.length;
@@ -1,9 +1,14 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Model } from '../types';
+import { MergeEvent, Model } from '../types';
 import { useSettings } from '../context/SettingsContext';
 import { mapDomain, cleanModelDescription } from '../utils/format';
 import { toNormalizedModel } from '../utils/importNormalization';
 import { performMergeBatch } from '../utils/mergeLogic';
+import { stampProvenance } from '../utils/provenance';
+import { saveMetadata, loadMetadata } from '../services/storage';
+
+// Number of automatic merges kept for review in the duplicate workbench
+const MERGE_LOG_LIMIT = 200;
 
 export function useModelMerge(
     models: Model[],
@@ -11,8 +16,30 @@ export function useModelMerge(
 ) {
     const { settings } = useSettings();
     const [lastMergeStats, setLastMergeStats] = useState<{ added: number; updated: number; duplicates?: number } | null>(null);
+    const [mergeLog, setMergeLogState] = useState<MergeEvent[]>([]);
     const workerRef = useRef<Worker | null>(null);
 
+    // Restore the merge log saved by a previous session
+    useEffect(() => {
+        loadMetadata('mergeLog')
+            .then(saved => {
+                if (saved) setMergeLogState(JSON.parse(saved));
+            })
+            .catch(err => console.warn('Failed to load merge log:', err));
+    }, []);
+
+    const setMergeLog = useCallback((update: MergeEvent[] | ((prev: MergeEvent[]) => MergeEvent[])) => {
+        setMergeLogState(prev => {
+            const next = (typeof update === 'function' ? update(prev) : update).slice(-MERGE_LOG_LIMIT);
+            saveMetadata('mergeLog', JSON.stringify(next)).catch(err => console.warn('Failed to save merge log:', err));
+            return next;
+        });
+    }, []);
+
+    const recordMerges = useCallback((merges?: MergeEvent[]) => {
+        if (merges && merges.length > 0) setMergeLog(prev => [...prev, ...merges]);
+    }, [setMergeLog]);
+
     useEffect(() => {
         try {
             // Initialize the worker
@@ -22,9 +49,10 @@ export function useModelMerge(
             workerRef.current.onmessage = (event) => {
                 const { type, payload, error } = event.data;
                 if (type === 'MERGE_COMPLETE') {
-                    const { models: newModels, added, updated, duplicates } = payload;
+                    const { models: newModels, added, updated, duplicates, merges } = payload;
                     setModels(newModels);
                     setLastMergeStats({ added, updated, duplicates });
+                    recordMerges(merges);
                 } else if (type === 'ERROR') {
                     console.error('Worker error:', error);
                 }
@@ -37,7 +65,7 @@ export function useModelMerge(
         } catch (error) {
             console.error("Failed to initialize model processor worker:", error);
         }
-    }, [setModels]);
+    }, [setModels, recordMerges]);
 
     const modelsRef = useRef(models);
     useEffect(() => {
@@ -53,7 +81,10 @@ export function useModelMerge(
                 payload: {
                     currentModels: modelsRef.current,
                     newModels: incomingList,
-                    autoMergeDuplicates: settings.autoMergeDuplicates ?? false
+                    autoMergeDuplicates: settings.autoMergeDuplicates ?? false,
+                    mergePolicies: settings.mergePolicies,
+                    duplicateDecisions: settings.duplicateDecisions,
+                    identityAliases: settings.identityAliases
                 }
             });
         } else {
@@ -62,7 +93,10 @@ export function useModelMerge(
                 const result = performMergeBatch(
                     modelsRef.current,
                     incomingList,
-                    settings.autoMergeDuplicates ?? false
+                    settings.autoMergeDuplicates ?? false,
+                    settings.mergePolicies,
+                    settings.duplicateDecisions,
+                    settings.identityAliases
                 );
                 setModels(result.models);
                 setLastMergeStats({
@@ -70,14 +104,19 @@ export function useModelMerge(
                     updated: result.updated,
                     duplicates: result.duplicates
                 });
+                recordMerges(result.merges);
             } catch (err) {
                 console.error("Main thread merge failed:", err);
             }
         }
-    }, [settings.autoMergeDuplicates, setModels]);
+    }, [settings.autoMergeDuplicates, settings.mergePolicies, settings.duplicateDecisions, settings.identityAliases, setModels, recordMerges]);
 
     const importModels = useCallback((newModels: Model[]) => {
-        const normalized: Model[] = (newModels || []).map((m: any, idx: number) => toNormalizedModel(m, idx));
+        const importedAt = new Date().toISOString();
+        const normalized: Model[] = (newModels || []).map((m: any, idx: number) => {
+            const model = toNormalizedModel(m, idx);
+            return stampProvenance(model, { source: model.source || 'Import', kind: 'import', fetched_at: importedAt });
+        });
 
         // Turn this off for large imports if using main thread to prevent freeze? 
         // For now we assume safety.
@@ -88,7 +127,10 @@ export function useModelMerge(
                 payload: {
                     currentModels: modelsRef.current,
                     newModels: normalized,
-                    autoMergeDuplicates: settings.autoMergeDuplicates ?? false
+                    autoMergeDuplicates: settings.autoMergeDuplicates ?? false,
+                    mergePolicies: settings.mergePolicies,
+                    duplicateDecisions: settings.duplicateDecisions,
+                    identityAliases: settings.identityAliases
                 }
             });
         } else {
@@ -97,7 +139,10 @@ export function useModelMerge(
                 const result = performMergeBatch(
                     modelsRef.current,
                     normalized,
-                    settings.autoMergeDuplicates ?? false
+                    settings.autoMergeDuplicates ?? false,
+                    settings.mergePolicies,
+                    settings.duplicateDecisions,
+                    settings.identityAliases
                 );
                 setModels(result.models);
                 setLastMergeStats({
@@ -105,16 +150,19 @@ export function useModelMerge(
                     updated: result.updated,
                     duplicates: result.duplicates
                 });
+                recordMerges(result.merges);
             } catch (err) {
                 console.error("Main thread import failed:", err);
             }
         }
-    }, [settings.autoMergeDuplicates, setModels]);
+    }, [settings.autoMergeDuplicates, settings.mergePolicies, settings.duplicateDecisions, settings.identityAliases, setModels, recordMerges]);
 
     return {
         importModels,
         mergeInModels,
         lastMergeStats,
-        setLastMergeStats
+        setLastMergeStats,
+        mergeLog,
+        setMergeLog
     };
 }
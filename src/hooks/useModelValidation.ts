@@ -4,6 +4,7 @@ import { ValidationJob, ValidationQueue, ValidationSource } from '../services/va
 import { ValidationSummary, ValidationUpdateEvent } from '../types/validation';
 export type { ValidationSummary, ValidationUpdateEvent };
 import { callProviderLLM } from '../services/api';
+import { stampChangedFields } from '../utils/provenance';
 
 // Helper to create an empty validation summary
 function createEmptySummary(): ValidationSummary {
@@ -158,7 +159,7 @@ export function useModelValidation(
                     const enrichedModel = enrichedModelsResult[0];
 
                     // Merge the enriched data with the original model
-                    return {
+                    const enriched: Model = {
                         ...model,
                         ...enrichedModel,
                         // Ensure these fields are properly merged
@@ -174,6 +175,9 @@ export function useModelValidation(
                         isNSFWFlagged: model.isNSFWFlagged,
                         flaggedImageUrls: model.flaggedImageUrls
                     };
+
+                    // Attribute fields the LLM changed to the provider that answered
+                    return stampChangedFields(model, enriched, { source: providerConfig.name || providerKey, kind: 'llm' });
                 },
                 {
                     // Options
@@ -368,6 +372,13 @@ export function useModelValidation(
 
             const [providerKey, providerConfig] = enabledProvider;
 
+            // Attribute fields the LLM changed to the provider that answered
+            const originalsById = new Map(modelsToValidate.map(m => [m.id, m]));
+            const attributeChanges = (validated: Model[]): Model[] => validated.map(v => {
+                const original = originalsById.get(v.id);
+                return original ? stampChangedFields(original, v, { source: providerConfig.name || providerKey, kind: 'llm' }) : v;
+            });
+
             // Import validation functions
             const { createDatabaseValidationPrompt, parseCSVToModels } = await import('../services/validation');
             const { callProviderText } = await import('../services/api');
@@ -522,7 +533,7 @@ export function useModelValidation(
                 setIsValidating(false);
                 return {
                     success: true,
-                    updatedModels: allValidatedModels,
+                    updatedModels: attributeChanges(allValidatedModels),
                     summary
                 };
 
@@ -597,7 +608,7 @@ export function useModelValidation(
                 setIsValidating(false);
                 return {
                     success: true,
-                    updatedModels: validatedModels,
+                    updatedModels: attributeChanges(validatedModels),
                     summary
                 };
             }
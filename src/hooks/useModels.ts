@@ -67,6 +67,8 @@ export function useModels() {
     mergeInModels: merge.mergeInModels,
     lastMergeStats: merge.lastMergeStats,
     setLastMergeStats: merge.setLastMergeStats,
+    mergeLog: merge.mergeLog,
+    setMergeLog: merge.setMergeLog,
 
     // Validation
     isValidating: validation.isValidating,
@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { RejectedRecord } from '../types';
+import { QUARANTINE_EVENT, loadQuarantine } from '../services/syncService';
+
+/**
+ * Records held back by the ingestion gate. Loaded once and kept current
+ * through QUARANTINE_EVENT, which every quarantine write dispatches.
+ */
+export function useQuarantine() {
+    const [records, setRecords] = useState<RejectedRecord[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadQuarantine().then(list => { if (!cancelled) setRecords(list); });
+        const onUpdate = (e: Event) => setRecords((e as CustomEvent<RejectedRecord[]>).detail);
+        window.addEventListener(QUARANTINE_EVENT, onUpdate);
+        return () => {
+            cancelled = true;
+            window.removeEventListener(QUARANTINE_EVENT, onUpdate);
+        };
+    }, []);
+
+    return records;
+}
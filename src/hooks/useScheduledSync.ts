@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react';
+import { Settings } from '../context/SettingsContext';
+import { loggers } from '../utils/logger';
+import { findDueSources, loadPluginFetchers, getFetcherRegistry, loadSourceLastSuccess, loadSourceFailures, registerCustomSourceFetchers } from '../services/syncService';
+
+/** How often stale sources are checked */
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+interface UseScheduledSyncOptions {
+    settings: Settings;
+    isSyncing: boolean;
+    isOnline: boolean;
+    /** Fetches the given sources and merges the results */
+    runSources: (sourceIds: string[]) => Promise<void>;
+}
+
+/**
+ * Runs stale sources in the background on their per-source cadence.
+ * Checks once a minute (and on mount) while scheduled sync is enabled,
+ * skipping while another sync is running or the app is offline.
+ */
+export function useScheduledSync({ settings, isSyncing, isOnline, runSources }: UseScheduledSyncOptions) {
+    const enabled = settings.scheduledSync?.enabled === true;
+    // Latest values read by the interval without restarting it
+    const latest = useRef({ settings, isSyncing, isOnline, runSources });
+    latest.current = { settings, isSyncing, isOnline, runSources };
+    const running = useRef(false);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const check = async () => {
+            const { settings: current, isSyncing: busy, isOnline: online, runSources: run } = latest.current;
+            if (running.current || busy || !online) return;
+
+            // Runs from a timer: a failure is logged and the next tick tries again
+            try {
+                await loadPluginFetchers();
+                registerCustomSourceFetchers(getFetcherRegistry(), current.customSources || []);
+                const [lastSuccess, failures] = await Promise.all([loadSourceLastSuccess(), loadSourceFailures()]);
+                const due = findDueSources(
+                    getFetcherRegistry().getAll(),
+                    { dataSources: current.dataSources || {}, plugins: current.fetcherPlugins, customSources: current.customSources },
+                    current.scheduledSync?.intervals,
+                    lastSuccess,
+                    Date.now(),
+                    failures
+                );
+                if (due.length === 0) return;
+
+                running.current = true;
+                try {
+                    await run(due);
+                } finally {
+                    running.current = false;
+                }
+            } catch (error) {
+                loggers.sync.error('Scheduled sync failed:', error);
+            }
+        };
+
+        check();
+        const timer = setInterval(check, CHECK_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [enabled]);
+}
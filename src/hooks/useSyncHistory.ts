@@ -1,6 +1,19 @@
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Model } from '../types';
+import { useSettings } from '../context/SettingsContext';
+import { DEFAULT_SNAPSHOT_RETENTION } from '../utils/snapshotDelta';
+import {
+    SnapshotRecord,
+    listSnapshots,
+    saveHistorySnapshot,
+    loadHistorySnapshot,
+    deleteHistorySnapshot,
+    clearHistorySnapshots,
+    setSnapshotPinned,
+    pruneHistorySnapshots,
+    migrateLegacySnapshots
+} from '../services/storage';
 
 export interface HistoryItem {
     id: string;
@@ -8,87 +21,80 @@ export interface HistoryItem {
     dateStr: string;
     modelCount: number;
     description: string;
+    /** Size of the snapshot as plain JSON */
     sizeBytes: number;
+    /** Size actually stored in IndexedDB */
+    storedBytes: number;
+    pinned: boolean;
+    /** Stored as a delta against a newer snapshot */
+    isDelta: boolean;
 }
 
-const HISTORY_KEY_PREFIX = 'aiModelDB_history_';
-const INDEX_KEY = 'aiModelDB_history_index';
-const MAX_SNAPSHOTS = 5;
+const toHistory = (records: SnapshotRecord[]): HistoryItem[] =>
+    [...records]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .map(r => ({
+            id: r.id,
+            timestamp: r.timestamp,
+            dateStr: new Date(r.timestamp).toLocaleString(),
+            modelCount: r.modelCount,
+            description: r.description,
+            sizeBytes: r.sizeBytes,
+            storedBytes: r.storedBytes,
+            pinned: r.pinned,
+            isDelta: r.baseId !== null
+        }));
 
 export function useSyncHistory() {
+    const { settings } = useSettings();
+    const retention = settings.historyRetention || DEFAULT_SNAPSHOT_RETENTION;
     const [history, setHistory] = useState<HistoryItem[]>([]);
 
     useEffect(() => {
+        const loadIndex = async () => {
+            try {
+                await migrateLegacySnapshots();
+                setHistory(toHistory(await listSnapshots()));
+            } catch (e) {
+                console.error("Failed to load history index", e);
+            }
+        };
         loadIndex();
     }, []);
 
-    const loadIndex = () => {
-        try {
-            const raw = localStorage.getItem(INDEX_KEY);
-            if (raw) {
-                setHistory(JSON.parse(raw));
-            }
-        } catch (e) {
-            console.error("Failed to load history index", e);
-        }
-    };
-
-    const saveSnapshot = (models: Model[], description: string) => {
+    const saveSnapshot = useCallback(async (models: Model[], description: string) => {
         try {
-            const timestamp = Date.now();
-            const id = crypto.randomUUID();
-            const item: HistoryItem = {
-                id,
-                timestamp,
-                dateStr: new Date(timestamp).toLocaleString(),
-                modelCount: models.length,
-                description,
-                sizeBytes: new Blob([JSON.stringify(models)]).size
-            };
-
-            // Save actual data
-            localStorage.setItem(`${HISTORY_KEY_PREFIX}${id}`, JSON.stringify(models));
-
-            // Update index
-            const all = [item, ...history];
-            const kept = all.slice(0, MAX_SNAPSHOTS);
-            const dropped = all.slice(MAX_SNAPSHOTS);
-
-            dropped.forEach(d => localStorage.removeItem(`${HISTORY_KEY_PREFIX}${d.id}`));
-
-            localStorage.setItem(INDEX_KEY, JSON.stringify(kept));
-            setHistory(kept);
-
+            setHistory(toHistory(await saveHistorySnapshot(models, description, retention)));
         } catch (e) {
-            console.error("Failed to save snapshot. LocalStorage properly full.", e);
+            console.error("Failed to save snapshot", e);
         }
-    };
+    }, [retention]);
 
-    const restoreSnapshot = (id: string): Model[] | null => {
+    const restoreSnapshot = useCallback(async (id: string): Promise<Model[] | null> => {
         try {
-            const raw = localStorage.getItem(`${HISTORY_KEY_PREFIX}${id}`);
-            if (raw) return JSON.parse(raw);
+            return await loadHistorySnapshot(id);
         } catch (e) {
             console.error("Failed to restore", e);
         }
         return null;
-    };
+    }, []);
 
-    const clearHistory = () => {
-        history.forEach(h => localStorage.removeItem(`${HISTORY_KEY_PREFIX}${h.id}`));
-        localStorage.removeItem(INDEX_KEY);
+    const clearHistory = useCallback(async () => {
+        await clearHistorySnapshots();
         setHistory([]);
-    };
+    }, []);
+
+    const deleteSnapshot = useCallback(async (id: string) => {
+        setHistory(toHistory(await deleteHistorySnapshot(id)));
+    }, []);
 
-    const deleteSnapshot = (id: string) => {
-        const target = history.find(h => h.id === id);
-        if (!target) return;
+    const togglePinned = useCallback(async (id: string, pinned: boolean) => {
+        setHistory(toHistory(await setSnapshotPinned(id, pinned)));
+    }, []);
 
-        localStorage.removeItem(`${HISTORY_KEY_PREFIX}${id}`);
-        const newHistory = history.filter(h => h.id !== id);
-        localStorage.setItem(INDEX_KEY, JSON.stringify(newHistory));
-        setHistory(newHistory);
-    };
+    const applyRetention = useCallback(async () => {
+        setHistory(toHistory(await pruneHistorySnapshots(retention)));
+    }, [retention]);
 
-    return { history, saveSnapshot, restoreSnapshot, clearHistory, deleteSnapshot };
+    return { history, retention, saveSnapshot, restoreSnapshot, clearHistory, deleteSnapshot, togglePinned, applyRetention };
 }
@@ -1,6 +1,6 @@
 import React, { useCallback } from 'react';
 import { Model, ApiDir } from '../types';
-import { syncAllSources, syncWithLiveOptions } from '../services/syncService';
+import { syncAllSources, syncWithLiveOptions, SyncOptions } from '../services/syncService';
 import { dedupe } from '../utils/format';
 import { Settings } from '../context/SettingsContext';
 
@@ -16,7 +16,7 @@ interface SyncCallbacks {
     setPage: (page: number) => void;
     setFlaggedModels: (models: Model[]) => void;
     setShowFlaggedModal: (show: boolean) => void;
-    saveSnapshot: (models: Model[], description: string) => void;
+    saveSnapshot: (models: Model[], description: string) => Promise<void>;
     setShowSync?: (show: boolean) => void;
 }
 
@@ -26,6 +26,26 @@ interface UseSyncOperationsOptions {
     callbacks: SyncCallbacks;
 }
 
+/**
+ * Sync options derived from the user's settings
+ */
+const toSyncOptions = (settings: Settings): SyncOptions => ({
+    dataSources: settings.dataSources || {},
+    artificialAnalysisApiKey: settings.artificialAnalysisApiKey,
+    enableNSFWFiltering: settings.enableNSFWFiltering,
+    logNSFWAttempts: settings.logNSFWAttempts,
+    customNSFWKeywords: settings.customNSFWKeywords || [],
+    apiConfig: settings.apiConfig,
+    preferredModelProvider: settings.preferredModelProvider,
+    ignoredModels: settings.ignoredModels || [],
+    systemPrompt: settings.systemPrompt,
+    mergePolicies: settings.mergePolicies,
+    duplicateDecisions: settings.duplicateDecisions,
+    identityAliases: settings.identityAliases,
+    plugins: settings.fetcherPlugins,
+    customSources: settings.customSources
+});
+
 /**
  * Hook for handling all sync-related operations
  * Extracts sync logic from AIModelDB for better modularity
@@ -50,29 +70,21 @@ export function useSyncOperations({ models, settings, callbacks }: UseSyncOperat
     /**
      * Syncs model data from all configured sources
      */
-    const syncAll = useCallback(async (showSpinner = true) => {
+    const syncAll = useCallback(async (showSpinner = true, fullRebuild = false) => {
         try {
             if (showSpinner) setIsSyncing(true);
             setLastMergeStats(null);
 
             // Save a snapshot before sync (for rollback)
             if (models.length > 0) {
-                saveSnapshot(models, `Pre-sync backup (${models.length} models)`);
+                await saveSnapshot(models, `Pre-sync backup (${models.length} models)`);
                 addConsoleLog("Created pre-sync snapshot for rollback");
             }
 
+            if (fullRebuild) addConsoleLog("Full rebuild: ignoring incremental watermarks");
+
             const result = await syncAllSources(
-                {
-                    dataSources: settings.dataSources || {},
-                    artificialAnalysisApiKey: settings.artificialAnalysisApiKey,
-                    enableNSFWFiltering: settings.enableNSFWFiltering,
-                    logNSFWAttempts: settings.logNSFWAttempts,
-                    customNSFWKeywords: settings.customNSFWKeywords || [],
-                    apiConfig: settings.apiConfig,
-                    preferredModelProvider: settings.preferredModelProvider,
-                    ignoredModels: settings.ignoredModels || [],
-                    systemPrompt: settings.systemPrompt
-                },
+                { ...toSyncOptions(settings), fullRebuild },
                 {
                     onProgress: setSyncProgress,
                     onLog: addConsoleLog,
@@ -85,7 +97,8 @@ export function useSyncOperations({ models, settings, callbacks }: UseSyncOperat
             setSyncSummary({
                 found: result.complete.length,
                 flagged: result.flagged.length,
-                duplicates: result.duplicates || 0
+                duplicates: result.duplicates || 0,
+                rejected: result.rejected || 0
             });
             mergeInModels(result.complete);
             setLastSync(new Date().toISOString());
@@ -116,6 +129,39 @@ export function useSyncOperations({ models, settings, callbacks }: UseSyncOperat
         setFlaggedModels, setShowFlaggedModal
     ]);
 
+    /**
+     * Fetches only the given sources in the background and merges the results
+     * into the database. No pre-sync snapshot is taken since nothing is replaced.
+     */
+    const syncSources = useCallback(async (sourceIds: string[]) => {
+        if (sourceIds.length === 0) return;
+        try {
+            setIsSyncing(true);
+            addConsoleLog(`[Scheduled] Refreshing stale sources: ${sourceIds.join(', ')}`);
+
+            const result = await syncAllSources(
+                { ...toSyncOptions(settings), sources: sourceIds },
+                { onProgress: setSyncProgress, onLog: addConsoleLog }
+            );
+
+            if (result.complete.length > 0) {
+                mergeInModels(result.complete);
+            }
+            setLastSync(new Date().toISOString());
+            addConsoleLog(`[Scheduled] Merged ${result.complete.length} models from ${sourceIds.length} source(s)`);
+
+            if (result.flagged.length > 0) {
+                setFlaggedModels(result.flagged);
+            }
+        } catch (error) {
+            console.error("Error in scheduled sync:", error);
+            addConsoleLog(`[Scheduled] Sync failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setSyncProgress(null);
+            setIsSyncing(false);
+        }
+    }, [settings, setIsSyncing, setSyncProgress, addConsoleLog, mergeInModels, setLastSync, setFlaggedModels]);
+
     /**
      * Handles live sync with AI services and custom options
      */
@@ -123,7 +169,8 @@ export function useSyncOperations({ models, settings, callbacks }: UseSyncOperat
         autoRefresh?: { enabled: boolean, interval: number, unit: string },
         minDownloadsBypass?: number,
         systemPrompt?: string,
-        apiConfig?: ApiDir
+        apiConfig?: ApiDir,
+        fullRebuild?: boolean
     }) => {
         if (options?.systemPrompt && options?.apiConfig) {
             setIsSyncing(true);
@@ -139,7 +186,13 @@ export function useSyncOperations({ models, settings, callbacks }: UseSyncOperat
                         preferredModelProvider: settings.preferredModelProvider,
                         systemPrompt: options.systemPrompt,
                         autoRefresh: options.autoRefresh,
-                        minDownloadsBypass: options.minDownloadsBypass
+                        minDownloadsBypass: options.minDownloadsBypass,
+                        mergePolicies: settings.mergePolicies,
+                        duplicateDecisions: settings.duplicateDecisions,
+                        identityAliases: settings.identityAliases,
+                        plugins: settings.fetcherPlugins,
+                        customSources: settings.customSources,
+                        fullRebuild: options.fullRebuild
                     },
                     {
                         onProgress: setSyncProgress,
@@ -150,7 +203,8 @@ export function useSyncOperations({ models, settings, callbacks }: UseSyncOperat
                 setSyncSummary({
                     found: result.complete.length,
                     flagged: result.flagged.length,
-                    duplicates: result.duplicates || 0
+                    duplicates: result.duplicates || 0,
+                    rejected: result.rejected || 0
                 });
                 mergeInModels(result.complete);
                 setLastSync(new Date().toISOString());
@@ -171,7 +225,7 @@ export function useSyncOperations({ models, settings, callbacks }: UseSyncOperat
                 }, 1500);
             }
         } else {
-            await syncAll(true);
+            await syncAll(true, options?.fullRebuild);
             setShowSync?.(false);
         }
     }, [
@@ -182,6 +236,7 @@ export function useSyncOperations({ models, settings, callbacks }: UseSyncOperat
 
     return {
         syncAll,
+        syncSources,
         handleLiveSync
     };
 }
@@ -54,6 +54,8 @@ export interface UIState {
     setFavoritesOnly: (enabled: boolean) => void;
     hideNSFW: boolean;
     setHideNSFW: (enabled: boolean) => void;
+    maxSizeGB: number | null;
+    setMaxSizeGB: (gb: number | null) => void;
 
     // Detail panel
     open: Model | null;
@@ -106,6 +108,7 @@ export function useUIState(options?: { initialHideNSFW?: boolean }): UIState {
     const [excludeTags, setExcludeTags] = useState<string[]>([]);
     const [favoritesOnly, setFavoritesOnly] = useState<boolean>(false);
     const [hideNSFW, setHideNSFW] = useState<boolean>(options?.initialHideNSFW ?? false); // Default to showing all, toggle to hide
+    const [maxSizeGB, setMaxSizeGB] = useState<number | null>(null);
 
     // Detail panel state
     const [open, setOpen] = useState<Model | null>(null);
@@ -136,6 +139,8 @@ export function useUIState(options?: { initialHideNSFW?: boolean }): UIState {
         setFavoritesOnly,
         hideNSFW,
         setHideNSFW,
+        maxSizeGB,
+        setMaxSizeGB,
         open,
         setOpen,
         triggerElement,
@@ -60,8 +60,8 @@ export async function enrichFromWebScraping(
                     const results = searchData.organic || searchData.results || [];
 
                     // Try scraping the top result
-                    if (results.length > 0 && results[0].link) {
-                        const topUrl = results[0].link;
+                    const topUrl = results[0]?.url || results[0]?.link;
+                    if (topUrl) {
                         const scrapeResp = await fetch('/scrape', {
                             method: 'POST',
                             headers: { 'Content-Type': 'application/json' },
@@ -1,6 +1,7 @@
 
 import { proxyUrl } from '../config';
 import { fetchWrapper } from '../../../utils/fetch-wrapper';
+import { getProxyRequest } from '../../../utils/electron';
 
 export interface ModelGalleryDetails {
     images?: string[];
@@ -21,9 +22,10 @@ export async function fetchHuggingFaceDetails(modelId: string): Promise<ModelGal
         let data: any;
 
         // Use Electron proxy if available to bypass CORS
-        if (window.electronAPI?.proxyRequest) {
+        const proxyRequest = getProxyRequest();
+        if (proxyRequest) {
             // Use the Electron proxy for production
-            const result = await window.electronAPI.proxyRequest({
+            const result = await proxyRequest({
                 url: prodUrl,
                 method: 'GET'
             });
@@ -85,8 +87,8 @@ export async function fetchHuggingFaceDetails(modelId: string): Promise<ModelGal
 
                     let readmeContent = '';
 
-                    if (window.electronAPI?.proxyRequest) {
-                        const result = await window.electronAPI.proxyRequest({ url: readmeUrl, method: 'GET' });
+                    if (proxyRequest) {
+                        const result = await proxyRequest({ url: readmeUrl, method: 'GET' });
                         if (result.success && typeof result.data === 'string') {
                             readmeContent = result.data;
                         }
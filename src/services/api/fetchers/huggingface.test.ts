@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../utils/fetch-wrapper', () => ({ fetchWrapper: vi.fn() }));
+vi.mock('../../sync/SyncWatermarks', () => ({ loadWatermark: vi.fn() }));
+
+import { huggingFaceFetcher } from './huggingface';
+import { parseLinkHeader } from '../utils';
+import { fetchWrapper } from '../../../utils/fetch-wrapper';
+import { loadWatermark } from '../../sync/SyncWatermarks';
+
+const item = (id: string, lastModified: string, downloads = 5000) => ({
+    id,
+    author: id.split('/')[0],
+    downloads,
+    likes: 1,
+    tags: ['license:mit', 'text-generation'],
+    pipeline_tag: 'text-generation',
+    lastModified,
+    createdAt: '2024-01-01T00:00:00.000Z'
+});
+
+const page = (items: unknown[], next?: string) => new Response(JSON.stringify(items), {
+    status: 200,
+    headers: next ? { Link: `<${next}>; rel="next"` } : {}
+});
+
+describe('parseLinkHeader', () => {
+    it('should map rel names to URLs', () => {
+        const header = '<https://huggingface.co/api/models?cursor=abc>; rel="next", <https://huggingface.co/api/models>; rel=first';
+        expect(parseLinkHeader(header)).toEqual({
+            next: 'https://huggingface.co/api/models?cursor=abc',
+            first: 'https://huggingface.co/api/models'
+        });
+        expect(parseLinkHeader(null)).toEqual({});
+    });
+});
+
+describe('huggingFaceFetcher incremental sync', () => {
+    const options = { dataSources: { huggingface: true } };
+
+    beforeEach(() => {
+        vi.mocked(fetchWrapper).mockReset();
+        vi.mocked(loadWatermark).mockReset();
+    });
+
+    it('should follow Link cursors until the watermark and skip low-download repos', async () => {
+        vi.mocked(loadWatermark).mockResolvedValue('2025-03-01T00:00:00.000Z');
+        vi.mocked(fetchWrapper)
+            .mockResolvedValueOnce(page([
+                item('org/newest', '2025-03-05T00:00:00.000Z'),
+                item('someone/tiny', '2025-03-04T00:00:00.000Z', 3),
+            ], 'https://huggingface.co/api/models?cursor=p2'))
+            .mockResolvedValueOnce(page([
+                item('org/second', '2025-03-02T00:00:00.000Z'),
+                item('org/old', '2025-02-01T00:00:00.000Z'),
+            ], 'https://huggingface.co/api/models?cursor=p3'));
+
+        const result = await huggingFaceFetcher.fetch(options);
+
+        expect(fetchWrapper).toHaveBeenCalledTimes(2);
+        expect(vi.mocked(fetchWrapper).mock.calls[0][0]).toContain('sort=lastModified');
+        expect(vi.mocked(fetchWrapper).mock.calls[1][0]).toContain('cursor=p2');
+        expect([...result.complete, ...result.flagged].map(m => m.id)).toEqual(['org/newest', 'org/second']);
+        expect(result.watermark).toBe('2025-03-05T00:00:00.000Z');
+    });
+
+    it('should run a full fetch when rebuilding', async () => {
+        vi.mocked(loadWatermark).mockResolvedValue('2025-03-01T00:00:00.000Z');
+        vi.mocked(fetchWrapper).mockResolvedValueOnce(page([item('org/top', '2025-01-01T00:00:00.000Z')]));
+
+        const result = await huggingFaceFetcher.fetch({ ...options, fullRebuild: true });
+
+        expect(vi.mocked(fetchWrapper).mock.calls[0][0]).toContain('sort=downloads');
+        expect(loadWatermark).not.toHaveBeenCalled();
+        expect(result.watermark).toBe('2025-01-01T00:00:00.000Z');
+    });
+
+    it('should map model-card metadata into benchmarks, lineage and tags', async () => {
+        vi.mocked(loadWatermark).mockResolvedValue(null);
+        vi.mocked(fetchWrapper).mockResolvedValueOnce(page([{
+            ...item('org/tuned', '2025-01-01T00:00:00.000Z'),
+            tags: ['text-generation', 'base_model:finetune:org/base'],
+            cardData: {
+                license: 'apache-2.0',
+                datasets: ['org/chat-data'],
+                language: ['en'],
+                'model-index': [{ results: [{ dataset: { name: 'ARC' }, metrics: [{ type: 'acc', value: 61.2 }] }] }]
+            }
+        }]));
+
+        const [model] = (await huggingFaceFetcher.fetch(options)).complete;
+
+        expect(vi.mocked(fetchWrapper).mock.calls[0][0]).toContain('expand[]=cardData');
+        expect(model.license.name).toBe('Apache-2.0');
+        expect(model.lineage).toEqual({ base_models: ['org/base'], relation: 'finetune' });
+        expect(model.links).toEqual([{ label: 'Fine-tuned from', url: 'https://huggingface.co/org/base' }]);
+        expect(model.benchmarks).toEqual([{ name: 'ARC (acc)', score: 61.2, source: 'model-index' }]);
+        expect(model.tags).toEqual(expect.arrayContaining(['dataset:org/chat-data', 'language:en', 'task:text-generation']));
+    });
+
+    it('should not advance the watermark when a page fails', async () => {
+        vi.mocked(loadWatermark).mockResolvedValue('2025-03-01T00:00:00.000Z');
+        vi.mocked(fetchWrapper).mockResolvedValueOnce(new Response('busy', { status: 429 }));
+
+        const result = await huggingFaceFetcher.fetch(options);
+        expect(result.complete).toEqual([]);
+        expect(result.watermark).toBeUndefined();
+    });
+
+    it('should keep the old watermark and report it when the page cap cuts the run short', async () => {
+        vi.mocked(loadWatermark).mockResolvedValue('2025-03-01T00:00:00.000Z');
+        vi.mocked(fetchWrapper).mockImplementation(async () =>
+            page([item('org/busy', '2025-03-05T00:00:00.000Z')], 'https://huggingface.co/api/models?cursor=more'));
+
+        const result = await huggingFaceFetcher.fetch(options);
+        expect(fetchWrapper).toHaveBeenCalledTimes(20);
+        expect(result.watermark).toBe('2025-03-01T00:00:00.000Z');
+        expect(result.errors).toEqual([expect.stringContaining('before reaching the watermark')]);
+    });
+});
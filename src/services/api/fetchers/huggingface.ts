@@ -9,127 +9,259 @@ import {
     determineCommercialUse,
     inferLicenseFromTags,
     determineDomain,
-    inferParametersFromNameTags
+    inferParametersFromNameTags,
+    parseLinkHeader,
+    parseModelCard
 } from '../utils';
 import { isModelComplete } from '../filtering';
 import { fetchWrapper } from '../../../utils/fetch-wrapper';
 import { HuggingFaceResponseSchema } from '../schemas';
 
-// ... imports remain the same ...
 import { Fetcher, SyncOptions, SyncCallbacks, SyncResult } from '../../sync/SyncTypes';
+import { loadWatermark } from '../../sync/SyncWatermarks';
 
 const logger = loggers.sync;
 
+const HF_API = 'https://huggingface.co/api/';
+const FULL_LIMIT = 10000;
+const PAGE_SIZE = 1000;
+// Safety cap for incremental runs; anything older is picked up by the next full rebuild
+const MAX_INCREMENTAL_PAGES = 20;
+// Recently modified repos are mostly personal experiments; keep the ones people actually use
+const INCREMENTAL_MIN_DOWNLOADS = 1000;
+// Fields requested for list pages (expand replaces the default field set); cardData is the parsed model-card YAML
+const LIST_FIELDS = ['author', 'downloads', 'likes', 'tags', 'pipeline_tag', 'library_name', 'createdAt', 'lastModified', 'safetensors', 'cardData'];
+const LIST_EXPAND = LIST_FIELDS.map(f => `expand[]=${f}`).join('&');
+
+const LINEAGE_LABELS: Record<string, string> = {
+    finetune: 'Fine-tuned from',
+    adapter: 'Adapter for',
+    quantized: 'Quantized from',
+    merge: 'Merged from'
+};
+
+/**
+ * Route a Hugging Face API path through the dev proxy when enabled.
+ * Accepts either a relative path ("models?...") or an absolute API URL from a Link header.
+ */
+const hfApiUrl = (path: string): string => {
+    const relative = path.startsWith(HF_API) ? path.slice(HF_API.length) : path;
+    return proxyUrl(`/huggingface-api/${relative}`, `${HF_API}${relative}`);
+};
+
+const timeOf = (value: unknown): number => (typeof value === 'string' ? Date.parse(value) : NaN);
+
+/**
+ * Map a Hugging Face API list item to a Model
+ */
+function toModel(item: any): Model {
+    // Extract provider from HuggingFace model ID (format: "organization/model-name")
+    let provider = item.author || null;
+    if (!provider && item.id) {
+        const parts = item.id.split('/');
+        if (parts.length >= 2) {
+            provider = parts[0];
+        }
+    }
+
+    const repoTags: string[] = Array.isArray(item.tags) ? item.tags : [];
+    const card = parseModelCard(item.cardData, repoTags);
+    const licenseRaw: string | undefined = card.license || item.license || inferLicenseFromTags(repoTags);
+    const license = licenseRaw?.toLowerCase() || '';
+    const pipelineTag = item.pipeline_tag || card.pipelineTag;
+    const tags = new Set(repoTags);
+    card.datasets.forEach(d => tags.add(`dataset:${d}`));
+    card.languages.forEach(l => tags.add(`language:${l}`));
+    if (pipelineTag) tags.add(`task:${pipelineTag}`);
+
+    const links = [
+        ...(card.lineage?.base_models ?? []).map(base => ({
+            label: LINEAGE_LABELS[card.lineage?.relation ?? ''] ?? 'Base model',
+            url: `https://huggingface.co/${base}`
+        })),
+        ...(card.licenseUrl ? [{ label: 'License', url: card.licenseUrl }] : [])
+    ];
+
+    return {
+        id: item.id || cleanId(item.modelId),
+        name: item.name || item.id,
+        provider: provider,
+        domain: determineDomain([...tags]),
+        source: "HuggingFace",
+        url: `https://huggingface.co/${item.id}`,
+        repo: `https://huggingface.co/${item.id}`,
+        links: links.length ? links : undefined,
+        license: {
+            name: normalizeLicenseName(licenseRaw) || "Unknown",
+            type: determineType(licenseRaw),
+            commercial_use: determineCommercialUse(licenseRaw),
+            attribution_required: license.includes("attribution"),
+            share_alike: license.includes("share-alike"),
+            copyleft: license.includes("gpl"),
+            url: card.licenseUrl
+        },
+        downloads: item.downloads,
+        updated_at: normalizeDate(item.lastModified) || normalizeDate(item.lastModifiedAt) || null,
+        release_date: normalizeDate(item.createdAt) || normalizeDate(item.created) || null,
+        tags: [...tags],
+        hosting: {
+            weights_available: true,
+            api_available: false,
+            on_premise_friendly: true
+        },
+        parameters: item.params || inferParametersFromNameTags(item.id || item.name, repoTags) || null,
+        context_window: null,
+        indemnity: 'None',
+        data_provenance: 'Open Source',
+        usage_restrictions: [],
+        benchmarks: card.benchmarks.length ? card.benchmarks : undefined,
+        lineage: card.lineage,
+        analytics: {
+            likes: item.likes || 0,
+            downloads: item.downloads || 0
+        },
+        pricing: []
+    };
+}
+
+function toResult(items: any[], watermark: string): SyncResult {
+    const complete: Model[] = [];
+    const flagged: Model[] = [];
+
+    // Map HuggingFace API response to Model[]
+    items.forEach((item: any) => {
+        const model = toModel(item);
+        if (isModelComplete(model)) {
+            complete.push(model);
+        } else {
+            flagged.push(model);
+        }
+    });
+
+    logger.info(`Processed ${items.length} models from API`);
+    logger.debug(`Complete: ${complete.length}, Flagged: ${flagged.length}`);
+
+    return { complete, flagged, watermark };
+}
+
+/**
+ * Full fetch: the top models by downloads. The watermark is the newest
+ * lastModified seen, or the fetch start time when the list omits it.
+ */
+async function fetchTopModels(): Promise<SyncResult> {
+    const startedAt = new Date().toISOString();
+    logger.debug('Fetching models from API...');
+    const direction = -1; // -1 = descending (most downloads first)
+    const url = hfApiUrl(`models?sort=downloads&direction=${direction}&limit=${FULL_LIMIT}&${LIST_EXPAND}`);
+
+    logger.debug(`Fetching from API via proxy: ${url}`);
+    const response = await fetchWrapper(url);
+
+    if (!response.ok) {
+        const text = await response.text();
+        logger.error(`ERROR: Status ${response.status} ${response.statusText}. Response: ${text}`);
+        return { complete: [], flagged: [], httpStatus: response.status, errors: [`Status ${response.status} ${response.statusText}`] };
+    }
+
+    const data = await response.json();
+
+    // Validate response schema
+    const parseResult = HuggingFaceResponseSchema.safeParse(data);
+    const models = Array.isArray(data) ? data : data.models || data.results || [];
+
+    if (!parseResult.success) {
+        logger.warn('Response schema validation failed, using fallback parsing:', parseResult.error.issues[0]?.message);
+    }
+
+    if (!models.length) {
+        logger.error('API did not return any models:', data);
+        return { complete: [], flagged: [], errors: ['API did not return any models'] };
+    }
+
+    const newest = models.reduce((max: number, item: any) => Math.max(max, timeOf(item.lastModified) || 0), 0);
+    return toResult(models, newest > 0 ? new Date(newest).toISOString() : startedAt);
+}
+
+/**
+ * Incremental fetch: walks models sorted by lastModified (newest first),
+ * following Link-header cursors until it reaches the stored watermark.
+ */
+async function fetchModifiedSince(watermark: string, callbacks?: SyncCallbacks): Promise<SyncResult> {
+    const since = timeOf(watermark);
+    let url: string | undefined = hfApiUrl(`models?sort=lastModified&direction=-1&limit=${PAGE_SIZE}&${LIST_EXPAND}`);
+    let newest = since;
+    let pages = 0;
+    let reachedWatermark = false;
+    const items: any[] = [];
+
+    logger.debug(`Fetching models modified since ${watermark}`);
+
+    while (url && pages < MAX_INCREMENTAL_PAGES && !reachedWatermark) {
+        const response = await fetchWrapper(url);
+        if (!response.ok) {
+            const text = await response.text();
+            logger.error(`ERROR: Status ${response.status} ${response.statusText}. Response: ${text}`);
+            return { complete: [], flagged: [], incremental: true, httpStatus: response.status, errors: [`Status ${response.status} ${response.statusText}`] };
+        }
+
+        const data = await response.json();
+        const page: any[] = Array.isArray(data) ? data : data.models || [];
+        pages++;
+
+        for (const item of page) {
+            const modified = timeOf(item.lastModified);
+            if (modified <= since) {
+                reachedWatermark = true;
+                break;
+            }
+            if (modified > newest) newest = modified;
+            if ((item.downloads || 0) >= INCREMENTAL_MIN_DOWNLOADS) items.push(item);
+        }
+
+        callbacks?.onProgress?.({
+            current: 0,
+            total: 0,
+            source: 'HuggingFace',
+            statusMessage: `HuggingFace: ${items.length} updated models (page ${pages})`
+        });
+
+        const next = parseLinkHeader(response.headers.get('Link')).next;
+        url = next ? hfApiUrl(next) : undefined;
+    }
+
+    logger.info(`Incremental fetch: ${items.length} updated models in ${pages} page(s)`);
+
+    if (!reachedWatermark && url) {
+        // Models between the page cap and the watermark were not seen; advancing
+        // the watermark past them would skip them for good
+        const message = `Stopped after ${pages} pages before reaching the watermark; run a full rebuild to catch up`;
+        logger.warn(message);
+        return { ...toResult(items, watermark), incremental: true, errors: [message] };
+    }
+    return { ...toResult(items, new Date(newest).toISOString()), incremental: true };
+}
+
 /**
  * HuggingFace Fetcher Implementation
+ *
+ * Runs incrementally once a watermark is stored; the first run and explicit
+ * full rebuilds fetch the top models by downloads.
  */
 export const huggingFaceFetcher: Fetcher = {
     id: 'huggingface',
     name: 'HuggingFace',
     isEnabled: (options: SyncOptions) => options.dataSources?.huggingface === true,
+    defaultIntervalMinutes: 60,
 
     async fetch(options: SyncOptions, callbacks?: SyncCallbacks): Promise<SyncResult> {
         try {
-            logger.debug('Fetching models from API...');
-            const limit = 10000;
-            const direction = -1; // -1 = descending (most downloads first)
-            const url = proxyUrl(
-                `/huggingface-api/models?sort=downloads&direction=${direction}&limit=${limit}`,
-                `https://huggingface.co/api/models?sort=downloads&direction=${direction}&limit=${limit}`
-            );
-
-            logger.debug(`Fetching from API via proxy: ${url}`);
-            const response = await fetchWrapper(url);
-
-            if (!response.ok) {
-                const text = await response.text();
-                logger.error(`ERROR: Status ${response.status} ${response.statusText}. Response: ${text}`);
-                return { complete: [], flagged: [] };
-            }
-
-            const data = await response.json();
-
-            // Validate response schema
-            const parseResult = HuggingFaceResponseSchema.safeParse(data);
-            const models = Array.isArray(data) ? data : data.models || data.results || [];
-
-            if (!parseResult.success) {
-                logger.warn('Response schema validation failed, using fallback parsing:', parseResult.error.issues[0]?.message);
-            }
-
-            if (!models.length) {
-                logger.error('API did not return any models:', data);
-                return { complete: [], flagged: [] };
-            }
-
-            const complete: Model[] = [];
-            const flagged: Model[] = [];
-
-            // Map HuggingFace API response to Model[]
-            models.forEach((item: any) => {
-                // Extract provider from HuggingFace model ID (format: "organization/model-name")
-                let provider = item.author || null;
-                if (!provider && item.id) {
-                    const parts = item.id.split('/');
-                    if (parts.length >= 2) {
-                        provider = parts[0];
-                    }
-                }
-
-                const model: Model = {
-                    id: item.id || cleanId(item.modelId),
-                    name: item.name || item.id,
-                    provider: provider,
-                    domain: determineDomain(item.tags),
-                    source: "HuggingFace",
-                    url: `https://huggingface.co/${item.id}`,
-                    repo: `https://huggingface.co/${item.id}`,
-                    license: {
-                        name: normalizeLicenseName(item.license || inferLicenseFromTags(item.tags)) || "Unknown",
-                        type: determineType(item.license || inferLicenseFromTags(item.tags)),
-                        commercial_use: determineCommercialUse(item.license || inferLicenseFromTags(item.tags)),
-                        attribution_required: item.license?.toLowerCase().includes("attribution"),
-                        share_alike: item.license?.toLowerCase().includes("share-alike"),
-                        copyleft: item.license?.toLowerCase().includes("gpl")
-                    },
-                    downloads: item.downloads,
-                    updated_at: normalizeDate(item.lastModified) || normalizeDate(item.lastModifiedAt) || null,
-                    release_date: normalizeDate(item.createdAt) || normalizeDate(item.created) || null,
-                    tags: [
-                        ...(item.tags || []),
-                        item.pipeline_tag ? `task:${item.pipeline_tag}` : null
-                    ].filter(Boolean) as string[],
-                    hosting: {
-                        weights_available: true,
-                        api_available: false,
-                        on_premise_friendly: true
-                    },
-                    parameters: item.params || inferParametersFromNameTags(item.id || item.name, item.tags) || null,
-                    context_window: null,
-                    indemnity: 'None',
-                    data_provenance: 'Open Source',
-                    usage_restrictions: [],
-                    analytics: {
-                        likes: item.likes || 0,
-                        downloads: item.downloads || 0
-                    },
-                    pricing: []
-                };
-
-                if (isModelComplete(model)) {
-                    complete.push(model);
-                } else {
-                    flagged.push(model);
-                }
-            });
-
-            logger.info(`Processed ${models.length} models from API`);
-            logger.debug(`Complete: ${complete.length}, Flagged: ${flagged.length}`);
-
-            return { complete, flagged };
+            const watermark = options.fullRebuild ? null : await loadWatermark('huggingface');
+            return watermark
+                ? await fetchModifiedSince(watermark, callbacks)
+                : await fetchTopModels();
         } catch (err: any) {
             logger.error('Fetch error:', err?.message || err);
-            return { complete: [], flagged: [] };
+            return { complete: [], flagged: [], errors: [err?.message || String(err)] };
         }
     }
 };
@@ -138,5 +270,5 @@ export const huggingFaceFetcher: Fetcher = {
  * Backward compatibility export
  */
 export async function fetchHuggingFaceRecent(limit = 10000): Promise<{ complete: Model[], flagged: Model[] }> {
-    return huggingFaceFetcher.fetch({ dataSources: { huggingface: true } } as any);
+    return huggingFaceFetcher.fetch({ dataSources: { huggingface: true }, fullRebuild: true } as any);
 }
@@ -12,11 +12,13 @@ import * as cheerio from 'cheerio';
  * @param limit Maximum number of models to fetch (default: 500)
  * @returns Object containing complete and flagged models
  */
-export async function fetchCivitai(limit = 500): Promise<{ complete: Model[], flagged: Model[] }> {
+export async function fetchCivitai(limit = 500): Promise<{ complete: Model[], flagged: Model[], errors?: string[], httpStatus?: number }> {
     try {
         console.log('[Civitai] Fetching generative AI models via scraping...');
 
         const models: Model[] = [];
+        const errors: string[] = [];
+        let httpStatus: number | undefined;
         let html = '';
 
         // Always try to fetch directly from the website
@@ -29,9 +31,12 @@ export async function fetchCivitai(limit = 500): Promise<{ complete: Model[], fl
                 html = await resp.text();
             } else {
                 console.warn(`[Civitai] Scraping unavailable, using fallback models`);
+                httpStatus = resp?.status;
+                errors.push(`Scraping unavailable${resp ? ` (status ${resp.status})` : ''}`);
             }
         } catch (fetchError: any) {
             console.warn(`[Civitai] Fetch failed, using fallback models:`, fetchError?.message);
+            errors.push(`Fetch failed: ${fetchError?.message || fetchError}`);
         }
 
         if (!html) {
@@ -123,6 +128,7 @@ export async function fetchCivitai(limit = 500): Promise<{ complete: Model[], fl
         // If scraping didn't work, add known Civitai models
         if (models.length === 0) {
             console.log('[Civitai] Scraping found no models, adding known generative AI models...');
+            errors.push('Scraping found no models; returned the built-in fallback list');
 
             const knownModels = [
                 {
@@ -231,10 +237,10 @@ export async function fetchCivitai(limit = 500): Promise<{ complete: Model[], fl
 
         console.log(`[Civitai] Final - Complete: ${complete.length}, Flagged: ${flagged.length}`);
 
-        return { complete, flagged };
+        return { complete, flagged, errors, httpStatus };
 
     } catch (err: any) {
         console.error('[Civitai] Fetch error:', err?.message || err);
-        return { complete: [], flagged: [] };
+        return { complete: [], flagged: [], errors: [err?.message || String(err)] };
     }
 }
@@ -1,5 +1,6 @@
 import { proxyUrl } from '../../config';
 import { fetchWrapper } from '../../../../utils/fetch-wrapper';
+import { getProxyRequest } from '../../../../utils/electron';
 
 export interface CivitasBayDetails {
     civitaiUrl?: string;
@@ -61,8 +62,9 @@ export async function fetchCivitasBayDetails(torrentPageUrl: string): Promise<Ci
         let data: CivitasBayApiResponse;
 
         // Use Electron proxy if available to bypass CORS
-        if (window.electronAPI?.proxyRequest) {
-            const result = await window.electronAPI.proxyRequest({
+        const proxyRequest = getProxyRequest();
+        if (proxyRequest) {
+            const result = await proxyRequest({
                 url: apiUrl,
                 method: 'GET'
             });
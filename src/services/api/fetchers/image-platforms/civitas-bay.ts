@@ -3,6 +3,7 @@ import { proxyUrl } from '../../config';
 import { isModelComplete } from '../../filtering';
 import { normalizeDate, normalizeLicenseName, determineType, determineCommercialUse } from '../../utils';
 import { fetchWrapper } from '../../../../utils/fetch-wrapper';
+import { getProxyRequest } from '../../../../utils/electron';
 
 // Note: NSFW filtering is now handled by the global sync service based on user settings
 // Individual fetchers return all models, and filtering happens in syncService.ts if enabled
@@ -23,7 +24,7 @@ export async function fetchCivitasBay(
     apiConfig?: ApiDir,
     onLog?: (message: string) => void,
     onConfirmLLMCheck?: (modelCount: number, estimatedTimeMs: number) => Promise<boolean>
-): Promise<{ complete: Model[], flagged: Model[] }> {
+): Promise<{ complete: Model[], flagged: Model[], errors?: string[], httpStatus?: number }> {
     const log = (msg: string) => {
         console.log(msg);
         if (onLog) onLog(msg);
@@ -34,6 +35,9 @@ export async function fetchCivitasBay(
 
         const models: Model[] = [];
         const seenIds = new Set<string>();
+        // A failed page ends pagination like the last page does; keep the reason for the health screen
+        const errors: string[] = [];
+        let httpStatus: number | undefined;
 
         // Fetch all pages until we reach the end
         // Fetch pages concurrently in batches
@@ -53,20 +57,26 @@ export async function fetchCivitasBay(
                         let xmlText: string;
 
                         // Use Electron proxy if available to bypass CORS
-                        if (window.electronAPI?.proxyRequest) {
-                            const result = await window.electronAPI.proxyRequest({
+                        const proxyRequest = getProxyRequest();
+                        if (proxyRequest) {
+                            const result = await proxyRequest({
                                 url: prodUrl,
                                 method: 'GET'
                             });
 
                             if (!result.success) {
                                 console.error(`[CivitasBay] Proxy error on page ${p}: ${result.error}`);
+                                errors.push(`Page ${p}: ${result.error}`);
                                 return { page: p, items: [] };
                             }
                             xmlText = typeof result.data === 'string' ? result.data : JSON.stringify(result.data);
                         } else {
                             const response = await fetchWrapper(url);
-                            if (!response.ok) return { page: p, items: [] };
+                            if (!response.ok) {
+                                httpStatus = response.status;
+                                errors.push(`Page ${p}: status ${response.status}`);
+                                return { page: p, items: [] };
+                            }
                             xmlText = await response.text();
                         }
 
@@ -77,6 +87,7 @@ export async function fetchCivitasBay(
                         return { page: p, items: Array.from(xmlItems) };
                     } catch (e) {
                         console.error(`[CivitasBay] Error on page ${p}:`, e);
+                        errors.push(`Page ${p}: ${e instanceof Error ? e.message : String(e)}`);
                         return { page: p, items: [] };
                     }
                 })(page + i));
@@ -240,9 +251,9 @@ export async function fetchCivitasBay(
 
         log(`[CivitasBay] Final - Complete: ${complete.length}, Flagged: ${flagged.length}`);
 
-        return { complete, flagged };
+        return { complete, flagged, errors, httpStatus };
     } catch (err: any) {
         console.error('[CivitasBay] Fetch error:', err?.message || err);
-        return { complete: [], flagged: [] };
+        return { complete: [], flagged: [], errors: [err?.message || String(err)] };
     }
 }
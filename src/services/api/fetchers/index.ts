@@ -17,4 +17,4 @@ export { fetchCivitai, fetchCivitasBay } from './image-platforms';
 // Registry fetchers
 export * from './registries/openmodeldb';
 export { fetchOllamaLibrary, ollamaLibraryFetcher } from './registries/ollama-library';
-export { fetchModelScopeRecent } from './registries/modelscope';
+export { fetchModelScopeRecent, modelScopeFetcher } from './registries/modelscope';
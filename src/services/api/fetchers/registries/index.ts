@@ -4,6 +4,6 @@
  * Exports fetchers for model registries and databases
  */
 
-export { fetchModelScopeRecent } from './modelscope';
+export { fetchModelScopeRecent, modelScopeFetcher } from './modelscope';
 export { fetchOpenModelDB } from './openmodeldb';
 export { fetchOllamaLibrary } from './ollama-library';
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../../../utils/fetch-wrapper', () => ({ fetchWrapper: vi.fn() }));
+
+import { modelScopeFetcher, findHuggingFaceMirror } from './modelscope';
+import { fetchWrapper } from '../../../../utils/fetch-wrapper';
+
+const item = (Path: string, Name: string, extra: Record<string, unknown> = {}) => ({
+    Path,
+    Name,
+    License: 'apache 2.0',
+    Downloads: 1000,
+    Stars: 10,
+    Tasks: [{ Name: 'text-generation' }],
+    CreatedTime: 1717200000,
+    LastUpdatedTime: 1719792000,
+    ...extra
+});
+
+const page = (models: unknown[], total: number) => new Response(JSON.stringify({
+    Code: 200,
+    Success: true,
+    Data: { Model: { Models: models, TotalCount: total } }
+}), { status: 200 });
+
+describe('findHuggingFaceMirror', () => {
+    it('should prefer an explicit Hugging Face link', () => {
+        expect(findHuggingFaceMirror(item('AI-ModelScope', 'gemma-2-9b', {
+            Description: 'Mirror of https://huggingface.co/google/gemma-2-9b'
+        }))).toBe('google/gemma-2-9b');
+    });
+
+    it('should map known vendor orgs and skip mirror orgs', () => {
+        expect(findHuggingFaceMirror(item('qwen', 'Qwen2.5-7B-Instruct'))).toBe('Qwen/Qwen2.5-7B-Instruct');
+        expect(findHuggingFaceMirror(item('01ai', 'Yi-1.5-9B'))).toBe('01-ai/Yi-1.5-9B');
+        expect(findHuggingFaceMirror(item('LLM-Research', 'Meta-Llama-3-8B'))).toBeNull();
+    });
+});
+
+describe('modelScopeFetcher', () => {
+    const options = { dataSources: { modelscope: true } };
+
+    beforeEach(() => {
+        vi.mocked(fetchWrapper).mockReset();
+    });
+
+    it('should page until the total is reached and map license and mirror', async () => {
+        const first = Array.from({ length: 100 }, (_, i) => item('qwen', `Qwen-${i}B`));
+        vi.mocked(fetchWrapper)
+            .mockResolvedValueOnce(page(first, 101))
+            .mockResolvedValueOnce(page([item('someone', 'tiny-model', { License: 'mit', Description: '中文描述' })], 101));
+
+        const result = await modelScopeFetcher.fetch(options);
+        const models = [...result.complete, ...result.flagged];
+
+        expect(fetchWrapper).toHaveBeenCalledTimes(2);
+        expect(JSON.parse(vi.mocked(fetchWrapper).mock.calls[1][1]?.body as string).PageNumber).toBe(2);
+        expect(models).toHaveLength(101);
+
+        const qwen = models.find(m => m.id === 'modelscope-qwen/Qwen-7B');
+        expect(qwen).toMatchObject({
+            source: 'ModelScope',
+            domain: 'LLM',
+            url: 'https://modelscope.cn/models/qwen/Qwen-7B',
+            repo: 'https://huggingface.co/Qwen/Qwen-7B',
+            license: { name: 'Apache-2.0', type: 'OSI' },
+            release_date: '2024-06-01'
+        });
+        expect(qwen?.tags).toContain('mirror:huggingface');
+
+        const other = models.find(m => m.id === 'modelscope-someone/tiny-model');
+        expect(other?.repo).toBe('https://modelscope.cn/models/someone/tiny-model');
+        expect(other?.description).toBe('中文描述');
+    });
+
+    it('should return nothing but the error when the first page fails', async () => {
+        vi.mocked(fetchWrapper).mockResolvedValueOnce(new Response('down', { status: 503 }));
+        expect(await modelScopeFetcher.fetch(options)).toEqual({
+            complete: [],
+            flagged: [],
+            errors: [expect.stringMatching(/^Status 503/)]
+        });
+    });
+});
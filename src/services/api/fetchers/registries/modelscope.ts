@@ -1,13 +1,209 @@
 import { Model } from "../../../../types";
+import { loggers } from '../../../../utils/logger';
+import { proxyUrl } from '../../config';
+import {
+    normalizeDate,
+    normalizeLicenseName,
+    determineType,
+    determineCommercialUse,
+    determineDomain,
+    inferParametersFromNameTags
+} from '../../utils';
+import { isModelComplete } from '../../filtering';
+import { fetchWrapper } from '../../../../utils/fetch-wrapper';
+import { Fetcher, SyncOptions, SyncCallbacks, SyncResult } from '../../../sync/SyncTypes';
+
+const logger = loggers.sync;
+
+const MODELSCOPE_WEB = 'https://modelscope.cn';
+const PAGE_SIZE = 100;
+// 1000 most-downloaded models; the long tail is mostly personal fine-tunes
+const MAX_PAGES = 10;
+
+/**
+ * ModelScope organizations that publish the same repos on Hugging Face
+ * (ModelScope owner, lowercase -> Hugging Face org). Mirror orgs such as
+ * AI-ModelScope or LLM-Research re-host many vendors and are not listed.
+ */
+export const MODELSCOPE_HF_ORGS: Record<string, string> = {
+    'qwen': 'Qwen',
+    '01ai': '01-ai',
+    'zhipuai': 'zai-org',
+    'deepseek-ai': 'deepseek-ai',
+    'baichuan-inc': 'baichuan-inc',
+    'shanghai_ai_laboratory': 'internlm',
+    'openbmb': 'openbmb',
+    'moonshotai': 'moonshotai',
+    'minimax': 'MiniMaxAI',
+    'stepfun-ai': 'stepfun-ai',
+    'tencent-hunyuan': 'tencent',
+    'xiaomimimo': 'XiaomiMiMo',
+};
+
+const HF_LINK = /huggingface\.co\/(?!api\/|datasets\/|spaces\/)([\w.-]+\/[\w.-]+)/i;
+
+/**
+ * ModelScope list endpoint (PUT with a JSON page request)
+ */
+const modelsUrl = () => proxyUrl('/modelscope-api/api/v1/dolphin/models', `${MODELSCOPE_WEB}/api/v1/dolphin/models`);
+
+/**
+ * ModelScope timestamps are unix seconds
+ */
+const toDate = (value: unknown): string | null =>
+    typeof value === 'number' && value > 0 ? new Date(value * 1000).toISOString().slice(0, 10) : normalizeDate(value);
+
+/**
+ * Hugging Face repo id a ModelScope model mirrors: an explicit huggingface.co
+ * link in its metadata wins, otherwise the same name under a known org.
+ */
+export function findHuggingFaceMirror(item: any): string | null {
+    const text = [item.Description, item.ReadMeContent, item.ModelInfos && JSON.stringify(item.ModelInfos)]
+        .filter(v => typeof v === 'string')
+        .join('\n');
+    const linked = text.match(HF_LINK);
+    if (linked) return linked[1].replace(/\.git$/, '');
+
+    const org = MODELSCOPE_HF_ORGS[String(item.Path || '').toLowerCase()];
+    return org && item.Name ? `${org}/${item.Name}` : null;
+}
+
+/**
+ * Map a ModelScope list item to a Model
+ */
+function toModel(item: any): Model {
+    const owner = String(item.Path || '');
+    const name = String(item.Name || '');
+    const fullId = owner ? `${owner}/${name}` : name;
+    const tasks: string[] = (item.Tasks || []).map((t: any) => t?.Name).filter(Boolean);
+    const tags: string[] = [
+        ...(Array.isArray(item.Tags) ? item.Tags : []),
+        ...(Array.isArray(item.Libraries) ? item.Libraries : []),
+        ...tasks.map(t => `task:${t}`)
+    ].filter(t => typeof t === 'string' && t);
+    const licenseRaw = item.License || undefined;
+    const license = licenseRaw?.toLowerCase() || '';
+    const mirror = findHuggingFaceMirror(item);
+    const pageUrl = `${MODELSCOPE_WEB}/models/${fullId}`;
+
+    return {
+        id: `modelscope-${fullId}`,
+        name: name || fullId,
+        description: item.Description || item.ChineseName || undefined,
+        provider: owner || null,
+        domain: determineDomain([...tasks, ...tags]),
+        source: 'ModelScope',
+        url: pageUrl,
+        // A mirrored repo points at Hugging Face so identity and dedupe link both rows
+        repo: mirror ? `https://huggingface.co/${mirror}` : pageUrl,
+        links: mirror ? [{ label: 'Hugging Face', url: `https://huggingface.co/${mirror}` }] : undefined,
+        license: {
+            name: normalizeLicenseName(licenseRaw) || 'Unknown',
+            type: determineType(licenseRaw),
+            commercial_use: determineCommercialUse(licenseRaw),
+            attribution_required: license.includes('attribution'),
+            share_alike: license.includes('share-alike'),
+            copyleft: license.includes('gpl')
+        },
+        downloads: item.Downloads,
+        updated_at: toDate(item.LastUpdatedTime),
+        release_date: toDate(item.CreatedTime),
+        tags: mirror ? [...tags, 'mirror:huggingface'] : tags,
+        hosting: {
+            weights_available: true,
+            api_available: false,
+            on_premise_friendly: true
+        },
+        parameters: inferParametersFromNameTags(name, tags) || null,
+        context_window: null,
+        analytics: {
+            likes: item.Stars || 0,
+            downloads: item.Downloads || 0
+        },
+        pricing: []
+    };
+}
+
+/**
+ * Fetch one page of models, most downloaded first
+ */
+async function fetchPage(pageNumber: number, pageSize = PAGE_SIZE): Promise<{ items: any[]; total: number }> {
+    const response = await fetchWrapper(modelsUrl(), {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            PageSize: pageSize,
+            PageNumber: pageNumber,
+            SortBy: 'DownloadsCount',
+            Target: '',
+            SingleCriterion: []
+        })
+    });
+    if (!response.ok) {
+        throw new Error(`Status ${response.status} ${response.statusText}`);
+    }
+    const data = await response.json();
+    if (data?.Success === false) {
+        throw new Error(data.Message || 'ModelScope API error');
+    }
+    const list = data?.Data?.Model ?? {};
+    return { items: Array.isArray(list.Models) ? list.Models : [], total: Number(list.TotalCount) || 0 };
+}
+
+/**
+ * ModelScope Fetcher Implementation
+ */
+export const modelScopeFetcher: Fetcher = {
+    id: 'modelscope',
+    name: 'ModelScope',
+    isEnabled: (options: SyncOptions) => options.dataSources?.modelscope === true,
+    defaultIntervalMinutes: 1440,
+
+    async fetch(_options: SyncOptions, callbacks?: SyncCallbacks): Promise<SyncResult> {
+        const items: any[] = [];
+        const errors: string[] = [];
+        try {
+            for (let page = 1; page <= MAX_PAGES; page++) {
+                const { items: pageItems, total } = await fetchPage(page);
+                items.push(...pageItems);
+                callbacks?.onProgress?.({
+                    current: 0,
+                    total: 0,
+                    source: 'ModelScope',
+                    statusMessage: `ModelScope: ${items.length} models (page ${page})`
+                });
+                if (pageItems.length < PAGE_SIZE || (total > 0 && items.length >= total)) break;
+            }
+        } catch (error) {
+            logger.error('ModelScope fetch failed:', error);
+            errors.push(error instanceof Error ? error.message : String(error));
+            if (items.length === 0) return { complete: [], flagged: [], errors };
+        }
+
+        const complete: Model[] = [];
+        const flagged: Model[] = [];
+        items.forEach(item => {
+            const model = toModel(item);
+            if (isModelComplete(model)) complete.push(model);
+            else flagged.push(model);
+        });
+        logger.info(`Processed ${items.length} models from ModelScope`);
+        return { complete, flagged, errors };
+    }
+};
 
 /**
  * Fetch recent models from ModelScope
- * 
- * ModelScope disabled per product scope; keeping stub to avoid build breaks
- * 
- * @param limit - Maximum number of models to fetch (unused in stub)
- * @returns Empty array
+ *
+ * @param limit - Maximum number of models to fetch
+ * @returns Models from the first page
  */
 export async function fetchModelScopeRecent(limit = 30): Promise<Model[]> {
-    return [];
+    try {
+        const { items } = await fetchPage(1, limit);
+        return items.slice(0, limit).map(toModel);
+    } catch (error) {
+        logger.error('ModelScope fetch failed:', error);
+        return [];
+    }
 }
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { parseOllamaVariants } from './ollama-library';
+
+describe('parseOllamaVariants', () => {
+    it('should parse tag rows from the tags page', () => {
+        const html = `
+            <section>
+                <div class="group">
+                    <a href="/library/llama3.1:8b-instruct-q4_K_M">llama3.1:8b-instruct-q4_K_M</a>
+                    <span>4.9GB · 128K context window · Text · 3 months ago</span>
+                </div>
+                <div class="group">
+                    <a href="/library/llama3.1:70b-instruct-fp16">llama3.1:70b-instruct-fp16</a>
+                    <span>141GB · 128K context window · Text · 3 months ago</span>
+                </div>
+                <div class="group">
+                    <a href="/library/llama3.1:8b-instruct-q4_K_M">duplicate desktop link</a>
+                </div>
+            </section>`;
+
+        expect(parseOllamaVariants(html, 'llama3.1')).toEqual([
+            { name: 'llama3.1:8b-instruct-q4_K_M', quantization: 'Q4_K_M', parameters: '8B', size_bytes: 4_900_000_000, context_length: 131072, format: 'GGUF' },
+            { name: 'llama3.1:70b-instruct-fp16', quantization: 'F16', parameters: '70B', size_bytes: 141_000_000_000, context_length: 131072, format: 'GGUF' }
+        ]);
+    });
+
+    it('should read size and context columns from the model page table', () => {
+        const html = `
+            <table>
+                <thead><tr><th>Name</th><th>Size</th><th>Context</th><th>Input</th></tr></thead>
+                <tbody>
+                    <tr><td><a href="/library/gemma3:4b">gemma3:4b</a></td><td>3.3GB</td><td>128K</td><td>Text, Image</td></tr>
+                    <tr><td><a href="/library/gemma3:270m">gemma3:270m</a></td><td>292MB</td><td>32K</td><td>Text</td></tr>
+                </tbody>
+            </table>`;
+
+        const variants = parseOllamaVariants(html, 'gemma3');
+        expect(variants.map(v => [v.name, v.parameters, v.size_bytes, v.context_length])).toEqual([
+            ['gemma3:4b', '4B', 3_300_000_000, 131072],
+            ['gemma3:270m', '270M', 292_000_000, 32768]
+        ]);
+    });
+});
@@ -1,12 +1,69 @@
 import * as cheerio from 'cheerio';
-import { Model, ApiDir } from '../../../../types';
+import { Model, ApiDir, ModelVariant } from '../../../../types';
 import { fetchWrapper } from '../../../../utils/fetch-wrapper';
+import { getProxyRequest } from '../../../../utils/electron';
 import { loggers } from '../../../../utils/logger';
 import { parseRelativeDate } from '../../../../utils';
+import { parseByteSize, parseContextLength, parseVariantTag } from '../../../../utils/variants';
 import { Fetcher, SyncOptions, SyncCallbacks, SyncResult } from '../../../sync/SyncTypes';
 
 const logger = loggers.sync;
 
+const SIZE_PATTERN = /\b([\d.]+\s?[KMGT]B)\b/i;
+
+/**
+ * Parses the tag rows of an Ollama model page or its /tags page into
+ * variants. Rows are found from their tag links; size and context come from
+ * table columns when present, otherwise from the row text
+ * ("4.9GB · 128K context window · Text").
+ */
+export function parseOllamaVariants(html: string, modelId: string): ModelVariant[] {
+    const $ = cheerio.load(html);
+    const prefix = `/library/${modelId}:`;
+    const variants = new Map<string, ModelVariant>();
+
+    $(`a[href^="${prefix}"]`).each((_, el) => {
+        const href = $(el).attr('href') || '';
+        const name = decodeURIComponent(href.slice('/library/'.length));
+        if (variants.has(name)) return;
+
+        let size: string | undefined;
+        let context: string | undefined;
+        const $tr = $(el).closest('tr');
+        if ($tr.length) {
+            const headers = $tr.closest('table').find('th').map((_, th) => $(th).text().trim().toLowerCase()).get();
+            const cell = (label: string) => {
+                const idx = headers.findIndex(h => h.includes(label));
+                return idx === -1 ? undefined : $tr.find('td').eq(idx).text().trim();
+            };
+            size = cell('size');
+            context = cell('context');
+        } else {
+            // Climb to the row holding the size without swallowing neighbouring tags
+            let $row = $(el);
+            for (let i = 0; i < 4 && !SIZE_PATTERN.test($row.text()); i++) {
+                const $parent = $row.parent();
+                const others = $parent.find(`a[href^="${prefix}"]`).filter((_, a) => $(a).attr('href') !== href);
+                if (!$parent.length || others.length) break;
+                $row = $parent;
+            }
+            const text = $row.text().replace(/\s+/g, ' ');
+            size = text.match(SIZE_PATTERN)?.[1];
+            context = text.match(/([\d.]+[KM]?)\s*context/i)?.[1];
+        }
+
+        variants.set(name, {
+            name,
+            ...parseVariantTag(name),
+            size_bytes: parseByteSize(size),
+            context_length: parseContextLength(context),
+            format: 'GGUF'
+        });
+    });
+
+    return [...variants.values()];
+}
+
 /**
  * Ollama Library Fetcher Implementation
  */
@@ -14,6 +71,7 @@ export const ollamaLibraryFetcher: Fetcher = {
     id: 'ollamaLibrary',
     name: 'Ollama Library',
     isEnabled: (options: SyncOptions) => options.dataSources?.ollamaLibrary === true,
+    defaultIntervalMinutes: 1440,
 
     async fetch(options: SyncOptions, callbacks?: SyncCallbacks): Promise<SyncResult> {
         try {
@@ -120,8 +178,12 @@ export const ollamaLibraryFetcher: Fetcher = {
 
             // 2. Deep Fetch Details (Batched)
             const models: Model[] = [];
+            const errors: string[] = [];
             const BATCH_SIZE = 5;
 
+            // An empty index almost always means the page layout changed
+            if (initialModels.length === 0) errors.push('No models found on the library page');
+
             for (let i = 0; i < initialModels.length; i += BATCH_SIZE) {
                 const batch = initialModels.slice(i, i + BATCH_SIZE);
 
@@ -194,14 +256,26 @@ export const ollamaLibraryFetcher: Fetcher = {
                             }
                         });
 
+                        // Every tag with its download size; the model page only lists the headline ones
+                        const libraryId = model.url.slice(model.url.indexOf('/library/') + '/library/'.length);
+                        let variants = parseOllamaVariants(detailHtml, libraryId);
+                        try {
+                            const tagVariants = parseOllamaVariants(await fetchHtml(`${model.url}/tags`), libraryId);
+                            if (tagVariants.length) variants = tagVariants;
+                        } catch (err) {
+                            logger.debug(`[Ollama] No tag list for ${model.name}`, err);
+                        }
+
                         return {
                             ...model,
                             context_window: context,
-                            parameters: size
+                            parameters: size,
+                            variants: variants.length ? variants : undefined
                         };
 
                     } catch (err) {
                         logger.warn(`[Ollama] Failed to fetch details for ${model.name}`, err);
+                        errors.push(`${model.name}: ${err instanceof Error ? err.message : String(err)}`);
                         return model;
                     }
                 }));
@@ -223,12 +297,13 @@ export const ollamaLibraryFetcher: Fetcher = {
 
             return {
                 complete: models,
-                flagged: []
+                flagged: [],
+                errors
             };
 
         } catch (error: any) {
             logger.error('[Ollama] Error fetching models:', error);
-            return { complete: [], flagged: [] };
+            return { complete: [], flagged: [], errors: [error?.message || String(error)] };
         }
     }
 };
@@ -244,8 +319,9 @@ export async function fetchOllamaLibrary(): Promise<{ complete: Model[], flagged
  * Helper to fetch HTML content, handling Electron proxy if available
  */
 async function fetchHtml(url: string): Promise<string> {
-    if ((window as any).electronAPI?.proxyRequest) {
-        const result = await (window as any).electronAPI.proxyRequest({
+    const proxyRequest = getProxyRequest();
+    if (proxyRequest) {
+        const result = await proxyRequest({
             url,
             method: 'GET'
         });
@@ -22,6 +22,7 @@ export const openModelDBFetcher: Fetcher = {
     id: 'openmodeldb',
     name: 'OpenModelDB',
     isEnabled: (options: SyncOptions) => options.dataSources?.openmodeldb === true,
+    defaultIntervalMinutes: 1440,
 
     async fetch(options: SyncOptions, callbacks?: SyncCallbacks): Promise<SyncResult> {
         try {
@@ -33,7 +34,7 @@ export const openModelDBFetcher: Fetcher = {
 
             if (!treeResponse.ok) {
                 console.error(`[OpenModelDB] ERROR fetching tree: ${treeResponse.status} ${treeResponse.statusText}`);
-                return { complete: [], flagged: [] };
+                return { complete: [], flagged: [], httpStatus: treeResponse.status, errors: [`Tree: status ${treeResponse.status} ${treeResponse.statusText}`] };
             }
 
             const treeData = await treeResponse.json();
@@ -46,6 +47,7 @@ export const openModelDBFetcher: Fetcher = {
             console.log(`[OpenModelDB] Found ${modelFiles.length} model files`);
 
             const models: Model[] = [];
+            const errors: string[] = [];
             let processed = 0;
             const batchSize = 50;
 
@@ -62,6 +64,7 @@ export const openModelDBFetcher: Fetcher = {
                         const response = await fetch(rawUrl);
                         if (!response.ok) {
                             console.warn(`[OpenModelDB] Failed to fetch ${modelId}: ${response.status}`);
+                            errors.push(`${modelId}: status ${response.status}`);
                             return null;
                         }
 
@@ -131,6 +134,7 @@ export const openModelDBFetcher: Fetcher = {
                         return model;
                     } catch (itemError: any) {
                         console.error(`[OpenModelDB] Error processing ${filePath}:`, itemError?.message || itemError);
+                        errors.push(`${filePath}: ${itemError?.message || itemError}`);
                         return null;
                     }
                 });
@@ -155,10 +159,10 @@ export const openModelDBFetcher: Fetcher = {
 
             console.log(`[OpenModelDB] Complete: ${complete.length}, Flagged: ${flagged.length}`);
 
-            return { complete, flagged };
+            return { complete, flagged, errors };
         } catch (err: any) {
             console.error('[OpenModelDB] Fetch error:', err?.message || err);
-            return { complete: [], flagged: [] };
+            return { complete: [], flagged: [], errors: [err?.message || String(err)] };
         }
     }
 };
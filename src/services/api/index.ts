@@ -52,6 +52,7 @@ export {
 // Registry fetchers
 export {
     fetchModelScopeRecent,
+    modelScopeFetcher, // Export wrapper
     fetchOpenModelDB,
     openModelDBFetcher, // Export wrapper
     fetchOllamaLibrary,
@@ -100,8 +101,12 @@ export {
     inferParametersFromNameTags,
     parseGitHubRepo,
     mapSpdxToType,
-    safeFetch
+    safeFetch,
+    startCassette,
+    parseCassette,
+    CassetteMissError
 } from './utils';
+export type { Cassette, CassetteEntry, CassetteSession } from './utils';
 
 // ============================================================================
 // Validation Schemas (Zod)
@@ -109,6 +114,7 @@ export {
 export {
     ModelSchema,
     LicenseSchema,
+    LicenseTypeSchema,
     HostingSchema,
     PricingSchema,
     DomainSchema,
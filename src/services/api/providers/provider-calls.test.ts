@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { callProviderText } from './provider-calls';
+import { DEFAULT_API_DIR } from '../config';
+
+const ollama = { ...DEFAULT_API_DIR.ollama, enabled: true };
+
+const installProxy = (proxyRequest: ReturnType<typeof vi.fn>, cancelProxyRequest = vi.fn()) => {
+    Object.defineProperty(window, 'electronAPI', { value: { proxyRequest, cancelProxyRequest }, configurable: true });
+    return cancelProxyRequest;
+};
+
+afterEach(() => {
+    Object.defineProperty(window, 'electronAPI', { value: undefined, configurable: true });
+});
+
+describe('callProviderText through the Electron proxy', () => {
+    it('returns the response text', async () => {
+        installProxy(vi.fn().mockResolvedValue({ success: true, status: 200, data: { message: { content: 'hi' } } }));
+        expect(await callProviderText('ollama', ollama, 'sys', 'user')).toBe('hi');
+    });
+
+    it('surfaces the upstream status instead of a generic failure', async () => {
+        installProxy(vi.fn().mockResolvedValue({ success: false, status: 429, error: '{"error":"slow down"}' }));
+        await expect(callProviderText('ollama', ollama, 'sys', 'user')).rejects.toThrow('Rate limit exceeded');
+
+        installProxy(vi.fn().mockResolvedValue({ success: false, status: 401, error: 'bad key' }));
+        await expect(callProviderText('ollama', ollama, 'sys', 'user')).rejects.toThrow('API authentication failed');
+    });
+
+    it('cancels the proxied request when the signal aborts', async () => {
+        const controller = new AbortController();
+        const proxyRequest = vi.fn(() => {
+            controller.abort();
+            return Promise.resolve({ success: false, status: 0, code: 'aborted', error: 'Request cancelled' });
+        });
+        const cancel = installProxy(proxyRequest);
+
+        await expect(callProviderText('ollama', ollama, 'sys', 'user', { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+        expect(cancel).toHaveBeenCalledWith(proxyRequest.mock.calls[0][0].requestId);
+        expect(proxyRequest).toHaveBeenCalledTimes(1);
+    });
+});
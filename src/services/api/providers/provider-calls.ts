@@ -9,31 +9,48 @@ import { globalRateLimiter } from '../../rateLimiter';
 import { getEffectiveApiKey } from './api-key-manager';
 import { proxyUrl, useProxy, bypassOpenAIProxy } from '../config';
 import { buildProviderRequest } from './request-builder';
+import { cancelProxyRequest, getProxyRequest } from '../../../utils/electron';
 
 /**
  * Helper to make API calls through Electron's proxy to bypass CORS
- * Falls back to direct fetch in browser/non-Electron environments
+ * Falls back to direct fetch in browser/non-Electron environments.
+ * Both paths report the upstream HTTP status; aborting the signal cancels
+ * the proxied request and rejects with an AbortError like fetch does.
  */
 async function electronProxyFetch(
     url: string,
     options: { method: string; headers: Record<string, string>; body?: any; signal?: AbortSignal }
 ): Promise<{ ok: boolean; status: number; data?: any; error?: string }> {
     // Check if running in Electron with proxy available
-    if (typeof window !== 'undefined' && (window as any).electronAPI?.proxyRequest) {
+    const proxyRequest = getProxyRequest();
+    if (proxyRequest) {
+        const { signal } = options;
+        signal?.throwIfAborted();
+        const requestId = crypto.randomUUID();
+        const cancel = () => cancelProxyRequest(requestId);
+        signal?.addEventListener('abort', cancel, { once: true });
         try {
-            const result = await (window as any).electronAPI.proxyRequest({
+            const result = await proxyRequest({
                 url,
                 method: options.method,
                 headers: options.headers,
-                body: options.body
+                body: options.body,
+                requestId
             });
+            if (result?.code === 'aborted' && signal?.aborted) {
+                throw new DOMException('The operation was aborted.', 'AbortError');
+            }
+            // Older main processes only reported success or failure
+            const status = result?.status ?? (result?.success ? 200 : 500);
             if (result?.success) {
-                return { ok: true, status: 200, data: result.data };
-            } else {
-                return { ok: false, status: 500, error: result?.error || 'Proxy request failed' };
+                return { ok: true, status, data: result.data };
             }
+            return { ok: false, status, error: result?.error || 'Proxy request failed' };
         } catch (err: any) {
+            if (err?.name === 'AbortError') throw err;
             return { ok: false, status: 500, error: err?.message || 'Proxy request error' };
+        } finally {
+            signal?.removeEventListener('abort', cancel);
         }
     }
 
@@ -240,6 +257,9 @@ export async function callProvider(key: ProviderKey, cfg: ProviderCfg, systemPro
                 errorMessage = `${key} API rate limited (429): Too many requests, please try again later`;
             } else if (result.status >= 500) {
                 errorMessage = `${key} API server error (${result.status}): The provider's service may be experiencing issues`;
+            } else if (result.status === 0) {
+                // Blocked host, timeout or size cap in the Electron proxy
+                errorMessage = `${key} API request failed: ${text}`;
             }
 
             throw new Error(errorMessage);
@@ -377,6 +397,8 @@ export async function callProviderText(
                     throw new Error(`API access forbidden. Your API key may not have the required permissions.`);
                 } else if (result.status === 402) {
                     throw new Error(`Payment required. Please check your API billing and usage limits.`);
+                } else if (result.status === 0) {
+                    throw new Error(errorText);
                 } else {
                     throw new Error(`HTTP ${result.status}: ${errorText}`);
                 }
@@ -11,12 +11,17 @@ import { z } from 'zod';
 // Common Schemas
 // ============================================================================
 
+/**
+ * License categories a model record may carry (matches LicenseInfo['type'])
+ */
+export const LicenseTypeSchema = z.enum(['OSI', 'Copyleft', 'Non-Commercial', 'Custom', 'Proprietary']);
+
 /**
  * License information schema
  */
 export const LicenseSchema = z.object({
     name: z.string().optional().default('Unknown'),
-    type: z.enum(['OSI', 'Copyleft', 'Proprietary', 'Custom', 'Research', 'Custom-Commercial', 'Unknown']).optional().default('Custom'),
+    type: LicenseTypeSchema.optional().default('Custom'),
     commercial_use: z.boolean().optional().default(true),
     attribution_required: z.boolean().optional().default(false),
     share_alike: z.boolean().optional().default(false),
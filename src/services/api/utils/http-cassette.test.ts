@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Cassette, CassetteMissError, cassetteUrl, isCassetteReplaying, startCassette } from './http-cassette';
+import { getProxyRequest } from '../../../utils/electron';
+
+let recorded: Cassette;
+let base: string;
+let hits = 0;
+
+// Record against a stub server once, then close it so replays cannot reach it
+beforeAll(async () => {
+    const server = http.createServer((req, res) => {
+        hits++;
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            if (req.url?.startsWith('/models')) {
+                res.writeHead(200, { 'Content-Type': 'application/json', 'Set-Cookie': 'session=secret', 'X-Page': String(hits) });
+                res.end(JSON.stringify({ hit: hits, url: req.url, body }));
+            } else {
+                res.writeHead(404, { 'Content-Type': 'text/plain' });
+                res.end('not here');
+            }
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    // contextBridge hands the renderer a frozen object
+    (window as any).electronAPI = Object.freeze({
+        proxyRequest: async (req: { url: string }) => ({ success: true, data: { proxied: req.url } })
+    });
+    const session = startCassette({ mode: 'record', name: 'stub' });
+    try {
+        await fetch(`${base}/models?page=1&api_key=sk-live-123`);
+        await fetch(`${base}/models?page=1&api_key=sk-live-123`);
+        await fetch(`${base}/models`, { method: 'PUT', body: JSON.stringify({ PageNumber: 2 }) });
+        await fetch(`${base}/missing`);
+        await getProxyRequest()!({ url: 'https://ollama.com/library', method: 'GET' });
+        await fetch('http://127.0.0.1:1/refused').catch(() => null);
+    } finally {
+        recorded = session.stop();
+        delete (window as any).electronAPI;
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+});
+
+afterEach(() => {
+    delete (window as any).electronAPI;
+});
+
+describe('recording', () => {
+    it('stores responses with credentials redacted', () => {
+        expect(recorded.entries.map(e => [e.transport, e.method, e.response?.status ?? e.error ?? 'proxy'])).toEqual([
+            ['fetch', 'GET', 200],
+            ['fetch', 'GET', 200],
+            ['fetch', 'PUT', 200],
+            ['fetch', 'GET', 404],
+            ['proxy', 'GET', 'proxy'],
+            ['fetch', 'GET', expect.any(String)]
+        ]);
+        expect(recorded.entries[0].url).toBe(`${base}/models?page=1&api_key=REDACTED`);
+        expect(recorded.entries[0].response?.headers).not.toHaveProperty('set-cookie');
+        expect(recorded.entries[2].body).toBe('{"PageNumber":2}');
+        expect(recorded.entries[4].proxyResult).toEqual({ success: true, data: { proxied: 'https://ollama.com/library' } });
+    });
+
+    it('maps dev-proxy paths to their upstream URL', () => {
+        expect(cassetteUrl('/modelscope-api/api/v1/dolphin/models')).toBe('https://modelscope.cn/api/v1/dolphin/models');
+        expect(cassetteUrl('/huggingface-api/models?limit=5')).toBe('https://huggingface.co/api/models?limit=5');
+        expect(cassetteUrl('https://example.com/v1?key=abc&q=1')).toBe('https://example.com/v1?key=REDACTED&q=1');
+    });
+});
+
+describe('replay', () => {
+    it('answers from the cassette without the network', async () => {
+        const before = hits;
+        const session = startCassette({ mode: 'replay', cassette: recorded });
+        try {
+            expect(isCassetteReplaying()).toBe(true);
+            const first = await fetch(`${base}/models?page=1&api_key=another-key`);
+            const second = await fetch(`${base}/models?page=1&api_key=another-key`);
+            const third = await fetch(`${base}/models?page=1&api_key=another-key`);
+            expect((await first.json()).hit).toBe(1);
+            expect((await second.json()).hit).toBe(2);
+            expect((await third.json()).hit).toBe(2);
+            expect(second.headers.get('x-page')).toBe('2');
+
+            const put = await fetch(`${base}/models`, { method: 'PUT', body: JSON.stringify({ PageNumber: 2 }) });
+            expect((await put.json()).body).toBe('{"PageNumber":2}');
+
+            const missing = await fetch(`${base}/missing`);
+            expect(missing.status).toBe(404);
+            expect(await missing.text()).toBe('not here');
+
+            await expect(fetch('http://127.0.0.1:1/refused')).rejects.toThrow(TypeError);
+        } finally {
+            session.stop();
+        }
+        expect(hits).toBe(before);
+        expect(isCassetteReplaying()).toBe(false);
+    });
+
+    it('stands in for the Electron proxy when the cassette used it', async () => {
+        const session = startCassette({ mode: 'replay', cassette: recorded });
+        try {
+            const result = await getProxyRequest()!({ url: 'https://ollama.com/library' });
+            expect(result.data).toEqual({ proxied: 'https://ollama.com/library' });
+        } finally {
+            session.stop();
+        }
+        expect(getProxyRequest()).toBeUndefined();
+    });
+
+    it('rejects and reports requests it has no response for', async () => {
+        const session = startCassette({ mode: 'replay', cassette: recorded });
+        try {
+            await expect(fetch(`${base}/models`, { method: 'PUT', body: '{"PageNumber":3}' })).rejects.toThrow(CassetteMissError);
+            expect(() => startCassette({ mode: 'record' })).toThrow(/already replaying/);
+        } finally {
+            session.stop();
+        }
+        expect(session.misses).toEqual([`fetch PUT ${base}/models {"PageNumber":3}`]);
+    });
+});
@@ -0,0 +1,320 @@
+/**
+ * HTTP cassettes
+ *
+ * Records the raw responses of every request made while a session is active
+ * and replays them later without touching the network. Fetchers reach the
+ * network through fetch (directly, via fetchWrapper or safeFetch) and the
+ * Electron proxyRequest IPC (through getProxyRequest), so a session swaps out
+ * those two entry points and leaves fetcher code unchanged.
+ */
+
+import { ProxyRequestFn, getProxyRequest, setProxyRequest } from '../../../utils/electron';
+
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * fetch() calls, or Electron's proxyRequest IPC (which returns parsed data, not a Response)
+ */
+export type CassetteTransport = 'fetch' | 'proxy';
+
+export interface CassetteResponse {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+}
+
+export interface CassetteEntry {
+    transport: CassetteTransport;
+    method: string;
+    /** Absolute URL with credentials in the query redacted */
+    url: string;
+    /** Request body of non-GET requests, used to tell paged POST/PUT calls apart */
+    body?: string;
+    response?: CassetteResponse;
+    /** proxyRequest result as the IPC returned it */
+    proxyResult?: unknown;
+    /** Network error the request failed with */
+    error?: string;
+}
+
+export interface Cassette {
+    version: 1;
+    name: string;
+    recorded_at: string;
+    entries: CassetteEntry[];
+}
+
+export type CassetteSessionOptions =
+    | {
+        mode: 'record';
+        name?: string;
+        /**
+         * Resolve dev-proxy paths (/modelscope-api/...) to their upstream URL
+         * before sending. Needed when recording outside the Vite dev server.
+         */
+        resolveProxyPaths?: boolean;
+    }
+    | { mode: 'replay'; cassette: Cassette };
+
+export interface CassetteSession {
+    readonly mode: CassetteMode;
+    /** Requests that had no recorded response (replay only) */
+    readonly misses: string[];
+    /** Restore the real network entry points; returns what was recorded (or replayed) */
+    stop(): Cassette;
+}
+
+/**
+ * Raised for a request the replayed cassette has no response for
+ */
+export class CassetteMissError extends Error {
+    constructor(request: string) {
+        super(`No recorded response for ${request}`);
+        this.name = 'CassetteMissError';
+    }
+}
+
+/**
+ * Vite dev-proxy prefixes and the upstream each one rewrites to (see vite.config.ts).
+ * Keys are stored as upstream URLs so a cassette recorded in the desktop app
+ * replays under the dev proxy and the other way round.
+ */
+const DEV_PROXY_ROUTES: Record<string, string> = {
+    '/aa-api': 'https://artificialanalysis.ai/api',
+    '/modelscope-api': 'https://modelscope.cn',
+    '/huggingface-api': 'https://huggingface.co/api',
+    '/huggingface-web': 'https://huggingface.co',
+    '/openai-api': 'https://api.openai.com/v1',
+    '/anthropic-api': 'https://api.anthropic.com',
+    '/cohere-api': 'https://api.cohere.ai',
+    '/google-api': 'https://generativelanguage.googleapis.com',
+    '/deepseek-api': 'https://api.deepseek.com',
+    '/perplexity-api': 'https://api.perplexity.ai',
+    '/openrouter-api': 'https://openrouter.ai/api',
+    '/together-api': 'https://api.together.xyz',
+    '/stability-api': 'https://api.stability.ai',
+    '/groq-api': 'https://api.groq.com',
+    '/mistral-api': 'https://api.mistral.ai',
+    '/fireworks-api': 'https://api.fireworks.ai',
+    '/ai21-api': 'https://api.ai21.com',
+    '/github-api': 'https://api.github.com',
+    '/civitai-api': 'https://civitai.com/api/v1'
+};
+
+// Query parameters that carry credentials (Google's ?key=, signed URLs)
+const SECRET_PARAM = /^(key|api[_-]?key|apikey|token|access[_-]?token|auth|signature|sig)$/i;
+
+// Response headers that identify the recording user
+const SECRET_HEADER = /^(set-cookie|cookie|authorization|x-api-key)$|token/i;
+
+// Statuses whose Response must be built without a body
+const NULL_BODY_STATUS = new Set([101, 204, 205, 304]);
+
+/**
+ * Resolve a dev-proxy path to its upstream URL; other URLs are returned as is
+ */
+export function resolveProxyPath(url: string): string {
+    if (!url.startsWith('/')) return url;
+    for (const [prefix, upstream] of Object.entries(DEV_PROXY_ROUTES)) {
+        if (url === prefix || url.startsWith(`${prefix}/`) || url.startsWith(`${prefix}?`)) {
+            return upstream + url.slice(prefix.length);
+        }
+    }
+    return url;
+}
+
+/**
+ * Upstream URL with credential query parameters replaced, as stored in a cassette
+ */
+export function cassetteUrl(url: string): string {
+    const resolved = resolveProxyPath(url);
+    if (!resolved.includes('?')) return resolved;
+    try {
+        const parsed = new URL(resolved, 'http://relative.invalid');
+        let redacted = false;
+        parsed.searchParams.forEach((_value, name) => {
+            if (SECRET_PARAM.test(name)) {
+                parsed.searchParams.set(name, 'REDACTED');
+                redacted = true;
+            }
+        });
+        if (!redacted) return resolved;
+        return parsed.origin === 'http://relative.invalid' ? parsed.pathname + parsed.search : parsed.toString();
+    } catch {
+        return resolved;
+    }
+}
+
+const requestKey = (transport: CassetteTransport, method: string, url: string, body?: string): string =>
+    `${transport} ${method.toUpperCase()} ${url}${body ? ` ${body}` : ''}`;
+
+const bodyText = (body: unknown): string | undefined => {
+    if (body == null) return undefined;
+    if (typeof body === 'string') return body;
+    if (body instanceof URLSearchParams) return body.toString();
+    // proxyRequest takes plain objects; binary fetch bodies are not keyed
+    return typeof body === 'object' && !(body instanceof Blob) && !ArrayBuffer.isView(body) && !(body instanceof ArrayBuffer)
+        ? JSON.stringify(body)
+        : undefined;
+};
+
+const describeFetch = (input: RequestInfo | URL, init?: RequestInit): { url: string; method: string; body?: string } => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+    const method = (init?.method || (typeof input === 'object' && 'method' in input ? input.method : 'GET')).toUpperCase();
+    return { url, method, body: method === 'GET' || method === 'HEAD' ? undefined : bodyText(init?.body) };
+};
+
+const safeHeaders = (headers: Headers): Record<string, string> => {
+    const out: Record<string, string> = {};
+    headers.forEach((value, name) => {
+        if (!SECRET_HEADER.test(name)) out[name] = value;
+    });
+    return out;
+};
+
+const toResponse = (recorded: CassetteResponse): Response =>
+    new Response(NULL_BODY_STATUS.has(recorded.status) ? null : recorded.body, {
+        status: recorded.status,
+        statusText: recorded.statusText,
+        headers: recorded.headers
+    });
+
+let active: CassetteSession | null = null;
+
+/**
+ * Whether a cassette is being replayed. Rate limiting is pointless then and
+ * would only slow replays down.
+ */
+export function isCassetteReplaying(): boolean {
+    return active?.mode === 'replay';
+}
+
+/**
+ * Start recording or replaying. Only one session can be active; it lasts
+ * until stop() is called.
+ */
+export function startCassette(options: CassetteSessionOptions): CassetteSession {
+    if (active) throw new Error(`A cassette is already ${active.mode === 'record' ? 'recording' : 'replaying'}`);
+
+    const originalFetch = globalThis.fetch;
+    const originalProxy = getProxyRequest();
+    const entries: CassetteEntry[] = [];
+    const misses: string[] = [];
+    let performFetch: typeof fetch;
+    let performProxy: ProxyRequestFn | undefined;
+
+    if (options.mode === 'record') {
+        const resolve = options.resolveProxyPaths;
+        performFetch = async (input, init) => {
+            const { url, method, body } = describeFetch(input, init);
+            const entry: CassetteEntry = { transport: 'fetch', method, url: cassetteUrl(url), body };
+            const target = resolve && typeof input === 'string' ? resolveProxyPath(input) : input;
+            try {
+                const response = await originalFetch(target, init);
+                entry.response = {
+                    status: response.status,
+                    statusText: response.statusText,
+                    headers: safeHeaders(response.headers),
+                    body: await response.clone().text()
+                };
+                entries.push(entry);
+                return response;
+            } catch (error) {
+                entry.error = error instanceof Error ? error.message : String(error);
+                entries.push(entry);
+                throw error;
+            }
+        };
+        if (originalProxy) {
+            performProxy = async (request) => {
+                const method = String(request?.method || 'GET').toUpperCase();
+                const entry: CassetteEntry = {
+                    transport: 'proxy',
+                    method,
+                    url: cassetteUrl(String(request?.url)),
+                    body: method === 'GET' ? undefined : bodyText(request?.body)
+                };
+                try {
+                    const result = await originalProxy(request);
+                    entry.proxyResult = result;
+                    entries.push(entry);
+                    return result;
+                } catch (error) {
+                    entry.error = error instanceof Error ? error.message : String(error);
+                    entries.push(entry);
+                    throw error;
+                }
+            };
+        }
+    } else {
+        // Repeated identical requests get the recorded responses in order, then the last one again
+        const queues = new Map<string, CassetteEntry[]>();
+        for (const entry of options.cassette.entries) {
+            const key = requestKey(entry.transport, entry.method, entry.url, entry.body);
+            queues.set(key, [...(queues.get(key) || []), entry]);
+        }
+        const next = (key: string): CassetteEntry => {
+            const queue = queues.get(key);
+            if (!queue || queue.length === 0) {
+                misses.push(key);
+                throw new CassetteMissError(key);
+            }
+            const entry = queue.length > 1 ? queue.shift()! : queue[0];
+            entries.push(entry);
+            return entry;
+        };
+
+        performFetch = async (input, init) => {
+            const { url, method, body } = describeFetch(input, init);
+            const entry = next(requestKey('fetch', method, cassetteUrl(url), body));
+            if (entry.error || !entry.response) throw new TypeError(entry.error || 'Recorded request failed');
+            return toResponse(entry.response);
+        };
+        // Cassettes recorded in the desktop app replay through a stand-in proxy elsewhere
+        if (originalProxy || options.cassette.entries.some(e => e.transport === 'proxy')) {
+            performProxy = async (request) => {
+                const method = String(request?.method || 'GET').toUpperCase();
+                const entry = next(requestKey('proxy', method, cassetteUrl(String(request?.url)), method === 'GET' ? undefined : bodyText(request?.body)));
+                if (entry.error) throw new Error(entry.error);
+                return entry.proxyResult as ProxyRequestResult;
+            };
+        }
+    }
+
+    globalThis.fetch = performFetch;
+    // window.electronAPI is frozen by contextBridge, so swap the transport instead
+    if (performProxy) setProxyRequest(performProxy);
+
+    const cassetteOf = (): Cassette => ({
+        version: 1,
+        name: options.mode === 'record' ? options.name || 'sync' : options.cassette.name,
+        recorded_at: options.mode === 'record' ? new Date().toISOString() : options.cassette.recorded_at,
+        entries: [...entries]
+    });
+    const session: CassetteSession = {
+        mode: options.mode,
+        misses,
+        stop() {
+            if (active !== session) return cassetteOf();
+            globalThis.fetch = originalFetch;
+            if (performProxy) setProxyRequest(null);
+            active = null;
+            return cassetteOf();
+        }
+    };
+
+    active = session;
+    return session;
+}
+
+/**
+ * Parse and check a cassette file
+ */
+export function parseCassette(text: string): Cassette {
+    const data = JSON.parse(text);
+    if (!data || data.version !== 1 || !Array.isArray(data.entries)) {
+        throw new Error('Not a cassette file (expected version 1 with an entries list)');
+    }
+    return data as Cassette;
+}
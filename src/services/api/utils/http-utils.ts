@@ -3,6 +3,7 @@
  */
 
 import { globalRateLimiter, RateLimiter } from '../../rateLimiter';
+import { isCassetteReplaying } from './http-cassette';
 
 /**
  * Safe fetch with timeout and error handling
@@ -40,6 +41,26 @@ export async function rateLimitedFetch(
     limiter: RateLimiter = globalRateLimiter,
     timeoutMs: number = 10000
 ): Promise<Response | null> {
-    await limiter.waitForSlot();
+    if (!isCassetteReplaying()) await limiter.waitForSlot();
     return safeFetch(url, options, timeoutMs);
 }
+
+/**
+ * Parse an RFC 8288 Link header into a map of rel -> URL
+ * e.g. '<https://api.example.com/items?cursor=abc>; rel="next"' -> { next: "https://api.example.com/items?cursor=abc" }
+ */
+export function parseLinkHeader(header: string | null | undefined): Record<string, string> {
+    const links: Record<string, string> = {};
+    if (!header) return links;
+
+    for (const part of header.split(',')) {
+        const match = part.match(/<([^>]+)>\s*;(.*)/);
+        if (!match) continue;
+        const rel = match[2].match(/rel\s*=\s*"?([^";]+)"?/i);
+        if (!rel) continue;
+        for (const name of rel[1].trim().split(/\s+/)) {
+            links[name.toLowerCase()] = match[1].trim();
+        }
+    }
+    return links;
+}
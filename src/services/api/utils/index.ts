@@ -30,4 +30,10 @@ export {
 } from './github-utils';
 
 // HTTP utilities
-export { safeFetch } from './http-utils';
+export { safeFetch, parseLinkHeader } from './http-utils';
+export { CassetteMissError, cassetteUrl, isCassetteReplaying, parseCassette, startCassette } from './http-cassette';
+export type { Cassette, CassetteEntry, CassetteMode, CassetteSession, CassetteSessionOptions } from './http-cassette';
+
+// Model card utilities
+export { parseModelCard, parseModelIndex } from './model-card';
+export type { ModelCardInfo } from './model-card';
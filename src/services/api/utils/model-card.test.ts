@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseModelCard, parseModelIndex } from './model-card';
+
+describe('parseModelCard', () => {
+    it('should read license, datasets, languages and lineage from the front-matter', () => {
+        const info = parseModelCard({
+            license: 'other',
+            license_name: 'llama3.1',
+            license_link: 'https://llama.meta.com/llama3_1/license',
+            base_model: 'meta-llama/Llama-3.1-8B',
+            base_model_relation: 'finetune',
+            datasets: ['HuggingFaceH4/ultrachat_200k'],
+            language: ['EN', 'de'],
+            pipeline_tag: 'text-generation'
+        });
+
+        expect(info).toMatchObject({
+            license: 'llama3.1',
+            licenseUrl: 'https://llama.meta.com/llama3_1/license',
+            lineage: { base_models: ['meta-llama/Llama-3.1-8B'], relation: 'finetune' },
+            datasets: ['HuggingFaceH4/ultrachat_200k'],
+            languages: ['en', 'de'],
+            pipelineTag: 'text-generation'
+        });
+    });
+
+    it('should take lineage from base_model tags and treat several bases as a merge', () => {
+        expect(parseModelCard(undefined, ['base_model:quantized:Qwen/Qwen2.5-7B']).lineage)
+            .toEqual({ base_models: ['Qwen/Qwen2.5-7B'], relation: 'quantized' });
+        expect(parseModelCard({ base_model: ['a/one', 'b/two'] }).lineage)
+            .toEqual({ base_models: ['a/one', 'b/two'], relation: 'merge' });
+        expect(parseModelCard({ license: 'mit' }).lineage).toBeUndefined();
+    });
+});
+
+describe('parseModelIndex', () => {
+    it('should flatten eval results and skip non-numeric values', () => {
+        expect(parseModelIndex([{
+            name: 'model',
+            results: [
+                {
+                    task: { type: 'text-generation' },
+                    dataset: { name: 'MMLU (5-Shot)', type: 'cais/mmlu' },
+                    metrics: [{ type: 'acc', value: 68.4, name: 'accuracy' }, { type: 'acc_norm', value: 'n/a' }],
+                    source: { name: 'Open LLM Leaderboard', url: 'https://huggingface.co/spaces/open-llm-leaderboard' }
+                },
+                { dataset: { type: 'gsm8k' }, metrics: [{ type: 'exact_match', value: '55.1' }] },
+                { metrics: [{ type: 'acc', value: 1 }] }
+            ]
+        }])).toEqual([
+            { name: 'MMLU (5-Shot) (accuracy)', score: 68.4, source: 'Open LLM Leaderboard' },
+            { name: 'gsm8k (exact_match)', score: 55.1, source: 'model-index' }
+        ]);
+    });
+});
@@ -0,0 +1,99 @@
+/**
+ * Model card utilities
+ *
+ * Structured reading of Hugging Face model-card metadata: the YAML
+ * front-matter of README.md, which the Hub serves parsed as `cardData`.
+ */
+
+import { BenchmarkEntry, LineageRelation, ModelLineage } from '../../../types';
+
+/**
+ * Fields extracted from a model card
+ */
+export interface ModelCardInfo {
+    license?: string;
+    licenseUrl?: string;
+    lineage?: ModelLineage;
+    datasets: string[];
+    languages: string[];
+    pipelineTag?: string;
+    benchmarks: BenchmarkEntry[];
+}
+
+const RELATIONS: LineageRelation[] = ['finetune', 'adapter', 'quantized', 'merge'];
+
+const asList = (value: unknown): string[] =>
+    (Array.isArray(value) ? value : value == null ? [] : [value])
+        .filter(v => typeof v === 'string' || typeof v === 'number')
+        .map(v => String(v).trim())
+        .filter(Boolean);
+
+const isObject = (v: unknown): v is Record<string, any> => v !== null && typeof v === 'object' && !Array.isArray(v);
+
+/**
+ * Base models and relation from `base_model` / `base_model_relation`, falling
+ * back to the Hub's `base_model:<relation>:<repo>` tags.
+ */
+function parseLineage(card: Record<string, any>, tags: string[]): ModelLineage | undefined {
+    const bases = new Set(asList(card.base_model));
+    let relation = RELATIONS.find(r => r === card.base_model_relation);
+
+    for (const tag of tags) {
+        const match = tag.match(/^base_model:(?:(finetune|adapter|quantized|merge):)?(.+)$/);
+        if (!match) continue;
+        bases.add(match[2]);
+        if (!relation && match[1]) relation = match[1] as LineageRelation;
+    }
+
+    if (bases.size === 0) return undefined;
+    // Several bases without an explicit relation is a merge
+    if (!relation && bases.size > 1) relation = 'merge';
+    return relation ? { base_models: [...bases], relation } : { base_models: [...bases] };
+}
+
+/**
+ * Flatten `model-index` evaluation results into benchmark entries named
+ * "<dataset> (<metric>)". Non-numeric and missing values are skipped.
+ */
+export function parseModelIndex(modelIndex: unknown): BenchmarkEntry[] {
+    const entries = new Map<string, BenchmarkEntry>();
+
+    for (const model of Array.isArray(modelIndex) ? modelIndex : []) {
+        for (const result of Array.isArray(model?.results) ? model.results : []) {
+            if (!isObject(result)) continue;
+            const dataset = isObject(result.dataset) ? (result.dataset.name || result.dataset.type) : undefined;
+            const source = isObject(result.source) ? (result.source.name || result.source.url) : undefined;
+            if (!dataset) continue;
+
+            for (const metric of Array.isArray(result.metrics) ? result.metrics : []) {
+                if (!isObject(metric)) continue;
+                const score = typeof metric.value === 'number' ? metric.value : parseFloat(metric.value);
+                if (!Number.isFinite(score)) continue;
+                const name = `${dataset} (${metric.name || metric.type || 'score'})`;
+                entries.set(name, { name, score, source: source || 'model-index' });
+            }
+        }
+    }
+    return [...entries.values()];
+}
+
+/**
+ * Read license, lineage, datasets, languages, pipeline tag and evaluation
+ * results from a model card. `tags` are the repo tags, used for lineage.
+ */
+export function parseModelCard(cardData: unknown, tags: string[] = []): ModelCardInfo {
+    const card = isObject(cardData) ? cardData : {};
+    // "other" licenses carry the real name in license_name
+    const license = asList(card.license)[0];
+    const licenseName = license === 'other' ? asList(card.license_name)[0] || license : license;
+
+    return {
+        license: licenseName,
+        licenseUrl: typeof card.license_link === 'string' ? card.license_link : undefined,
+        lineage: parseLineage(card, tags),
+        datasets: asList(card.datasets),
+        languages: asList(card.language).map(l => l.toLowerCase()),
+        pipelineTag: typeof card.pipeline_tag === 'string' ? card.pipeline_tag : undefined,
+        benchmarks: parseModelIndex(card['model-index'])
+    };
+}
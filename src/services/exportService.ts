@@ -9,6 +9,9 @@
 
 import { Model } from '../types';
 import { toCSV } from '../utils/format';
+import { formatProvenance, formatProvenanceEntry, stripProvenance } from '../utils/provenance';
+import { SnapshotDiff, changelogToJSON, changelogToMarkdown } from '../utils/snapshotDiff';
+import type { Cassette } from './api/utils/http-cassette';
 
 /**
  * Supported export formats for model data
@@ -25,6 +28,47 @@ export interface ExportOptions {
     models: Model[];
     /** Optional custom filename (without extension) */
     filename?: string;
+    /** Include per-field provenance (source, fetch time, origin kind) */
+    includeProvenance?: boolean;
+}
+
+const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+    json: { extension: 'json', mimeType: 'application/json' },
+    csv: { extension: 'csv', mimeType: 'text/csv;charset=utf-8;' },
+    tsv: { extension: 'tsv', mimeType: 'text/tab-separated-values;charset=utf-8;' },
+    yaml: { extension: 'yaml', mimeType: 'text/yaml;charset=utf-8;' },
+    xml: { extension: 'xml', mimeType: 'text/xml;charset=utf-8;' },
+    md: { extension: 'md', mimeType: 'text/markdown;charset=utf-8;' }
+};
+
+export const EXPORT_FORMATS = Object.keys(EXPORT_FILE_TYPES) as ExportFormat[];
+
+/**
+ * Render models in an export format without downloading them. Used by the
+ * headless CLI, which writes the result to a file or stdout.
+ *
+ * @param models - The models to render
+ * @param format - The format to render to
+ * @param includeProvenance - Whether to include per-field provenance
+ * @returns File content
+ */
+export function formatModels(models: Model[], format: ExportFormat, includeProvenance = false): string {
+    switch (format) {
+        case 'json':
+            return toJSON(models, includeProvenance);
+        case 'csv':
+            return toCSVExport(models, includeProvenance);
+        case 'tsv':
+            return toTSV(models, includeProvenance);
+        case 'yaml':
+            return toYAML(models, includeProvenance);
+        case 'xml':
+            return toXML(models, includeProvenance);
+        case 'md':
+            return toMarkdown(models, includeProvenance);
+        default:
+            throw new Error(`Unsupported export format: ${format}`);
+    }
 }
 
 /**
@@ -34,7 +78,7 @@ export interface ExportOptions {
  * @throws Error if export fails
  */
 export function exportModels(options: ExportOptions): void {
-    const { format, models, filename } = options;
+    const { format, models, filename, includeProvenance = false } = options;
 
     try {
         // Generate human-readable timestamp: YYYY-MM-DD_HH-MM
@@ -50,28 +94,9 @@ export function exportModels(options: ExportOptions): void {
 
         const baseFilename = filename || `ai-models-export_${timestamp}`;
 
-        switch (format) {
-            case 'json':
-                exportJSON(models, baseFilename);
-                break;
-            case 'csv':
-                exportCSV(models, baseFilename);
-                break;
-            case 'tsv':
-                exportTSV(models, baseFilename);
-                break;
-            case 'yaml':
-                exportYAML(models, baseFilename);
-                break;
-            case 'xml':
-                exportXML(models, baseFilename);
-                break;
-            case 'md':
-                exportMarkdown(models, baseFilename);
-                break;
-            default:
-                throw new Error(`Unsupported export format: ${format}`);
-        }
+        const { extension, mimeType } = EXPORT_FILE_TYPES[format] || {};
+        if (!extension) throw new Error(`Unsupported export format: ${format}`);
+        downloadFile(formatModels(models, format, includeProvenance), `${baseFilename}.${extension}`, mimeType);
     } catch (error) {
         console.error(`Failed to export models as ${format}:`, error);
         throw new Error(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -79,23 +104,49 @@ export function exportModels(options: ExportOptions): void {
 }
 
 /**
- * Export models as JSON format.
+ * Export a snapshot diff as a changelog file.
+ *
+ * @param diff - Result of diffSnapshots
+ * @param format - 'json' for machine-readable output, 'md' for a readable report
+ */
+export function exportChangelog(diff: SnapshotDiff, format: 'json' | 'md'): void {
+    const date = diff.generated_at.slice(0, 10);
+    if (format === 'json') {
+        downloadFile(changelogToJSON(diff), `ai-models-changelog_${date}.json`, 'application/json');
+    } else {
+        downloadFile(changelogToMarkdown(diff), `ai-models-changelog_${date}.md`, 'text/markdown;charset=utf-8;');
+    }
+}
+
+/**
+ * Export a recorded sync cassette so it can be replayed or attached to a bug report.
+ *
+ * @param cassette - Cassette returned by the recording session
+ */
+export function exportCassette(cassette: Cassette): void {
+    const stamp = cassette.recorded_at.slice(0, 19).replace(/[:T]/g, '-');
+    downloadFile(JSON.stringify(cassette, null, 2), `ai-models-cassette_${stamp}.json`, 'application/json');
+}
+
+/**
+ * Render models as JSON format.
  * 
  * @param models - Array of models to export
- * @param filename - Base filename (without extension)
+ * @param includeProvenance - Whether to include per-field provenance
+ * @returns File content
  */
-function exportJSON(models: Model[], filename: string): void {
-    const content = JSON.stringify(models, null, 2);
-    downloadFile(content, `${filename}.json`, 'application/json');
+function toJSON(models: Model[], includeProvenance: boolean): string {
+    return JSON.stringify(includeProvenance ? models : models.map(stripProvenance), null, 2);
 }
 
 /**
- * Export models as CSV (Comma-Separated Values) format.
+ * Render models as CSV (Comma-Separated Values) format.
  * 
  * @param models - Array of models to export
- * @param filename - Base filename (without extension)
+ * @param includeProvenance - Whether to include per-field provenance
+ * @returns File content
  */
-function exportCSV(models: Model[], filename: string): void {
+function toCSVExport(models: Model[], includeProvenance: boolean): string {
     const rows = models.map(m => ({
         name: m.name,
         provider: m.provider,
@@ -113,20 +164,21 @@ function exportCSV(models: Model[], filename: string): void {
         downloads: m.downloads,
         pricing: (m.pricing || []).map(p =>
             `${p.model || ''}:${p.unit || ''}:${p.input || ''}/${p.output || ''}:${p.flat || ''}${p.currency ? ' ' + p.currency : ''}`
-        ).join(' | ')
+        ).join(' | '),
+        ...(includeProvenance ? { provenance: formatProvenance(m) } : {})
     }));
 
-    const content = toCSV(rows);
-    downloadFile(content, `${filename}.csv`, 'text/csv;charset=utf-8;');
+    return toCSV(rows);
 }
 
 /**
- * Export models as TSV (Tab-Separated Values) format.
+ * Render models as TSV (Tab-Separated Values) format.
  * 
  * @param models - Array of models to export
- * @param filename - Base filename (without extension)
+ * @param includeProvenance - Whether to include per-field provenance
+ * @returns File content
  */
-function exportTSV(models: Model[], filename: string): void {
+function toTSV(models: Model[], includeProvenance: boolean): string {
     const rows = models.map(m => ({
         name: m.name,
         provider: m.provider,
@@ -144,7 +196,8 @@ function exportTSV(models: Model[], filename: string): void {
         downloads: m.downloads,
         pricing: (m.pricing || []).map(p =>
             `${p.model || ''}:${p.unit || ''}:${p.input || ''}/${p.output || ''}:${p.flat || ''}${p.currency ? ' ' + p.currency : ''}`
-        ).join(' | ')
+        ).join(' | '),
+        ...(includeProvenance ? { provenance: formatProvenance(m) } : {})
     }));
 
     // Convert to TSV (tab-separated values)
@@ -154,16 +207,17 @@ function exportTSV(models: Model[], filename: string): void {
         ...rows.map(row => headers.map(h => String(row[h as keyof typeof row] || '')).join('\t'))
     ].join('\n');
 
-    downloadFile(tsvContent, `${filename}.tsv`, 'text/tab-separated-values;charset=utf-8;');
+    return tsvContent;
 }
 
 /**
- * Export models as YAML format.
+ * Render models as YAML format.
  * 
  * @param models - Array of models to export
- * @param filename - Base filename (without extension)
+ * @param includeProvenance - Whether to include per-field provenance
+ * @returns File content
  */
-function exportYAML(models: Model[], filename: string): void {
+function toYAML(models: Model[], includeProvenance: boolean): string {
     const yamlContent = models.map(model => {
         const yamlModel = [
             `- name: "${model.name}"`,
@@ -182,20 +236,32 @@ function exportYAML(models: Model[], filename: string): void {
             `  downloads: ${model.downloads || 0}`,
             `  tags: [${(model.tags || []).map(t => `"${t}"`).join(', ')}]`,
             `  pricing: [${(model.pricing || []).map(p => `"${p.model || ''}:${p.unit || ''}:${p.input || ''}/${p.output || ''}:${p.flat || ''}${p.currency ? ' ' + p.currency : ''}"`).join(', ')}]`
-        ].join('\n');
-        return yamlModel;
+        ];
+        if (includeProvenance && model.provenance) {
+            yamlModel.push(`  provenance:`);
+            Object.entries(model.provenance).forEach(([field, entry]) => {
+                yamlModel.push(
+                    `    ${field}:`,
+                    `      source: "${entry.source}"`,
+                    `      kind: "${entry.kind}"`,
+                    `      fetched_at: "${entry.fetched_at}"`
+                );
+            });
+        }
+        return yamlModel.join('\n');
     }).join('\n\n');
 
-    downloadFile(yamlContent, `${filename}.yaml`, 'text/yaml;charset=utf-8;');
+    return yamlContent;
 }
 
 /**
- * Export models as XML format.
+ * Render models as XML format.
  * 
  * @param models - Array of models to export
- * @param filename - Base filename (without extension)
+ * @param includeProvenance - Whether to include per-field provenance
+ * @returns File content
  */
-function exportXML(models: Model[], filename: string): void {
+function toXML(models: Model[], includeProvenance: boolean): string {
     const xmlContent = [
         '<?xml version="1.0" encoding="UTF-8"?>',
         '<models>',
@@ -224,22 +290,31 @@ function exportXML(models: Model[], filename: string): void {
                 `      <price model="${escapeXML(p.model || '')}" unit="${escapeXML(p.unit || '')}" input="${escapeXML(String(p.input || ''))}" output="${escapeXML(String(p.output || ''))}" flat="${escapeXML(String(p.flat || ''))}" currency="${escapeXML(p.currency || '')}"/>`
             ),
             '    </pricing>',
+            ...(includeProvenance && model.provenance ? [
+                '    <provenance>',
+                ...Object.entries(model.provenance).map(([field, entry]) =>
+                    `      <field name="${escapeXML(field)}" source="${escapeXML(entry.source)}" kind="${escapeXML(entry.kind)}" fetched_at="${escapeXML(entry.fetched_at)}"/>`
+                ),
+                '    </provenance>'
+            ] : []),
             '  </model>'
         ].join('\n')),
         '</models>'
     ].join('\n');
 
-    downloadFile(xmlContent, `${filename}.xml`, 'text/xml;charset=utf-8;');
+    return xmlContent;
 }
 
 /**
- * Export models as Markdown table format.
+ * Render models as Markdown table format.
  * 
  * @param models - Array of models to export
- * @param filename - Base filename (without extension)
+ * @param includeProvenance - Whether to include per-field provenance
+ * @returns File content
  */
-function exportMarkdown(models: Model[], filename: string): void {
+function toMarkdown(models: Model[], includeProvenance: boolean): string {
     const headers = ['Name', 'Provider', 'Domain', 'License', 'Downloads', 'Updated'];
+    if (includeProvenance) headers.push('License Source');
     const separator = headers.map(() => '---').join(' | ');
     const rows = models.map(m => [
         m.name || '',
@@ -247,7 +322,8 @@ function exportMarkdown(models: Model[], filename: string): void {
         m.domain || '',
         m.license?.name || '',
         (m.downloads || 0).toLocaleString(),
-        m.updated_at ? new Date(m.updated_at).toLocaleDateString() : ''
+        m.updated_at ? new Date(m.updated_at).toLocaleDateString() : '',
+        ...(includeProvenance ? [m.provenance?.license ? formatProvenanceEntry(m.provenance.license) : ''] : [])
     ].join(' | '));
 
     const mdContent = [
@@ -258,7 +334,7 @@ function exportMarkdown(models: Model[], filename: string): void {
         ...rows
     ].join('\n');
 
-    downloadFile(mdContent, `${filename}.md`, 'text/markdown;charset=utf-8;');
+    return mdContent;
 }
 
 /**
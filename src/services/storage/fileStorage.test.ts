@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+    configureFileStorage, deleteSnapshots, listSnapshots, loadMetadata, loadModels,
+    loadSnapshotPayload, putSnapshots, saveMetadata, upsertModel
+} from './fileStorage';
+import { Model } from '../../types';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'file-storage-'));
+let dir: string;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(root, 'store-'));
+    configureFileStorage(dir);
+});
+
+afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('fileStorage', () => {
+    it('serializes concurrent writes', async () => {
+        await Promise.all([
+            ...['a', 'b', 'c'].map(id => upsertModel({ id, name: id } as Model)),
+            saveMetadata('lastSync', 'now'),
+            saveMetadata('other', 'value')
+        ]);
+        expect((await loadModels()).map(m => m.id)).toEqual(['a', 'b', 'c']);
+        expect(await loadMetadata('lastSync')).toBe('now');
+        expect(await loadMetadata('other')).toBe('value');
+        expect(fs.readdirSync(dir).filter(f => f.endsWith('.tmp'))).toEqual([]);
+    });
+
+    it('stores snapshot headers and payloads separately', async () => {
+        const header = { id: 'snap/1', timestamp: 1, description: 'd', modelCount: 1, sizeBytes: 10, storedBytes: 10, pinned: false, baseId: null };
+        await putSnapshots([header], [{ id: 'snap/1', full: [{ id: 'a', name: 'a' } as Model] }]);
+        expect(await listSnapshots()).toEqual([header]);
+        expect((await loadSnapshotPayload('snap/1'))?.full).toHaveLength(1);
+
+        await deleteSnapshots(['snap/1']);
+        expect(await listSnapshots()).toEqual([]);
+        expect(await loadSnapshotPayload('snap/1')).toBeNull();
+    });
+});
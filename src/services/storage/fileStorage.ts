@@ -0,0 +1,221 @@
+/**
+ * File Storage Service
+ *
+ * Node counterpart of indexedDBStorage with the same exports, used by the
+ * headless build (REST API server and CLI). Everything lives as JSON under
+ * one directory:
+ * - models.json: the model list
+ * - metadata.json: key/value metadata (last sync, watermarks, quarantine...)
+ * - snapshots.json plus snapshot-data/<id>.json: sync history
+ *
+ * Writes go to a temp file that is renamed over the target, and are
+ * serialized so concurrent saves cannot interleave.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Model } from '../../types';
+import { loggers } from '../../utils/logger';
+import type { SnapshotPayload, SnapshotRecord } from './indexedDBStorage';
+
+export type { SnapshotRecord, SnapshotPayload } from './indexedDBStorage';
+
+const logger = loggers.storage;
+
+const MODELS_FILE = 'models.json';
+const METADATA_FILE = 'metadata.json';
+const SNAPSHOTS_FILE = 'snapshots.json';
+const SNAPSHOT_DATA_DIR = 'snapshot-data';
+
+interface StorageMetadata {
+    value: string;
+    updatedAt: string;
+}
+
+let storageDir = path.resolve(process.env.MODEL_DB_DIR || 'model-db-data');
+let pending: Promise<unknown> = Promise.resolve();
+
+/**
+ * Point the store at a directory (created on first write)
+ */
+export function configureFileStorage(dir: string): void {
+    storageDir = path.resolve(dir);
+}
+
+export function getFileStorageDir(): string {
+    return storageDir;
+}
+
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = pending.then(task, task);
+    pending = run.catch(() => undefined);
+    return run;
+};
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+    try {
+        return JSON.parse(await fs.readFile(path.join(storageDir, file), 'utf8')) as T;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+        throw error;
+    }
+}
+
+async function writeJson(file: string, data: unknown): Promise<void> {
+    const target = path.join(storageDir, file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(data));
+    await fs.rename(temp, target);
+}
+
+const snapshotFile = (id: string) => path.join(SNAPSHOT_DATA_DIR, `${encodeURIComponent(id)}.json`);
+
+/**
+ * Kept for parity with the IndexedDB backend; there is no IndexedDB here
+ */
+export async function isIndexedDBAvailable(): Promise<boolean> {
+    return false;
+}
+
+/**
+ * Replace the stored model list
+ */
+export function saveModels(models: Model[]): Promise<void> {
+    return serialized(async () => {
+        await writeJson(MODELS_FILE, models);
+        logger.debug(`Saved ${models.length} models to ${storageDir}`);
+    });
+}
+
+/**
+ * Load all models
+ */
+export async function loadModels(): Promise<Model[]> {
+    await pending;
+    return readJson<Model[]>(MODELS_FILE, []);
+}
+
+/**
+ * Add or update a single model
+ */
+export function upsertModel(model: Model): Promise<void> {
+    return serialized(async () => {
+        const models = await readJson<Model[]>(MODELS_FILE, []);
+        const index = models.findIndex(m => m.id === model.id);
+        if (index >= 0) models[index] = model;
+        else models.push(model);
+        await writeJson(MODELS_FILE, models);
+    });
+}
+
+/**
+ * Delete a model by ID
+ */
+export function deleteModel(id: string): Promise<void> {
+    return serialized(async () => {
+        const models = await readJson<Model[]>(MODELS_FILE, []);
+        await writeJson(MODELS_FILE, models.filter(m => m.id !== id));
+    });
+}
+
+/**
+ * Clear all models
+ */
+export function clearModels(): Promise<void> {
+    return serialized(() => writeJson(MODELS_FILE, []));
+}
+
+/**
+ * Get the count of stored models
+ */
+export async function getModelCount(): Promise<number> {
+    return (await loadModels()).length;
+}
+
+/**
+ * Save metadata (like lastSync timestamp)
+ */
+export function saveMetadata(key: string, value: string): Promise<void> {
+    return serialized(async () => {
+        const metadata = await readJson<Record<string, StorageMetadata>>(METADATA_FILE, {});
+        metadata[key] = { value, updatedAt: new Date().toISOString() };
+        await writeJson(METADATA_FILE, metadata);
+    });
+}
+
+/**
+ * Load metadata by key
+ */
+export async function loadMetadata(key: string): Promise<string | null> {
+    await pending;
+    const metadata = await readJson<Record<string, StorageMetadata>>(METADATA_FILE, {});
+    return metadata[key]?.value ?? null;
+}
+
+/**
+ * Clear all metadata
+ */
+export function clearMetadata(): Promise<void> {
+    return serialized(() => writeJson(METADATA_FILE, {}));
+}
+
+/**
+ * List all sync history snapshot headers
+ */
+export async function listSnapshots(): Promise<SnapshotRecord[]> {
+    await pending;
+    return readJson<SnapshotRecord[]>(SNAPSHOTS_FILE, []);
+}
+
+/**
+ * Write snapshot headers and, optionally, their payloads
+ */
+export function putSnapshots(records: SnapshotRecord[], payloads: SnapshotPayload[] = []): Promise<void> {
+    return serialized(async () => {
+        for (const payload of payloads) await writeJson(snapshotFile(payload.id), payload);
+        const headers = await readJson<SnapshotRecord[]>(SNAPSHOTS_FILE, []);
+        const byId = new Map(headers.map(h => [h.id, h]));
+        records.forEach(record => byId.set(record.id, record));
+        await writeJson(SNAPSHOTS_FILE, [...byId.values()]);
+    });
+}
+
+/**
+ * Load a snapshot payload by ID
+ */
+export async function loadSnapshotPayload(id: string): Promise<SnapshotPayload | null> {
+    await pending;
+    return readJson<SnapshotPayload | null>(snapshotFile(id), null);
+}
+
+/**
+ * Delete snapshot headers and payloads by ID
+ */
+export function deleteSnapshots(ids: string[]): Promise<void> {
+    return serialized(async () => {
+        const remove = new Set(ids);
+        const headers = await readJson<SnapshotRecord[]>(SNAPSHOTS_FILE, []);
+        await writeJson(SNAPSHOTS_FILE, headers.filter(h => !remove.has(h.id)));
+        await Promise.all(ids.map(id => fs.rm(path.join(storageDir, snapshotFile(id)), { force: true })));
+    });
+}
+
+/**
+ * Nothing to migrate outside the browser
+ */
+export async function migrateFromLocalStorage(): Promise<{ success: boolean; modelCount: number }> {
+    return { success: true, modelCount: await getModelCount() };
+}
+
+/**
+ * Delete every stored file (for hard reset)
+ */
+export function deleteDatabase(): Promise<void> {
+    return serialized(async () => {
+        await Promise.all([MODELS_FILE, METADATA_FILE, SNAPSHOTS_FILE, SNAPSHOT_DATA_DIR].map(file =>
+            fs.rm(path.join(storageDir, file), { recursive: true, force: true })
+        ));
+        logger.info('File storage cleared');
+    });
+}
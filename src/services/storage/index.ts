@@ -16,6 +16,22 @@ export {
     saveMetadata,
     loadMetadata,
     clearMetadata,
+    listSnapshots,
+    putSnapshots,
+    loadSnapshotPayload,
+    deleteSnapshots,
     migrateFromLocalStorage,
     deleteDatabase
 } from './indexedDBStorage';
+
+export type { SnapshotRecord, SnapshotPayload } from './indexedDBStorage';
+
+export {
+    saveHistorySnapshot,
+    loadHistorySnapshot,
+    deleteHistorySnapshot,
+    clearHistorySnapshots,
+    setSnapshotPinned,
+    pruneHistorySnapshots,
+    migrateLegacySnapshots
+} from './snapshotHistory';
@@ -12,14 +12,17 @@
  */
 
 import { Model } from '../../types';
+import { ModelDelta } from '../../utils/snapshotDelta';
 import { loggers } from '../../utils/logger';
 
 const logger = loggers.storage;
 
 const DB_NAME = 'aiModelDB';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const MODELS_STORE = 'models';
 const METADATA_STORE = 'metadata';
+const SNAPSHOTS_STORE = 'snapshots';
+const SNAPSHOT_DATA_STORE = 'snapshotData';
 
 interface StorageMetadata {
     key: string;
@@ -27,6 +30,32 @@ interface StorageMetadata {
     updatedAt: string;
 }
 
+/**
+ * Sync history snapshot header, listed without loading the payload
+ */
+export interface SnapshotRecord {
+    id: string;
+    timestamp: number;
+    description: string;
+    modelCount: number;
+    /** Size of the snapshot as plain JSON */
+    sizeBytes: number;
+    /** Size actually stored (full or delta payload) */
+    storedBytes: number;
+    pinned: boolean;
+    /** Snapshot the delta applies to; null for a full snapshot */
+    baseId: string | null;
+}
+
+/**
+ * Snapshot payload: either the full model list or a delta against `baseId`
+ */
+export interface SnapshotPayload {
+    id: string;
+    full?: Model[];
+    delta?: ModelDelta;
+}
+
 let dbInstance: IDBDatabase | null = null;
 
 /**
@@ -72,6 +101,13 @@ async function openDatabase(): Promise<IDBDatabase> {
                 db.createObjectStore(METADATA_STORE, { keyPath: 'key' });
                 logger.debug('Metadata store created');
             }
+
+            // Sync history: headers and payloads are kept apart so listing stays cheap
+            if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+                db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+                db.createObjectStore(SNAPSHOT_DATA_STORE, { keyPath: 'id' });
+                logger.debug('Snapshot stores created');
+            }
         };
     });
 }
@@ -307,6 +343,97 @@ export async function clearMetadata(): Promise<void> {
     });
 }
 
+/**
+ * List all sync history snapshot headers
+ */
+export async function listSnapshots(): Promise<SnapshotRecord[]> {
+    const db = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SNAPSHOTS_STORE], 'readonly');
+        const request = transaction.objectStore(SNAPSHOTS_STORE).getAll();
+
+        request.onerror = () => {
+            reject(request.error);
+        };
+
+        request.onsuccess = () => {
+            resolve(request.result as SnapshotRecord[]);
+        };
+    });
+}
+
+/**
+ * Write snapshot headers and, optionally, their payloads in one transaction
+ */
+export async function putSnapshots(records: SnapshotRecord[], payloads: SnapshotPayload[] = []): Promise<void> {
+    const db = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite');
+
+        transaction.onerror = () => {
+            logger.error('Failed to save snapshots:', transaction.error);
+            reject(transaction.error);
+        };
+
+        transaction.oncomplete = () => {
+            resolve();
+        };
+
+        const headers = transaction.objectStore(SNAPSHOTS_STORE);
+        const data = transaction.objectStore(SNAPSHOT_DATA_STORE);
+        records.forEach(record => headers.put(record));
+        payloads.forEach(payload => data.put(payload));
+    });
+}
+
+/**
+ * Load a snapshot payload by ID
+ */
+export async function loadSnapshotPayload(id: string): Promise<SnapshotPayload | null> {
+    const db = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SNAPSHOT_DATA_STORE], 'readonly');
+        const request = transaction.objectStore(SNAPSHOT_DATA_STORE).get(id);
+
+        request.onerror = () => {
+            reject(request.error);
+        };
+
+        request.onsuccess = () => {
+            resolve((request.result as SnapshotPayload | undefined) ?? null);
+        };
+    });
+}
+
+/**
+ * Delete snapshot headers and payloads by ID
+ */
+export async function deleteSnapshots(ids: string[]): Promise<void> {
+    const db = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_DATA_STORE], 'readwrite');
+
+        transaction.onerror = () => {
+            reject(transaction.error);
+        };
+
+        transaction.oncomplete = () => {
+            resolve();
+        };
+
+        const headers = transaction.objectStore(SNAPSHOTS_STORE);
+        const data = transaction.objectStore(SNAPSHOT_DATA_STORE);
+        ids.forEach(id => {
+            headers.delete(id);
+            data.delete(id);
+        });
+    });
+}
+
 /**
  * Migrate data from localStorage to IndexedDB
  * This is a one-time operation for existing users
@@ -0,0 +1,236 @@
+/**
+ * Sync History Snapshots
+ *
+ * Stores database snapshots in IndexedDB as reverse deltas: the newest
+ * snapshot is kept in full and every older snapshot is stored as the delta
+ * that turns the next newer snapshot back into it. Saving a snapshot only
+ * rewrites the previous head; restoring walks the chain from the head.
+ */
+
+import { Model, SnapshotRetention } from '../../types';
+import { applyModelDelta, createModelDelta, selectSnapshotsToPrune } from '../../utils/snapshotDelta';
+import { loggers } from '../../utils/logger';
+import {
+    SnapshotPayload,
+    SnapshotRecord,
+    deleteSnapshots,
+    listSnapshots,
+    loadSnapshotPayload,
+    putSnapshots
+} from './indexedDBStorage';
+
+const logger = loggers.storage;
+
+const LEGACY_KEY_PREFIX = 'aiModelDB_history_';
+const LEGACY_INDEX_KEY = 'aiModelDB_history_index';
+
+const byteSize = (value: unknown): number => new Blob([JSON.stringify(value)]).size;
+
+// Writes are serialized so a pre-sync snapshot and a manual one cannot rewrite the same head
+let queue: Promise<unknown> = Promise.resolve();
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+};
+
+async function materialize(id: string, records: Map<string, SnapshotRecord>): Promise<Model[] | null> {
+    // Collect payloads from the requested snapshot up to the full head
+    const chain: SnapshotPayload[] = [];
+    let currentId: string | null = id;
+    while (currentId) {
+        const payload = await loadSnapshotPayload(currentId);
+        if (!payload) return null;
+        chain.push(payload);
+        if (payload.full) break;
+        currentId = records.get(currentId)?.baseId ?? null;
+    }
+
+    const head = chain.pop();
+    if (!head?.full) return null;
+    let models = head.full;
+    for (let i = chain.length - 1; i >= 0; i--) {
+        const delta = chain[i].delta;
+        if (!delta) return null;
+        models = applyModelDelta(models, delta);
+    }
+    return models;
+}
+
+const recordMap = (records: SnapshotRecord[]) => new Map(records.map(r => [r.id, r]));
+
+/**
+ * Load the models of a snapshot
+ */
+export async function loadHistorySnapshot(id: string): Promise<Model[] | null> {
+    return materialize(id, recordMap(await listSnapshots()));
+}
+
+async function removeSnapshot(id: string, records: Map<string, SnapshotRecord>): Promise<void> {
+    const target = records.get(id);
+    if (!target) return;
+
+    // Snapshots stored as a delta against this one are rebased onto its base
+    const updates: SnapshotRecord[] = [];
+    const payloads: SnapshotPayload[] = [];
+    const newBase = target.baseId ? await materialize(target.baseId, records) : null;
+    for (const dependent of Array.from(records.values()).filter(r => r.baseId === id)) {
+        const models = await materialize(dependent.id, records);
+        if (!models) continue;
+        const payload: SnapshotPayload = newBase
+            ? { id: dependent.id, delta: createModelDelta(newBase, models) }
+            : { id: dependent.id, full: models };
+        const updated = { ...dependent, baseId: target.baseId, storedBytes: byteSize(payload) };
+        updates.push(updated);
+        payloads.push(payload);
+        records.set(dependent.id, updated);
+    }
+
+    if (updates.length > 0) await putSnapshots(updates, payloads);
+    await deleteSnapshots([id]);
+    records.delete(id);
+}
+
+/**
+ * Delete a snapshot, rebasing any snapshot stored relative to it
+ */
+export function deleteHistorySnapshot(id: string): Promise<SnapshotRecord[]> {
+    return serialized(async () => {
+        const records = recordMap(await listSnapshots());
+        await removeSnapshot(id, records);
+        return Array.from(records.values());
+    });
+}
+
+async function prune(records: Map<string, SnapshotRecord>, retention: SnapshotRetention): Promise<void> {
+    const doomed = selectSnapshotsToPrune(Array.from(records.values()), retention);
+    for (const id of doomed) {
+        await removeSnapshot(id, records);
+    }
+    if (doomed.length > 0) logger.debug(`Pruned ${doomed.length} history snapshots`);
+}
+
+/**
+ * Apply the retention policy to stored snapshots
+ */
+export function pruneHistorySnapshots(retention: SnapshotRetention): Promise<SnapshotRecord[]> {
+    return serialized(async () => {
+        const records = recordMap(await listSnapshots());
+        await prune(records, retention);
+        return Array.from(records.values());
+    });
+}
+
+async function writeSnapshot(
+    models: Model[],
+    description: string,
+    timestamp: number,
+    records: Map<string, SnapshotRecord>
+): Promise<void> {
+    const id = crypto.randomUUID();
+    const sizeBytes = byteSize(models);
+    const record: SnapshotRecord = {
+        id,
+        timestamp,
+        description,
+        modelCount: models.length,
+        sizeBytes,
+        storedBytes: sizeBytes,
+        pinned: false,
+        baseId: null
+    };
+    const payload: SnapshotPayload = { id, full: models };
+
+    // The previous head becomes a delta against the new snapshot
+    const updates: SnapshotRecord[] = [record];
+    const payloads: SnapshotPayload[] = [payload];
+    const head = Array.from(records.values()).find(r => r.baseId === null);
+    if (head) {
+        const headModels = await materialize(head.id, records);
+        if (headModels) {
+            const headPayload: SnapshotPayload = { id: head.id, delta: createModelDelta(models, headModels) };
+            const updatedHead = { ...head, baseId: id, storedBytes: byteSize(headPayload) };
+            updates.push(updatedHead);
+            payloads.push(headPayload);
+            records.set(head.id, updatedHead);
+        }
+    }
+
+    await putSnapshots(updates, payloads);
+    records.set(id, record);
+}
+
+/**
+ * Save a new snapshot of the database and apply the retention policy
+ */
+export function saveHistorySnapshot(
+    models: Model[],
+    description: string,
+    retention: SnapshotRetention
+): Promise<SnapshotRecord[]> {
+    return serialized(async () => {
+        const records = recordMap(await listSnapshots());
+        await writeSnapshot(models, description, Date.now(), records);
+        await prune(records, retention);
+        return Array.from(records.values());
+    });
+}
+
+/**
+ * Pin or unpin a snapshot. Pinned snapshots are exempt from retention.
+ */
+export function setSnapshotPinned(id: string, pinned: boolean): Promise<SnapshotRecord[]> {
+    return serialized(async () => {
+        const records = recordMap(await listSnapshots());
+        const target = records.get(id);
+        if (target) {
+            const updated = { ...target, pinned };
+            await putSnapshots([updated]);
+            records.set(id, updated);
+        }
+        return Array.from(records.values());
+    });
+}
+
+/**
+ * Delete every snapshot, pinned ones included
+ */
+export function clearHistorySnapshots(): Promise<void> {
+    return serialized(async () => {
+        const records = await listSnapshots();
+        await deleteSnapshots(records.map(r => r.id));
+    });
+}
+
+/**
+ * Move snapshots written by older versions (full JSON in localStorage) into
+ * IndexedDB, oldest first so the delta chain is built in order.
+ */
+export function migrateLegacySnapshots(): Promise<number> {
+    return serialized(async () => {
+        const rawIndex = localStorage.getItem(LEGACY_INDEX_KEY);
+        if (!rawIndex) return 0;
+
+        let migrated = 0;
+        try {
+            const legacy = JSON.parse(rawIndex) as { id: string; timestamp: number; description: string }[];
+            const records = recordMap(await listSnapshots());
+            for (const item of [...legacy].sort((a, b) => a.timestamp - b.timestamp)) {
+                const raw = localStorage.getItem(`${LEGACY_KEY_PREFIX}${item.id}`);
+                if (!raw) continue;
+                await writeSnapshot(JSON.parse(raw), item.description, item.timestamp, records);
+                migrated++;
+            }
+        } catch (error) {
+            logger.error('Failed to migrate legacy history snapshots:', error);
+            return migrated;
+        }
+
+        for (const item of JSON.parse(rawIndex) as { id: string }[]) {
+            localStorage.removeItem(`${LEGACY_KEY_PREFIX}${item.id}`);
+        }
+        localStorage.removeItem(LEGACY_INDEX_KEY);
+        logger.info(`Migrated ${migrated} history snapshots to IndexedDB`);
+        return migrated;
+    });
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../utils/fetch-wrapper', () => ({ fetchWrapper: vi.fn() }));
+
+import { fetchCustomSource, mapCustomRecord, validateCustomSource, createCustomSourceId } from './CustomSources';
+import { fetchWrapper } from '../../utils/fetch-wrapper';
+import { CustomSourceConfig } from '../../types';
+
+const config = (overrides: Partial<CustomSourceConfig> = {}): CustomSourceConfig => ({
+    id: 'acme',
+    name: 'ACME Registry',
+    enabled: true,
+    url: 'https://registry.acme.internal/api/models',
+    itemsPath: '$.data',
+    pagination: { style: 'none' },
+    mapping: {
+        id: '$.slug',
+        name: '$.title',
+        domain: '$.task',
+        license: '$.meta.license',
+        tags: '$.labels[*]'
+    },
+    domainMap: { 'text-generation': 'LLM' },
+    licenseMap: { 'internal-use': 'Proprietary' },
+    ...overrides
+});
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+describe('mapCustomRecord', () => {
+    it('should map fields through JSONPath and apply transforms', () => {
+        const model = mapCustomRecord({
+            slug: 'llm-7b',
+            title: 'ACME LLM 7B',
+            task: 'Text-Generation',
+            meta: { license: 'internal-use' },
+            labels: ['chat', 'internal']
+        }, config(), 0);
+
+        expect(model).toMatchObject({
+            id: 'acme:llm-7b',
+            name: 'ACME LLM 7B',
+            domain: 'LLM',
+            source: 'ACME Registry',
+            license: { name: 'Proprietary', type: 'Proprietary' },
+            tags: ['chat', 'internal']
+        });
+    });
+
+    it('should normalize unmapped licenses and skip records without identity', () => {
+        expect(mapCustomRecord({ slug: 'x', meta: { license: 'apache 2.0' } }, config(), 0)?.license.name).toBe('Apache-2.0');
+        expect(mapCustomRecord({ task: 'text-generation' }, config(), 0)).toBeNull();
+    });
+});
+
+describe('validateCustomSource', () => {
+    it('should report invalid URLs, paths and incomplete pagination', () => {
+        const errors = validateCustomSource(config({
+            url: 'ftp://example.com',
+            itemsPath: '$.data[x]',
+            pagination: { style: 'cursor', param: 'cursor' }
+        }));
+        expect(errors).toHaveLength(3);
+        expect(errors[0]).toBe('url: must be http(s)');
+        expect(errors[1]).toMatch(/^itemsPath: Invalid JSONPath/);
+        expect(errors[2]).toBe('pagination.cursorPath: required for cursor pagination');
+    });
+});
+
+describe('fetchCustomSource', () => {
+    beforeEach(() => {
+        vi.mocked(fetchWrapper).mockReset();
+    });
+
+    it('should page by number until a short page', async () => {
+        vi.mocked(fetchWrapper)
+            .mockResolvedValueOnce(json({ data: [{ slug: 'a', title: 'A' }, { slug: 'b', title: 'B' }] }))
+            .mockResolvedValueOnce(json({ data: [{ slug: 'c', title: 'C' }] }));
+
+        const result = await fetchCustomSource(config({
+            pagination: { style: 'page', param: 'page', sizeParam: 'limit', pageSize: 2 },
+            auth: { header: 'X-Api-Key', value: 'secret' }
+        }));
+
+        expect(result.pages).toBe(2);
+        expect(result.models.map(m => m.id)).toEqual(['acme:a', 'acme:b', 'acme:c']);
+        const [firstUrl, firstInit] = vi.mocked(fetchWrapper).mock.calls[0];
+        expect(firstUrl).toBe('https://registry.acme.internal/api/models?limit=2&page=1');
+        expect((firstInit?.headers as Record<string, string>)['X-Api-Key']).toBe('secret');
+        expect(vi.mocked(fetchWrapper).mock.calls[1][0]).toContain('page=2');
+    });
+
+    it('should follow cursors, including absolute next URLs', async () => {
+        vi.mocked(fetchWrapper)
+            .mockResolvedValueOnce(json({ data: [{ slug: 'a', title: 'A' }], next: 'abc' }))
+            .mockResolvedValueOnce(json({ data: [{ slug: 'b', title: 'B' }], next: 'https://registry.acme.internal/api/models?after=b' }))
+            .mockResolvedValueOnce(json({ data: [], next: null }));
+
+        const result = await fetchCustomSource(config({
+            pagination: { style: 'cursor', param: 'cursor', cursorPath: '$.next' }
+        }));
+
+        expect(result.models).toHaveLength(2);
+        const urls = vi.mocked(fetchWrapper).mock.calls.map(c => c[0]);
+        expect(urls[1]).toBe('https://registry.acme.internal/api/models?cursor=abc');
+        expect(urls[2]).toBe('https://registry.acme.internal/api/models?after=b');
+    });
+
+    it('should refuse cursor URLs on other hosts', async () => {
+        vi.mocked(fetchWrapper).mockResolvedValueOnce(json({ data: [{ slug: 'a', title: 'A' }], next: 'https://elsewhere.example.com/x' }));
+
+        await expect(fetchCustomSource(config({
+            pagination: { style: 'cursor', param: 'cursor', cursorPath: '$.next' }
+        }))).rejects.toThrow(/not allowed/);
+    });
+});
+
+describe('createCustomSourceId', () => {
+    it('should slugify and avoid collisions', () => {
+        expect(createCustomSourceId('ACME Registry!', [])).toBe('acme-registry');
+        expect(createCustomSourceId('ACME Registry', [config({ id: 'acme-registry' })])).toBe('acme-registry-2');
+    });
+});
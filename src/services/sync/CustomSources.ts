@@ -0,0 +1,239 @@
+/**
+ * Custom Sources
+ *
+ * Fetchers defined entirely by configuration: a JSON/REST endpoint, a
+ * pagination style, an optional auth header and a JSONPath mapping from each
+ * record to model fields. Mapped rows go through the same normalization as
+ * imports (`toNormalizedModel`). Requests use the host-restricted path shared
+ * with fetcher plugins, so they are limited to the configured URL's host.
+ */
+
+import { CustomSourceConfig, CustomSourceField, Model } from "../../types";
+import { Fetcher } from "./SyncTypes";
+import { FetcherRegistry } from "./FetcherRegistry";
+import { pluginHttpRequest } from "./PluginSandbox";
+import { parseJsonPath, queryJsonPath, queryJsonPathFirst } from "../../utils/jsonPath";
+import { toNormalizedModel } from "../../utils/importNormalization";
+import { normalizeLicenseName } from "../api/utils/license-utils";
+
+const CUSTOM_ID_PREFIX = 'custom:';
+const DEFAULT_MAX_PAGES = 10;
+const MAX_PAGES_LIMIT = 200;
+
+/**
+ * Fields offered in the mapping editor, in display order
+ */
+export const CUSTOM_SOURCE_FIELDS: CustomSourceField[] = [
+    'id', 'name', 'provider', 'domain', 'license', 'commercial', 'parameters', 'context_window',
+    'release_date', 'updated_at', 'url', 'repo', 'tags', 'description', 'pricing'
+];
+
+/**
+ * Result of fetching a custom source: mapped models plus the raw records
+ */
+export interface CustomSourceFetch {
+    models: Model[];
+    records: unknown[];
+    pages: number;
+}
+
+/**
+ * Check a config for problems that would make every fetch fail
+ */
+export function validateCustomSource(config: CustomSourceConfig): string[] {
+    const errors: string[] = [];
+    if (!config.name.trim()) errors.push('name: required');
+    try {
+        const url = new URL(config.url);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') errors.push('url: must be http(s)');
+    } catch {
+        errors.push('url: invalid URL');
+    }
+    if (!config.mapping.id && !config.mapping.name) errors.push('mapping: map at least id or name');
+
+    const paths: [string, string | undefined][] = [
+        ['itemsPath', config.itemsPath],
+        ['pagination.cursorPath', config.pagination.cursorPath],
+        ...Object.entries(config.mapping).map(([field, path]): [string, string | undefined] => [`mapping.${field}`, path])
+    ];
+    for (const [label, path] of paths) {
+        if (!path) continue;
+        try {
+            parseJsonPath(path);
+        } catch (error) {
+            errors.push(`${label}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    if (config.pagination.style !== 'none' && !config.pagination.param) {
+        errors.push('pagination.param: required for paginated sources');
+    }
+    if (config.pagination.style === 'cursor' && !config.pagination.cursorPath) {
+        errors.push('pagination.cursorPath: required for cursor pagination');
+    }
+    return errors;
+}
+
+const lookup = (map: Record<string, string> | undefined, value: unknown): string | undefined => {
+    if (!map || value == null) return undefined;
+    const key = String(value).trim().toLowerCase();
+    const hit = Object.entries(map).find(([raw]) => raw.trim().toLowerCase() === key);
+    return hit?.[1];
+};
+
+/**
+ * Map one raw record to a model. Tags collect every match; other fields take
+ * the first. Domain and license values pass through the configured maps.
+ */
+export function mapCustomRecord(record: unknown, config: CustomSourceConfig, idx: number): Model | null {
+    const row: Record<string, unknown> = { source: config.name };
+
+    for (const [field, path] of Object.entries(config.mapping) as [CustomSourceField, string | undefined][]) {
+        if (!path) continue;
+        if (field === 'tags') {
+            const tags = queryJsonPath(record, path).flat().filter(t => t != null && t !== '').map(String);
+            if (tags.length > 0) row.tags = tags;
+            continue;
+        }
+        const value = queryJsonPathFirst(record, path);
+        if (value !== undefined && value !== null && value !== '') row[field] = value;
+    }
+
+    if (row.id == null && row.name == null) return null;
+    if (row.id != null) row.id = `${config.id}:${row.id}`;
+    if (row.domain != null) row.domain = lookup(config.domainMap, row.domain) ?? row.domain;
+    if (row.license != null) {
+        row.license = lookup(config.licenseMap, row.license) ?? normalizeLicenseName(String(row.license));
+    }
+    return toNormalizedModel(row, idx);
+}
+
+/**
+ * Map raw records, dropping those without an id or name
+ */
+export function mapCustomRecords(records: unknown[], config: CustomSourceConfig): Model[] {
+    return records
+        .map((r, idx) => mapCustomRecord(r, config, idx))
+        .filter((m): m is Model => m !== null);
+}
+
+/**
+ * Build the URL for a request. `position` is the page number, offset or cursor.
+ */
+function pageUrl(config: CustomSourceConfig, position: number | string | null): string {
+    const { pagination } = config;
+    if (typeof position === 'string' && /^https?:\/\//i.test(position)) return position;
+
+    const url = new URL(config.url);
+    if (pagination.style !== 'none') {
+        if (pagination.sizeParam && pagination.pageSize) {
+            url.searchParams.set(pagination.sizeParam, String(pagination.pageSize));
+        }
+        if (pagination.param && position !== null) url.searchParams.set(pagination.param, String(position));
+    }
+    return url.toString();
+}
+
+/**
+ * Fetch a custom source page by page and map the records.
+ * Stops on an empty or short page, a missing cursor, or `maxPages`.
+ */
+export async function fetchCustomSource(
+    config: CustomSourceConfig,
+    opts: { maxPages?: number; onLog?: (message: string) => void } = {}
+): Promise<CustomSourceFetch> {
+    const errors = validateCustomSource(config);
+    if (errors.length > 0) throw new Error(errors.join('; '));
+
+    const { pagination } = config;
+    const host = new URL(config.url).host;
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (config.auth?.header && config.auth.value) headers[config.auth.header] = config.auth.value;
+
+    const maxPages = Math.min(opts.maxPages ?? pagination.maxPages ?? DEFAULT_MAX_PAGES, MAX_PAGES_LIMIT);
+    const records: unknown[] = [];
+    let position: number | string | null =
+        pagination.style === 'page' ? (pagination.startPage ?? 1) : pagination.style === 'offset' ? 0 : null;
+    let pages = 0;
+
+    while (pages < maxPages) {
+        const url = pageUrl(config, position);
+        const data = await pluginHttpRequest([host], { url, headers });
+        if (typeof data !== 'object' || data === null) {
+            throw new Error(`${config.name}: response from ${url} is not JSON`);
+        }
+        pages++;
+
+        const items = queryJsonPath(data, config.itemsPath || '$');
+        const page = items.length === 1 && Array.isArray(items[0]) ? items[0] : items;
+        records.push(...page);
+        opts.onLog?.(`page ${pages}: ${page.length} records`);
+
+        if (pagination.style === 'none' || page.length === 0) break;
+        if (pagination.style === 'cursor') {
+            const cursor = queryJsonPathFirst(data, pagination.cursorPath as string);
+            if (cursor === undefined || cursor === null || cursor === '') break;
+            position = String(cursor);
+        } else {
+            if (pagination.pageSize && page.length < pagination.pageSize) break;
+            position = pagination.style === 'page'
+                ? (position as number) + 1
+                : (position as number) + page.length;
+        }
+    }
+
+    return { models: mapCustomRecords(records, config), records, pages };
+}
+
+/**
+ * Registry id for a custom source's fetcher
+ */
+export function customSourceFetcherId(sourceId: string): string {
+    return `${CUSTOM_ID_PREFIX}${sourceId}`;
+}
+
+/**
+ * Wrap a custom source config as a standard Fetcher. The config is re-read
+ * from `SyncOptions.customSources` on each run so edits apply without
+ * re-registering.
+ */
+export function createCustomSourceFetcher(config: CustomSourceConfig): Fetcher {
+    const current = (opts: { customSources?: CustomSourceConfig[] }) =>
+        opts.customSources?.find(s => s.id === config.id) ?? config;
+
+    return {
+        id: customSourceFetcherId(config.id),
+        name: config.name,
+        isEnabled: (opts) => current(opts).enabled === true,
+        fetch: async (opts, cb) => {
+            const source = current(opts);
+            const { models } = await fetchCustomSource(source, {
+                onLog: (message) => {
+                    cb?.onLog?.(`${source.name}: ${message}`);
+                    cb?.onProgress?.({ current: 0, total: 0, source: source.name, statusMessage: message });
+                }
+            });
+            return { complete: models, flagged: [] };
+        }
+    };
+}
+
+/**
+ * Replace the custom source fetchers in a registry with the given configs
+ */
+export function registerCustomSourceFetchers(registry: FetcherRegistry, sources: CustomSourceConfig[]): void {
+    registry.getAll()
+        .filter(f => f.id.startsWith(CUSTOM_ID_PREFIX))
+        .forEach(f => registry.unregister(f.id));
+    sources.forEach(s => registry.register(createCustomSourceFetcher(s)));
+}
+
+/**
+ * Derive a unique, url-safe id for a new custom source
+ */
+export function createCustomSourceId(name: string, existing: CustomSourceConfig[]): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'source';
+    const taken = new Set(existing.map(s => s.id));
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    return id;
+}
@@ -2,6 +2,7 @@ import { Model, ProviderCfg, ProviderKey } from "../../types";
 import { SyncOptions, SyncCallbacks } from "./SyncTypes";
 import { callProviderLLM } from "../api";
 import { SYSTEM_PROMPT_DISCOVERY, USER_PROMPT_DISCOVERY } from "../../constants/prompts";
+import { probeRuntime } from "./LocalInventory";
 
 export async function runLLMDiscovery(
     options: SyncOptions,
@@ -98,56 +99,46 @@ async function runLocalDiscovery(
 
         if (onLog) onLog(`Local Discovery: Checking local Ollama instance...`);
 
-        let baseUrl = ollamaCfg.baseUrl || 'http://127.0.0.1:11434';
-        if (baseUrl.endsWith('/')) baseUrl = baseUrl.slice(0, -1);
-
-        // Standard Ollama tags endpoint
-        const url = `${baseUrl}/api/tags`;
-
-        let data: any;
-        if ((window as any).electronAPI?.proxyRequest) {
-            const result = await (window as any).electronAPI.proxyRequest({ url, method: 'GET' });
-            if (result?.success) data = result.data;
-        } else {
-            const res = await fetch(url);
-            if (res.ok) data = await res.json();
-        }
-
-        if (data && Array.isArray(data.models)) {
-            const models: Model[] = data.models.map((m: any) => ({
-                id: `local-ollama-${m.name.replace(':', '-')}`,
-                name: m.name,
-                provider: 'Local (Ollama)',
-                domain: 'LLM',
-                source: 'Local',
-                updated_at: m.modified_at,
-                release_date: m.modified_at,
-                tags: ['local', 'ollama'],
-                parameters: m.details?.parameter_size || '',
-                context_window: 'Varies',
-                license: {
-                    name: 'Local',
-                    type: 'Custom',
-                    commercial_use: true,
-                    attribution_required: false,
-                    share_alike: false,
-                    copyleft: false,
-                    notes: 'Model installed locally'
-                },
-                hosting: {
-                    weights_available: true,
-                    api_available: true,
-                    on_premise_friendly: true,
-                    providers: ['Ollama (Local)']
-                }
-            }));
+        const installed = await probeRuntime({
+            id: 'ollama',
+            name: 'Ollama',
+            kind: 'ollama',
+            baseUrl: ollamaCfg.baseUrl || 'http://127.0.0.1:11434',
+            enabled: true
+        });
+
+        const models: Model[] = installed.map(m => ({
+            id: `local-ollama-${m.name.replace(':', '-')}`,
+            name: m.name,
+            provider: 'Local (Ollama)',
+            domain: 'LLM',
+            source: 'Local',
+            updated_at: m.modified_at,
+            release_date: m.modified_at,
+            tags: ['local', 'ollama'],
+            parameters: m.parameters || '',
+            context_window: 'Varies',
+            license: {
+                name: 'Local',
+                type: 'Custom',
+                commercial_use: true,
+                attribution_required: false,
+                share_alike: false,
+                copyleft: false,
+                notes: 'Model installed locally'
+            },
+            hosting: {
+                weights_available: true,
+                api_available: true,
+                on_premise_friendly: true,
+                providers: ['Ollama (Local)']
+            }
+        }));
 
-            if (onLog) onLog(`Local Discovery: Found ${models.length} local models`);
-            return models;
-        }
+        if (onLog) onLog(`Local Discovery: Found ${models.length} local models`);
+        return models;
     } catch (e) {
         if (onLog) onLog(`[Local Discovery] Error: ${e instanceof Error ? e.message : String(e)}`);
     }
     return [];
 }
-
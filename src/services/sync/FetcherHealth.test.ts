@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const metadata = new Map<string, string>();
+vi.mock('../storage', () => ({
+    loadMetadata: vi.fn(async (key: string) => metadata.get(key) ?? null),
+    saveMetadata: vi.fn(async (key: string, value: string) => { metadata.set(key, value); })
+}));
+
+import { clearFetcherRuns, detectCountDrop, loadFetcherRuns, recordFetcherRun, summarizeFetcherHealth } from './FetcherHealth';
+import { FetcherRun } from '../../types';
+
+let seq = 0;
+const run = (overrides: Partial<FetcherRun> = {}): FetcherRun => ({
+    fetcherId: 'ollamaLibrary',
+    name: 'Ollama Library',
+    started_at: new Date(Date.UTC(2025, 0, 1, 0, seq++)).toISOString(),
+    duration_ms: 1200,
+    ok: true,
+    count: 200,
+    flagged: 0,
+    rejected: 0,
+    errors: [],
+    ...overrides
+});
+
+describe('recordFetcherRun', () => {
+    beforeEach(() => {
+        metadata.clear();
+    });
+
+    it('keeps runs per fetcher in order and caps the history', async () => {
+        await Promise.all(Array.from({ length: 35 }, (_, i) => recordFetcherRun(run({ count: i }))));
+        await recordFetcherRun(run({ fetcherId: 'huggingface', name: 'HuggingFace' }));
+
+        const history = await loadFetcherRuns();
+        expect(history.ollamaLibrary).toHaveLength(30);
+        expect(history.ollamaLibrary[0].count).toBe(5);
+        expect(history.ollamaLibrary[29].count).toBe(34);
+        expect(history.huggingface).toHaveLength(1);
+    });
+
+    it('truncates long error lists and clears', async () => {
+        await recordFetcherRun(run({ errors: Array.from({ length: 8 }, (_, i) => `Page ${i + 1}: status 503`) }));
+        const [stored] = (await loadFetcherRuns()).ollamaLibrary;
+        expect(stored.errors).toHaveLength(6);
+        expect(stored.errors[5]).toBe('…and 3 more');
+
+        await clearFetcherRuns();
+        expect(await loadFetcherRuns()).toEqual({});
+    });
+});
+
+describe('detectCountDrop', () => {
+    it('flags a full run far below the median of earlier runs', () => {
+        const runs = [run({ count: 210 }), run({ count: 195 }), run({ count: 205 }), run({ count: 12 })];
+        expect(detectCountDrop(runs)).toEqual({ latest: 12, baseline: 205 });
+    });
+
+    it('needs a baseline and ignores incremental and failed runs', () => {
+        expect(detectCountDrop([run(), run(), run({ count: 0 })])).toBeNull();
+        expect(detectCountDrop([run(), run(), run(), run({ count: 3, incremental: true })])).toBeNull();
+        expect(detectCountDrop([run(), run(), run(), run({ ok: false, count: 0 })])).toBeNull();
+        expect(detectCountDrop([run(), run(), run(), run({ count: 150 })])).toBeNull();
+    });
+});
+
+describe('summarizeFetcherHealth', () => {
+    it('derives status from the last run and the count trend', () => {
+        expect(summarizeFetcherHealth([])).toBeNull();
+        expect(summarizeFetcherHealth([run()])?.status).toBe('ok');
+        expect(summarizeFetcherHealth([run({ errors: ['Page 3: status 429'], http_status: 429 })])?.status).toBe('degraded');
+        expect(summarizeFetcherHealth([run(), run({ ok: false, count: 0, errors: ['timeout'] })])?.status).toBe('failing');
+        expect(summarizeFetcherHealth([run({ count: 0, errors: ['No models found on the library page'] })])?.status).toBe('failing');
+
+        const dropped = summarizeFetcherHealth([run(), run(), run(), run({ count: 40 })]);
+        expect(dropped?.status).toBe('dropped');
+        expect(dropped?.drop).toEqual({ latest: 40, baseline: 200 });
+    });
+
+    it('aggregates success rate and duration', () => {
+        const summary = summarizeFetcherHealth([run({ duration_ms: 1000 }), run({ ok: false, duration_ms: 3000, errors: ['x'] })]);
+        expect(summary).toMatchObject({ successRate: 0.5, avgDurationMs: 2000, name: 'Ollama Library' });
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * Fetcher health
+ *
+ * Every fetcher run during a sync is recorded with its duration, counts and
+ * the errors it recovered from. Scrapers and fallbacks tend to break quietly
+ * (a site redesign yields zero rows, not an exception), so the history is
+ * also checked for sudden drops against each source's usual yield.
+ */
+
+import { FetcherRun } from '../../types';
+import { loadMetadata, saveMetadata } from '../storage';
+import { loggers } from '../../utils/logger';
+
+/**
+ * Dispatched on window with the full run history as detail after a run is recorded
+ */
+export const FETCHER_HEALTH_EVENT = 'fetcher-health-updated';
+
+const logger = loggers.sync;
+
+const HEALTH_KEY = 'fetcherHealth';
+
+// Enough history for a trend line without growing the metadata store unbounded
+const MAX_RUNS_PER_FETCHER = 30;
+
+// A failing scraper reports one error per page; the first few tell the story
+const MAX_ERRORS_PER_RUN = 5;
+
+// Drop detection needs a few full runs before the usual yield means anything
+const MIN_BASELINE_RUNS = 3;
+const DROP_RATIO = 0.5;
+
+export type FetcherHealthStatus = 'ok' | 'degraded' | 'failing' | 'dropped';
+
+export interface CountDrop {
+    latest: number;
+    /** Median count of the earlier full runs */
+    baseline: number;
+}
+
+export interface FetcherHealthSummary {
+    fetcherId: string;
+    name: string;
+    status: FetcherHealthStatus;
+    lastRun: FetcherRun;
+    /** Share of recorded runs that completed without throwing, 0-1 */
+    successRate: number;
+    avgDurationMs: number;
+    drop: CountDrop | null;
+}
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Load the recorded runs per fetcher id, oldest first
+ */
+export async function loadFetcherRuns(): Promise<Record<string, FetcherRun[]>> {
+    try {
+        const raw = await loadMetadata(HEALTH_KEY);
+        return raw ? JSON.parse(raw) : {};
+    } catch {
+        return {};
+    }
+}
+
+// Fetchers finish in parallel; serialize writes so no run is lost
+let pending: Promise<void> = Promise.resolve();
+
+function updateRuns(change: (current: Record<string, FetcherRun[]>) => Record<string, FetcherRun[]>): Promise<void> {
+    pending = pending.then(async () => {
+        try {
+            const next = change(await loadFetcherRuns());
+            await saveMetadata(HEALTH_KEY, JSON.stringify(next));
+            if (typeof window !== 'undefined') {
+                window.dispatchEvent(new CustomEvent(FETCHER_HEALTH_EVENT, { detail: next }));
+            }
+        } catch (error) {
+            logger.warn('Failed to record fetcher run:', error);
+        }
+    });
+    return pending;
+}
+
+/**
+ * Append a run to its fetcher's history
+ */
+export function recordFetcherRun(run: FetcherRun): Promise<void> {
+    const errors = run.errors.length > MAX_ERRORS_PER_RUN
+        ? [...run.errors.slice(0, MAX_ERRORS_PER_RUN), `…and ${run.errors.length - MAX_ERRORS_PER_RUN} more`]
+        : run.errors;
+    return updateRuns(current => ({
+        ...current,
+        [run.fetcherId]: [...(current[run.fetcherId] || []), { ...run, errors }].slice(-MAX_RUNS_PER_FETCHER)
+    }));
+}
+
+export function clearFetcherRuns(): Promise<void> {
+    return updateRuns(() => ({}));
+}
+
+/**
+ * Whether the latest full run returned far fewer records than the source
+ * usually does. Incremental runs and failed runs are not comparable and are
+ * skipped on both sides.
+ */
+export function detectCountDrop(runs: FetcherRun[]): CountDrop | null {
+    const full = runs.filter(r => r.ok && !r.incremental);
+    if (full.length < MIN_BASELINE_RUNS + 1) return null;
+
+    const latest = full[full.length - 1].count;
+    const baseline = median(full.slice(0, -1).map(r => r.count));
+    if (baseline === 0) return null;
+    return latest < baseline * DROP_RATIO ? { latest, baseline } : null;
+}
+
+/**
+ * Status and aggregates for one fetcher's history, or null without runs
+ */
+export function summarizeFetcherHealth(runs: FetcherRun[]): FetcherHealthSummary | null {
+    if (runs.length === 0) return null;
+    const lastRun = runs[runs.length - 1];
+    const drop = detectCountDrop(runs);
+
+    let status: FetcherHealthStatus = 'ok';
+    if (!lastRun.ok || (lastRun.count === 0 && lastRun.errors.length > 0)) status = 'failing';
+    else if (drop && !lastRun.incremental) status = 'dropped';
+    else if (lastRun.errors.length > 0 || lastRun.rejected > 0 || lastRun.http_status) status = 'degraded';
+
+    return {
+        fetcherId: lastRun.fetcherId,
+        name: lastRun.name,
+        status,
+        lastRun,
+        successRate: runs.filter(r => r.ok).length / runs.length,
+        avgDurationMs: Math.round(runs.reduce((sum, r) => sum + r.duration_ms, 0) / runs.length),
+        drop
+    };
+}
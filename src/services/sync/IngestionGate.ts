@@ -0,0 +1,269 @@
+/**
+ * Ingestion gate
+ *
+ * Every record entering the database (fetcher output, imports, LLM
+ * discovery) is checked against ModelSchema. Common defects are repaired in
+ * place; records that still fail are held in a persisted quarantine with
+ * their validation errors and raw payload instead of reaching the table.
+ */
+
+import { DOMAINS, Model, ProvenanceKind, RejectedRecord } from '../../types';
+import { LicenseTypeSchema, ModelSchema, determineCommercialUse, determineType } from '../api';
+import { loadMetadata, saveMetadata } from '../storage';
+import { loggers } from '../../utils/logger';
+
+/**
+ * Where a batch of records came from
+ */
+export interface IngestionOrigin {
+    source: string;
+    kind: ProvenanceKind;
+}
+
+export interface IngestionResult {
+    accepted: Model[];
+    rejected: RejectedRecord[];
+    /** Accepted records that needed at least one repair */
+    repaired: number;
+}
+
+/**
+ * Dispatched on window with the full quarantine list as detail after it changes
+ */
+export const QUARANTINE_EVENT = 'quarantine-updated';
+
+const logger = loggers.sync;
+
+const QUARANTINE_KEY = 'quarantine';
+
+// Oldest entries are dropped beyond this; a broken source repeats the same records anyway
+const MAX_QUARANTINED = 500;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number | null | undefined => {
+    if (typeof value === 'number' || value == null) return value as number | null | undefined;
+    const n = Number(String(value).replace(/,/g, '').trim());
+    return String(value).trim() && Number.isFinite(n) ? n : undefined;
+};
+
+const slug = (value: string): string =>
+    value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * Fixes the defects fetchers and LLMs commonly produce: missing hosting or
+ * license blocks, license strings instead of objects, license types and
+ * domains outside the enums, numbers sent as strings. Returns the repaired
+ * copy and a note per repair.
+ */
+export function repairRecord(raw: Record<string, unknown>, origin: IngestionOrigin): { record: Record<string, unknown>; repairs: string[] } {
+    const record: Record<string, unknown> = { ...raw };
+    const repairs: string[] = [];
+    const fix = (note: string) => repairs.push(note);
+
+    for (const field of ['id', 'name'] as const) {
+        if (typeof record[field] === 'number') {
+            record[field] = String(record[field]);
+            fix(`${field}: converted to string`);
+        }
+    }
+    if (typeof record.name !== 'string' && typeof record.id === 'string' && record.id) {
+        record.name = record.id;
+        fix('name: copied from id');
+    }
+    if ((typeof record.id !== 'string' || !record.id) && typeof record.name === 'string' && slug(record.name)) {
+        record.id = `${slug(origin.source)}-${slug(record.name)}`;
+        fix('id: derived from name');
+    }
+    if (typeof record.source !== 'string' || !record.source) {
+        record.source = origin.source;
+        fix('source: set to origin');
+    }
+
+    if (!(DOMAINS as readonly unknown[]).includes(record.domain)) {
+        const match = typeof record.domain === 'string'
+            ? DOMAINS.find(d => d.toLowerCase() === String(record.domain).trim().toLowerCase())
+            : undefined;
+        record.domain = match || 'Other';
+        fix(`domain: ${JSON.stringify(raw.domain ?? null)} -> ${record.domain}`);
+    }
+
+    if (typeof record.license === 'string' || !isObject(record.license)) {
+        const name = typeof record.license === 'string' && record.license.trim() ? record.license.trim() : 'Unknown';
+        record.license = {
+            name,
+            type: determineType(name),
+            commercial_use: determineCommercialUse(name),
+            attribution_required: false,
+            share_alike: false,
+            copyleft: determineType(name) === 'Copyleft'
+        };
+        fix(typeof raw.license === 'string' ? 'license: expanded from name' : 'license: filled defaults');
+    } else {
+        const license: Record<string, unknown> = { ...record.license };
+        if (typeof license.name !== 'string' || !license.name) {
+            license.name = 'Unknown';
+            fix('license.name: set to Unknown');
+        }
+        if (!LicenseTypeSchema.safeParse(license.type).success) {
+            license.type = determineType(String(license.name));
+            fix(`license.type: ${JSON.stringify(record.license.type ?? null)} -> ${license.type}`);
+        }
+        for (const flag of ['commercial_use', 'attribution_required', 'share_alike', 'copyleft']) {
+            if (license[flag] !== undefined && typeof license[flag] !== 'boolean') {
+                license[flag] = license[flag] === 'true' || license[flag] === 1;
+                fix(`license.${flag}: converted to boolean`);
+            }
+        }
+        record.license = license;
+    }
+
+    if (!isObject(record.hosting)) {
+        record.hosting = { weights_available: false, api_available: false, on_premise_friendly: false };
+        fix('hosting: filled defaults');
+    }
+
+    if (typeof record.tags === 'string') {
+        record.tags = record.tags.split(',').map(t => t.trim()).filter(Boolean);
+        fix('tags: split from string');
+    } else if (Array.isArray(record.tags) && record.tags.some(t => typeof t !== 'string')) {
+        record.tags = record.tags.filter((t): t is string => typeof t === 'string');
+        fix('tags: dropped non-string entries');
+    } else if (record.tags != null && !Array.isArray(record.tags)) {
+        delete record.tags;
+        fix('tags: dropped');
+    }
+
+    if (record.downloads != null && typeof record.downloads !== 'number') {
+        record.downloads = toNumber(record.downloads) ?? null;
+        fix('downloads: converted to number');
+    }
+
+    for (const field of ['parameters', 'context_window'] as const) {
+        if (typeof record[field] === 'number') {
+            record[field] = String(record[field]);
+            fix(`${field}: converted to string`);
+        }
+    }
+
+    if (record.pricing != null && !Array.isArray(record.pricing)) {
+        delete record.pricing;
+        fix('pricing: dropped');
+    } else if (Array.isArray(record.pricing)) {
+        record.pricing = record.pricing.filter(isObject).map((entry, i) => {
+            const next = { ...entry };
+            for (const key of ['input', 'output', 'flat']) {
+                if (next[key] == null || typeof next[key] === 'number') continue;
+                const n = toNumber(next[key]);
+                if (n === undefined) continue;
+                next[key] = n;
+                fix(`pricing[${i}].${key}: converted to number`);
+            }
+            return next;
+        });
+    }
+
+    return { record, repairs };
+}
+
+let quarantineSeq = 0;
+
+const toRejected = (raw: unknown, origin: IngestionOrigin, errors: string[], rejectedAt: string): RejectedRecord => ({
+    id: `q-${Date.now().toString(36)}-${(quarantineSeq++).toString(36)}`,
+    source: origin.source,
+    kind: origin.kind,
+    errors,
+    raw,
+    rejected_at: rejectedAt
+});
+
+/**
+ * Schema-checks a batch of records. Repairable records are accepted in
+ * their repaired form; the rest are returned as quarantine entries.
+ */
+export function gateRecords(records: unknown[], origin: IngestionOrigin): IngestionResult {
+    const rejectedAt = new Date().toISOString();
+    const accepted: Model[] = [];
+    const rejected: RejectedRecord[] = [];
+    let repaired = 0;
+
+    for (const raw of records) {
+        if (!isObject(raw)) {
+            rejected.push(toRejected(raw, origin, ['record: expected an object'], rejectedAt));
+            continue;
+        }
+        const { record, repairs } = repairRecord(raw, origin);
+        const result = ModelSchema.safeParse(record);
+        if (!result.success) {
+            const errors = result.error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`);
+            rejected.push(toRejected(raw, origin, errors, rejectedAt));
+            continue;
+        }
+        if (repairs.length > 0) repaired++;
+        accepted.push(result.data as unknown as Model);
+    }
+
+    return { accepted, rejected, repaired };
+}
+
+/**
+ * Key identifying the same bad record across syncs
+ */
+const rejectedKey = (entry: RejectedRecord): string => {
+    const raw = isObject(entry.raw) ? entry.raw : {};
+    const identity = raw.id ?? raw.name ?? JSON.stringify(entry.raw ?? null).slice(0, 200);
+    return `${entry.source}|${String(identity)}`;
+};
+
+/**
+ * Load the quarantined records, newest first
+ */
+export async function loadQuarantine(): Promise<RejectedRecord[]> {
+    try {
+        const raw = await loadMetadata(QUARANTINE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch {
+        return [];
+    }
+}
+
+// Parallel writers (sync and import) must not overwrite each other
+let pending: Promise<void> = Promise.resolve();
+
+function updateQuarantine(change: (current: RejectedRecord[]) => RejectedRecord[]): Promise<void> {
+    pending = pending.then(async () => {
+        try {
+            const next = change(await loadQuarantine()).slice(0, MAX_QUARANTINED);
+            await saveMetadata(QUARANTINE_KEY, JSON.stringify(next));
+            if (typeof window !== 'undefined') {
+                window.dispatchEvent(new CustomEvent(QUARANTINE_EVENT, { detail: next }));
+            }
+        } catch (error) {
+            logger.warn('Failed to update quarantine:', error);
+        }
+    });
+    return pending;
+}
+
+/**
+ * Add rejected records to the quarantine. A record rejected again replaces
+ * its earlier entry.
+ */
+export function addToQuarantine(records: RejectedRecord[]): Promise<void> {
+    if (records.length === 0) return pending;
+    const incoming = new Set(records.map(rejectedKey));
+    return updateQuarantine(current => [...records, ...current.filter(r => !incoming.has(rejectedKey(r)))]);
+}
+
+/**
+ * Remove entries by quarantine id (after they were fixed or dismissed)
+ */
+export function removeFromQuarantine(ids: string[]): Promise<void> {
+    const drop = new Set(ids);
+    return updateQuarantine(current => current.filter(r => !drop.has(r.id)));
+}
+
+export function clearQuarantine(): Promise<void> {
+    return updateQuarantine(() => []);
+}
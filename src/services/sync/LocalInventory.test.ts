@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { installedExternalIds, matchInstalledModels, probeLocalRuntimes, probeRuntime } from './LocalInventory';
+import { InstalledModel, LocalRuntimeConfig, Model } from '../../types';
+
+// Stub of an Ollama server and an OpenAI-compatible server on one port
+const OLLAMA_TAGS = {
+    models: [
+        {
+            name: 'llama3.1:8b-instruct-q4_K_M',
+            size: 4920753328,
+            modified_at: '2025-01-10T09:00:00Z',
+            details: { parameter_size: '8.0B', quantization_level: 'Q4_K_M' }
+        },
+        { name: 'hf.co/bartowski/Qwen2.5-7B-Instruct-GGUF:Q5_K_M', size: 5444831232, details: {} }
+    ]
+};
+const OPENAI_MODELS = {
+    object: 'list',
+    data: [{ id: 'mistral-7b-instruct-v0.3', object: 'model' }, { id: 'nomic-embed-text-v1.5' }]
+};
+
+let server: http.Server;
+let base: string;
+
+beforeAll(async () => {
+    server = http.createServer((req, res) => {
+        const body = req.url === '/api/tags' ? OLLAMA_TAGS : req.url === '/v1/models' ? OPENAI_MODELS : null;
+        res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body ?? { error: 'not found' }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+});
+
+const runtime = (overrides: Partial<LocalRuntimeConfig>): LocalRuntimeConfig => ({
+    id: 'ollama',
+    name: 'Ollama',
+    kind: 'ollama',
+    baseUrl: base,
+    enabled: true,
+    ...overrides
+});
+
+const model = (overrides: Partial<Model>): Model => ({
+    id: 'x',
+    name: 'x',
+    provider: null,
+    domain: 'LLM',
+    source: 'test',
+    url: null,
+    repo: null,
+    license: { name: 'Apache-2.0', type: 'OSI', commercial_use: true, attribution_required: false, share_alike: false, copyleft: false },
+    ...overrides
+} as Model);
+
+const installed = (name: string): InstalledModel => ({ runtimeId: 'ollama', runtime: 'Ollama', name });
+
+describe('probeRuntime', () => {
+    it('reads Ollama /api/tags with size and quantization', async () => {
+        const models = await probeRuntime(runtime({}));
+        expect(models).toHaveLength(2);
+        expect(models[0]).toMatchObject({
+            runtimeId: 'ollama',
+            runtime: 'Ollama',
+            name: 'llama3.1:8b-instruct-q4_K_M',
+            size_bytes: 4920753328,
+            parameters: '8.0B',
+            quantization: 'Q4_K_M'
+        });
+    });
+
+    it('reads OpenAI-compatible /v1/models and tolerates a trailing /v1', async () => {
+        const models = await probeRuntime(runtime({ id: 'lmstudio', name: 'LM Studio', kind: 'openai', baseUrl: `${base}/v1/` }));
+        expect(models.map(m => m.name)).toEqual(['mistral-7b-instruct-v0.3', 'nomic-embed-text-v1.5']);
+    });
+});
+
+describe('probeLocalRuntimes', () => {
+    it('records unreachable runtimes without failing the inventory', async () => {
+        const inventory = await probeLocalRuntimes([
+            runtime({}),
+            runtime({ id: 'lmstudio', name: 'LM Studio', kind: 'openai' }),
+            runtime({ id: 'down', name: 'Down', kind: 'openai', baseUrl: 'http://127.0.0.1:1' }),
+            runtime({ id: 'off', name: 'Off', enabled: false })
+        ], 1000);
+
+        expect(inventory.runtimes.map(r => [r.id, r.ok, r.count])).toEqual([
+            ['ollama', true, 2],
+            ['lmstudio', true, 2],
+            ['down', false, 0]
+        ]);
+        expect(inventory.runtimes[2].error).toBeTruthy();
+        expect(inventory.models).toHaveLength(4);
+    });
+});
+
+describe('installedExternalIds', () => {
+    it('maps hf.co pulls to the Hugging Face repo', () => {
+        expect(installedExternalIds(installed('hf.co/bartowski/Qwen2.5-7B-Instruct-GGUF:Q5_K_M')))
+            .toEqual([{ kind: 'huggingface', id: 'bartowski/Qwen2.5-7B-Instruct-GGUF' }]);
+    });
+
+    it('maps Ollama tags to the tag and its base name', () => {
+        expect(installedExternalIds(installed('llama3.1:8b'))).toEqual([
+            { kind: 'ollama', id: 'llama3.1:8b' },
+            { kind: 'ollama', id: 'llama3.1' }
+        ]);
+    });
+});
+
+describe('matchInstalledModels', () => {
+    const models = [
+        model({ id: 'llama-3.1-8b', name: 'Llama 3.1 8B' }),
+        model({ id: 'ollama-llama3.1', name: 'llama3.1', source: 'Ollama Library', url: 'https://ollama.com/library/llama3.1' }),
+        model({ id: 'mistral-7b', name: 'Mistral 7B Instruct v0.3' }),
+        model({ id: 'qwen-gguf', name: 'Qwen2.5 7B Instruct GGUF', repo: 'https://huggingface.co/bartowski/Qwen2.5-7B-Instruct-GGUF' })
+    ];
+
+    it('matches through external ids, then by loose name', () => {
+        const matches = matchInstalledModels([
+            installed('llama3.1:8b-instruct-q4_K_M'),
+            installed('hf.co/bartowski/Qwen2.5-7B-Instruct-GGUF:Q5_K_M'),
+            installed('Mistral-7B-Instruct-v0.3-Q4_K_M.gguf'),
+            installed('something-unknown:latest')
+        ], models);
+
+        expect(matches.get('ollama-llama3.1')?.map(i => i.name)).toEqual(['llama3.1:8b-instruct-q4_K_M']);
+        expect(matches.get('qwen-gguf')).toHaveLength(1);
+        expect(matches.get('mistral-7b')).toHaveLength(1);
+        expect(matches.size).toBe(3);
+    });
+
+    it('lets the alias table override the default match', () => {
+        const matches = matchInstalledModels(
+            [installed('llama3.1:8b')],
+            models,
+            [{ kind: 'ollama', external_id: 'llama3.1', canonical_id: 'llama-3.1-8b', created_at: '2025-01-01T00:00:00Z' }]
+        );
+        expect([...matches.keys()]).toEqual(['llama-3.1-8b']);
+    });
+});
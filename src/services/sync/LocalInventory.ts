@@ -0,0 +1,186 @@
+/**
+ * Local runtime inventory
+ *
+ * Probes local inference servers for the models they have installed
+ * (Ollama's /api/tags, OpenAI-compatible /v1/models from LM Studio,
+ * llama.cpp and similar) and matches them to database records.
+ */
+
+import { InstalledModel, IdentityAlias, LocalInventory, LocalRuntimeConfig, Model } from '../../types';
+import { ExternalId, aliasKey, externalIdsOf, normalizeExternalId } from '../../utils/identity';
+import { normalizeNameForMatch } from '../../utils/format';
+import { loggers } from '../../utils/logger';
+import { getProxyRequest } from '../../utils/electron';
+
+const logger = loggers.sync;
+
+/**
+ * Default ports of the common local runtimes
+ */
+export const DEFAULT_LOCAL_RUNTIMES: LocalRuntimeConfig[] = [
+    { id: 'ollama', name: 'Ollama', kind: 'ollama', baseUrl: 'http://127.0.0.1:11434', enabled: true },
+    { id: 'lmstudio', name: 'LM Studio', kind: 'openai', baseUrl: 'http://127.0.0.1:1234', enabled: true },
+    { id: 'llamacpp', name: 'llama.cpp', kind: 'openai', baseUrl: 'http://127.0.0.1:8080', enabled: false },
+];
+
+/**
+ * Dispatched on window with the new LocalInventory as detail after a probe
+ */
+export const LOCAL_INVENTORY_EVENT = 'local-inventory-updated';
+
+// A stopped server refuses at once; a hung one should not hold up the UI
+const PROBE_TIMEOUT_MS = 3000;
+
+const trimBase = (url: string): string => url.trim().replace(/\/+$/, '').replace(/\/v1$/, '');
+
+/**
+ * GET a JSON document from a local server, through the Electron proxy when
+ * available (no CORS), otherwise with fetch and a timeout.
+ */
+async function getJson(url: string, timeoutMs: number): Promise<any> {
+    const proxyRequest = getProxyRequest();
+    if (proxyRequest) {
+        const result = await proxyRequest({ url, method: 'GET' });
+        if (!result?.success) throw new Error(result?.error || 'Request failed');
+        return typeof result.data === 'string' ? JSON.parse(result.data) : result.data;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        const res = await fetch(url, { signal: controller.signal });
+        if (!res.ok) throw new Error(`Status ${res.status}`);
+        return await res.json();
+    } catch (err) {
+        if (controller.signal.aborted) throw new Error(`Timed out after ${timeoutMs} ms`);
+        throw err;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Lists the models one runtime reports. Throws when it is unreachable or
+ * answers with something that is not a model list.
+ */
+export async function probeRuntime(runtime: LocalRuntimeConfig, timeoutMs = PROBE_TIMEOUT_MS): Promise<InstalledModel[]> {
+    const base = trimBase(runtime.baseUrl);
+    const owner = { runtimeId: runtime.id, runtime: runtime.name };
+
+    if (runtime.kind === 'ollama') {
+        const data = await getJson(`${base}/api/tags`, timeoutMs);
+        if (!Array.isArray(data?.models)) throw new Error('Unexpected /api/tags response');
+        return data.models
+            .filter((m: any) => typeof (m?.name ?? m?.model) === 'string')
+            .map((m: any): InstalledModel => ({
+                ...owner,
+                name: m.name ?? m.model,
+                size_bytes: typeof m.size === 'number' ? m.size : null,
+                parameters: m.details?.parameter_size || null,
+                quantization: m.details?.quantization_level || null,
+                modified_at: m.modified_at || null
+            }));
+    }
+
+    const data = await getJson(`${base}/v1/models`, timeoutMs);
+    if (!Array.isArray(data?.data)) throw new Error('Unexpected /v1/models response');
+    return data.data
+        .filter((m: any) => typeof m?.id === 'string')
+        .map((m: any): InstalledModel => ({ ...owner, name: m.id }));
+}
+
+/**
+ * Probes every enabled runtime in parallel. Failures are recorded per
+ * runtime and never reject the whole inventory.
+ */
+export async function probeLocalRuntimes(runtimes: LocalRuntimeConfig[], timeoutMs = PROBE_TIMEOUT_MS): Promise<LocalInventory> {
+    const enabled = runtimes.filter(r => r.enabled && r.baseUrl.trim());
+    const results = await Promise.all(enabled.map(async runtime => {
+        try {
+            const models = await probeRuntime(runtime, timeoutMs);
+            return { status: { id: runtime.id, name: runtime.name, ok: true, count: models.length }, models };
+        } catch (err) {
+            const error = err instanceof Error ? err.message : String(err);
+            logger.debug(`Local runtime ${runtime.name} not reachable: ${error}`);
+            return { status: { id: runtime.id, name: runtime.name, ok: false, error, count: 0 }, models: [] as InstalledModel[] };
+        }
+    }));
+
+    return {
+        probed_at: new Date().toISOString(),
+        runtimes: results.map(r => r.status),
+        models: results.flatMap(r => r.models)
+    };
+}
+
+/**
+ * External ids an installed model name implies: Hugging Face repos pulled
+ * as "hf.co/org/repo:quant" or listed as "org/repo", and Ollama library
+ * names with and without their tag.
+ */
+export function installedExternalIds(item: InstalledModel): ExternalId[] {
+    const name = item.name.trim().replace(/^registry\.ollama\.ai\/library\//i, '');
+    const hf = name.match(/^(?:https?:\/\/)?(?:hf\.co|huggingface\.co)\/([^/:\s]+\/[^/:\s]+)/i);
+    if (hf) return [{ kind: 'huggingface', id: hf[1] }];
+
+    const ids: ExternalId[] = [];
+    if (/^[^/\s]+\/[^/\s]+$/.test(name) && !name.includes(':')) {
+        ids.push({ kind: 'huggingface', id: normalizeExternalId('huggingface', name).replace(/\.gguf$/i, '') });
+    }
+    if (!name.includes('/') || name.includes(':')) {
+        ids.push({ kind: 'ollama', id: name });
+        if (name.includes(':')) ids.push({ kind: 'ollama', id: name.split(':')[0] });
+    }
+    return ids;
+}
+
+/**
+ * Name used for the last-resort match: file and repo suffixes, quantization
+ * and tags removed ("Meta-Llama-3-8B-Instruct-Q4_K_M.gguf" -> "metallama38binstruct").
+ */
+const looseName = (name: string): string =>
+    normalizeNameForMatch(
+        name
+            .replace(/\.gguf$/i, '')
+            .replace(/:[^/]*$/, '')
+            .replace(/[-_.](?:i?q\d(?:_[a-z0-9]+)*|f16|bf16|fp16|f32)$/i, '')
+            .replace(/-gguf$/i, '')
+    );
+
+/**
+ * Matches installed models to database records. The alias table is
+ * consulted first, then the external ids each record carries, then a unique
+ * loose name match. Returns installed entries keyed by model id.
+ */
+export function matchInstalledModels(installed: InstalledModel[], models: Model[], aliases: IdentityAlias[] = []): Map<string, InstalledModel[]> {
+    const ids = new Set(models.map(m => m.id));
+    const byExternal = new Map<string, string>();
+    for (const alias of aliases) {
+        if (ids.has(alias.canonical_id)) byExternal.set(aliasKey(alias.kind, normalizeExternalId(alias.kind, alias.external_id)), alias.canonical_id);
+    }
+    for (const model of models) {
+        for (const ext of externalIdsOf(model)) {
+            const key = aliasKey(ext.kind, ext.id);
+            if (!byExternal.has(key)) byExternal.set(key, model.id);
+        }
+    }
+
+    const byName = new Map<string, string | null>();
+    for (const model of models) {
+        const key = looseName(model.name || model.id);
+        if (!key) continue;
+        // null marks an ambiguous name
+        byName.set(key, byName.has(key) && byName.get(key) !== model.id ? null : model.id);
+    }
+
+    const matches = new Map<string, InstalledModel[]>();
+    for (const item of installed) {
+        let modelId = installedExternalIds(item)
+            .map(ext => byExternal.get(aliasKey(ext.kind, ext.id)))
+            .find(Boolean);
+        if (!modelId) modelId = byName.get(looseName(item.name)) ?? undefined;
+        if (!modelId) continue;
+        matches.set(modelId, [...(matches.get(modelId) ?? []), item]);
+    }
+    return matches;
+}
@@ -0,0 +1,241 @@
+/**
+ * Plugin Sandbox
+ *
+ * Runs fetcher plugin scripts in a dedicated Web Worker. The worker has no DOM,
+ * and its network, storage and code-evaluation globals are removed before the
+ * plugin code is evaluated; the only way out is `ctx.request`, which the host
+ * performs through the Electron proxy after checking the manifest's allowed hosts.
+ */
+
+import { fetchWrapper } from "../../utils/fetch-wrapper";
+import { getProxyRequest } from "../../utils/electron";
+import { isHostAllowed } from "../../../electron/host-allowlist.mjs";
+
+/**
+ * HTTP request issued by a plugin through `ctx.request`
+ */
+export interface PluginHttpRequest {
+    url: string;
+    method?: string;
+    headers?: Record<string, string>;
+    /** JSON-serializable request body */
+    body?: unknown;
+}
+
+export interface PluginRunHandlers {
+    onLog?: (message: string) => void;
+    signal?: AbortSignal;
+    /** Kill the worker if the plugin has not finished (default 5 minutes) */
+    timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+const INSPECT_TIMEOUT_MS = 10 * 1000;
+// Any `import` token: comments may sit between `import` and `(` (import/**/(),
+// and plugins are classic scripts where static imports are not valid anyway
+const IMPORT_KEYWORD = /\bimport\b/;
+
+/**
+ * Worker bootstrap evaluated before the plugin source. Plugins call
+ * `definePlugin({ manifest, fetch })` at top level.
+ */
+const BOOTSTRAP = `
+'use strict';
+const __post = self.postMessage.bind(self);
+const __pending = new Map();
+let __seq = 0;
+let __plugin = null;
+for (const key of ['fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'RTCPeerConnection', 'webkitRTCPeerConnection', 'Worker', 'SharedWorker', 'indexedDB', 'caches', 'importScripts', 'eval', 'Function']) {
+  for (let scope = Object.getPrototypeOf(self); scope; scope = Object.getPrototypeOf(scope)) {
+    try { delete scope[key]; } catch (e) { /* non-configurable */ }
+  }
+  try { Object.defineProperty(self, key, { value: undefined, configurable: false, writable: false }); } catch (e) { /* not present */ }
+}
+// No code generation either: generated code could use import() of a remote URL
+for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+  Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined, configurable: false, writable: false });
+}
+for (const key of ['setTimeout', 'setInterval']) {
+  const timer = self[key].bind(self);
+  self[key] = (handler, ...rest) => {
+    if (typeof handler !== 'function') throw new TypeError(key + ' needs a function');
+    return timer(handler, ...rest);
+  };
+}
+self.definePlugin = (plugin) => { __plugin = plugin; };
+const __request = (input) => new Promise((resolve, reject) => {
+  const id = ++__seq;
+  __pending.set(id, { resolve, reject });
+  __post({ type: 'request', id, request: typeof input === 'string' ? { url: input } : input });
+});
+self.onmessage = async (event) => {
+  const msg = event.data || {};
+  if (msg.type === 'response') {
+    const entry = __pending.get(msg.id);
+    if (!entry) return;
+    __pending.delete(msg.id);
+    if (msg.error) entry.reject(new Error(msg.error)); else entry.resolve(msg.data);
+    return;
+  }
+  if (!__plugin) {
+    __post({ type: 'error', error: 'Plugin did not call definePlugin()' });
+    return;
+  }
+  if (msg.type === 'inspect') {
+    __post({ type: 'manifest', manifest: __plugin.manifest });
+    return;
+  }
+  if (msg.type === 'run') {
+    try {
+      const ctx = {
+        config: Object.freeze({ ...msg.config }),
+        request: (input, init) => __request(typeof input === 'string' ? { ...(init || {}), url: input } : input),
+        log: (message) => __post({ type: 'log', message: String(message) })
+      };
+      const records = await __plugin.fetch(ctx);
+      __post({ type: 'result', records });
+    } catch (error) {
+      __post({ type: 'error', error: error && error.message ? error.message : String(error) });
+    }
+  }
+};
+`;
+
+// One matcher for plugin manifests and the Electron proxy policy
+export { isHostAllowed };
+
+/**
+ * Perform a plugin's HTTP request on its behalf. Uses the Electron main-process
+ * proxy when available (no CORS, reaches intranet hosts), otherwise fetch.
+ * Resolves to parsed JSON, or text for non-JSON responses.
+ */
+export async function pluginHttpRequest(allowedHosts: string[], request: PluginHttpRequest): Promise<unknown> {
+    const { url, method = 'GET', headers = {}, body } = request;
+    if (!isHostAllowed(url, allowedHosts)) {
+        throw new Error(`Host not allowed by plugin manifest: ${url}`);
+    }
+
+    const proxy = getProxyRequest();
+    if (proxy) {
+        const result = await proxy({ url, method, headers, body: body ?? null });
+        if (!result.success) throw new Error(result.error || 'Proxy request failed');
+        return result.data;
+    }
+
+    const response = await fetchWrapper(url, {
+        method,
+        headers,
+        body: body === undefined || body === null ? undefined : JSON.stringify(body)
+    });
+    if (!response.ok) throw new Error(`Request failed: ${response.status}`);
+    const text = await response.text();
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+type WorkerMessage =
+    | { type: 'request'; id: number; request: PluginHttpRequest }
+    | { type: 'log'; message: string }
+    | { type: 'manifest'; manifest: unknown }
+    | { type: 'result'; records: unknown }
+    | { type: 'error'; error: string };
+
+/**
+ * Start a worker for the plugin source and drive one exchange: `inspect`
+ * resolves with the declared manifest, `run` with the fetched records.
+ */
+function runWorker(
+    source: string,
+    message: { type: 'inspect' } | { type: 'run'; config: Record<string, unknown> },
+    allowedHosts: string[],
+    handlers: PluginRunHandlers
+): Promise<unknown> {
+    // import() is syntax and cannot be removed from the worker, so refuse it up front.
+    // Matching the bare word also rejects it in strings and comments; rename those.
+    if (IMPORT_KEYWORD.test(source)) {
+        return Promise.reject(new Error('Plugins may not use import() (or the word "import"); fetch data through ctx.request'));
+    }
+    if (typeof Worker === 'undefined') {
+        return Promise.reject(new Error('Plugins require Web Worker support'));
+    }
+
+    const blobUrl = URL.createObjectURL(new Blob([BOOTSTRAP, '\n;(function () {\n', source, '\n})();\n'], { type: 'text/javascript' }));
+    const worker = new Worker(blobUrl);
+
+    return new Promise<unknown>((resolve, reject) => {
+        const cleanup = () => {
+            clearTimeout(timer);
+            handlers.signal?.removeEventListener('abort', onAbort);
+            worker.terminate();
+            URL.revokeObjectURL(blobUrl);
+        };
+        const fail = (error: Error) => {
+            cleanup();
+            reject(error);
+        };
+        const onAbort = () => fail(new DOMException('Plugin run was cancelled', 'AbortError'));
+        const timer = setTimeout(
+            () => fail(new Error('Plugin timed out')),
+            handlers.timeoutMs ?? (message.type === 'inspect' ? INSPECT_TIMEOUT_MS : DEFAULT_TIMEOUT_MS)
+        );
+        handlers.signal?.addEventListener('abort', onAbort);
+
+        worker.onerror = (event) => {
+            event.preventDefault();
+            fail(new Error(event.message || 'Plugin script error'));
+        };
+        worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+            const msg = event.data;
+            switch (msg.type) {
+                case 'request':
+                    pluginHttpRequest(allowedHosts, msg.request)
+                        .then(data => worker.postMessage({ type: 'response', id: msg.id, data }))
+                        .catch(error => worker.postMessage({
+                            type: 'response',
+                            id: msg.id,
+                            error: error instanceof Error ? error.message : String(error)
+                        }));
+                    break;
+                case 'log':
+                    handlers.onLog?.(msg.message);
+                    break;
+                case 'manifest':
+                    cleanup();
+                    resolve(msg.manifest);
+                    break;
+                case 'result':
+                    cleanup();
+                    resolve(msg.records);
+                    break;
+                case 'error':
+                    fail(new Error(msg.error));
+                    break;
+            }
+        };
+
+        worker.postMessage(message);
+    });
+}
+
+/**
+ * Evaluate a plugin script and return the manifest it declares (unvalidated).
+ * Network access is denied while inspecting.
+ */
+export function inspectPluginSource(source: string): Promise<unknown> {
+    return runWorker(source, { type: 'inspect' }, [], {});
+}
+
+/**
+ * Run a plugin's fetch with the resolved config and return its raw records.
+ */
+export function runPluginInSandbox(
+    source: string,
+    allowedHosts: string[],
+    config: Record<string, unknown>,
+    handlers: PluginRunHandlers = {}
+): Promise<unknown> {
+    return runWorker(source, { type: 'run', config }, allowedHosts, handlers);
+}
@@ -0,0 +1,72 @@
+/**
+ * Sync cassettes
+ *
+ * Arms the next sync to record every HTTP response into a cassette file, or
+ * to replay a cassette instead of the network. A recorded cassette is what a
+ * user attaches to a sync bug report; replaying it reproduces the sync.
+ */
+
+import { Cassette, CassetteSession, startCassette } from '../api/utils/http-cassette';
+import { exportCassette } from '../exportService';
+
+export type ArmedSyncCassette = { mode: 'record' } | { mode: 'replay'; cassette: Cassette };
+
+/**
+ * Dispatched on window with the armed cassette (or null) as detail when it changes
+ */
+export const SYNC_CASSETTE_EVENT = 'sync-cassette-updated';
+
+let armed: ArmedSyncCassette | null = null;
+
+const notify = () => {
+    if (typeof window !== 'undefined') {
+        window.dispatchEvent(new CustomEvent(SYNC_CASSETTE_EVENT, { detail: armed }));
+    }
+};
+
+/**
+ * Record or replay the next sync; null disarms
+ */
+export function armSyncCassette(next: ArmedSyncCassette | null): void {
+    armed = next;
+    notify();
+}
+
+export function getArmedSyncCassette(): ArmedSyncCassette | null {
+    return armed;
+}
+
+/**
+ * Start the armed session, if any. Arming applies to one sync only.
+ */
+export function beginSyncCassette(onLog?: (message: string) => void): CassetteSession | null {
+    if (!armed) return null;
+    const next = armed;
+    armed = null;
+    notify();
+    try {
+        const session = next.mode === 'record'
+            ? startCassette({ mode: 'record', name: 'sync' })
+            : startCassette({ mode: 'replay', cassette: next.cassette });
+        onLog?.(next.mode === 'record'
+            ? '[Sync] Recording HTTP responses to a cassette'
+            : `[Sync] Replaying cassette "${next.cassette.name}" (${next.cassette.entries.length} responses) instead of the network`);
+        return session;
+    } catch (error) {
+        onLog?.(`[Sync] Cassette not started: ${error instanceof Error ? error.message : String(error)}`);
+        return null;
+    }
+}
+
+/**
+ * Stop the session; a recording is downloaded as a cassette file
+ */
+export function endSyncCassette(session: CassetteSession, onLog?: (message: string) => void): void {
+    const cassette = session.stop();
+    if (session.mode === 'record') {
+        exportCassette(cassette);
+        onLog?.(`[Sync] Recorded ${cassette.entries.length} HTTP responses to a cassette`);
+    } else if (session.misses.length > 0) {
+        onLog?.(`[Sync] Cassette had no response for ${session.misses.length} requests`);
+    }
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const metadata = new Map<string, string>();
+vi.mock('../storage', () => ({
+    loadMetadata: vi.fn(async (key: string) => metadata.get(key) ?? null),
+    saveMetadata: vi.fn(async (key: string, value: string) => { metadata.set(key, value); })
+}));
+
+import { orchestrateSync } from './SyncOrchestrator';
+import { loadFetcherRuns } from './FetcherHealth';
+import { withCassette } from '../../test/cassette';
+
+describe('orchestrateSync (replayed)', () => {
+    beforeEach(() => {
+        metadata.clear();
+    });
+
+    it('runs OpenModelDB and ModelScope end-to-end from a cassette', async () => {
+        const onLog = vi.fn();
+        const { result, misses } = await withCassette('sync-openmodeldb-modelscope', () => orchestrateSync({
+            dataSources: { openmodeldb: true, modelscope: true },
+            sources: ['openmodeldb', 'modelscope']
+        }, { onLog }));
+
+        expect(misses).toEqual([]);
+        const models = [...result.complete, ...result.flagged];
+        expect(models.map(m => m.id).sort()).toEqual([
+            'modelscope-Qwen/Qwen2.5-7B-Instruct',
+            'modelscope-iic/speech_paraformer-large_asr_nat-zh-cn-16k-common-vocab8404-pytorch',
+            'openmodeldb-1x-SkinContrast-SuperUltraCompact',
+            'openmodeldb-4x-UltraSharp'
+        ]);
+        expect(models.find(m => m.id === 'openmodeldb-4x-UltraSharp')).toMatchObject({
+            source: 'OpenModelDB',
+            provider: 'kim2091',
+            license: { type: 'Non-Commercial', commercial_use: false }
+        });
+        expect(models.find(m => m.id === 'modelscope-Qwen/Qwen2.5-7B-Instruct')?.repo)
+            .toBe('https://huggingface.co/Qwen/Qwen2.5-7B-Instruct');
+    });
+
+    it('records the replayed runs, including the file that failed', async () => {
+        await withCassette('sync-openmodeldb-modelscope', () => orchestrateSync({
+            dataSources: { openmodeldb: true, modelscope: true },
+            sources: ['openmodeldb', 'modelscope']
+        }));
+
+        const runs = await loadFetcherRuns();
+        expect(runs.openmodeldb[0]).toMatchObject({ ok: true, count: 2, errors: ['2x-AnimeJaNai-Strong: status 404'] });
+        expect(runs.modelscope[0]).toMatchObject({ ok: true, count: 2, errors: [] });
+
+        // A run with errors is not a success: it backs off instead
+        expect(Object.keys(JSON.parse(metadata.get('sourceLastSuccess')!))).toEqual(['modelscope']);
+        expect(JSON.parse(metadata.get('sourceFailures')!)).toEqual({ openmodeldb: { lastAttempt: expect.any(String), failures: 1 } });
+    });
+});
@@ -1,10 +1,18 @@
-import { Model } from "../../types";
+import { Model, RejectedRecord } from "../../types";
 import { SyncOptions, SyncCallbacks, SyncResult, Fetcher } from "./SyncTypes";
-import { FetcherRegistry } from "./FetcherRegistry";
+import { FetcherRegistry, fetcherRegistry } from "./FetcherRegistry";
+import { recordSourceFailure, recordSourceSuccess } from "./SyncSchedule";
+import { saveWatermark } from "./SyncWatermarks";
+import { InstalledPlugin, loadInstalledPlugins, registerPluginFetchers } from "./FetcherPlugins";
+import { registerCustomSourceFetchers } from "./CustomSources";
+import { IngestionOrigin, addToQuarantine, gateRecords } from "./IngestionGate";
+import { recordFetcherRun } from "./FetcherHealth";
+import { beginSyncCassette, endSyncCassette } from "./SyncCassette";
 import {
     huggingFaceFetcher,
     openModelDBFetcher,
     ollamaLibraryFetcher,
+    modelScopeFetcher,
     fetchArtificialAnalysisIndex,
     fetchCivitasBay,
     // Legacy imports referenced in adapters
@@ -16,6 +24,57 @@ import { runTranslation } from "./TranslationService";
 import { runSafetyCheck } from "./SafetyService";
 import { normalizeNameForMatch } from "../../utils/format";
 import { mergeRecords } from "../../utils/mergeLogic";
+import { stampProvenance } from "../../utils/provenance";
+import { applyFieldWinners, findDecision, isMarkedDistinct } from "../../utils/duplicates";
+import { createIdentityResolver } from "../../utils/identity";
+
+// Adapters for legacy fetchers (to be converted later)
+
+const aaFetcher: Fetcher = {
+    id: 'artificialAnalysis',
+    name: 'Artificial Analysis',
+    isEnabled: (opts) => opts.dataSources?.artificialanalysis === true,
+    defaultIntervalMinutes: 10080,
+    fetch: async (opts) => fetchArtificialAnalysisIndex(opts.artificialAnalysisApiKey)
+};
+
+const civitasFetcher: Fetcher = {
+    id: 'civitasBay',
+    name: 'CivitasBay',
+    isEnabled: (opts) => opts.dataSources?.civitasbay === true,
+    defaultIntervalMinutes: 10080,
+    fetch: async (opts, cb) => {
+        const civitasBayLogger = (msg: string) => {
+            cb?.onLog?.(msg);
+            cb?.onProgress?.({ current: 0, total: 0, source: 'CivitasBay', statusMessage: msg });
+        };
+        return fetchCivitasBay(opts.apiConfig, civitasBayLogger, cb?.onConfirmLLMCheck);
+    }
+};
+
+/**
+ * Returns the shared registry, registering the built-in fetchers on first use.
+ */
+export function getFetcherRegistry(): FetcherRegistry {
+    if (fetcherRegistry.getAll().length === 0) {
+        fetcherRegistry.register(huggingFaceFetcher);
+        fetcherRegistry.register(openModelDBFetcher);
+        fetcherRegistry.register(ollamaLibraryFetcher);
+        fetcherRegistry.register(modelScopeFetcher);
+        fetcherRegistry.register(aaFetcher);
+        fetcherRegistry.register(civitasFetcher);
+    }
+    return fetcherRegistry;
+}
+
+/**
+ * Load installed plugins and (re)register their fetchers in the shared registry
+ */
+export async function loadPluginFetchers(): Promise<InstalledPlugin[]> {
+    const plugins = await loadInstalledPlugins();
+    registerPluginFetchers(getFetcherRegistry(), plugins);
+    return plugins;
+}
 
 /**
  * Orchestrates the synchronization process across multiple sources.
@@ -33,51 +92,17 @@ export async function orchestrateSync(
         }
     };
 
+    const cassette = beginSyncCassette(onLog);
     try {
-        // Initialize Registry
-        const registry = new FetcherRegistry();
-
-        // Register Standard Fetchers
-        registry.register(huggingFaceFetcher);
-        registry.register(openModelDBFetcher);
-        registry.register(ollamaLibraryFetcher);
-
-        // Register Adapters for Legacy Fetchers (to be converted later)
-
-        // Artificial Analysis Adapter
-        const aaFetcher: Fetcher = {
-            id: 'artificialAnalysis',
-            name: 'Artificial Analysis',
-            isEnabled: (opts) => opts.dataSources?.artificialanalysis === true,
-            fetch: async (opts) => fetchArtificialAnalysisIndex(opts.artificialAnalysisApiKey)
-        };
-        registry.register(aaFetcher);
-
-        // CivitasBay Adapter
-        const civitasFetcher: Fetcher = {
-            id: 'civitasBay',
-            name: 'CivitasBay',
-            isEnabled: (opts) => opts.dataSources?.civitasbay === true,
-            fetch: async (opts, cb) => {
-                const civitasBayLogger = (msg: string) => {
-                    if (onLog) onLog(msg);
-                    if (onProgress) {
-                        onProgress({
-                            current: completedSources, // Closure capture of completedSources
-                            total: totalSources,
-                            source: 'CivitasBay',
-                            statusMessage: msg
-                        });
-                    }
-                };
-                return fetchCivitasBay(opts.apiConfig, civitasBayLogger, cb?.onConfirmLLMCheck);
-            }
-        };
-        registry.register(civitasFetcher);
+        await loadPluginFetchers();
+        const registry = getFetcherRegistry();
+        registerCustomSourceFetchers(registry, options.customSources || []);
 
         // Calculate Workload
         const allFetchers = registry.getAll();
-        const enabledFetchers = allFetchers.filter(f => f.isEnabled(options));
+        const enabledFetchers = allFetchers.filter(f =>
+            f.isEnabled(options) && (!options.sources || options.sources.includes(f.id))
+        );
         const totalSources = enabledFetchers.length;
         let completedSources = 0;
 
@@ -86,6 +111,16 @@ export async function orchestrateSync(
         }
 
         const activeSources = new Set<string>();
+        const rejected: RejectedRecord[] = [];
+
+        // Schema-check a batch; unrepairable records go to quarantine instead of the DB
+        const gate = (records: Model[], origin: IngestionOrigin): Model[] => {
+            const result = gateRecords(records, origin);
+            rejected.push(...result.rejected);
+            if (onLog && result.repaired > 0) onLog(`${origin.source}: Repaired ${result.repaired} malformed records`);
+            if (onLog && result.rejected.length > 0) onLog(`${origin.source}: Quarantined ${result.rejected.length} records that failed validation`);
+            return result.accepted;
+        };
 
         const updateProgress = (completed: boolean, name?: string, found?: number) => {
             if (completed) completedSources++;
@@ -114,9 +149,49 @@ export async function orchestrateSync(
             if (onLog) onLog(`Fetching from ${name}...`);
             updateProgressState();
 
+            // Fetchers report their own status; counts always reflect the source workload
+            const fetcherCallbacks: SyncCallbacks = {
+                ...callbacks,
+                onProgress: (progress) => onProgress?.({ ...progress, current: completedSources, total: totalSources })
+            };
+
+            const startedAt = new Date().toISOString();
+            const started = Date.now();
             try {
-                const res = await fetcher.fetch(options, callbacks);
+                const res = await fetcher.fetch(options, fetcherCallbacks);
+                const durationMs = Date.now() - started;
                 activeSources.delete(name);
+                // Only a clean run counts as a success and may advance the watermark
+                const failed = !res || (res.errors?.length ?? 0) > 0 || (res.httpStatus ?? 0) >= 400;
+                if (failed) {
+                    await recordSourceFailure(fetcher.id);
+                } else {
+                    await recordSourceSuccess(fetcher.id);
+                    if (res.watermark) await saveWatermark(fetcher.id, res.watermark);
+                }
+
+                // Attribute every field of the fetched records to this source
+                const rejectedBefore = rejected.length;
+                if (res && Array.isArray(res.complete)) {
+                    const fetchedAt = new Date().toISOString();
+                    const origin = { source: name, kind: 'fetcher' as const, fetched_at: fetchedAt };
+                    res.complete = gate(res.complete, origin).map(m => stampProvenance(m, origin));
+                    res.flagged = gate(res.flagged || [], origin).map(m => stampProvenance(m, origin));
+                }
+
+                await recordFetcherRun({
+                    fetcherId: fetcher.id,
+                    name,
+                    started_at: startedAt,
+                    duration_ms: durationMs,
+                    ok: true,
+                    http_status: res?.httpStatus ?? null,
+                    count: res?.complete?.length ?? 0,
+                    flagged: res?.flagged?.length ?? 0,
+                    rejected: rejected.length - rejectedBefore,
+                    incremental: res?.incremental,
+                    errors: res?.errors || []
+                });
 
                 // Progressive display
                 if (res && typeof res === 'object' && 'complete' in res && Array.isArray(res.complete)) {
@@ -135,9 +210,22 @@ export async function orchestrateSync(
             } catch (error) {
                 activeSources.delete(name);
                 console.error(`Error fetching from ${name}:`, error);
+                const message = error instanceof Error ? error.message : String(error);
                 if (onLog) {
-                    onLog(`${name}: Failed - ${error instanceof Error ? error.message : String(error)}`);
+                    onLog(`${name}: Failed - ${message}`);
                 }
+                await recordFetcherRun({
+                    fetcherId: fetcher.id,
+                    name,
+                    started_at: startedAt,
+                    duration_ms: Date.now() - started,
+                    ok: false,
+                    count: 0,
+                    flagged: 0,
+                    rejected: 0,
+                    errors: [message]
+                });
+                await recordSourceFailure(fetcher.id);
                 updateProgress(true, name, 0);
                 return { complete: [], flagged: [] };
             }
@@ -154,10 +242,12 @@ export async function orchestrateSync(
         const initialSafetyFlagged = results.map(r => r.flagged || []).flat();
 
         // 2. Run LLM Discovery (API & Local)
-        // This adds to the pool before we deduplicate and safety-check
-        const discoveredModels = await runLLMDiscovery(options, callbacks);
+        // This adds to the pool before we deduplicate and safety-check.
+        // Scheduled runs limited to specific sources skip it.
+        const discoveredModels = options.sources ? [] : await runLLMDiscovery(options, callbacks);
         if (discoveredModels.length > 0) {
-            allModels = allModels.concat(discoveredModels);
+            const origin = { source: 'LLM Discovery', kind: 'llm' as const };
+            allModels = allModels.concat(gate(discoveredModels, origin).map(m => stampProvenance(m, origin)));
         }
 
         checkAborted();
@@ -182,7 +272,7 @@ export async function orchestrateSync(
         }
 
         const beforeCount = allModels.length;
-        let allComplete = deduplicateModels(allModels, options.ignoredModels);
+        let allComplete = deduplicateModels(allModels, options);
         const afterCount = allComplete.length;
         const consolidated = beforeCount - afterCount;
 
@@ -215,10 +305,13 @@ export async function orchestrateSync(
 
         const allFlagged = results.map(r => r.flagged || []).flat().concat(safetyFlagged);
 
+        if (rejected.length > 0) await addToQuarantine(rejected);
+
         return {
             complete: allComplete,
             flagged: allFlagged,
-            duplicates: allModels.length - allComplete.length
+            duplicates: allModels.length - allComplete.length,
+            rejected: rejected.length
         };
     } catch (error) {
         console.error("Error syncing models:", error);
@@ -226,28 +319,40 @@ export async function orchestrateSync(
             onLog(`Error syncing models: ${error instanceof Error ? error.message : String(error)}`);
         }
         throw error;
+    } finally {
+        if (cassette) endSyncCassette(cassette, onLog);
     }
 }
 
 /**
  * Helper to deduplicate and merge models from different sources
  */
-function deduplicateModels(models: Model[], ignoredModels?: string[]): Model[] {
+function deduplicateModels(models: Model[], options: Pick<SyncOptions, 'mergePolicies' | 'duplicateDecisions' | 'identityAliases'>): Model[] {
+    const { mergePolicies, duplicateDecisions: decisions } = options;
+    const resolveIdentity = createIdentityResolver(options.identityAliases);
     const map = new Map<string, Model>();
 
     for (const model of models) {
+        // Aliased records are keyed by their canonical id so every source lands on one row
+        const canonical = resolveIdentity?.(model);
         // Create an extremely robust key for fuzzy matching using centralized normalization
-        const key = normalizeNameForMatch(model.name);
+        let key = canonical ? `@${canonical}` : normalizeNameForMatch(model.name);
 
         if (!key) {
             map.set(model.id, model); // Fallback to ID if name normalization fails
             continue;
         }
 
+        // Same-name records reviewed as different models stay separate
+        if (map.has(key) && isMarkedDistinct(decisions, map.get(key)!.id, model.id)) {
+            key = `${key}#${model.id}`;
+        }
+
         if (map.has(key)) {
             const existing = map.get(key)!;
             console.log(`[Sync] Merging duplicate: "${model.name}" -> "${existing.name}" (Key: ${key})`);
-            map.set(key, mergeRecords(existing, model));
+            const winners = findDecision(decisions, existing.id, model.id)?.winners;
+            map.set(key, applyFieldWinners(mergeRecords(existing, model, mergePolicies), [existing, model], winners));
         } else {
             map.set(key, { ...model });
         }
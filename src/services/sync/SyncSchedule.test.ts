@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { failureBackoffMs, findDueSources, resolveInterval } from './SyncSchedule';
+import { Fetcher } from './SyncTypes';
+
+const fetcher = (id: string, defaultIntervalMinutes?: number): Fetcher => ({
+    id,
+    name: id,
+    defaultIntervalMinutes,
+    isEnabled: (opts) => (opts.dataSources as Record<string, boolean | undefined>)[id] === true,
+    fetch: async () => ({ complete: [], flagged: [] })
+});
+
+const HOUR = 60 * 60 * 1000;
+const now = Date.parse('2025-06-01T12:00:00.000Z');
+const ago = (hours: number) => new Date(now - hours * HOUR).toISOString();
+
+const fetchers = [fetcher('huggingface', 60), fetcher('ollamaLibrary', 1440), fetcher('openmodeldb')];
+const options = { dataSources: { huggingface: true, ollamaLibrary: true, openmodeldb: true } };
+
+describe('resolveInterval', () => {
+    it('should prefer the user override over the fetcher default', () => {
+        expect(resolveInterval(fetchers[0], { huggingface: 360 })).toBe(360);
+        expect(resolveInterval(fetchers[0], {})).toBe(60);
+        expect(resolveInterval(fetchers[2])).toBe(0);
+    });
+});
+
+describe('findDueSources', () => {
+    it('should return enabled sources whose cadence has elapsed', () => {
+        const due = findDueSources(fetchers, options, undefined, { huggingface: ago(2), ollamaLibrary: ago(2) }, now);
+        expect(due).toEqual(['huggingface']);
+    });
+
+    it('should treat never-synced sources as due and skip manual-only ones', () => {
+        expect(findDueSources(fetchers, options, undefined, {}, now)).toEqual(['huggingface', 'ollamaLibrary']);
+        expect(findDueSources(fetchers, options, { huggingface: 0 }, {}, now)).toEqual(['ollamaLibrary']);
+    });
+
+    it('should skip disabled sources', () => {
+        const due = findDueSources(fetchers, { dataSources: { huggingface: false, ollamaLibrary: true } }, undefined, {}, now);
+        expect(due).toEqual(['ollamaLibrary']);
+    });
+
+    it('should back off sources that keep failing', () => {
+        const failures = { huggingface: { lastAttempt: ago(0.05), failures: 1 }, ollamaLibrary: { lastAttempt: ago(0.5), failures: 3 } };
+        expect(findDueSources(fetchers, options, undefined, {}, now, failures)).toEqual(['ollamaLibrary']);
+        expect(findDueSources(fetchers, options, undefined, {}, now, { ollamaLibrary: { lastAttempt: ago(0.1), failures: 3 } })).toEqual(['huggingface']);
+        expect(failureBackoffMs(1)).toBe(5 * 60 * 1000);
+        expect(failureBackoffMs(20)).toBe(24 * HOUR);
+    });
+});
@@ -0,0 +1,140 @@
+import { Fetcher, SyncOptions } from "./SyncTypes";
+import { loadMetadata, saveMetadata } from "../storage";
+import { loggers } from "../../utils/logger";
+
+const logger = loggers.sync;
+
+/**
+ * Metadata key holding the last successful fetch time per fetcher id
+ */
+const LAST_SUCCESS_KEY = 'sourceLastSuccess';
+
+/**
+ * Metadata key holding consecutive failures per fetcher id
+ */
+const FAILURES_KEY = 'sourceFailures';
+
+/** First retry delay after a failed fetch; doubles per consecutive failure */
+const FAILURE_BACKOFF_BASE_MS = 5 * 60 * 1000;
+const FAILURE_BACKOFF_MAX_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Selectable background sync cadences in minutes (0 = manual only)
+ */
+export const SCHEDULE_INTERVALS = [0, 60, 360, 1440, 10080] as const;
+
+/**
+ * Last successful fetch (ISO timestamp) per fetcher id
+ */
+export type SourceLastSuccess = Record<string, string>;
+
+/**
+ * Last failed attempt (ISO timestamp) and consecutive failure count per fetcher id
+ */
+export type SourceFailures = Record<string, { lastAttempt: string; failures: number }>;
+
+/**
+ * Delay before a source that failed `failures` times in a row is retried
+ */
+export function failureBackoffMs(failures: number): number {
+    return Math.min(FAILURE_BACKOFF_BASE_MS * 2 ** Math.max(0, failures - 1), FAILURE_BACKOFF_MAX_MS);
+}
+
+/**
+ * Resolves a fetcher's cadence in minutes: the user override if set,
+ * otherwise the fetcher's default. 0 means the source only runs on a full sync.
+ */
+export function resolveInterval(fetcher: Fetcher, intervals?: Record<string, number>): number {
+    return intervals?.[fetcher.id] ?? fetcher.defaultIntervalMinutes ?? 0;
+}
+
+/**
+ * Returns the ids of enabled fetchers whose cadence has elapsed since their
+ * last successful fetch. Sources that never succeeded are due immediately,
+ * unless they are backing off after failed attempts.
+ */
+export function findDueSources(
+    fetchers: Fetcher[],
+    options: SyncOptions,
+    intervals: Record<string, number> | undefined,
+    lastSuccess: SourceLastSuccess,
+    now = Date.now(),
+    failures: SourceFailures = {}
+): string[] {
+    return fetchers
+        .filter(f => f.isEnabled(options))
+        .filter(f => {
+            const interval = resolveInterval(f, intervals);
+            if (interval <= 0) return false;
+            const failure = failures[f.id];
+            if (failure && now - new Date(failure.lastAttempt).getTime() < failureBackoffMs(failure.failures)) return false;
+            const last = lastSuccess[f.id] ? new Date(lastSuccess[f.id]).getTime() : NaN;
+            return Number.isNaN(last) || now - last >= interval * 60 * 1000;
+        })
+        .map(f => f.id);
+}
+
+/**
+ * Load last-success timestamps from metadata storage
+ */
+export async function loadSourceLastSuccess(): Promise<SourceLastSuccess> {
+    try {
+        const raw = await loadMetadata(LAST_SUCCESS_KEY);
+        return raw ? JSON.parse(raw) : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Load consecutive-failure records from metadata storage
+ */
+export async function loadSourceFailures(): Promise<SourceFailures> {
+    try {
+        const raw = await loadMetadata(FAILURES_KEY);
+        return raw ? JSON.parse(raw) : {};
+    } catch {
+        return {};
+    }
+}
+
+// Parallel fetchers finish at the same time; serialize the read-modify-write
+let pending: Promise<void> = Promise.resolve();
+
+/**
+ * Record a successful fetch for a source and clear its failures.
+ * Failures to persist are logged and ignored.
+ */
+export function recordSourceSuccess(fetcherId: string, at = new Date().toISOString()): Promise<void> {
+    pending = pending.then(async () => {
+        try {
+            const current = await loadSourceLastSuccess();
+            await saveMetadata(LAST_SUCCESS_KEY, JSON.stringify({ ...current, [fetcherId]: at }));
+            const failures = await loadSourceFailures();
+            if (failures[fetcherId]) {
+                delete failures[fetcherId];
+                await saveMetadata(FAILURES_KEY, JSON.stringify(failures));
+            }
+        } catch (error) {
+            logger.warn(`Failed to record last success for ${fetcherId}:`, error);
+        }
+    });
+    return pending;
+}
+
+/**
+ * Record a failed fetch (a thrown error or a result with errors) so scheduled
+ * syncs back off instead of retrying the source on every check.
+ */
+export function recordSourceFailure(fetcherId: string, at = new Date().toISOString()): Promise<void> {
+    pending = pending.then(async () => {
+        try {
+            const failures = await loadSourceFailures();
+            const failuresSoFar = failures[fetcherId]?.failures ?? 0;
+            await saveMetadata(FAILURES_KEY, JSON.stringify({ ...failures, [fetcherId]: { lastAttempt: at, failures: failuresSoFar + 1 } }));
+        } catch (error) {
+            logger.warn(`Failed to record failure for ${fetcherId}:`, error);
+        }
+    });
+    return pending;
+}
@@ -1,4 +1,4 @@
-import { Model, ApiDir } from "../../types";
+import { Model, ApiDir, MergePolicies, DuplicateDecision, IdentityAlias, PluginSourceSettings, CustomSourceConfig } from "../../types";
 
 /**
  * Configuration options for synchronization operations
@@ -11,6 +11,7 @@ export interface SyncOptions {
         openmodeldb?: boolean;
         civitasbay?: boolean;
         ollamaLibrary?: boolean;
+        modelscope?: boolean;
         apiDiscovery?: boolean;
         localDiscovery?: boolean;
     };
@@ -22,6 +23,20 @@ export interface SyncOptions {
     preferredModelProvider?: string | null;
     systemPrompt?: string;
     ignoredModels?: string[];
+    /** Per-field merge policies used when consolidating duplicates */
+    mergePolicies?: MergePolicies;
+    /** Remembered duplicate-review decisions (never/always merge a pair) */
+    duplicateDecisions?: DuplicateDecision[];
+    /** Identity alias table mapping external ids to canonical model ids */
+    identityAliases?: IdentityAlias[];
+    /** Only run these fetcher ids (scheduled incremental runs); LLM discovery is skipped */
+    sources?: string[];
+    /** Ignore stored watermarks and refetch everything from incremental sources */
+    fullRebuild?: boolean;
+    /** Enabled state and config per installed fetcher plugin id */
+    plugins?: Record<string, PluginSourceSettings>;
+    /** Mapping-defined JSON/REST sources */
+    customSources?: CustomSourceConfig[];
 }
 
 /**
@@ -51,6 +66,16 @@ export interface SyncResult {
     /** Models that were flagged during sync (e.g., NSFW content) */
     flagged: Model[];
     duplicates?: number;
+    /** Records that failed schema validation and were quarantined */
+    rejected?: number;
+    /** Incremental-fetch cursor to persist for the next run (e.g. newest lastModified seen) */
+    watermark?: string;
+    /** Only changes since the stored watermark were fetched; the count is not comparable with full runs */
+    incremental?: boolean;
+    /** HTTP status of the request that failed, when the fetcher recovered instead of throwing */
+    httpStatus?: number;
+    /** Errors the fetcher recovered from (failed pages, fallbacks); shown on the health screen */
+    errors?: string[];
 }
 
 /**
@@ -81,6 +106,8 @@ export interface Fetcher {
     name: string;
     /** Check if this source is enabled in the current options */
     isEnabled: (options: SyncOptions) => boolean;
+    /** Default background sync cadence in minutes (0 or unset = manual only) */
+    defaultIntervalMinutes?: number;
     /** Execute the fetch operation */
     fetch: (options: SyncOptions, callbacks?: SyncCallbacks) => Promise<SyncResult>;
 }
@@ -0,0 +1,45 @@
+import { loadMetadata, saveMetadata } from "../storage";
+import { loggers } from "../../utils/logger";
+
+const logger = loggers.sync;
+
+/**
+ * Metadata key holding the incremental-fetch watermark per fetcher id
+ */
+const WATERMARKS_KEY = 'sourceWatermarks';
+
+async function loadAll(): Promise<Record<string, string>> {
+    try {
+        const raw = await loadMetadata(WATERMARKS_KEY);
+        return raw ? JSON.parse(raw) : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Load the watermark a fetcher stored after its last successful run
+ * (e.g. the newest `lastModified` it has seen). Null when never stored.
+ */
+export async function loadWatermark(fetcherId: string): Promise<string | null> {
+    return (await loadAll())[fetcherId] ?? null;
+}
+
+// Parallel fetchers finish at the same time; serialize the read-modify-write
+let pending: Promise<void> = Promise.resolve();
+
+/**
+ * Store a fetcher's watermark. Failures to persist are logged and ignored;
+ * the next run then falls back to the previous watermark.
+ */
+export function saveWatermark(fetcherId: string, value: string): Promise<void> {
+    pending = pending.then(async () => {
+        try {
+            const current = await loadAll();
+            await saveMetadata(WATERMARKS_KEY, JSON.stringify({ ...current, [fetcherId]: value }));
+        } catch (error) {
+            logger.warn(`Failed to save watermark for ${fetcherId}:`, error);
+        }
+    });
+    return pending;
+}
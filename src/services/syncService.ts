@@ -9,7 +9,47 @@
 import { SyncOptions, SyncCallbacks, SyncResult } from "./sync/SyncTypes";
 import { orchestrateSync } from "./sync/SyncOrchestrator";
 
-export type { SyncOptions, SyncCallbacks, SyncResult, SyncProgress } from "./sync/SyncTypes";
+export type { SyncOptions, SyncCallbacks, SyncResult, SyncProgress, Fetcher } from "./sync/SyncTypes";
+export { getFetcherRegistry, loadPluginFetchers } from "./sync/SyncOrchestrator";
+export { installPlugin, uninstallPlugin, resolvePluginConfig, pluginFetcherId } from "./sync/FetcherPlugins";
+export type { InstalledPlugin, FetcherPluginManifest, PluginConfigField } from "./sync/FetcherPlugins";
+export {
+    CUSTOM_SOURCE_FIELDS,
+    createCustomSourceId,
+    fetchCustomSource,
+    registerCustomSourceFetchers,
+    validateCustomSource
+} from "./sync/CustomSources";
+export { SCHEDULE_INTERVALS, findDueSources, resolveInterval, loadSourceLastSuccess, loadSourceFailures } from "./sync/SyncSchedule";
+export type { SourceLastSuccess } from "./sync/SyncSchedule";
+export {
+    QUARANTINE_EVENT,
+    addToQuarantine,
+    clearQuarantine,
+    gateRecords,
+    loadQuarantine,
+    removeFromQuarantine
+} from "./sync/IngestionGate";
+export {
+    DEFAULT_LOCAL_RUNTIMES,
+    LOCAL_INVENTORY_EVENT,
+    matchInstalledModels,
+    probeLocalRuntimes
+} from "./sync/LocalInventory";
+export {
+    FETCHER_HEALTH_EVENT,
+    clearFetcherRuns,
+    detectCountDrop,
+    loadFetcherRuns,
+    summarizeFetcherHealth
+} from "./sync/FetcherHealth";
+export type { FetcherHealthStatus, FetcherHealthSummary } from "./sync/FetcherHealth";
+export {
+    SYNC_CASSETTE_EVENT,
+    armSyncCassette,
+    getArmedSyncCassette
+} from "./sync/SyncCassette";
+export type { ArmedSyncCassette } from "./sync/SyncCassette";
 
 /**
  * Synchronize all enabled data sources and return combined results.
@@ -0,0 +1,34 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { startCassette, parseCassette } from '../services/api/utils/http-cassette';
+
+const CASSETTE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'cassettes');
+
+/**
+ * Run `fn` against the cassette fixture `src/test/cassettes/<name>.json`.
+ *
+ * Replays by default, so tests never touch the network. With
+ * CASSETTE_RECORD=1 the requests go to the real services and the fixture is
+ * (re)written:
+ *
+ *   CASSETTE_RECORD=1 npx vitest run src/services/sync/SyncOrchestrator.test.ts
+ */
+export async function withCassette<T>(name: string, fn: () => Promise<T>): Promise<{ result: T; misses: string[] }> {
+    const file = path.join(CASSETTE_DIR, `${name}.json`);
+    const recording = process.env.CASSETTE_RECORD === '1';
+    if (!recording && !fs.existsSync(file)) {
+        throw new Error(`Cassette ${name} not found; record it with CASSETTE_RECORD=1`);
+    }
+
+    const session = recording
+        ? startCassette({ mode: 'record', name, resolveProxyPaths: true })
+        : startCassette({ mode: 'replay', cassette: parseCassette(fs.readFileSync(file, 'utf8')) });
+    try {
+        const result = await fn();
+        return { result, misses: [...session.misses] };
+    } finally {
+        const cassette = session.stop();
+        if (recording) fs.writeFileSync(file, `${JSON.stringify(cassette, null, 2)}\n`);
+    }
+}
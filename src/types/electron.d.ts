@@ -1,4 +1,29 @@
 
+interface ProxyRequestOptions {
+    url: string;
+    method?: string;
+    headers?: any;
+    body?: any;
+    /** Lets cancelProxyRequest abort the request */
+    requestId?: string;
+    /** Overrides the policy's default timeout (capped at 5 minutes) */
+    timeoutMs?: number;
+}
+
+interface ProxyRequestResult {
+    success: boolean;
+    /** HTTP status; 0 when the proxy itself failed (see code) */
+    status?: number;
+    statusText?: string;
+    headers?: Record<string, string>;
+    /** Parsed JSON or text; omitted when the body was streamed */
+    data?: any;
+    /** Failure reason, or the response body for HTTP errors */
+    error?: string;
+    code?: 'blocked' | 'timeout' | 'aborted' | 'too_large' | 'network';
+    bytes?: number;
+}
+
 interface ElectronAPI {
     getAppVersion: () => Promise<string>;
     getPlatform: () => Promise<string>;
@@ -11,7 +36,8 @@ interface ElectronAPI {
     isElectron: boolean;
     encryptString: (text: string) => Promise<string | null>;
     decryptString: (encryptedHex: string) => Promise<string | null>;
-    proxyRequest: (options: { url: string; method?: string; headers?: any; body?: any }) => Promise<{ success: boolean; data?: any; error?: string }>;
+    proxyRequest: (options: ProxyRequestOptions, onChunk?: (chunk: string) => void) => Promise<ProxyRequestResult>;
+    cancelProxyRequest?: (requestId: string) => void;
     proxyImage: (imageUrl: string) => Promise<{ success: boolean; dataUrl?: string; error?: string }>;
     minimize: () => void;
     maximize: () => void;
@@ -71,11 +71,86 @@ export type BenchmarkEntry = {
   source?: string;
 };
 
+/**
+ * A downloadable build of a model, e.g. an Ollama tag or GGUF file
+ */
+export type ModelVariant = {
+  name: string;
+  quantization?: string | null;
+  size_bytes?: number | null;
+  parameters?: string | null;
+  context_length?: number | null;
+  format?: string | null;
+};
+
+/**
+ * How a model derives from its base model(s)
+ */
+export type LineageRelation = "finetune" | "adapter" | "quantized" | "merge";
+
+/**
+ * Base models a model was derived from (Hugging Face repo ids)
+ */
+export type ModelLineage = {
+  base_models: string[];
+  relation?: LineageRelation;
+};
+
 /**
  * Analytics data (flexible key-value pairs)
  */
 export type Analytics = Record<string, number | string>;
 
+/**
+ * Origin category of a field value
+ */
+export type ProvenanceKind = "fetcher" | "llm" | "import" | "manual";
+
+/**
+ * Where and when a single field value was obtained
+ */
+export type FieldProvenance = {
+  source: string;
+  fetched_at: string;
+  kind: ProvenanceKind;
+};
+
+/**
+ * Model fields that carry provenance
+ */
+export const PROVENANCE_FIELDS = [
+  "name",
+  "description",
+  "provider",
+  "domain",
+  "url",
+  "repo",
+  "license",
+  "pricing",
+  "release_date",
+  "updated_at",
+  "tags",
+  "parameters",
+  "context_window",
+  "indemnity",
+  "data_provenance",
+  "usage_restrictions",
+  "hosting",
+  "downloads",
+  "benchmarks",
+  "lineage",
+  "variants",
+  "analytics",
+  "images"
+] as const;
+
+export type ProvenanceField = typeof PROVENANCE_FIELDS[number];
+
+/**
+ * Per-field provenance map
+ */
+export type ModelProvenance = Partial<Record<ProvenanceField, FieldProvenance>>;
+
 /**
  * Complete AI Model definition
  */
@@ -101,6 +176,8 @@ export type Model = {
   hosting: Hosting;
   downloads?: number | null;
   benchmarks?: BenchmarkEntry[];
+  lineage?: ModelLineage;
+  variants?: ModelVariant[];
   analytics?: Analytics;
   // User-managed flags
   isFavorite?: boolean;
@@ -109,6 +186,293 @@ export type Model = {
   images?: string[];
   links?: { label: string; url: string }[];
   source_stats?: Record<string, { downloads?: number; updated_at?: string }>;
+  provenance?: ModelProvenance;
+};
+
+// Merge Policy Types
+
+/**
+ * How a field is resolved when two records describing the same model are merged.
+ * - default: built-in V2 rule (earliest release wins, arrays union, downloads summed)
+ * - newest: value from the most recently fetched/updated record wins
+ * - preferSource: value from the first listed source that provides one wins
+ * - union: arrays are combined without duplicates
+ * - max: largest number / latest date wins
+ */
+export type MergeStrategy = "default" | "newest" | "preferSource" | "union" | "max";
+
+/**
+ * Fields that accept a configurable merge policy
+ */
+export const MERGE_POLICY_FIELDS = [
+  "description",
+  "provider",
+  "parameters",
+  "context_window",
+  "license",
+  "pricing",
+  "release_date",
+  "tags",
+  "usage_restrictions",
+  "benchmarks",
+  "downloads"
+] as const;
+
+export type MergePolicyField = typeof MERGE_POLICY_FIELDS[number];
+
+/**
+ * Merge policy for a single field
+ */
+export type FieldMergePolicy = {
+  strategy: MergeStrategy;
+  /** Ordered source names for the preferSource strategy */
+  sources?: string[];
+  /** Never overwrite a value whose provenance is a manual edit */
+  keepManual?: boolean;
+};
+
+/**
+ * Per-field merge policies
+ */
+export type MergePolicies = Partial<Record<MergePolicyField, FieldMergePolicy>>;
+
+// Duplicate Resolution Types
+
+/**
+ * Rule that identified two records as the same model.
+ * `decision` means the pair was confirmed as a duplicate in the review workbench.
+ */
+export type DuplicateMatchRule = "alias" | "id" | "repo" | "url" | "name" | "decision";
+
+/**
+ * Result of matching an incoming record against existing ones
+ */
+export type DuplicateMatch = {
+  index: number;
+  rule: DuplicateMatchRule;
+  /** 0..1, how certain the rule is that both records are the same model */
+  confidence: number;
+};
+
+/**
+ * Fields whose winning value can be picked per duplicate pair
+ */
+export const DUPLICATE_REVIEW_FIELDS = ["name", ...MERGE_POLICY_FIELDS] as const;
+
+export type DuplicateReviewField = typeof DUPLICATE_REVIEW_FIELDS[number];
+
+/**
+ * Maps a field to the id of the record whose value should win
+ */
+export type DuplicateFieldWinners = Partial<Record<DuplicateReviewField, string>>;
+
+/**
+ * A remembered review decision for a pair of model ids
+ */
+export type DuplicateDecision = {
+  ids: [string, string];
+  verdict: "duplicate" | "distinct";
+  winners?: DuplicateFieldWinners;
+  decided_at: string;
+};
+
+/**
+ * Group of records in the database that look like the same model
+ */
+export type DuplicateCluster = {
+  key: string;
+  models: Model[];
+  /** Rule of the weakest link in the cluster */
+  rule: DuplicateMatchRule;
+  /** Confidence of the weakest link in the cluster */
+  confidence: number;
+};
+
+/**
+ * Record of an automatic merge, kept so it can be reviewed or undone
+ */
+export type MergeEvent = {
+  /** Id of the record that absorbed the incoming one */
+  merged_id: string;
+  /** Existing record before the merge */
+  existing: Model;
+  /** Incoming record as fetched/imported */
+  incoming: Model;
+  rule: DuplicateMatchRule;
+  confidence: number;
+  merged_at: string;
+};
+
+// Identity Alias Types
+
+/**
+ * Kinds of external identifiers that can be mapped to a canonical model id
+ */
+export const EXTERNAL_ID_KINDS = ["huggingface", "civitai", "ollama", "openrouter"] as const;
+
+export type ExternalIdKind = typeof EXTERNAL_ID_KINDS[number];
+
+/**
+ * Maps an external identifier (HF repo, Civitai model id, Ollama tag,
+ * OpenRouter slug) to the canonical model id it belongs to.
+ * Records resolving to the same canonical id always merge; records resolving
+ * to different canonical ids never merge.
+ */
+export type IdentityAlias = {
+  kind: ExternalIdKind;
+  external_id: string;
+  canonical_id: string;
+  created_at: string;
+};
+
+// Sync History Types
+
+/**
+ * Retention policy for sync history snapshots. A limit of 0 disables it.
+ * Pinned snapshots and the newest snapshot are never pruned.
+ */
+export type SnapshotRetention = {
+  maxSnapshots: number;
+  maxAgeDays: number;
+  maxSizeMB: number;
+};
+
+// Fetcher Plugin Types
+
+/**
+ * Per-plugin user settings: whether the source is synced and the values
+ * entered for the fields declared in the plugin's config schema.
+ */
+export type PluginSourceSettings = {
+  enabled: boolean;
+  config: Record<string, string | number | boolean>;
+};
+
+// Custom Source Types
+
+/**
+ * How a custom JSON source pages through results. `param` carries the page
+ * number, offset or cursor; a cursor that is an absolute URL is requested as-is.
+ */
+export type CustomSourcePagination = {
+  style: 'none' | 'page' | 'offset' | 'cursor';
+  param?: string;
+  sizeParam?: string;
+  pageSize?: number;
+  /** First page number for page style (default 1) */
+  startPage?: number;
+  /** JSONPath to the next cursor in each response (cursor style) */
+  cursorPath?: string;
+  /** Stop after this many requests (default 10) */
+  maxPages?: number;
+};
+
+/**
+ * Model fields a custom source can map from its records
+ */
+export type CustomSourceField =
+  | 'id' | 'name' | 'provider' | 'domain' | 'license' | 'commercial' | 'parameters'
+  | 'context_window' | 'release_date' | 'updated_at' | 'url' | 'repo' | 'tags'
+  | 'description' | 'pricing';
+
+/**
+ * A JSON/REST registry synced through a field mapping instead of code
+ */
+export type CustomSourceConfig = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  url: string;
+  /** JSONPath to the record array in each response ('$' when the response is the array) */
+  itemsPath: string;
+  pagination: CustomSourcePagination;
+  auth?: { header: string; value: string };
+  /** JSONPath per model field, evaluated against each record */
+  mapping: Partial<Record<CustomSourceField, string>>;
+  /** Raw value (case-insensitive) to replacement, applied before normalization */
+  domainMap?: Record<string, string>;
+  licenseMap?: Record<string, string>;
+};
+
+// Local Runtime Types
+
+/**
+ * API a local runtime speaks: Ollama's /api/tags or the OpenAI-compatible
+ * /v1/models served by LM Studio, llama.cpp, vLLM and others
+ */
+export type LocalRuntimeKind = 'ollama' | 'openai';
+
+/**
+ * A local inference server to probe for installed models
+ */
+export type LocalRuntimeConfig = {
+  id: string;
+  name: string;
+  kind: LocalRuntimeKind;
+  baseUrl: string;
+  enabled: boolean;
+};
+
+/**
+ * A model a local runtime reports as installed or loadable
+ */
+export type InstalledModel = {
+  runtimeId: string;
+  runtime: string;
+  /** Name as the runtime reports it, e.g. "llama3.1:8b" or "lmstudio-community/Qwen2.5-7B-Instruct-GGUF" */
+  name: string;
+  size_bytes?: number | null;
+  parameters?: string | null;
+  quantization?: string | null;
+  modified_at?: string | null;
+};
+
+/**
+ * Result of probing every enabled local runtime
+ */
+export type LocalInventory = {
+  probed_at: string;
+  runtimes: { id: string; name: string; ok: boolean; error?: string; count: number }[];
+  models: InstalledModel[];
+};
+
+// Ingestion Gate Types
+
+/**
+ * A record that failed schema validation and could not be repaired.
+ * Held in quarantine with the raw payload until it is fixed or dismissed.
+ */
+export type RejectedRecord = {
+  /** Quarantine entry id (not the model id, which may be missing) */
+  id: string;
+  source: string;
+  kind: ProvenanceKind;
+  /** Validation errors as "path: message" */
+  errors: string[];
+  raw: unknown;
+  rejected_at: string;
+};
+
+/**
+ * One run of a fetcher during a sync, kept for the source health screen
+ */
+export type FetcherRun = {
+  fetcherId: string;
+  name: string;
+  started_at: string;
+  duration_ms: number;
+  /** False when the fetcher threw */
+  ok: boolean;
+  /** Status of the failed request, when the fetcher reported one */
+  http_status?: number | null;
+  /** Records accepted after the schema check */
+  count: number;
+  flagged: number;
+  /** Records quarantined by the schema check */
+  rejected: number;
+  /** Only changes since the last watermark were fetched */
+  incremental?: boolean;
+  errors: string[];
 };
 
 // API Directory Types
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { buildLeaderboard, listBenchmarks, normalizeBenchmarkScore, resolveBenchmark } from './benchmarks';
+import { BenchmarkEntry, Model } from '../types';
+
+const model = (id: string, benchmarks: BenchmarkEntry[], overrides: Partial<Model> = {}): Model => ({
+    id,
+    name: id,
+    provider: null,
+    domain: 'LLM',
+    source: 'test',
+    url: null,
+    repo: null,
+    license: { name: 'MIT', type: 'OSI', commercial_use: true, attribution_required: false, share_alike: false, copyleft: false },
+    benchmarks,
+    ...overrides
+} as Model);
+
+describe('resolveBenchmark', () => {
+    it('unifies aliases, shot counts and model-index metric suffixes', () => {
+        for (const name of ['MMLU', 'mmlu_5shot', 'MMLU (5-shot)', 'MMLU (accuracy)', 'hendrycks_test']) {
+            expect(resolveBenchmark(name)).toMatchObject({ key: 'mmlu', label: 'MMLU', percent: true });
+        }
+        expect(resolveBenchmark('AI2 Reasoning Challenge (25-Shot) (normalized accuracy)').key).toBe('arc-challenge');
+        expect(resolveBenchmark('HumanEval (pass@1)').key).toBe('humaneval');
+        expect(resolveBenchmark('ELO Rating').key).toBe('arena-elo');
+        expect(resolveBenchmark('Rank').lowerIsBetter).toBe(true);
+    });
+
+    it('keeps unknown benchmarks under their own name', () => {
+        expect(resolveBenchmark('RULER 128k')).toEqual({ key: 'ruler128k', label: 'RULER 128k', lowerIsBetter: false, percent: false });
+    });
+});
+
+describe('normalizeBenchmarkScore', () => {
+    it('scales accuracy fractions to percent and parses strings', () => {
+        expect(normalizeBenchmarkScore({ name: 'MMLU', score: 0.853 })).toBeCloseTo(85.3);
+        expect(normalizeBenchmarkScore({ name: 'mmlu_5shot', score: '79.2%' })).toBe(79.2);
+        expect(normalizeBenchmarkScore({ name: 'ELO Rating', score: '1,250' })).toBe(1250);
+        expect(normalizeBenchmarkScore({ name: 'MMLU', score: 'n/a' })).toBeNull();
+    });
+});
+
+describe('listBenchmarks', () => {
+    it('counts models per unified benchmark within a domain', () => {
+        const models = [
+            model('a', [{ name: 'MMLU', score: 70 }, { name: 'GSM8K', score: 50 }]),
+            model('b', [{ name: 'mmlu_5shot', score: 0.6 }]),
+            model('c', [{ name: 'MMLU', score: 80 }], { domain: 'VLM' })
+        ];
+        expect(listBenchmarks(models, 'LLM').map(b => [b.label, b.count])).toEqual([['MMLU', 2], ['GSM8K', 1]]);
+        expect(listBenchmarks(models)[0].count).toBe(3);
+    });
+});
+
+describe('buildLeaderboard', () => {
+    it('ranks on the unified scale with shared ranks for ties', () => {
+        const rows = buildLeaderboard([
+            model('low', [{ name: 'MMLU (5-shot)', score: 0.62, source: 'model-index' }]),
+            model('high', [{ name: 'MMLU', score: 88.1, source: 'ArtificialAnalysis' }]),
+            model('tie-a', [{ name: 'mmlu_5shot', score: '70%' }]),
+            model('tie-b', [{ name: 'MMLU', score: 70 }]),
+            model('none', [{ name: 'GSM8K', score: 90 }])
+        ], 'mmlu');
+
+        expect(rows.map(r => [r.model.id, r.rank, r.relative])).toEqual([
+            ['high', 1, 100],
+            ['tie-a', 2, 31],
+            ['tie-b', 2, 31],
+            ['low', 4, 0]
+        ]);
+        expect(rows[3].score).toBeCloseTo(62);
+    });
+
+    it('prefers an independent source over the model card and keeps attribution', () => {
+        const [row] = buildLeaderboard([
+            model('m', [
+                { name: 'MMLU (accuracy)', score: 0.9, source: 'model-index' },
+                { name: 'MMLU', score: 84, source: 'ArtificialAnalysis' }
+            ])
+        ], 'mmlu');
+        expect(row.score).toBe(84);
+        expect(row.entry.source).toBe('ArtificialAnalysis');
+        expect(row.sources).toEqual(['model-index', 'ArtificialAnalysis']);
+    });
+
+    it('ranks lower-is-better benchmarks ascending', () => {
+        const rows = buildLeaderboard([
+            model('second', [{ name: 'Rank', score: 2 }]),
+            model('first', [{ name: 'Rank', score: 1 }])
+        ], 'rank');
+        expect(rows.map(r => [r.model.id, r.relative])).toEqual([['first', 100], ['second', 0]]);
+    });
+});
@@ -0,0 +1,166 @@
+import { BenchmarkEntry, Domain, Model } from '../types';
+
+/**
+ * A benchmark as shown in the leaderboard, after alias unification
+ */
+export interface BenchmarkInfo {
+    /** Canonical key; entries whose names unify share it */
+    key: string;
+    label: string;
+    /** Rank, price and error-rate style benchmarks */
+    lowerIsBetter: boolean;
+    /** Accuracy-style scores; fractions (0.853) are scaled to percent (85.3) */
+    percent: boolean;
+}
+
+export interface LeaderboardRow {
+    model: Model;
+    /** Competition rank: ties share a rank */
+    rank: number;
+    /** Score on the benchmark's unified scale */
+    score: number;
+    /** Position between the worst (0) and best (100) score in the ranking */
+    relative: number;
+    /** Entry the score was taken from */
+    entry: BenchmarkEntry;
+    /** Every source that reported this benchmark for the model */
+    sources: string[];
+}
+
+interface BenchmarkDef {
+    key: string;
+    label: string;
+    aliases: string[];
+    percent?: boolean;
+    lowerIsBetter?: boolean;
+}
+
+/**
+ * Known benchmarks and the names they are reported under. Model cards,
+ * Artificial Analysis and LLM validation each use their own spelling.
+ */
+const KNOWN_BENCHMARKS: BenchmarkDef[] = [
+    { key: 'mmlu', label: 'MMLU', aliases: ['mmlu', 'massive multitask language understanding', 'hendrycks test', 'cais mmlu'], percent: true },
+    { key: 'mmlu-pro', label: 'MMLU-Pro', aliases: ['mmlu pro', 'tiger lab mmlu pro'], percent: true },
+    { key: 'gpqa', label: 'GPQA', aliases: ['gpqa', 'gpqa diamond', 'idavidrein gpqa'], percent: true },
+    { key: 'gsm8k', label: 'GSM8K', aliases: ['gsm8k', 'grade school math', 'openai gsm8k'], percent: true },
+    { key: 'math', label: 'MATH', aliases: ['math', 'hendrycks math', 'competition math', 'math lvl5', 'math hard'], percent: true },
+    { key: 'humaneval', label: 'HumanEval', aliases: ['humaneval', 'human eval', 'openai humaneval'], percent: true },
+    { key: 'mbpp', label: 'MBPP', aliases: ['mbpp', 'mostly basic python problems'], percent: true },
+    { key: 'hellaswag', label: 'HellaSwag', aliases: ['hellaswag', 'rowan hellaswag'], percent: true },
+    { key: 'arc-challenge', label: 'ARC-Challenge', aliases: ['arc challenge', 'arc c', 'ai2 arc', 'ai2 reasoning challenge', 'arc'], percent: true },
+    { key: 'truthfulqa', label: 'TruthfulQA', aliases: ['truthfulqa', 'truthful qa', 'truthfulqa mc2', 'truthfulqa mc'], percent: true },
+    { key: 'winogrande', label: 'Winogrande', aliases: ['winogrande', 'winogrande xl'], percent: true },
+    { key: 'bbh', label: 'BIG-Bench Hard', aliases: ['bbh', 'big bench hard', 'bigbench hard'], percent: true },
+    { key: 'ifeval', label: 'IFEval', aliases: ['ifeval', 'instruction following eval', 'google ifeval'], percent: true },
+    { key: 'musr', label: 'MuSR', aliases: ['musr'], percent: true },
+    { key: 'arena-elo', label: 'Arena Elo', aliases: ['elo rating', 'elo', 'arena elo', 'chatbot arena elo', 'lmsys arena'] },
+    { key: 'quality-index', label: 'Quality Index', aliases: ['quality index', 'intelligence index', 'artificial analysis intelligence index'] },
+    { key: 'speed', label: 'Output Speed', aliases: ['speed', 'output speed', 'tokens per second'] },
+    { key: 'price-index', label: 'Price Index', aliases: ['price index'], lowerIsBetter: true },
+    { key: 'rank', label: 'Rank', aliases: ['rank'], lowerIsBetter: true },
+    { key: 'wer', label: 'Word Error Rate', aliases: ['wer', 'word error rate', 'test wer'], lowerIsBetter: true }
+];
+
+// "5-shot", "0 shot", "few-shot" and similar qualifiers do not change what is measured
+const SHOT_QUALIFIER = /\b(\d+|zero|few)\s*shots?\b/g;
+
+// Bare metric names a model-index entry appends to the dataset name
+const METRIC_NAMES = /^(acc|accuracy|acc norm|normalized accuracy|exact match|em|pass@1|score|f1|strict accuracy|mc2)$/;
+
+const compact = (value: string): string => value.toLowerCase()
+    .replace(/[_/-]+/g, ' ')
+    .replace(SHOT_QUALIFIER, ' ')
+    .replace(/[^a-z0-9@]+/g, '');
+
+const ALIASES = new Map<string, BenchmarkDef>();
+for (const def of KNOWN_BENCHMARKS) {
+    for (const alias of [def.key, ...def.aliases]) ALIASES.set(compact(alias), def);
+}
+
+/**
+ * Unify a reported benchmark name, e.g. "mmlu_5shot", "MMLU (5-shot)" and
+ * "MMLU (accuracy)" all resolve to MMLU. Unknown benchmarks keep their name.
+ */
+export function resolveBenchmark(name: string): BenchmarkInfo {
+    const trimmed = name.trim();
+    // model-index entries are "<dataset> (<metric>)"
+    const parts = trimmed.match(/^(.*?)\s*\(([^)]*)\)\s*$/);
+    const dataset = parts && (METRIC_NAMES.test(parts[2].trim().toLowerCase()) || compact(parts[2]) === '') ? parts[1] : trimmed;
+
+    const def = ALIASES.get(compact(dataset)) || ALIASES.get(compact(trimmed));
+    if (def) return { key: def.key, label: def.label, lowerIsBetter: !!def.lowerIsBetter, percent: !!def.percent };
+    return { key: compact(trimmed) || trimmed.toLowerCase(), label: trimmed, lowerIsBetter: false, percent: false };
+}
+
+/**
+ * Numeric score of an entry on the benchmark's unified scale, or null
+ */
+export function normalizeBenchmarkScore(entry: BenchmarkEntry, benchmark: BenchmarkInfo = resolveBenchmark(entry.name)): number | null {
+    const raw = entry.score;
+    const isPercent = entry.unit?.trim() === '%' || (typeof raw === 'string' && raw.includes('%'));
+    const value = typeof raw === 'number' ? raw : parseFloat(String(raw ?? '').replace(/[,%\s]/g, ''));
+    if (!Number.isFinite(value)) return null;
+    return benchmark.percent && !isPercent && value >= 0 && value <= 1 ? value * 100 : value;
+}
+
+// Model cards are self-reported; any other source is an independent evaluation
+const isSelfReported = (entry: BenchmarkEntry): boolean => !entry.source || entry.source === 'model-index';
+
+/**
+ * Benchmarks reported by the given models, most widely reported first
+ */
+export function listBenchmarks(models: Model[], domain: Domain | 'All' = 'All'): Array<BenchmarkInfo & { count: number }> {
+    const found = new Map<string, BenchmarkInfo & { models: Set<string> }>();
+    for (const model of models) {
+        if (domain !== 'All' && model.domain !== domain) continue;
+        for (const entry of model.benchmarks || []) {
+            const info = resolveBenchmark(entry.name);
+            if (normalizeBenchmarkScore(entry, info) === null) continue;
+            const current = found.get(info.key) || { ...info, models: new Set<string>() };
+            current.models.add(model.id);
+            found.set(info.key, current);
+        }
+    }
+    return [...found.values()]
+        .map(({ models: ids, ...info }) => ({ ...info, count: ids.size }))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+/**
+ * Rank models on one benchmark. A model reporting it several times (model
+ * card and an evaluator, or two aliases) is ranked once, preferring an
+ * independent source over the self-reported card.
+ */
+export function buildLeaderboard(models: Model[], benchmarkKey: string, domain: Domain | 'All' = 'All'): LeaderboardRow[] {
+    const rows: Omit<LeaderboardRow, 'rank' | 'relative'>[] = [];
+
+    for (const model of models) {
+        if (domain !== 'All' && model.domain !== domain) continue;
+        let best: { entry: BenchmarkEntry; score: number } | null = null;
+        const sources = new Set<string>();
+        for (const entry of model.benchmarks || []) {
+            const info = resolveBenchmark(entry.name);
+            if (info.key !== benchmarkKey) continue;
+            const score = normalizeBenchmarkScore(entry, info);
+            if (score === null) continue;
+            sources.add(entry.source || 'model-index');
+            if (!best || (isSelfReported(best.entry) && !isSelfReported(entry))) best = { entry, score };
+        }
+        if (best) rows.push({ model, score: best.score, entry: best.entry, sources: [...sources] });
+    }
+    if (rows.length === 0) return [];
+
+    const lowerIsBetter = resolveBenchmark(rows[0].entry.name).lowerIsBetter;
+    rows.sort((a, b) => (lowerIsBetter ? a.score - b.score : b.score - a.score) || a.model.name.localeCompare(b.model.name));
+
+    const scores = rows.map(r => r.score);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+    let rank = 0;
+    return rows.map((row, i) => {
+        if (i === 0 || row.score !== rows[i - 1].score) rank = i + 1;
+        const position = range === 0 ? 1 : (row.score - min) / range;
+        return { ...row, rank, relative: Math.round((lowerIsBetter ? 1 - position : position) * 100) };
+    });
+}
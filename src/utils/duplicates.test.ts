@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+    applyFieldWinners,
+    findDecision,
+    findDuplicateClusters,
+    findDuplicateMatch,
+    nameMatchConfidence,
+    splitMergeEvent,
+    upsertDecision
+} from './duplicates';
+import { mergeCluster, performMergeBatch } from './mergeLogic';
+import { DuplicateDecision, Model } from '../types';
+
+function createModel(overrides: Partial<Model> = {}): Model {
+    return {
+        id: 'model-1',
+        name: 'Test Model',
+        domain: 'LLM',
+        source: 'HuggingFace',
+        ...overrides,
+    };
+}
+
+const distinct = (a: string, b: string): DuplicateDecision => ({ ids: [a, b], verdict: 'distinct', decided_at: '2025-01-01T00:00:00.000Z' });
+
+describe('nameMatchConfidence', () => {
+    it('should score same-provider matches above cross-provider ones', () => {
+        const a = createModel({ name: 'Llama-3-70B-Instruct', provider: 'Meta' });
+        expect(nameMatchConfidence(a, createModel({ name: 'llama 3 70b instruct', provider: 'Meta' }))).toBe(0.75);
+        expect(nameMatchConfidence(a, createModel({ name: 'llama 3 70b instruct', provider: 'Groq' }))).toBe(0.4);
+    });
+
+    it('should reject short names from different providers and other domains', () => {
+        const a = createModel({ name: 'Llama', provider: 'Meta' });
+        expect(nameMatchConfidence(a, createModel({ name: 'llama', provider: 'Civitai' }))).toBeNull();
+        expect(nameMatchConfidence(a, createModel({ name: 'llama', provider: 'Meta', domain: 'ImageGen' }))).toBeNull();
+    });
+});
+
+describe('findDuplicateMatch', () => {
+    it('should report the rule and confidence that matched', () => {
+        const existing = [createModel({ id: 'a', repo: 'org/model' }), createModel({ id: 'b', name: 'Other', url: 'https://x.test/m' })];
+        expect(findDuplicateMatch(existing, createModel({ id: 'a' }), false)).toEqual({ index: 0, rule: 'id', confidence: 1 });
+        expect(findDuplicateMatch(existing, createModel({ id: 'c', name: 'Z', repo: 'org/model' }), false)?.rule).toBe('repo');
+        expect(findDuplicateMatch(existing, createModel({ id: 'd', name: 'Z', url: 'https://x.test/m' }), false)?.rule).toBe('url');
+    });
+
+    it('should only use the name rule when auto-merge is enabled', () => {
+        const existing = [createModel({ id: 'a', provider: 'Meta' })];
+        const inc = createModel({ id: 'b', provider: 'Meta' });
+        expect(findDuplicateMatch(existing, inc, false)).toBeNull();
+        expect(findDuplicateMatch(existing, inc, true)?.rule).toBe('name');
+    });
+
+    it('should never match pairs marked as distinct', () => {
+        const existing = [createModel({ id: 'a', repo: 'org/model' })];
+        const inc = createModel({ id: 'b', repo: 'org/model' });
+        expect(findDuplicateMatch(existing, inc, true, [distinct('b', 'a')])).toBeNull();
+    });
+
+    it('should always match pairs confirmed as duplicates', () => {
+        const existing = [createModel({ id: 'a', name: 'Alpha' })];
+        const inc = createModel({ id: 'b', name: 'Completely different' });
+        const decisions: DuplicateDecision[] = [{ ids: ['a', 'b'], verdict: 'duplicate', decided_at: '2025-01-01T00:00:00.000Z' }];
+        expect(findDuplicateMatch(existing, inc, false, decisions)?.rule).toBe('decision');
+    });
+});
+
+describe('decisions', () => {
+    it('should replace an existing decision for the same pair', () => {
+        const decisions = upsertDecision([distinct('a', 'b')], { ids: ['b', 'a'], verdict: 'duplicate', decided_at: 'now' });
+        expect(decisions).toHaveLength(1);
+        expect(findDecision(decisions, 'a', 'b')?.verdict).toBe('duplicate');
+    });
+});
+
+describe('applyFieldWinners', () => {
+    it('should copy the chosen values and their provenance', () => {
+        const a = createModel({ id: 'a', parameters: '7B' });
+        const b = createModel({
+            id: 'b',
+            parameters: '8B',
+            provenance: { parameters: { source: 'Ollama', kind: 'fetcher', fetched_at: '2025-01-01T00:00:00.000Z' } }
+        });
+        const result = applyFieldWinners({ ...a }, [a, b], { parameters: 'b' });
+        expect(result.parameters).toBe('8B');
+        expect(result.provenance?.parameters?.source).toBe('Ollama');
+    });
+});
+
+describe('findDuplicateClusters', () => {
+    it('should group records by repo, url and name with the weakest link', () => {
+        const models = [
+            createModel({ id: 'a', name: 'Mistral 7B Instruct', provider: 'Mistral', repo: 'mistralai/m' }),
+            createModel({ id: 'b', name: 'Other name', repo: 'mistralai/m' }),
+            createModel({ id: 'c', name: 'mistral-7b-instruct', provider: 'Groq' }),
+            createModel({ id: 'd', name: 'Unrelated' }),
+        ];
+        const clusters = findDuplicateClusters(models);
+        expect(clusters).toHaveLength(1);
+        expect(clusters[0].models.map(m => m.id).sort()).toEqual(['a', 'b', 'c']);
+        expect(clusters[0].rule).toBe('name');
+        expect(clusters[0].confidence).toBe(0.4);
+    });
+
+    it('should skip pairs marked as distinct', () => {
+        const models = [createModel({ id: 'a' }), createModel({ id: 'b' })];
+        expect(findDuplicateClusters(models, [distinct('a', 'b')])).toHaveLength(0);
+    });
+});
+
+describe('merge review', () => {
+    it('should record non-id merges for review', () => {
+        const current = [createModel({ id: 'a', provider: 'Meta' })];
+        const result = performMergeBatch(current, [createModel({ id: 'b', provider: 'Meta' }), createModel({ id: 'a' })], true);
+        expect(result.merges).toHaveLength(1);
+        expect(result.merges[0]).toMatchObject({ merged_id: 'a', rule: 'name', confidence: 0.75 });
+    });
+
+    it('should keep same-name records that were marked distinct', () => {
+        const current = [createModel({ id: 'a', provider: 'Meta' })];
+        const result = performMergeBatch(current, [createModel({ id: 'b', provider: 'Meta' })], true, undefined, [distinct('a', 'b')]);
+        expect(result.models.map(m => m.id).sort()).toEqual(['a', 'b']);
+    });
+
+    it('should restore both records when a merge is split', () => {
+        const existing = createModel({ id: 'a', parameters: '7B' });
+        const incoming = createModel({ id: 'b', parameters: '8B' });
+        const merged = mergeCluster([existing, incoming]);
+        const restored = splitMergeEvent([merged], {
+            merged_id: 'a', existing, incoming, rule: 'name', confidence: 0.6, merged_at: '2025-01-01T00:00:00.000Z'
+        });
+        expect(restored).toEqual([existing, incoming]);
+    });
+});
@@ -0,0 +1,248 @@
+import {
+    DuplicateCluster,
+    DuplicateDecision,
+    DuplicateFieldWinners,
+    DuplicateMatch,
+    DuplicateMatchRule,
+    DuplicateReviewField,
+    MergeEvent,
+    Model
+} from '../types';
+import { normalizeNameForMatch } from './format';
+import { hasConflictingIdentity, IdentityResolver } from './identity';
+
+/**
+ * Confidence assigned to each match rule.
+ * Name matches are split by how well the providers agree.
+ */
+export const MATCH_CONFIDENCE = {
+    alias: 1,
+    id: 1,
+    decision: 1,
+    repo: 0.95,
+    url: 0.9,
+    nameSameProvider: 0.75,
+    namePartialProvider: 0.6,
+    nameDifferentProvider: 0.4,
+} as const;
+
+/**
+ * Order-independent key for a pair of model ids.
+ */
+export const pairKey = (a: string, b: string): string => (a < b ? `${a}::${b}` : `${b}::${a}`);
+
+/**
+ * Finds the remembered decision for a pair of model ids, if any.
+ */
+export function findDecision(decisions: DuplicateDecision[] | undefined, a?: string, b?: string): DuplicateDecision | undefined {
+    if (!decisions?.length || !a || !b || a === b) return undefined;
+    const key = pairKey(a, b);
+    return decisions.find(d => pairKey(d.ids[0], d.ids[1]) === key);
+}
+
+/**
+ * True when the pair was marked "not a duplicate" in the workbench.
+ */
+export const isMarkedDistinct = (decisions: DuplicateDecision[] | undefined, a?: string, b?: string): boolean =>
+    findDecision(decisions, a, b)?.verdict === 'distinct';
+
+/**
+ * Adds or replaces the decision for a pair, returning a new list.
+ */
+export function upsertDecision(decisions: DuplicateDecision[] | undefined, decision: DuplicateDecision): DuplicateDecision[] {
+    const key = pairKey(decision.ids[0], decision.ids[1]);
+    return [...(decisions || []).filter(d => pairKey(d.ids[0], d.ids[1]) !== key), decision];
+}
+
+/**
+ * Confidence that two records with the same normalized name are the same model,
+ * or null when the name rule does not apply.
+ * Mirrors the original fuzzy rule: same domain, minimum name length, and either
+ * compatible providers or a name specific enough to ignore the provider.
+ */
+export function nameMatchConfidence(a: Model, b: Model): number | null {
+    const aBase = normalizeNameForMatch(a.name);
+    // Require a minimum name length to avoid merging generic names like "chat"
+    if (!aBase || aBase.length < 3) return null;
+    if (normalizeNameForMatch(b.name) !== aBase) return null;
+
+    // Must be same domain (e.g. don't merge ImageGen 'Llama' with LLM 'Llama')
+    if (a.domain && b.domain && a.domain !== b.domain) return null;
+
+    const aProv = (a.provider || '').toString().toLowerCase();
+    const bProv = (b.provider || '').toString().toLowerCase();
+    if (aProv && aProv === bProv) return MATCH_CONFIDENCE.nameSameProvider;
+    if (!aProv || !bProv || aProv.includes(bProv) || bProv.includes(aProv)) return MATCH_CONFIDENCE.namePartialProvider;
+
+    // Very specific names (e.g. "llama-3-70b-instruct") still match across providers
+    if (aBase.length > 8) return MATCH_CONFIDENCE.nameDifferentProvider;
+    return null;
+}
+
+/**
+ * Finds the existing record an incoming one duplicates, along with the rule
+ * that matched and a confidence score. The identity alias table is consulted
+ * first: records mapped to the same canonical id always match and records
+ * mapped to different ones never do. Pairs marked "not a duplicate" are never
+ * matched except by identical id; pairs confirmed as duplicates always match.
+ */
+export function findDuplicateMatch(
+    arr: Model[],
+    inc: Model,
+    autoMergeDuplicates: boolean,
+    decisions?: DuplicateDecision[],
+    resolveIdentity?: IdentityResolver
+): DuplicateMatch | null {
+    const hit = (index: number, rule: DuplicateMatchRule, confidence: number): DuplicateMatch | null =>
+        index === -1 ? null : { index, rule, confidence };
+    const allowed = (e: Model) => !isMarkedDistinct(decisions, e.id, inc.id) && !hasConflictingIdentity(resolveIdentity, e, inc);
+
+    // 0) Identity alias table
+    const canonical = resolveIdentity?.(inc);
+    let idx = canonical ? arr.findIndex(e => e.id === canonical || resolveIdentity!(e) === canonical) : -1;
+    if (idx !== -1) return hit(idx, 'alias', MATCH_CONFIDENCE.alias);
+    // 1) Match by exact id
+    idx = arr.findIndex(e => e.id && inc.id && e.id === inc.id);
+    if (idx !== -1) return hit(idx, 'id', MATCH_CONFIDENCE.id);
+    // 2) Remembered "duplicate" decisions
+    if (decisions?.length) {
+        idx = arr.findIndex(e => findDecision(decisions, e.id, inc.id)?.verdict === 'duplicate');
+        if (idx !== -1) return hit(idx, 'decision', MATCH_CONFIDENCE.decision);
+    }
+    // 3) Match by repo
+    if (inc.repo) {
+        idx = arr.findIndex(e => e.repo && e.repo === inc.repo && allowed(e));
+        if (idx !== -1) return hit(idx, 'repo', MATCH_CONFIDENCE.repo);
+    }
+    // 4) Match by url
+    if (inc.url) {
+        idx = arr.findIndex(e => e.url && e.url === inc.url && allowed(e));
+        if (idx !== -1) return hit(idx, 'url', MATCH_CONFIDENCE.url);
+    }
+    // 5) Optional fuzzy name matching
+    if (autoMergeDuplicates) {
+        // Prefer the strongest name match (e.g. same provider) over the first one
+        let best: DuplicateMatch | null = null;
+        for (let i = 0; i < arr.length; i++) {
+            if (!allowed(arr[i])) continue;
+            const confidence = nameMatchConfidence(inc, arr[i]);
+            if (confidence != null && (!best || confidence > best.confidence)) {
+                best = { index: i, rule: 'name', confidence };
+                if (confidence === MATCH_CONFIDENCE.nameSameProvider) break;
+            }
+        }
+        if (best) return best;
+    }
+    return null;
+}
+
+/**
+ * Copies the chosen winning values (and their provenance) onto a merged record.
+ *
+ * @param merged - Result of mergeRecords
+ * @param candidates - Records the merge was built from
+ * @param winners - Field -> id of the record whose value wins
+ */
+export function applyFieldWinners(merged: Model, candidates: Model[], winners?: DuplicateFieldWinners): Model {
+    if (!winners) return merged;
+    const result: Model = { ...merged };
+    const fields = result as Record<string, unknown>;
+    const provenance = { ...(result.provenance || {}) };
+
+    for (const [field, winnerId] of Object.entries(winners) as [DuplicateReviewField, string][]) {
+        const winner = candidates.find(c => c.id === winnerId);
+        if (!winner) continue;
+        fields[field] = winner[field];
+        const entry = winner.provenance?.[field];
+        if (entry) provenance[field] = entry;
+        else delete provenance[field];
+    }
+
+    result.provenance = Object.keys(provenance).length > 0 ? provenance : undefined;
+    return result;
+}
+
+/**
+ * Groups records in the database that look like the same model.
+ * Every rule is evaluated regardless of the auto-merge setting so the workbench
+ * can surface candidates that were left unmerged. Pairs marked "not a duplicate"
+ * are skipped. Clusters are sorted weakest link first.
+ */
+export function findDuplicateClusters(models: Model[], decisions?: DuplicateDecision[], resolveIdentity?: IdentityResolver): DuplicateCluster[] {
+    const parent = models.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const weakest = new Map<number, { rule: DuplicateMatchRule; confidence: number }>();
+
+    const link = (a: number, b: number, rule: DuplicateMatchRule, confidence: number) => {
+        if (isMarkedDistinct(decisions, models[a].id, models[b].id)) return;
+        if (hasConflictingIdentity(resolveIdentity, models[a], models[b])) return;
+        const ra = find(a);
+        const rb = find(b);
+        const prev = [weakest.get(ra), weakest.get(rb)].filter(Boolean) as { rule: DuplicateMatchRule; confidence: number }[];
+        const candidates = [...prev, { rule, confidence }].sort((x, y) => x.confidence - y.confidence);
+        if (ra !== rb) parent[rb] = ra;
+        weakest.delete(rb);
+        weakest.set(ra, candidates[0]);
+    };
+
+    // Bucket by each identifying key so only plausible pairs are compared
+    const buckets = (keyOf: (m: Model) => string | null | undefined) => {
+        const map = new Map<string, number[]>();
+        models.forEach((m, i) => {
+            const key = keyOf(m);
+            if (!key) return;
+            const list = map.get(key);
+            if (list) list.push(i);
+            else map.set(key, [i]);
+        });
+        return Array.from(map.values()).filter(list => list.length > 1);
+    };
+
+    const linkBucket = (list: number[], rule: DuplicateMatchRule, confidence: number) => {
+        for (let j = 1; j < list.length; j++) link(list[0], list[j], rule, confidence);
+    };
+
+    if (resolveIdentity) buckets(m => resolveIdentity(m)).forEach(list => linkBucket(list, 'alias', MATCH_CONFIDENCE.alias));
+    buckets(m => m.repo).forEach(list => linkBucket(list, 'repo', MATCH_CONFIDENCE.repo));
+    buckets(m => m.url).forEach(list => linkBucket(list, 'url', MATCH_CONFIDENCE.url));
+    buckets(m => normalizeNameForMatch(m.name)).forEach(list => {
+        for (let a = 0; a < list.length; a++) {
+            for (let b = a + 1; b < list.length; b++) {
+                const confidence = nameMatchConfidence(models[list[a]], models[list[b]]);
+                if (confidence != null) link(list[a], list[b], 'name', confidence);
+            }
+        }
+    });
+
+    const groups = new Map<number, Model[]>();
+    models.forEach((m, i) => {
+        const root = find(i);
+        const list = groups.get(root);
+        if (list) list.push(m);
+        else groups.set(root, [m]);
+    });
+
+    const clusters: DuplicateCluster[] = [];
+    groups.forEach((members, root) => {
+        if (members.length < 2) return;
+        const edge = weakest.get(root) || { rule: 'name' as DuplicateMatchRule, confidence: 0 };
+        clusters.push({
+            key: members.map(m => m.id).sort().join('::'),
+            models: members,
+            rule: edge.rule,
+            confidence: edge.confidence,
+        });
+    });
+
+    return clusters.sort((a, b) => a.confidence - b.confidence);
+}
+
+/**
+ * Undoes an automatic merge: the merged record is restored to its pre-merge
+ * state and the incoming record is added back as its own entry. Any later
+ * updates to the merged record are discarded along with the merge.
+ */
+export function splitMergeEvent(models: Model[], event: MergeEvent): Model[] {
+    const restored = models.map(m => (m.id === event.merged_id ? event.existing : m));
+    return restored.some(m => m.id === event.incoming.id) ? restored : [...restored, event.incoming];
+}
@@ -102,3 +102,33 @@ export function removeUpdateListener(): void {
         window.electronAPI.removeUpdateListener();
     }
 }
+
+export type ProxyRequestFn = (options: ProxyRequestOptions, onChunk?: (chunk: string) => void) => Promise<ProxyRequestResult>;
+
+let proxyOverride: ProxyRequestFn | null = null;
+
+/**
+ * Main-process proxy request (Electron only; undefined elsewhere).
+ * Callers go through this rather than window.electronAPI, which contextBridge
+ * freezes, so HTTP cassettes can swap the transport.
+ */
+export function getProxyRequest(): ProxyRequestFn | undefined {
+    if (proxyOverride) return proxyOverride;
+    const api = typeof window !== 'undefined' ? window.electronAPI : undefined;
+    if (!api?.proxyRequest) return undefined;
+    return (options, onChunk) => onChunk ? api.proxyRequest(options, onChunk) : api.proxyRequest(options);
+}
+
+/**
+ * Replace the proxy transport; null restores the Electron IPC
+ */
+export function setProxyRequest(transport: ProxyRequestFn | null): void {
+    proxyOverride = transport;
+}
+
+/**
+ * Cancel an in-flight proxy request by the requestId it was sent with
+ */
+export function cancelProxyRequest(requestId: string): void {
+    if (typeof window !== 'undefined') window.electronAPI?.cancelProxyRequest?.(requestId);
+}
@@ -4,6 +4,7 @@
  */
 
 import { globalRateLimiter } from '../services/rateLimiter';
+import { isCassetteReplaying } from '../services/api/utils/http-cassette';
 
 /**
  * Fetch wrapper that automatically handles proxy routes
@@ -30,7 +31,7 @@ export async function fetchWrapper(url: string, options?: RequestInit): Promise<
         }
     }
 
-    // Use regular fetch with rate limiting
-    await globalRateLimiter.waitForSlot();
+    // Use regular fetch with rate limiting (not needed when a cassette answers instead of the network)
+    if (!isCassetteReplaying()) await globalRateLimiter.waitForSlot();
     return fetch(targetUrl, options);
 }
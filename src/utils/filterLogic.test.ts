@@ -236,6 +236,28 @@ describe('filterModels', () => {
             expect(result[0].name).toBe('Commercial');
         });
 
+        it('should follow lineage for derives: operator', () => {
+            const models = [
+                createModel({ id: 'meta-llama/Meta-Llama-3-8B', name: 'Meta-Llama-3-8B' }),
+                createModel({ id: 'org/chat-tune', name: 'Chat Tune', lineage: { base_models: ['meta-llama/Meta-Llama-3-8B'], relation: 'finetune' } }),
+                createModel({ id: 'org/chat-tune-gguf', name: 'Chat Tune GGUF', lineage: { base_models: ['org/chat-tune'], relation: 'quantized' } }),
+                createModel({ id: 'org/other', name: 'Other', lineage: { base_models: ['mistralai/Mistral-7B'] } }),
+            ];
+            const result = filterModels(models, createOptions({ query: 'derives:"llama 3"' }));
+            expect(result.map(m => m.id).sort()).toEqual(['org/chat-tune', 'org/chat-tune-gguf']);
+            expect(filterModels(models, createOptions({ query: 'is:derivative' }))).toHaveLength(3);
+        });
+
+        it('should keep models with a variant that fits for fits: operator', () => {
+            const models = [
+                createModel({ name: 'Small', variants: [{ name: 'small:q4', size_bytes: 4.9e9 }, { name: 'small:fp16', size_bytes: 16e9 }] }),
+                createModel({ name: 'Large', variants: [{ name: 'large:q4', size_bytes: 40e9 }] }),
+                createModel({ name: 'Unknown' }),
+            ];
+            expect(filterModels(models, createOptions({ query: 'fits:8gb' })).map(m => m.name)).toEqual(['Small']);
+            expect(filterModels(models, createOptions({ maxSizeGB: 48 }))).toHaveLength(2);
+        });
+
         it('should combine operators with text search', () => {
             const models = [
                 createModel({ name: 'GPT-4', domain: 'LLM', provider: 'OpenAI' }),
@@ -1,4 +1,6 @@
 import { Domain, Model } from '../types';
+import { buildLineageGraph, derivativeIds } from './lineage';
+import { fitsInMemory } from './variants';
 
 export interface FilterOptions {
     query: string;
@@ -13,6 +15,7 @@ export interface FilterOptions {
     excludeTags?: string[];
     favoritesOnly?: boolean;
     hideNSFW?: boolean;
+    maxSizeGB?: number | null;
 }
 
 /**
@@ -27,6 +30,9 @@ export interface FilterOptions {
  * - provider:openai - Filter by provider
  * - is:favorite - Only favorites
  * - is:commercial - Only commercially usable
+ * - derives:llama-3 - Fine-tunes, adapters, quantizations and merges of matching base models
+ * - is:derivative - Only models that declare a base model
+ * - fits:8gb - At least one variant downloads in 8 GB or less
  */
 interface ParsedQuery {
     textTerms: string[];
@@ -39,6 +45,9 @@ interface ParsedQuery {
     providerFilter?: string;
     favoritesOnly?: boolean;
     commercialOnly?: boolean;
+    derivesFrom: string[];
+    derivativesOnly?: boolean;
+    fitsGB?: number;
 }
 
 function parseAdvancedQuery(query: string): ParsedQuery {
@@ -46,6 +55,7 @@ function parseAdvancedQuery(query: string): ParsedQuery {
         textTerms: [],
         includeTags: [],
         excludeTags: [],
+        derivesFrom: [],
     };
 
     if (!query.trim()) return result;
@@ -99,6 +109,19 @@ function parseAdvancedQuery(query: string): ParsedQuery {
         else if (lower === 'is:commercial') {
             result.commercialOnly = true;
         }
+        // derives:value
+        else if (lower.startsWith('derives:')) {
+            result.derivesFrom.push(token.slice(8).replace(/"/g, ''));
+        }
+        // is:derivative
+        else if (lower === 'is:derivative') {
+            result.derivativesOnly = true;
+        }
+        // fits:8gb or fits:8
+        else if (lower.startsWith('fits:')) {
+            const match = lower.slice(5).match(/^(\d+(?:\.\d+)?)\s*(?:gb)?$/);
+            if (match) result.fitsGB = parseFloat(match[1]);
+        }
         // Regular text term
         else {
             result.textTerms.push(token.replace(/"/g, '').toLowerCase());
@@ -109,7 +132,7 @@ function parseAdvancedQuery(query: string): ParsedQuery {
 }
 
 export const filterModels = (models: Model[], options: FilterOptions): Model[] => {
-    const { query, domainPick, sortKey, sortDirection = 'asc', minDownloads, licenseTypes = [], commercialAllowed = null, includeTags = [], excludeTags = [], favoritesOnly = false, hideNSFW = false } = options;
+    const { query, domainPick, sortKey, sortDirection = 'asc', minDownloads, licenseTypes = [], commercialAllowed = null, includeTags = [], excludeTags = [], favoritesOnly = false, hideNSFW = false, maxSizeGB = null } = options;
 
     // Early return if no models
     if (!models || models.length === 0) return [];
@@ -167,6 +190,21 @@ export const filterModels = (models: Model[], options: FilterOptions): Model[] =
         list = list.filter(m => m.license?.commercial_use === true);
     }
 
+    // Lineage is resolved against the whole database so bases hidden by other filters still count
+    if (parsed.derivesFrom.length) {
+        const graph = buildLineageGraph(models);
+        const sets = parsed.derivesFrom.map(term => derivativeIds(models, term, graph));
+        list = list.filter(m => sets.every(ids => ids.has(m.id)));
+    }
+
+    if (parsed.derivativesOnly) {
+        list = list.filter(m => (m.lineage?.base_models.length ?? 0) > 0);
+    }
+
+    if (parsed.fitsGB !== undefined) {
+        list = list.filter(m => fitsInMemory(m, parsed.fitsGB!));
+    }
+
     // Apply tag filters from advanced syntax
     if (parsed.includeTags.length) {
         list = list.filter(m => {
@@ -206,6 +244,10 @@ export const filterModels = (models: Model[], options: FilterOptions): Model[] =
         list = list.filter(m => m.isFavorite);
     }
 
+    if (maxSizeGB !== null && maxSizeGB > 0) {
+        list = list.filter(m => fitsInMemory(m, maxSizeGB));
+    }
+
     // Hide NSFW content - checks both the flag and common NSFW tags
     if (hideNSFW) {
         list = list.filter(m => {
@@ -288,4 +288,15 @@ describe('riskScore', () => {
         const result = riskScore(model);
         expect(result.level).toBe('Green');
     });
+
+    it('should inherit a stricter license from base models', () => {
+        const base = createModel({
+            name: 'Base',
+            license: { ...createModel().license, name: 'CC-BY-NC-4.0', type: 'Non-Commercial', commercial_use: false },
+        });
+        const result = riskScore(createModel(), [base]);
+        expect(result.level).toBe('Red');
+        expect(result.reason).toContain('inherited from Base');
+        expect(riskScore(createModel(), [createModel({ license: undefined as unknown as LicenseInfo })]).level).toBe('Green');
+    });
 });
@@ -71,12 +71,16 @@ export function normalizeNameForMatch(name?: string | null): string {
 }
 
 // Collection utilities
-export const dedupe = (items: Model[]) => {
+// `isDistinct` lets callers keep same-name records that were reviewed as different models
+export const dedupe = (items: Model[], isDistinct?: (a: Model, b: Model) => boolean) => {
   const map = new Map<string, Model>();
   for (const m of items) {
     if (!m) continue;
     const nameKeyRaw = m.name || m.id || "";
-    const key = normalizeNameForMatch(nameKeyRaw);
+    let key = normalizeNameForMatch(nameKeyRaw);
+    if (key && isDistinct && map.has(key) && isDistinct(map.get(key)!, m)) {
+      key = `${key}#${m.id}`;
+    }
 
     if (!key) {
       map.set(m.id || Math.random().toString(), m);
@@ -278,7 +282,7 @@ export function safeJsonFromText(s: string) {
 }
 
 // Risk analysis utilities
-export function riskScore(m: Model): RiskScore {
+function licenseRisk(m: Model): RiskScore {
   const L = m.license;
   if (!L) return { level: "Amber", reason: "No license info" };
   if (L.type === "Non-Commercial") return { level: "Red", reason: "Non‑commercial license" };
@@ -289,9 +293,28 @@ export function riskScore(m: Model): RiskScore {
   return { level: "Green", reason: L.attribution_required ? "Commercial OK + attribution" : "Commercial OK" };
 }
 
-export function riskExplainer(m: Model): string[] {
+const RISK_RANK: Record<RiskScore["level"], number> = { Green: 0, Amber: 1, Red: 2 };
+
+/**
+ * License risk of a model. Derivatives inherit their base models' terms, so
+ * when `ancestors` are given the worst of them wins (missing license info on
+ * a base is not propagated).
+ */
+export function riskScore(m: Model, ancestors: Model[] = []): RiskScore {
+  let risk = licenseRisk(m);
+  for (const base of ancestors) {
+    if (!base.license) continue;
+    const inherited = licenseRisk(base);
+    if (RISK_RANK[inherited.level] > RISK_RANK[risk.level]) {
+      risk = { level: inherited.level, reason: `${inherited.reason} (inherited from ${base.name})` };
+    }
+  }
+  return risk;
+}
+
+export function riskExplainer(m: Model, ancestors: Model[] = []): string[] {
   const L = m.license, out: string[] = [];
-  const r = riskScore(m);
+  const r = riskScore(m, ancestors);
   out.push(`Risk level: ${r.level} — ${r.reason}`);
 
   if (!L) return out;
@@ -306,6 +329,10 @@ export function riskExplainer(m: Model): string[] {
   if (L.type === "Proprietary") out.push("Proprietary/API terms: review indemnity & training provenance.");
   if (m.indemnity && m.indemnity !== "None") out.push(`Indemnity: ${m.indemnity} — vendor IP shield may apply.`);
   if (m.usage_restrictions?.length) out.push(`Usage restrictions: ${m.usage_restrictions.join(", ")}.`);
+  for (const base of ancestors) {
+    if (base.license?.name && base.license.name !== L.name) out.push(`Base model ${base.name}: ${base.license.name} terms also apply.`);
+    if (base.usage_restrictions?.length) out.push(`Inherited restrictions (${base.name}): ${base.usage_restrictions.join(", ")}.`);
+  }
   if (L.url) out.push("License → " + L.url);
 
   return out;
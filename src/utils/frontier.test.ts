@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { buildFrontier, cheapestMeeting, costPerMillion } from './frontier';
+import { Model, Pricing } from '../types';
+
+const model = (id: string, mmlu: number | null, pricing: Pricing[], overrides: Partial<Model> = {}): Model => ({
+    id,
+    name: id,
+    provider: null,
+    domain: 'LLM',
+    source: 'test',
+    url: null,
+    repo: null,
+    license: { name: 'Proprietary', type: 'Proprietary', commercial_use: true, attribution_required: false, share_alike: false, copyleft: false },
+    hosting: { weights_available: false, api_available: true, on_premise_friendly: false },
+    benchmarks: mmlu === null ? [] : [{ name: 'MMLU', score: mmlu }],
+    pricing,
+    ...overrides
+} as Model);
+
+const perM = (input: number, output?: number, currency = 'USD'): Pricing => ({ unit: '1M tokens', input, output, currency });
+
+describe('costPerMillion', () => {
+    it('blends input and output and converts currency', () => {
+        expect(costPerMillion(model('a', 1, [perM(2, 10)]))?.cost).toBe(4);
+        expect(costPerMillion(model('a', 1, [{ unit: 'token', input: 0.000002, currency: 'USD' }]))?.cost).toBeCloseTo(2);
+        expect(costPerMillion(model('a', 1, [perM(8.5, undefined, 'EUR')]), 'USD')?.cost).toBe(10);
+    });
+
+    it('skips subscriptions and unpriced entries', () => {
+        const priced = costPerMillion(model('a', 1, [{ unit: 'month', flat: 20 }, { unit: '1M tokens' }, perM(1)]));
+        expect(priced).toMatchObject({ cost: 1, pricing: { input: 1 } });
+        expect(costPerMillion(model('a', 1, [{ unit: 'month', flat: 20 }]))).toBeNull();
+    });
+});
+
+describe('buildFrontier', () => {
+    const models = [
+        model('cheap-weak', 60, [perM(0.5)]),
+        model('cheap-better', 70, [perM(0.5)]),
+        model('mid-dominated', 65, [perM(2)]),
+        model('mid-strong', 80, [perM(3)]),
+        model('pricey-best', 90, [perM(15)]),
+        model('pricey-worse', 85, [perM(20)]),
+        model('unpriced', 95, []),
+        model('unscored', null, [perM(0.1)])
+    ];
+
+    it('marks the models nothing cheaper beats', () => {
+        const points = buildFrontier(models, 'mmlu');
+        expect(points.map(p => [p.model.id, p.onFrontier])).toEqual([
+            ['cheap-better', true],
+            ['cheap-weak', false],
+            ['mid-dominated', false],
+            ['mid-strong', true],
+            ['pricey-best', true],
+            ['pricey-worse', false]
+        ]);
+    });
+
+    it('filters by hosting and domain and reports cost in the chosen currency', () => {
+        const mixed = [
+            ...models,
+            model('open', 75, [perM(1)], { hosting: { weights_available: true, api_available: false, on_premise_friendly: true } }),
+            model('vision', 99, [perM(1)], { domain: 'VLM' })
+        ];
+        expect(buildFrontier(mixed, 'mmlu', { hosting: 'weights' }).map(p => p.model.id)).toEqual(['open']);
+        expect(buildFrontier(mixed, 'mmlu', { domain: 'VLM' }).map(p => p.model.id)).toEqual(['vision']);
+        expect(buildFrontier(mixed, 'mmlu', { hosting: 'on-premise', currency: 'JPY' })[0].cost).toBe(110);
+    });
+
+    it('finds the cheapest model above a quality bar', () => {
+        const points = buildFrontier(models, 'mmlu');
+        expect(cheapestMeeting(points, 75)?.model.id).toBe('mid-strong');
+        expect(cheapestMeeting(points, 86)?.model.id).toBe('pricey-best');
+        expect(cheapestMeeting(points, 99)).toBeNull();
+    });
+});
@@ -0,0 +1,103 @@
+import { BenchmarkEntry, Domain, Model, Pricing } from '../types';
+import { CurrencyCode, convertCurrency, detectCurrency } from './currency';
+import { blendedCost, isSubscriptionPricing, toPerMillion } from './pricing';
+import { buildLeaderboard, resolveBenchmark } from './benchmarks';
+
+export type HostingFilter = 'all' | 'api' | 'weights' | 'on-premise';
+
+export interface FrontierPoint {
+    model: Model;
+    /** Blended cost per million tokens in the target currency */
+    cost: number;
+    /** Score on the benchmark's unified scale */
+    score: number;
+    /** Entry the score was taken from */
+    entry: BenchmarkEntry;
+    /** Pricing entry the cost was taken from */
+    pricing: Pricing;
+    /** No other model is both cheaper (or as cheap) and better */
+    onFrontier: boolean;
+}
+
+export interface FrontierOptions {
+    domain?: Domain | 'All';
+    hosting?: HostingFilter;
+    currency?: CurrencyCode;
+}
+
+const matchesHosting = (model: Model, hosting: HostingFilter): boolean => {
+    switch (hosting) {
+        case 'api': return !!model.hosting?.api_available;
+        case 'weights': return !!model.hosting?.weights_available;
+        case 'on-premise': return !!model.hosting?.on_premise_friendly;
+        default: return true;
+    }
+};
+
+const finite = (value: unknown): number | null => {
+    if (value == null || value === '') return null;
+    const n = Number(value);
+    return Number.isFinite(n) ? n : null;
+};
+
+/**
+ * Cost per million tokens of a model's first usable API price, converted to
+ * the target currency. Input and output prices are blended the way the table
+ * shows them; subscriptions have no per-token cost and are skipped.
+ */
+export function costPerMillion(model: Model, currency: CurrencyCode = 'USD'): { cost: number; pricing: Pricing } | null {
+    for (const pricing of model.pricing || []) {
+        if (isSubscriptionPricing(pricing)) continue;
+        const input = finite(pricing.input);
+        const output = finite(pricing.output);
+        const flat = finite(pricing.flat);
+
+        let perM: number;
+        if (input !== null) perM = blendedCost(toPerMillion(input, pricing.unit), output !== null ? toPerMillion(output, pricing.unit) : null);
+        else if (flat !== null) perM = toPerMillion(flat, pricing.unit);
+        else if (output !== null) perM = toPerMillion(output, pricing.unit);
+        else continue;
+
+        const cost = convertCurrency(perM, detectCurrency(pricing), currency);
+        if (Number.isFinite(cost) && cost >= 0) return { cost, pricing };
+    }
+    return null;
+}
+
+/**
+ * Plot priced models against a benchmark and mark the Pareto frontier: the
+ * models for which nothing else is at most as expensive and scores better.
+ * Points come back cheapest first.
+ */
+export function buildFrontier(models: Model[], benchmarkKey: string, options: FrontierOptions = {}): FrontierPoint[] {
+    const { domain = 'All', hosting = 'all', currency = 'USD' } = options;
+    const candidates = models.filter(m => matchesHosting(m, hosting));
+
+    const points: FrontierPoint[] = [];
+    for (const row of buildLeaderboard(candidates, benchmarkKey, domain)) {
+        const priced = costPerMillion(row.model, currency);
+        if (!priced) continue;
+        points.push({ model: row.model, cost: priced.cost, score: row.score, entry: row.entry, pricing: priced.pricing, onFrontier: false });
+    }
+    if (points.length === 0) return points;
+
+    const lowerIsBetter = resolveBenchmark(points[0].entry.name).lowerIsBetter;
+    const better = (a: number, b: number) => (lowerIsBetter ? a < b : a > b);
+    points.sort((a, b) => a.cost - b.cost || (lowerIsBetter ? a.score - b.score : b.score - a.score) || a.model.name.localeCompare(b.model.name));
+
+    let best: number | null = null;
+    for (const point of points) {
+        if (best === null || better(point.score, best)) {
+            point.onFrontier = true;
+            best = point.score;
+        }
+    }
+    return points;
+}
+
+/**
+ * Cheapest point that meets a quality bar, or null when none does
+ */
+export function cheapestMeeting(points: FrontierPoint[], threshold: number, lowerIsBetter = false): FrontierPoint | null {
+    return points.find(p => (lowerIsBetter ? p.score <= threshold : p.score >= threshold)) || null;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { createIdentityResolver, externalIdsOf, normalizeExternalId, upsertAlias } from './identity';
+import { findDuplicateMatch } from './duplicates';
+import { performMergeBatch } from './mergeLogic';
+import { IdentityAlias, Model } from '../types';
+
+function createModel(overrides: Partial<Model> = {}): Model {
+    return {
+        id: 'model-1',
+        name: 'Test Model',
+        domain: 'LLM',
+        source: 'HuggingFace',
+        license: {
+            name: 'MIT',
+            type: 'OSI',
+            commercial_use: true,
+            attribution_required: false,
+            share_alike: false,
+            copyleft: false,
+        },
+        hosting: { weights_available: true, api_available: false, on_premise_friendly: true },
+        ...overrides,
+    };
+}
+
+const alias = (kind: IdentityAlias['kind'], external_id: string, canonical_id: string): IdentityAlias =>
+    ({ kind, external_id, canonical_id, created_at: '2025-01-01T00:00:00.000Z' });
+
+const ALIASES = [
+    alias('huggingface', 'meta-llama/Meta-Llama-3-8B-Instruct', 'llama-3-8b-instruct'),
+    alias('ollama', 'llama3', 'llama-3-8b-instruct'),
+    alias('openrouter', 'meta-llama/llama-3-8b-instruct', 'llama-3-8b-instruct'),
+    alias('civitai', '4201', 'realistic-vision'),
+    alias('civitai', '4384', 'dreamshaper'),
+];
+
+describe('externalIdsOf', () => {
+    it('should extract ids from urls, repos and source-specific ids', () => {
+        const hf = createModel({ url: 'https://huggingface.co/meta-llama/Meta-Llama-3-8B-Instruct' });
+        expect(externalIdsOf(hf)).toEqual([{ kind: 'huggingface', id: 'meta-llama/Meta-Llama-3-8B-Instruct' }]);
+
+        const ollama = createModel({ id: 'ollama-llama3', source: 'Ollama Library', url: 'https://ollama.com/library/llama3:8b' });
+        expect(externalIdsOf(ollama).map(e => e.id)).toEqual(expect.arrayContaining(['llama3:8b', 'llama3']));
+
+        const openrouter = createModel({ id: 'meta-llama/llama-3-8b-instruct', source: 'openrouter' });
+        expect(externalIdsOf(openrouter)).toEqual([{ kind: 'openrouter', id: 'meta-llama/llama-3-8b-instruct' }]);
+    });
+});
+
+describe('normalizeExternalId / upsertAlias', () => {
+    it('should reduce pasted urls to ids', () => {
+        expect(normalizeExternalId('civitai', 'https://civitai.com/models/4201/realistic-vision')).toBe('4201');
+        expect(normalizeExternalId('huggingface', 'org/name')).toBe('org/name');
+    });
+
+    it('should replace the alias for the same external id', () => {
+        const list = upsertAlias([alias('civitai', '4201', 'a')], alias('civitai', 'https://civitai.com/models/4201', 'b'));
+        expect(list).toHaveLength(1);
+        expect(list[0].canonical_id).toBe('b');
+    });
+});
+
+describe('createIdentityResolver', () => {
+    it('should resolve records case-insensitively and by canonical id', () => {
+        const resolve = createIdentityResolver(ALIASES)!;
+        expect(resolve(createModel({ url: 'https://huggingface.co/META-LLAMA/Meta-Llama-3-8B-Instruct' }))).toBe('llama-3-8b-instruct');
+        expect(resolve(createModel({ id: 'llama-3-8b-instruct' }))).toBe('llama-3-8b-instruct');
+        expect(resolve(createModel({ url: 'https://example.com' }))).toBeUndefined();
+    });
+
+    it('should be undefined for an empty table', () => {
+        expect(createIdentityResolver([])).toBeUndefined();
+    });
+});
+
+describe('alias-driven merging', () => {
+    it('should land every aliased source on one canonical row', () => {
+        const incoming = [
+            createModel({ id: 'hf-1', name: 'Meta-Llama-3-8B-Instruct', url: 'https://huggingface.co/meta-llama/Meta-Llama-3-8B-Instruct' }),
+            createModel({ id: 'ollama-llama3', name: 'llama3', source: 'Ollama Library', url: 'https://ollama.com/library/llama3' }),
+            createModel({ id: 'meta-llama/llama-3-8b-instruct', name: 'Llama 3 8B Instruct', source: 'openrouter' }),
+        ];
+        const result = performMergeBatch([], incoming, false, undefined, undefined, ALIASES);
+        expect(result.models).toHaveLength(1);
+        expect(result.models[0].id).toBe('llama-3-8b-instruct');
+        expect(result.merges).toHaveLength(0);
+    });
+
+    it('should never merge look-alikes mapped to different canonical ids', () => {
+        const existing = [createModel({ id: 'a', name: 'Vision', source: 'Civitai', url: 'https://civitai.com/models/4201' })];
+        const inc = createModel({ id: 'b', name: 'Vision', source: 'Civitai', url: 'https://civitai.com/models/4384' });
+        expect(findDuplicateMatch(existing, inc, true, undefined, createIdentityResolver(ALIASES))).toBeNull();
+
+        const result = performMergeBatch(existing, [inc], true, undefined, undefined, ALIASES);
+        expect(result.models).toHaveLength(2);
+    });
+});
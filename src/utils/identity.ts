@@ -0,0 +1,119 @@
+import { EXTERNAL_ID_KINDS, ExternalIdKind, IdentityAlias, Model } from '../types';
+
+/**
+ * An external identifier found on a model record
+ */
+export interface ExternalId {
+    kind: ExternalIdKind;
+    id: string;
+}
+
+/**
+ * Resolves a model to its canonical id via the alias table (undefined when unmapped).
+ */
+export type IdentityResolver = (model: Model) => string | undefined;
+
+const URL_PATTERNS: Record<ExternalIdKind, RegExp> = {
+    huggingface: /huggingface\.co\/(?!api\/|datasets\/|spaces\/)([^/?#\s]+\/[^/?#\s]+)/i,
+    civitai: /civitai\.com\/models\/(\d+)/i,
+    ollama: /ollama\.com\/(?:library\/)?([^/?#\s]+(?::[^/?#\s]+)?)/i,
+    openrouter: /openrouter\.ai\/(?:models\/)?([^/?#\s]+\/[^/?#\s]+)/i,
+};
+
+/**
+ * Lookup key for an external id: kind plus lowercase id.
+ */
+export const aliasKey = (kind: ExternalIdKind, id: string): string => `${kind}:${id.trim().toLowerCase()}`;
+
+/**
+ * Extracts the external id from a pasted URL or bare id for the given kind.
+ * e.g. ("huggingface", "https://huggingface.co/meta-llama/Llama-3-8B") -> "meta-llama/Llama-3-8B"
+ */
+export function normalizeExternalId(kind: ExternalIdKind, value: string): string {
+    const trimmed = value.trim();
+    const match = trimmed.match(URL_PATTERNS[kind]);
+    return match ? match[1] : trimmed;
+}
+
+/**
+ * Collects every external id a model record carries in its url, repo, links or
+ * source-specific id. Ollama tags are reported both with and without the tag.
+ */
+export function externalIdsOf(model: Model): ExternalId[] {
+    const found = new Map<string, ExternalId>();
+    const add = (kind: ExternalIdKind, id?: string | null) => {
+        if (!id) return;
+        found.set(aliasKey(kind, id), { kind, id });
+    };
+
+    const urls = [model.url, model.repo, ...(model.links || []).map(l => l.url)].filter(Boolean) as string[];
+    for (const url of urls) {
+        for (const kind of EXTERNAL_ID_KINDS) {
+            const match = url.match(URL_PATTERNS[kind]);
+            if (!match) continue;
+            add(kind, match[1]);
+            if (kind === 'ollama' && match[1].includes(':')) add(kind, match[1].split(':')[0]);
+        }
+    }
+
+    const source = (model.source || '').toLowerCase();
+    if (source.includes('openrouter') && model.id.includes('/')) add('openrouter', model.id);
+    if (model.id.startsWith('ollama-')) add('ollama', model.id.slice('ollama-'.length));
+    // Bare "org/name" repos from HuggingFace
+    if (source.includes('huggingface') && model.repo && /^[^/\s:]+\/[^/\s]+$/.test(model.repo)) add('huggingface', model.repo);
+
+    return Array.from(found.values());
+}
+
+/**
+ * Builds a cached resolver for the alias table. A record resolves to a
+ * canonical id when one of its external ids is mapped, or when its own id
+ * is a canonical id in the table.
+ */
+export function createIdentityResolver(aliases?: IdentityAlias[]): IdentityResolver | undefined {
+    if (!aliases?.length) return undefined;
+    const byKey = new Map<string, string>();
+    const canonicalIds = new Set<string>();
+    for (const alias of aliases) {
+        if (!alias.external_id || !alias.canonical_id) continue;
+        byKey.set(aliasKey(alias.kind, normalizeExternalId(alias.kind, alias.external_id)), alias.canonical_id);
+        canonicalIds.add(alias.canonical_id);
+    }
+
+    const cache = new WeakMap<Model, string | null>();
+    return (model: Model) => {
+        const cached = cache.get(model);
+        if (cached !== undefined) return cached ?? undefined;
+        let resolved: string | null = canonicalIds.has(model.id) ? model.id : null;
+        if (!resolved) {
+            for (const ext of externalIdsOf(model)) {
+                const hit = byKey.get(aliasKey(ext.kind, ext.id));
+                if (hit) {
+                    resolved = hit;
+                    break;
+                }
+            }
+        }
+        cache.set(model, resolved);
+        return resolved ?? undefined;
+    };
+}
+
+/**
+ * True when both records are mapped to different canonical ids and must never merge.
+ */
+export const hasConflictingIdentity = (resolve: IdentityResolver | undefined, a: Model, b: Model): boolean => {
+    if (!resolve) return false;
+    const ca = resolve(a);
+    const cb = resolve(b);
+    return Boolean(ca && cb && ca !== cb);
+};
+
+/**
+ * Adds or replaces the alias for an external id, returning a new list.
+ */
+export function upsertAlias(aliases: IdentityAlias[] | undefined, alias: IdentityAlias): IdentityAlias[] {
+    const normalized = { ...alias, external_id: normalizeExternalId(alias.kind, alias.external_id) };
+    const key = aliasKey(normalized.kind, normalized.external_id);
+    return [...(aliases || []).filter(a => aliasKey(a.kind, normalizeExternalId(a.kind, a.external_id)) !== key), normalized];
+}
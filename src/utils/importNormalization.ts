@@ -80,6 +80,8 @@ export function toNormalizedModel(m: any, idx: number, sheetName?: string): Mode
     if (updated) (modelOut as any).updated_at = String(updated);
     if (pricing) (modelOut as any).pricing = pricing as any;
     if (m.description) (modelOut as any).description = cleanModelDescription(m.description);
+    // Keep attribution from re-imported exports
+    if (m.provenance && typeof m.provenance === 'object' && !Array.isArray(m.provenance)) modelOut.provenance = m.provenance;
 
     return modelOut;
 }
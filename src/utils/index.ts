@@ -21,6 +21,24 @@ export { filterModels } from './filterLogic';
 // Merge logic
 export { matchExistingIndex, mergeRecords, performMergeBatch } from './mergeLogic';
 
+// Provenance
+export { stampProvenance, stampChangedFields, mergeProvenance, formatProvenance, stripProvenance } from './provenance';
+
+// Merge policies
+export { DEFAULT_MERGE_POLICIES, resolveMergePolicies, applyMergePolicy } from './mergePolicies';
+
+// Duplicate review
+export { findDuplicateMatch, findDuplicateClusters, applyFieldWinners, splitMergeEvent, upsertDecision } from './duplicates';
+
+// Identity aliases
+export { createIdentityResolver, externalIdsOf, normalizeExternalId, upsertAlias } from './identity';
+
+// Snapshot diff / changelog
+export { diffSnapshots, changelogToJSON, changelogToMarkdown } from './snapshotDiff';
+
+// Snapshot storage
+export { DEFAULT_SNAPSHOT_RETENTION, createModelDelta, applyModelDelta, selectSnapshotsToPrune } from './snapshotDelta';
+
 // Currency utilities
 export {
     CURRENCY_SYMBOLS,
@@ -36,3 +54,6 @@ export { handleExternalLink } from './external-links';
 
 // Logging utilities
 export { logger, loggers, createLogger, configureLogging, resetLoggedOnce } from './logger';
+
+// JSONPath (custom source mappings)
+export { parseJsonPath, queryJsonPath, queryJsonPathFirst } from './jsonPath';
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonPath, queryJsonPath, queryJsonPathFirst } from './jsonPath';
+
+const doc = {
+    data: {
+        items: [
+            { id: 'a', meta: { license: 'mit', 'task type': 'llm' }, labels: ['chat', 'code'] },
+            { id: 'b', meta: { license: 'apache-2.0' }, labels: [] },
+        ],
+        next: 'cursor-2'
+    }
+};
+
+describe('parseJsonPath', () => {
+    it('should parse keys, indexes, wildcards and recursive descent', () => {
+        expect(parseJsonPath("$.data.items[*]['task type']..id[-1]")).toEqual([
+            { kind: 'key', key: 'data' },
+            { kind: 'key', key: 'items' },
+            { kind: 'wildcard' },
+            { kind: 'key', key: 'task type' },
+            { kind: 'descend', key: 'id' },
+            { kind: 'index', index: -1 },
+        ]);
+        expect(parseJsonPath('data.next')).toEqual(parseJsonPath('$.data.next'));
+        expect(parseJsonPath('$')).toEqual([]);
+    });
+
+    it('should reject invalid syntax', () => {
+        expect(() => parseJsonPath('$.data[abc]')).toThrow(/Invalid JSONPath/);
+    });
+});
+
+describe('queryJsonPath', () => {
+    it('should return all matches', () => {
+        expect(queryJsonPath(doc, '$.data.items[*].id')).toEqual(['a', 'b']);
+        expect(queryJsonPath(doc, '$..license')).toEqual(['mit', 'apache-2.0']);
+        expect(queryJsonPath(doc, '$.data.items[0].labels.*')).toEqual(['chat', 'code']);
+        expect(queryJsonPath(doc, '$.data.items[-1].id')).toEqual(['b']);
+    });
+
+    it('should skip missing values', () => {
+        expect(queryJsonPath(doc, "$.data.items[*].meta['task type']")).toEqual(['llm']);
+        expect(queryJsonPathFirst(doc, '$.data.missing.deeper')).toBeUndefined();
+        expect(queryJsonPathFirst(doc, '$')).toBe(doc);
+    });
+});
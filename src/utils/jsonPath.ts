@@ -0,0 +1,89 @@
+/**
+ * A step in a parsed JSONPath expression
+ */
+export type JsonPathSegment =
+    | { kind: 'key'; key: string }
+    | { kind: 'index'; index: number }
+    | { kind: 'wildcard' }
+    | { kind: 'descend'; key: string };
+
+const TOKENS: { pattern: RegExp; toSegment: (m: RegExpExecArray) => JsonPathSegment }[] = [
+    { pattern: /\.\.([A-Za-z_$][\w$-]*)/y, toSegment: m => ({ kind: 'descend', key: m[1] }) },
+    { pattern: /\.\*|\[\*\]/y, toSegment: () => ({ kind: 'wildcard' }) },
+    { pattern: /\.([\w$-]+)/y, toSegment: m => ({ kind: 'key', key: m[1] }) },
+    { pattern: /\[(-?\d+)\]/y, toSegment: m => ({ kind: 'index', index: Number(m[1]) }) },
+    { pattern: /\[(['"])(.*?)\1\]/y, toSegment: m => ({ kind: 'key', key: m[2] }) },
+];
+
+/**
+ * Parses the JSONPath subset used by mapping configs: `$`, `.key`, `['key']`,
+ * `[0]` / `[-1]`, `[*]` / `.*` and recursive `..key`. The leading `$` is
+ * optional (`data.items` equals `$.data.items`). Throws on invalid syntax.
+ */
+export function parseJsonPath(path: string): JsonPathSegment[] {
+    let rest = path.trim();
+    if (rest.startsWith('$')) rest = rest.slice(1);
+    else if (rest && !rest.startsWith('.') && !rest.startsWith('[')) rest = `.${rest}`;
+
+    const segments: JsonPathSegment[] = [];
+    let pos = 0;
+    while (pos < rest.length) {
+        const token = TOKENS.find(t => {
+            t.pattern.lastIndex = pos;
+            return t.pattern.test(rest);
+        });
+        if (!token) throw new Error(`Invalid JSONPath "${path}" at "${rest.slice(pos)}"`);
+        token.pattern.lastIndex = pos;
+        const match = token.pattern.exec(rest) as RegExpExecArray;
+        segments.push(token.toSegment(match));
+        pos += match[0].length;
+    }
+    return segments;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => v !== null && typeof v === 'object';
+
+function descend(node: unknown, key: string, out: unknown[]): void {
+    if (!isObject(node)) return;
+    if (!Array.isArray(node) && key in node) out.push(node[key]);
+    Object.values(node).forEach(child => descend(child, key, out));
+}
+
+/**
+ * Evaluates a JSONPath against a value and returns every match (undefined
+ * values are skipped).
+ */
+export function queryJsonPath(data: unknown, path: string | JsonPathSegment[]): unknown[] {
+    const segments = typeof path === 'string' ? parseJsonPath(path) : path;
+    let current: unknown[] = [data];
+
+    for (const segment of segments) {
+        const next: unknown[] = [];
+        for (const node of current) {
+            if (!isObject(node)) continue;
+            switch (segment.kind) {
+                case 'key':
+                    if (!Array.isArray(node)) next.push(node[segment.key]);
+                    break;
+                case 'index':
+                    if (Array.isArray(node)) next.push(node[segment.index < 0 ? node.length + segment.index : segment.index]);
+                    break;
+                case 'wildcard':
+                    next.push(...(Array.isArray(node) ? node : Object.values(node)));
+                    break;
+                case 'descend':
+                    descend(node, segment.key, next);
+                    break;
+            }
+        }
+        current = next.filter(v => v !== undefined);
+    }
+    return current;
+}
+
+/**
+ * First match of a JSONPath, or undefined
+ */
+export function queryJsonPathFirst(data: unknown, path: string | JsonPathSegment[]): unknown {
+    return queryJsonPath(data, path)[0];
+}
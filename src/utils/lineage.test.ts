@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { buildLineageGraph, ancestorsOf, descendantsOf, derivativeIds, lineageRelationOf } from './lineage';
+import { Model } from '../types';
+
+const model = (id: string, overrides: Partial<Model> = {}): Model => ({
+    id,
+    name: id.split('/').pop() || id,
+    domain: 'LLM',
+    source: 'HuggingFace',
+    license: { name: 'MIT', type: 'OSI', commercial_use: true, attribution_required: false, share_alike: false, copyleft: false },
+    hosting: { weights_available: true, api_available: false, on_premise_friendly: true },
+    ...overrides
+});
+
+const models = [
+    // Imported under a different id, but the repo links it to the Hugging Face reference
+    model('llama-3-8b', { repo: 'https://huggingface.co/meta-llama/Meta-Llama-3-8B' }),
+    model('org/tuned', { lineage: { base_models: ['meta-llama/Meta-Llama-3-8B'], relation: 'finetune' } }),
+    model('org/tuned-gguf', { lineage: { base_models: ['https://huggingface.co/org/tuned'], relation: 'quantized' } }),
+    model('org/style-lora', { domain: 'LoRA', lineage: { base_models: ['org/tuned'] } }),
+    model('org/orphan', { lineage: { base_models: ['someone/Unknown-Base-7B'] } }),
+];
+
+describe('buildLineageGraph', () => {
+    it('should resolve base references by id, repo and URL', () => {
+        const graph = buildLineageGraph(models);
+        expect(graph.parents.get('org/tuned')).toEqual(['llama-3-8b']);
+        expect(graph.children.get('org/tuned')).toEqual(['org/tuned-gguf', 'org/style-lora']);
+        expect(graph.unresolved.get('org/orphan')).toEqual(['someone/Unknown-Base-7B']);
+    });
+
+    it('should walk ancestors and descendants with relations', () => {
+        const graph = buildLineageGraph(models);
+        expect(ancestorsOf(graph, 'org/tuned-gguf').map(n => [n.model.id, n.depth, n.relation])).toEqual([
+            ['org/tuned', 1, 'quantized'],
+            ['llama-3-8b', 2, 'finetune']
+        ]);
+        expect(descendantsOf(graph, 'llama-3-8b').map(n => [n.model.id, n.relation])).toEqual([
+            ['org/tuned', 'finetune'],
+            ['org/tuned-gguf', 'quantized'],
+            ['org/style-lora', 'adapter']
+        ]);
+    });
+
+    it('should stop on cycles', () => {
+        const graph = buildLineageGraph([
+            model('a/one', { lineage: { base_models: ['a/two'] } }),
+            model('a/two', { lineage: { base_models: ['a/one'] } })
+        ]);
+        expect(descendantsOf(graph, 'a/one').map(n => n.model.id)).toEqual(['a/two']);
+    });
+});
+
+describe('derivativeIds', () => {
+    it('should match bases loosely, including unresolved references', () => {
+        expect([...derivativeIds(models, 'Llama 3')].sort()).toEqual(['org/style-lora', 'org/tuned', 'org/tuned-gguf']);
+        expect([...derivativeIds(models, 'unknown-base')]).toEqual(['org/orphan']);
+    });
+});
+
+describe('lineageRelationOf', () => {
+    it('should infer adapters and fine-tunes from the domain', () => {
+        expect(lineageRelationOf(model('x', { domain: 'LoRA' }))).toBe('adapter');
+        expect(lineageRelationOf(model('x', { domain: 'FineTune' }))).toBe('finetune');
+        expect(lineageRelationOf(model('x'))).toBeUndefined();
+    });
+});
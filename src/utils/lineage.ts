@@ -0,0 +1,134 @@
+import { LineageRelation, Model } from '../types';
+import { externalIdsOf, normalizeExternalId } from './identity';
+
+/**
+ * Parent/child edges between models in the database. Base model references
+ * that match no record are kept in `unresolved` so they can still be shown
+ * and searched.
+ */
+export interface LineageGraph {
+    byId: Map<string, Model>;
+    parents: Map<string, string[]>;
+    children: Map<string, string[]>;
+    unresolved: Map<string, string[]>;
+}
+
+/**
+ * A model reached while walking the graph, with its distance from the start
+ */
+export interface LineageNode {
+    model: Model;
+    depth: number;
+    relation?: LineageRelation;
+}
+
+// Deep chains are rare; this only guards against runaway walks on bad data
+const MAX_DEPTH = 8;
+
+const refKey = (ref: string): string => normalizeExternalId('huggingface', ref).toLowerCase();
+// "Llama 3", "llama-3" and "Llama3" all match "Meta-Llama-3-8B"
+const squash = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+/**
+ * Relation of a model to its base: the declared one, otherwise inferred from
+ * the LoRA and FineTune domains.
+ */
+export function lineageRelationOf(model: Model): LineageRelation | undefined {
+    if (model.lineage?.relation) return model.lineage.relation;
+    if (model.domain === 'LoRA') return 'adapter';
+    if (model.domain === 'FineTune') return 'finetune';
+    return undefined;
+}
+
+/**
+ * Builds the lineage graph. Base references are matched against model ids and
+ * the Hugging Face repo ids each record carries (url, repo or links).
+ */
+export function buildLineageGraph(models: Model[]): LineageGraph {
+    const byId = new Map<string, Model>();
+    const byRef = new Map<string, string>();
+    for (const model of models) {
+        byId.set(model.id, model);
+        byRef.set(model.id.toLowerCase(), model.id);
+        for (const ext of externalIdsOf(model)) {
+            if (ext.kind === 'huggingface' && !byRef.has(ext.id.toLowerCase())) byRef.set(ext.id.toLowerCase(), model.id);
+        }
+    }
+
+    const parents = new Map<string, string[]>();
+    const children = new Map<string, string[]>();
+    const unresolved = new Map<string, string[]>();
+
+    for (const model of models) {
+        for (const ref of model.lineage?.base_models ?? []) {
+            const parentId = byRef.get(refKey(ref));
+            if (!parentId || parentId === model.id) {
+                if (!parentId) unresolved.set(model.id, [...(unresolved.get(model.id) ?? []), ref]);
+                continue;
+            }
+            const own = parents.get(model.id) ?? [];
+            if (own.includes(parentId)) continue;
+            parents.set(model.id, [...own, parentId]);
+            children.set(parentId, [...(children.get(parentId) ?? []), model.id]);
+        }
+    }
+
+    return { byId, parents, children, unresolved };
+}
+
+function walk(graph: LineageGraph, startId: string, edges: Map<string, string[]>): LineageNode[] {
+    const seen = new Set([startId]);
+    const out: LineageNode[] = [];
+    let frontier = [startId];
+
+    for (let depth = 1; depth <= MAX_DEPTH && frontier.length; depth++) {
+        const next: string[] = [];
+        for (const id of frontier) {
+            for (const linked of edges.get(id) ?? []) {
+                const model = graph.byId.get(linked);
+                if (seen.has(linked) || !model) continue;
+                seen.add(linked);
+                // The relation belongs to the derived side of the edge
+                const derived = edges === graph.parents ? graph.byId.get(id) : model;
+                out.push({ model, depth, relation: derived && lineageRelationOf(derived) });
+                next.push(linked);
+            }
+        }
+        frontier = next;
+    }
+    return out;
+}
+
+/**
+ * Base models of a model, nearest first. `relation` is how the closer model
+ * derives from this one.
+ */
+export const ancestorsOf = (graph: LineageGraph, id: string): LineageNode[] => walk(graph, id, graph.parents);
+
+/**
+ * Models derived from a model (fine-tunes, adapters, quantizations, merges),
+ * nearest first. `relation` is how each one derives from its parent.
+ */
+export const descendantsOf = (graph: LineageGraph, id: string): LineageNode[] => walk(graph, id, graph.children);
+
+/**
+ * Ids of every model derived from a base matching `term`: a model whose id or
+ * name contains the term, or an unresolved base reference containing it.
+ * Punctuation and spacing are ignored when matching.
+ */
+export function derivativeIds(models: Model[], term: string, graph = buildLineageGraph(models)): Set<string> {
+    const needle = squash(term);
+    const ids = new Set<string>();
+    if (!needle) return ids;
+
+    for (const model of models) {
+        const matches = squash(model.id).includes(needle) || squash(model.name || '').includes(needle);
+        if (matches) descendantsOf(graph, model.id).forEach(n => ids.add(n.model.id));
+    }
+    for (const [id, refs] of graph.unresolved) {
+        if (!refs.some(ref => squash(ref).includes(needle))) continue;
+        ids.add(id);
+        descendantsOf(graph, id).forEach(n => ids.add(n.model.id));
+    }
+    return ids;
+}
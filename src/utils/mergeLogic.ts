@@ -1,64 +1,29 @@
-import { Model } from '../types';
-import { dedupe, normalizeNameForMatch, cleanModelDescription } from './format';
-
-// Helper to determine if an update is permitted based on "completeness" or specific rules
-// (For now, we just follow the implementation we had in the hook)
-
-export const matchExistingIndex = (arr: Model[], inc: Model, autoMergeDuplicates: boolean): number => {
-    // 1) Match by exact id
-    let idx = arr.findIndex(e => e.id && inc.id && e.id === inc.id);
-    if (idx !== -1) return idx;
-    // 2) Match by repo
-    if (inc.repo) {
-        idx = arr.findIndex(e => e.repo && e.repo === inc.repo);
-        if (idx !== -1) return idx;
-    }
-    // 3) Match by url
-    if (inc.url) {
-        idx = arr.findIndex(e => e.url && e.url === inc.url);
-        if (idx !== -1) return idx;
-    }
-    // 4) Optional fuzzy name matching
-    if (autoMergeDuplicates) {
-        const incBase = normalizeNameForMatch(inc.name);
-        if (incBase) {
-            // Require a minimum name length to avoid merging generic names like "chat"
-            if (incBase.length < 3) return -1;
-
-            const incProv = (inc.provider || '').toString().toLowerCase();
-
-            idx = arr.findIndex(e => {
-                // Must be same domain (e.g. don't merge ImageGen 'Llama' with LLM 'Llama')
-                const sameDomain = !inc.domain || !e.domain ? true : inc.domain === e.domain;
-                if (!sameDomain) return false;
-
-                const exBase = normalizeNameForMatch(e.name);
-                if (exBase !== incBase) return false;
-
-                // Name matches! Now consider provider.
-                const exProv = (e.provider || '').toString().toLowerCase();
-
-                // If providers match reasonably, it's a definite hit
-                const provOk = incProv === exProv || !incProv || !exProv || incProv.includes(exProv) || exProv.includes(incProv);
-                if (provOk) return true;
-
-                // If name is long enough (very specific), merge even if providers differ (e.g. "llama-3-70b-instruct")
-                if (incBase.length > 8) return true;
-
-                return false;
-            });
-            if (idx !== -1) return idx;
-        }
-    }
-    return -1;
-};
-
-export const mergeRecords = (existing: Model, incoming: Model): Model => {
+import { DuplicateDecision, DuplicateFieldWinners, IdentityAlias, MERGE_POLICY_FIELDS, MergeEvent, MergePolicies, Model } from '../types';
+import { dedupe, cleanModelDescription } from './format';
+import { mergeProvenance } from './provenance';
+import { applyMergePolicy, resolveMergePolicies } from './mergePolicies';
+import { applyFieldWinners, findDecision, findDuplicateMatch, isMarkedDistinct } from './duplicates';
+import { createIdentityResolver, hasConflictingIdentity } from './identity';
+
+/**
+ * Index of the existing record an incoming one duplicates, or -1.
+ * See findDuplicateMatch for the rules and their confidence.
+ */
+export const matchExistingIndex = (
+    arr: Model[],
+    inc: Model,
+    autoMergeDuplicates: boolean,
+    decisions?: DuplicateDecision[],
+    aliases?: IdentityAlias[]
+): number => findDuplicateMatch(arr, inc, autoMergeDuplicates, decisions, createIdentityResolver(aliases))?.index ?? -1;
+
+export const mergeRecords = (existing: Model, incoming: Model, policies?: MergePolicies): Model => {
     // ═══════════════════════════════════════════════════════════════════════════
     // MERGE STRATEGY (V2):
     // 1. IDENTITY & SOURCES: Accumulate sources and all valid links
     // 2. DISCREPANCY RULE: Use data from the source with the EARLIEST release date
     // 3. STATS: Sum downloads across all sources
+    // Per-field policies (see mergePolicies.ts) are applied on top of these rules.
     // ═══════════════════════════════════════════════════════════════════════════
 
     // -- Identify chronological winner --
@@ -188,20 +153,53 @@ export const mergeRecords = (existing: Model, incoming: Model): Model => {
     (fresher.benchmarks || []).forEach(b => benchmarkMap.set(b.name, b));
     (older.benchmarks || []).forEach(b => benchmarkMap.set(b.name, b)); // Older overwrites if name matches
     merged.benchmarks = Array.from(benchmarkMap.values());
+    merged.lineage = older.lineage?.base_models.length ? older.lineage : fresher.lineage;
+    // Variant lists are scraped whole, so the fresher list replaces the older one
+    merged.variants = fresher.variants?.length ? fresher.variants : older.variants;
 
     // User-set fields (Always from existing if user has interacted)
     if (existing.isFavorite !== undefined) merged.isFavorite = existing.isFavorite;
     if (existing.isNSFWFlagged !== undefined) merged.isNSFWFlagged = existing.isNSFWFlagged;
     if (existing.flaggedImageUrls) merged.flaggedImageUrls = [...new Set([...existing.flaggedImageUrls, ...(incoming.flaggedImageUrls || [])])];
 
+    // 9. Per-field merge policies override the V2 result where configured
+    const resolvedPolicies = resolveMergePolicies(policies);
+    const mergedFields = merged as Record<string, unknown>;
+    for (const field of MERGE_POLICY_FIELDS) {
+        mergedFields[field] = applyMergePolicy(field, resolvedPolicies[field], existing, incoming, merged[field]);
+    }
+
+    // 10. Provenance - attribute each field to the record its value came from
+    merged.provenance = mergeProvenance(existing, incoming, merged);
+
     return merged;
 };
 
-export const performMergeBatch = (currentModels: Model[], newModels: Model[], autoMergeDuplicates: boolean) => {
+/**
+ * Merges a reviewed duplicate cluster into its first record, then applies any
+ * per-field winners picked in the workbench.
+ */
+export const mergeCluster = (models: Model[], policies?: MergePolicies, winners?: DuplicateFieldWinners): Model => {
+    const merged = models.slice(1).reduce((acc, m) => mergeRecords(acc, m, policies), models[0]);
+    return applyFieldWinners(merged, models, winners);
+};
+
+export const performMergeBatch = (
+    currentModels: Model[],
+    newModels: Model[],
+    autoMergeDuplicates: boolean,
+    policies?: MergePolicies,
+    decisions?: DuplicateDecision[],
+    aliases?: IdentityAlias[]
+) => {
     const base = [...currentModels];
     let added = 0;
     let updated = 0;
     let duplicates = 0;
+    // Heuristic merges (repo, url or name matches), kept for review
+    const merges: MergeEvent[] = [];
+    const mergedAt = new Date().toISOString();
+    const resolveIdentity = createIdentityResolver(aliases);
 
     // Helper to apply future date tags to a model
     const applyFutureDateTags = (model: Model): Model => {
@@ -223,19 +221,33 @@ export const performMergeBatch = (currentModels: Model[], newModels: Model[], au
     };
 
     newModels.forEach(inc => {
-        const idx = matchExistingIndex(base, inc, autoMergeDuplicates);
-        if (idx === -1) {
-            // Brand new model
-            base.push(applyFutureDateTags(inc));
+        const match = findDuplicateMatch(base, inc, autoMergeDuplicates, decisions, resolveIdentity);
+        if (!match) {
+            // Brand new model - aliased records take their canonical id so every source lands on one row
+            const canonical = resolveIdentity?.(inc);
+            base.push(applyFutureDateTags(canonical ? { ...inc, id: canonical } : inc));
             added++;
         } else {
             // Already exists in DB - count as duplicate/update
+            const idx = match.index;
             const original = base[idx];
 
             // Check if anything actually changed (simple heuristic)
             const wasIncomplete = !original.description || !original.parameters || !original.tags?.length;
 
-            base[idx] = mergeRecords(original, inc);
+            const decision = findDecision(decisions, original.id, inc.id);
+            base[idx] = applyFieldWinners(mergeRecords(original, inc, policies), [original, inc], decision?.winners);
+
+            if (match.rule !== 'id' && match.rule !== 'decision' && match.rule !== 'alias') {
+                merges.push({
+                    merged_id: original.id,
+                    existing: original,
+                    incoming: inc,
+                    rule: match.rule,
+                    confidence: match.confidence,
+                    merged_at: mergedAt
+                });
+            }
 
             // If it was incomplete and now it has more data, count as updated
             const isNowComplete = base[idx].description && base[idx].parameters;
@@ -248,7 +260,7 @@ export const performMergeBatch = (currentModels: Model[], newModels: Model[], au
         }
     });
 
-    const finalModels = dedupe(base);
+    const finalModels = dedupe(base, (a, b) => isMarkedDistinct(decisions, a.id, b.id) || hasConflictingIdentity(resolveIdentity, a, b));
 
     // Safety check: if dedupe removed more items that weren't caught by matchExistingIndex
     const unaccounted = (base.length - finalModels.length);
@@ -260,6 +272,7 @@ export const performMergeBatch = (currentModels: Model[], newModels: Model[], au
         models: finalModels,
         added,
         updated,
-        duplicates
+        duplicates,
+        merges
     };
 };
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { applyMergePolicy, resolveMergePolicies, DEFAULT_MERGE_POLICIES } from './mergePolicies';
+import { mergeRecords } from './mergeLogic';
+import { stampProvenance } from './provenance';
+import { Model } from '../types';
+
+function createModel(overrides: Partial<Model> = {}): Model {
+    return {
+        id: 'model-1',
+        name: 'Test Model',
+        domain: 'LLM',
+        source: 'HuggingFace',
+        ...overrides,
+    };
+}
+
+const HF = { source: 'HuggingFace', kind: 'fetcher' as const, fetched_at: '2025-01-01T00:00:00.000Z' };
+const AA = { source: 'Artificial Analysis', kind: 'fetcher' as const, fetched_at: '2025-02-01T00:00:00.000Z' };
+const MANUAL = { source: 'Manual edit', kind: 'manual' as const, fetched_at: '2024-12-01T00:00:00.000Z' };
+
+describe('resolveMergePolicies', () => {
+    it('should return defaults when no overrides are given', () => {
+        expect(resolveMergePolicies()).toEqual(DEFAULT_MERGE_POLICIES);
+    });
+
+    it('should layer partial overrides over the defaults', () => {
+        const resolved = resolveMergePolicies({ tags: { strategy: 'union' } });
+        expect(resolved.tags).toEqual({ strategy: 'union', keepManual: true });
+        expect(resolved.pricing).toEqual(DEFAULT_MERGE_POLICIES.pricing);
+    });
+});
+
+describe('applyMergePolicy', () => {
+    it('should keep manually edited values when keepManual is set', () => {
+        const existing = stampProvenance(createModel({ parameters: '8B' }), MANUAL);
+        const incoming = stampProvenance(createModel({ parameters: '7B' }), HF);
+        expect(applyMergePolicy('parameters', { strategy: 'newest', keepManual: true }, existing, incoming, '7B')).toBe('8B');
+        expect(applyMergePolicy('parameters', { strategy: 'newest', keepManual: false }, existing, incoming, '7B')).toBe('7B');
+    });
+
+    it('should pick the most recently fetched value for newest', () => {
+        const existing = stampProvenance(createModel({ context_window: '32k' }), AA);
+        const incoming = stampProvenance(createModel({ context_window: '128k' }), HF);
+        expect(applyMergePolicy('context_window', { strategy: 'newest' }, existing, incoming, '128k')).toBe('32k');
+    });
+
+    it('should prefer listed sources in order', () => {
+        const existing = stampProvenance(createModel({ description: 'from HF' }), HF);
+        const incoming = stampProvenance(createModel({ source: 'Artificial Analysis', description: 'from AA' }), AA);
+        const policy = { strategy: 'preferSource' as const, sources: ['artificial analysis', 'HuggingFace'] };
+        expect(applyMergePolicy('description', policy, existing, incoming, 'from HF')).toBe('from AA');
+    });
+
+    it('should fall back when no preferred source provides a value', () => {
+        const existing = createModel({ description: 'a' });
+        const incoming = createModel({ description: 'b' });
+        expect(applyMergePolicy('description', { strategy: 'preferSource', sources: ['Ollama'] }, existing, incoming, 'a')).toBe('a');
+    });
+
+    it('should union arrays without duplicates', () => {
+        const existing = createModel({ tags: ['a', 'b'] });
+        const incoming = createModel({ tags: ['b', 'c'] });
+        expect(applyMergePolicy('tags', { strategy: 'union' }, existing, incoming, ['b', 'c'])).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should take the largest value for max', () => {
+        const existing = createModel({ downloads: 500 });
+        const incoming = createModel({ downloads: 200 });
+        expect(applyMergePolicy('downloads', { strategy: 'max' }, existing, incoming, 700)).toBe(500);
+        expect(applyMergePolicy('release_date', { strategy: 'max' },
+            createModel({ release_date: '2024-01-01' }), createModel({ release_date: '2024-06-01' }), '2024-01-01')).toBe('2024-06-01');
+        // Sizes compare as numbers, never as dates ("7B" parses as a date)
+        expect(applyMergePolicy('parameters', { strategy: 'max' },
+            createModel({ parameters: '70B' }), createModel({ parameters: '7B' }), '7B')).toBe('70B');
+        expect(applyMergePolicy('parameters', { strategy: 'max' },
+            createModel({ parameters: '405B' }), createModel({ parameters: '1.5T' }), '405B')).toBe('1.5T');
+    });
+});
+
+describe('mergeRecords with policies', () => {
+    it('should prefer Artificial Analysis pricing by default', () => {
+        const existing = stampProvenance(createModel({
+            source: 'Artificial Analysis',
+            pricing: [{ unit: '1M tokens', input: 1, output: 2, currency: 'USD' }],
+        }), AA);
+        const incoming = stampProvenance(createModel({
+            pricing: [{ unit: '1M tokens', input: 5, output: 10, currency: 'USD' }],
+        }), HF);
+        expect(mergeRecords(existing, incoming).pricing?.[0].input).toBe(1);
+    });
+
+    it('should apply user policies to the merged record', () => {
+        const existing = createModel({ downloads: 900 });
+        const incoming = createModel({ downloads: 100 });
+        const merged = mergeRecords(existing, incoming, { downloads: { strategy: 'max' } });
+        expect(merged.downloads).toBe(900);
+    });
+});
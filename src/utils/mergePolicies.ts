@@ -0,0 +1,124 @@
+import { FieldMergePolicy, MergePolicies, MergePolicyField, Model } from '../types';
+import { canonical, hasValue } from './provenance';
+
+/**
+ * Default per-field merge policies.
+ * Everything follows the built-in V2 rule except pricing, where the Artificial
+ * Analysis feed is kept in preference to stale listing data. Manual edits are
+ * never overwritten.
+ */
+export const DEFAULT_MERGE_POLICIES: Record<MergePolicyField, FieldMergePolicy> = {
+    description: { strategy: 'default', keepManual: true },
+    provider: { strategy: 'default', keepManual: true },
+    parameters: { strategy: 'default', keepManual: true },
+    context_window: { strategy: 'default', keepManual: true },
+    license: { strategy: 'default', keepManual: true },
+    pricing: { strategy: 'preferSource', sources: ['Artificial Analysis'], keepManual: true },
+    release_date: { strategy: 'default', keepManual: true },
+    tags: { strategy: 'default', keepManual: true },
+    usage_restrictions: { strategy: 'default', keepManual: true },
+    benchmarks: { strategy: 'default', keepManual: true },
+    downloads: { strategy: 'default', keepManual: false },
+};
+
+/**
+ * Fills in missing fields of a (possibly partial, user-saved) policy map with defaults.
+ */
+export function resolveMergePolicies(policies?: MergePolicies): Record<MergePolicyField, FieldMergePolicy> {
+    const resolved = { ...DEFAULT_MERGE_POLICIES };
+    if (!policies) return resolved;
+    for (const [field, policy] of Object.entries(policies) as [MergePolicyField, FieldMergePolicy | undefined][]) {
+        if (policy && field in resolved) {
+            resolved[field] = { ...resolved[field], ...policy };
+        }
+    }
+    return resolved;
+}
+
+const matchesSource = (model: Model, field: MergePolicyField, source: string): boolean => {
+    const wanted = source.trim().toLowerCase();
+    if (!wanted) return false;
+    if (model.provenance?.[field]?.source.toLowerCase() === wanted) return true;
+    return (model.source || '').split(',').some(s => s.trim().toLowerCase() === wanted);
+};
+
+const fieldTimestamp = (model: Model, field: MergePolicyField): number => {
+    const iso = model.provenance?.[field]?.fetched_at || model.updated_at;
+    const ts = iso ? new Date(iso).getTime() : NaN;
+    return Number.isNaN(ts) ? 0 : ts;
+};
+
+const DATE_FIELDS = new Set<string>(['release_date', 'updated_at']);
+const SIZE_SUFFIXES: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9, t: 1e12 };
+
+/**
+ * Numeric value used by the `max` policy. Only date fields are read as dates;
+ * anything else is a number, with K/M/B/T suffixes scaled ("1.5T" > "70B").
+ */
+const toComparable = (field: string, v: unknown): number | null => {
+    if (typeof v === 'number') return v;
+    if (typeof v !== 'string') return null;
+    if (DATE_FIELDS.has(field)) {
+        const ts = new Date(v).getTime();
+        return Number.isNaN(ts) ? null : ts;
+    }
+    const match = v.trim().match(/^(\d+(?:\.\d+)?)\s*([kmbt])?/i);
+    if (!match) return null;
+    return parseFloat(match[1]) * (match[2] ? SIZE_SUFFIXES[match[2].toLowerCase()] : 1);
+};
+
+/**
+ * Resolves the merged value of a single field according to its policy.
+ *
+ * @param field - Field being merged
+ * @param policy - Policy for the field
+ * @param existing - Record already in the database
+ * @param incoming - Newly fetched/imported record
+ * @param fallback - Value produced by the built-in V2 rule
+ */
+export function applyMergePolicy(
+    field: MergePolicyField,
+    policy: FieldMergePolicy,
+    existing: Model,
+    incoming: Model,
+    fallback: unknown
+): unknown {
+    const exVal = existing[field];
+    const inVal = incoming[field];
+
+    if (policy.keepManual && existing.provenance?.[field]?.kind === 'manual' && hasValue(exVal)) {
+        return exVal;
+    }
+
+    switch (policy.strategy) {
+        case 'newest': {
+            if (!hasValue(exVal)) return hasValue(inVal) ? inVal : fallback;
+            if (!hasValue(inVal)) return exVal;
+            return fieldTimestamp(incoming, field) >= fieldTimestamp(existing, field) ? inVal : exVal;
+        }
+        case 'preferSource': {
+            for (const source of policy.sources || []) {
+                if (matchesSource(existing, field, source) && hasValue(exVal)) return exVal;
+                if (matchesSource(incoming, field, source) && hasValue(inVal)) return inVal;
+            }
+            return fallback;
+        }
+        case 'union': {
+            if (!Array.isArray(exVal) && !Array.isArray(inVal)) return fallback;
+            const seen = new Map<string, unknown>();
+            [...(Array.isArray(exVal) ? exVal : []), ...(Array.isArray(inVal) ? inVal : [])]
+                .forEach(item => seen.set(canonical(item), item));
+            return Array.from(seen.values());
+        }
+        case 'max': {
+            const a = toComparable(field, exVal);
+            const b = toComparable(field, inVal);
+            if (a == null && b == null) return fallback;
+            if (a == null) return inVal;
+            if (b == null) return exVal;
+            return b > a ? inVal : exVal;
+        }
+        default:
+            return fallback;
+    }
+}
@@ -30,16 +30,17 @@ export const toPerMillion = (amount: number, unit?: string | null): number => {
     return perM;
 };
 
+/**
+ * Blends input and output cost into one figure (3:1 ratio input:output is typical).
+ */
+export const blendedCost = (inputCost: number, outputCost: number | null): number =>
+    outputCost !== null ? (inputCost * 3 + outputCost) / 4 : inputCost;
+
 /**
  * Formats API pricing for enterprise display.
  */
 export const formatEnterprisePricing = (inputCost: number, outputCost: number | null, currency: string): string => {
-    if (outputCost !== null) {
-        // Show blended cost (3:1 ratio input:output is typical)
-        const blendedCost = (inputCost * 3 + outputCost) / 4;
-        return formatCurrency(blendedCost, currency as any);
-    }
-    return formatCurrency(inputCost, currency as any);
+    return formatCurrency(blendedCost(inputCost, outputCost), currency as any);
 };
 
 /**
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { stampProvenance, stampChangedFields, mergeProvenance, formatProvenance, stripProvenance } from './provenance';
+import { mergeRecords } from './mergeLogic';
+import { Model } from '../types';
+
+function createModel(overrides: Partial<Model> = {}): Model {
+    return {
+        id: 'model-1',
+        name: 'Test Model',
+        domain: 'LLM',
+        source: 'HuggingFace',
+        license: {
+            name: 'MIT',
+            type: 'OSI',
+            commercial_use: true,
+            attribution_required: false,
+            share_alike: false,
+            copyleft: false,
+        },
+        hosting: { weights_available: true, api_available: false, on_premise_friendly: true },
+        ...overrides,
+    };
+}
+
+const HF = { source: 'HuggingFace', kind: 'fetcher' as const, fetched_at: '2025-01-01T00:00:00.000Z' };
+const AA = { source: 'Artificial Analysis', kind: 'fetcher' as const, fetched_at: '2025-02-01T00:00:00.000Z' };
+
+describe('stampProvenance', () => {
+    it('should stamp only populated fields', () => {
+        const result = stampProvenance(createModel({ parameters: '7B', description: '' }), HF);
+        expect(result.provenance?.license).toEqual(HF);
+        expect(result.provenance?.parameters).toEqual(HF);
+        expect(result.provenance?.description).toBeUndefined();
+        expect(result.provenance?.pricing).toBeUndefined();
+    });
+
+    it('should keep existing entries unless overwrite is set', () => {
+        const stamped = stampProvenance(createModel(), HF);
+        expect(stampProvenance(stamped, AA).provenance?.license).toEqual(HF);
+        expect(stampProvenance(stamped, AA, true).provenance?.license).toEqual(AA);
+    });
+
+    it('should default fetched_at to now', () => {
+        const result = stampProvenance(createModel(), { source: 'Import', kind: 'import' });
+        expect(new Date(result.provenance!.name!.fetched_at).getTime()).not.toBeNaN();
+    });
+});
+
+describe('stampChangedFields', () => {
+    it('should attribute only the fields that changed', () => {
+        const before = stampProvenance(createModel({ parameters: '7B' }), HF);
+        const after = { ...before, parameters: '8B' };
+        const result = stampChangedFields(before, after, { source: 'Manual edit', kind: 'manual', fetched_at: '2025-03-01T00:00:00.000Z' });
+        expect(result.provenance?.parameters?.kind).toBe('manual');
+        expect(result.provenance?.license).toEqual(HF);
+    });
+
+    it('should drop provenance for cleared fields', () => {
+        const before = stampProvenance(createModel({ parameters: '7B' }), HF);
+        const result = stampChangedFields(before, { ...before, parameters: null }, { source: 'Manual edit', kind: 'manual' });
+        expect(result.provenance?.parameters).toBeUndefined();
+    });
+});
+
+describe('mergeProvenance', () => {
+    it('should return undefined when neither record has provenance', () => {
+        const merged = createModel();
+        expect(mergeProvenance(createModel(), createModel(), merged)).toBeUndefined();
+    });
+
+    it('should attribute each field to the record whose value survived', () => {
+        const existing = stampProvenance(createModel({ release_date: '2024-01-01', parameters: '7B' }), HF);
+        const incoming = stampProvenance(createModel({
+            source: 'Artificial Analysis',
+            release_date: '2024-06-01',
+            context_window: '128k',
+        }), AA);
+
+        const merged = mergeRecords(existing, incoming);
+        expect(merged.provenance?.parameters).toEqual(HF);
+        expect(merged.provenance?.release_date).toEqual(HF);
+        expect(merged.provenance?.context_window).toEqual(AA);
+    });
+
+    it('should attribute combined values to the most recent contributor', () => {
+        const existing = stampProvenance(createModel({ tags: ['a'] }), HF);
+        const incoming = stampProvenance(createModel({ tags: ['b'] }), AA);
+        const merged = mergeRecords(existing, incoming);
+        expect(merged.tags).toEqual(['a', 'b']);
+        expect(merged.provenance?.tags).toEqual(AA);
+    });
+});
+
+describe('formatProvenance / stripProvenance', () => {
+    it('should flatten provenance into field=entry pairs', () => {
+        const model = stampProvenance(createModel({ name: '' }), HF);
+        expect(formatProvenance(model)).toContain('license=HuggingFace (fetcher, 2025-01-01T00:00:00.000Z)');
+    });
+
+    it('should remove provenance from a model', () => {
+        const model = stampProvenance(createModel(), HF);
+        expect(stripProvenance(model).provenance).toBeUndefined();
+        expect(stripProvenance(model).name).toBe('Test Model');
+    });
+});
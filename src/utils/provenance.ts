@@ -0,0 +1,150 @@
+import { FieldProvenance, Model, ModelProvenance, PROVENANCE_FIELDS, ProvenanceField, ProvenanceKind } from '../types';
+
+/**
+ * Origin descriptor used when stamping provenance onto a model.
+ * `fetched_at` defaults to the current time.
+ */
+export interface ProvenanceOrigin {
+    source: string;
+    kind: ProvenanceKind;
+    fetched_at?: string;
+}
+
+/**
+ * True when a field holds a meaningful value (not empty string/array/object).
+ */
+export const hasValue = (v: unknown): boolean => {
+    if (v == null || v === '') return false;
+    if (Array.isArray(v)) return v.length > 0;
+    if (typeof v === 'object') return Object.keys(v as object).length > 0;
+    return true;
+};
+
+/**
+ * Key-order-insensitive serialization so rebuilt objects (e.g. merged licenses) compare equal.
+ */
+export const canonical = (v: unknown): string => JSON.stringify(v, (_key, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+        return Object.keys(value).sort().reduce<Record<string, unknown>>((acc, k) => {
+            acc[k] = value[k];
+            return acc;
+        }, {});
+    }
+    return value;
+});
+
+/**
+ * Deep value equality that treats all empty values as equal.
+ */
+export const sameValue = (a: unknown, b: unknown): boolean => {
+    if (a === b) return true;
+    if (!hasValue(a) && !hasValue(b)) return true;
+    return canonical(a) === canonical(b);
+};
+
+const toEntry = (origin: ProvenanceOrigin): FieldProvenance => ({
+    source: origin.source,
+    kind: origin.kind,
+    fetched_at: origin.fetched_at || new Date().toISOString()
+});
+
+const newer = (a?: FieldProvenance, b?: FieldProvenance): FieldProvenance | undefined => {
+    if (!a) return b;
+    if (!b) return a;
+    return new Date(b.fetched_at) > new Date(a.fetched_at) ? b : a;
+};
+
+/**
+ * Stamps every populated field of a model with the given origin.
+ * Existing entries are kept unless `overwrite` is set, so records that already
+ * carry provenance (e.g. re-imported exports) keep their original attribution.
+ */
+export function stampProvenance(model: Model, origin: ProvenanceOrigin, overwrite = false): Model {
+    const entry = toEntry(origin);
+    const provenance: ModelProvenance = { ...(model.provenance || {}) };
+
+    for (const field of PROVENANCE_FIELDS) {
+        if (!hasValue(model[field])) continue;
+        if (!overwrite && provenance[field]) continue;
+        provenance[field] = entry;
+    }
+
+    return Object.keys(provenance).length > 0 ? { ...model, provenance } : model;
+}
+
+/**
+ * Stamps only the fields whose value differs between `before` and `after`.
+ * Used for manual edits and LLM enrichment, where untouched fields keep their
+ * original attribution.
+ */
+export function stampChangedFields(before: Model, after: Model, origin: ProvenanceOrigin): Model {
+    const entry = toEntry(origin);
+    const provenance: ModelProvenance = { ...(before.provenance || {}), ...(after.provenance || {}) };
+
+    for (const field of PROVENANCE_FIELDS) {
+        if (sameValue(before[field], after[field])) continue;
+        if (hasValue(after[field])) {
+            provenance[field] = entry;
+        } else {
+            delete provenance[field];
+        }
+    }
+
+    return { ...after, provenance: Object.keys(provenance).length > 0 ? provenance : undefined };
+}
+
+/**
+ * Resolves provenance for a merged record by attributing each field to the
+ * input whose value survived the merge. Fields assembled from both inputs
+ * (unions, sums) are attributed to the most recently fetched contributor.
+ */
+export function mergeProvenance(existing: Model, incoming: Model, merged: Model): ModelProvenance | undefined {
+    if (!existing.provenance && !incoming.provenance) return undefined;
+
+    const provenance: ModelProvenance = {};
+    for (const field of PROVENANCE_FIELDS) {
+        if (!hasValue(merged[field])) continue;
+
+        const exEntry = existing.provenance?.[field];
+        const inEntry = incoming.provenance?.[field];
+        const fromExisting = sameValue(merged[field], existing[field]);
+        const fromIncoming = sameValue(merged[field], incoming[field]);
+
+        let entry: FieldProvenance | undefined;
+        if (fromExisting && fromIncoming) entry = newer(exEntry, inEntry);
+        else if (fromExisting) entry = exEntry;
+        else if (fromIncoming) entry = inEntry;
+        else entry = newer(exEntry, inEntry);
+
+        if (entry) provenance[field] = entry;
+    }
+
+    return Object.keys(provenance).length > 0 ? provenance : undefined;
+}
+
+/**
+ * Formats a provenance entry as a compact single-line string for exports.
+ * e.g. "HuggingFace (fetcher, 2025-01-02T03:04:05.000Z)"
+ */
+export function formatProvenanceEntry(entry: FieldProvenance): string {
+    return `${entry.source} (${entry.kind}, ${entry.fetched_at})`;
+}
+
+/**
+ * Flattens a model's provenance into "field=entry" pairs joined by "; ".
+ */
+export function formatProvenance(model: Model): string {
+    if (!model.provenance) return '';
+    return (Object.entries(model.provenance) as [ProvenanceField, FieldProvenance][])
+        .map(([field, entry]) => `${field}=${formatProvenanceEntry(entry)}`)
+        .join('; ');
+}
+
+/**
+ * Returns a copy of the model without provenance data.
+ */
+export function stripProvenance(model: Model): Model {
+    if (!model.provenance) return model;
+    const { provenance: _omit, ...rest } = model;
+    return rest;
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { applyModelDelta, createModelDelta, selectSnapshotsToPrune, RetainableSnapshot } from './snapshotDelta';
+import { Model } from '../types';
+
+function createModel(overrides: Partial<Model> = {}): Model {
+    return {
+        id: 'model-1',
+        name: 'Test Model',
+        domain: 'LLM',
+        source: 'HuggingFace',
+        license: {
+            name: 'MIT',
+            type: 'OSI',
+            commercial_use: true,
+            attribution_required: false,
+            share_alike: false,
+            copyleft: false,
+        },
+        hosting: { weights_available: true, api_available: false, on_premise_friendly: true },
+        ...overrides,
+    };
+}
+
+describe('createModelDelta / applyModelDelta', () => {
+    const base = [createModel({ id: 'a' }), createModel({ id: 'b', downloads: 1 }), createModel({ id: 'c' })];
+    const target = [createModel({ id: 'a' }), createModel({ id: 'b', downloads: 2 }), createModel({ id: 'd' })];
+
+    it('should store only changed, new and removed models', () => {
+        const delta = createModelDelta(base, target);
+        expect(delta.upserted.map(m => m.id)).toEqual(['b', 'd']);
+        expect(delta.removed).toEqual(['c']);
+    });
+
+    it('should round-trip to the target', () => {
+        expect(applyModelDelta(base, createModelDelta(base, target))).toEqual(target);
+        expect(applyModelDelta(target, createModelDelta(target, base))).toEqual(base);
+    });
+});
+
+describe('selectSnapshotsToPrune', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const now = 100 * DAY;
+    const snap = (id: string, ageDays: number, mb = 1, pinned = false): RetainableSnapshot =>
+        ({ id, timestamp: now - ageDays * DAY, storedBytes: mb * 1024 * 1024, pinned });
+
+    it('should prune by count, oldest first', () => {
+        const list = [snap('a', 1), snap('b', 2), snap('c', 3)];
+        expect(selectSnapshotsToPrune(list, { maxSnapshots: 2, maxAgeDays: 0, maxSizeMB: 0 }, now)).toEqual(['c']);
+    });
+
+    it('should prune by age and size but keep pinned and newest', () => {
+        const list = [snap('stale', 40, 10), snap('newest', 35, 10), snap('small', 60, 1), snap('pinned', 80, 1, true)];
+        expect(selectSnapshotsToPrune(list, { maxSnapshots: 0, maxAgeDays: 30, maxSizeMB: 0 }, now)).toEqual(['stale', 'small']);
+        expect(selectSnapshotsToPrune(list, { maxSnapshots: 0, maxAgeDays: 0, maxSizeMB: 12 }, now)).toEqual(['stale']);
+    });
+
+    it('should treat 0 as unlimited', () => {
+        const list = [snap('a', 1), snap('b', 500, 1000)];
+        expect(selectSnapshotsToPrune(list, { maxSnapshots: 0, maxAgeDays: 0, maxSizeMB: 0 }, now)).toEqual([]);
+    });
+});
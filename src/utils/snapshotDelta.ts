@@ -0,0 +1,107 @@
+import { Model, SnapshotRetention } from '../types';
+import { sameValue } from './provenance';
+
+/**
+ * Model-level delta that turns a base set of models into a target set
+ */
+export interface ModelDelta {
+    /** Models that are new or differ from the base */
+    upserted: Model[];
+    /** Ids present in the base but not in the target */
+    removed: string[];
+}
+
+/**
+ * Snapshot fields the retention policy looks at
+ */
+export interface RetainableSnapshot {
+    id: string;
+    timestamp: number;
+    storedBytes: number;
+    pinned?: boolean;
+}
+
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = {
+    maxSnapshots: 20,
+    maxAgeDays: 90,
+    maxSizeMB: 250,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Computes the delta that turns `base` into `target`. Unchanged models are
+ * left out, so consecutive sync snapshots usually store a small fraction of
+ * the database.
+ */
+export function createModelDelta(base: Model[], target: Model[]): ModelDelta {
+    const baseById = new Map(base.map(m => [m.id, m]));
+    const targetIds = new Set<string>();
+    const upserted: Model[] = [];
+
+    for (const model of target) {
+        targetIds.add(model.id);
+        const previous = baseById.get(model.id);
+        if (!previous || !sameValue(previous, model)) upserted.push(model);
+    }
+
+    const removed = base.filter(m => !targetIds.has(m.id)).map(m => m.id);
+    return { upserted, removed };
+}
+
+/**
+ * Applies a delta to `base`. Changed models keep their position; new models
+ * are appended.
+ */
+export function applyModelDelta(base: Model[], delta: ModelDelta): Model[] {
+    const removed = new Set(delta.removed);
+    const upserts = new Map(delta.upserted.map(m => [m.id, m]));
+    const result: Model[] = [];
+
+    for (const model of base) {
+        if (removed.has(model.id)) continue;
+        const replacement = upserts.get(model.id);
+        if (replacement) upserts.delete(model.id);
+        result.push(replacement || model);
+    }
+
+    return result.concat(Array.from(upserts.values()));
+}
+
+/**
+ * Returns the ids of snapshots that fall outside the retention policy, oldest
+ * last. Pinned snapshots and the newest snapshot are always kept, but pinned
+ * snapshots still count towards the size budget.
+ */
+export function selectSnapshotsToPrune(
+    snapshots: RetainableSnapshot[],
+    retention: SnapshotRetention,
+    now = Date.now()
+): string[] {
+    const sorted = [...snapshots].sort((a, b) => b.timestamp - a.timestamp);
+    const maxBytes = retention.maxSizeMB > 0 ? retention.maxSizeMB * 1024 * 1024 : Infinity;
+    const minTimestamp = retention.maxAgeDays > 0 ? now - retention.maxAgeDays * DAY_MS : -Infinity;
+    const maxCount = retention.maxSnapshots > 0 ? retention.maxSnapshots : Infinity;
+
+    let totalBytes = sorted.filter(s => s.pinned).reduce((sum, s) => sum + s.storedBytes, 0);
+    let kept = 0;
+    const pruned: string[] = [];
+
+    sorted.forEach((snapshot, index) => {
+        if (snapshot.pinned) {
+            kept++;
+            return;
+        }
+        const withinLimits = kept < maxCount
+            && snapshot.timestamp >= minTimestamp
+            && totalBytes + snapshot.storedBytes <= maxBytes;
+        if (index === 0 || withinLimits) {
+            kept++;
+            totalBytes += snapshot.storedBytes;
+        } else {
+            pruned.push(snapshot.id);
+        }
+    });
+
+    return pruned;
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { diffSnapshots, changelogToJSON, changelogToMarkdown, formatChangeValue } from './snapshotDiff';
+import { Model } from '../types';
+
+function createModel(overrides: Partial<Model> = {}): Model {
+    return {
+        id: 'model-1',
+        name: 'Test Model',
+        domain: 'LLM',
+        source: 'HuggingFace',
+        license: {
+            name: 'MIT',
+            type: 'OSI',
+            commercial_use: true,
+            attribution_required: false,
+            share_alike: false,
+            copyleft: false,
+        },
+        hosting: { weights_available: true, api_available: false, on_premise_friendly: true },
+        ...overrides,
+    };
+}
+
+const before = [
+    createModel({ id: 'a', name: 'Alpha', parameters: '7B', pricing: [{ input: 1, output: 2, unit: '1M tokens', currency: '$' }] }),
+    createModel({ id: 'b', name: 'Beta', downloads: 10 }),
+    createModel({ id: 'c', name: 'Gamma' }),
+];
+
+const after = [
+    createModel({ id: 'a', name: 'Alpha', parameters: '8B', pricing: [{ input: 0.5, output: 2, unit: '1M tokens', currency: '$' }] }),
+    createModel({ id: 'b', name: 'Beta', downloads: 500 }),
+    createModel({ id: 'd', name: 'Delta', license: { ...createModel().license, name: 'Apache-2.0' } }),
+];
+
+describe('diffSnapshots', () => {
+    it('should report added, removed and changed models', () => {
+        const diff = diffSnapshots(before, after, { from: 'Snapshot', to: 'Current' });
+        expect(diff.added.map(m => m.id)).toEqual(['d']);
+        expect(diff.removed.map(m => m.id)).toEqual(['c']);
+        expect(diff.changed).toHaveLength(1);
+        expect(diff.changed[0].changes.map(c => c.field)).toEqual(['pricing', 'parameters']);
+        expect(diff.summary).toMatchObject({ added: 1, removed: 1, changed: 1, unchanged: 1, pricing: 1, version: 1, license: 0 });
+    });
+
+    it('should ignore download count churn', () => {
+        const diff = diffSnapshots([before[1]], [after[1]]);
+        expect(diff.changed).toHaveLength(0);
+    });
+
+    it('should flag license changes', () => {
+        const relicensed = createModel({ id: 'b', name: 'Beta', license: { ...createModel().license, name: 'CC-BY-NC-4.0', type: 'Non-Commercial', commercial_use: false } });
+        const diff = diffSnapshots([before[1]], [relicensed]);
+        expect(diff.changed[0].changes[0]).toMatchObject({ field: 'license', category: 'license' });
+        expect(diff.summary.license).toBe(1);
+    });
+});
+
+describe('changelog export', () => {
+    const diff = diffSnapshots(before, after, { from: 'Snapshot', to: 'Current' });
+
+    it('should export slim JSON', () => {
+        const json = JSON.parse(changelogToJSON(diff));
+        expect(json.added[0]).toEqual({ id: 'd', name: 'Delta', provider: null, source: 'HuggingFace', license: 'Apache-2.0', url: null });
+        expect(json.changed[0].changes[1]).toMatchObject({ field: 'parameters', before: '7B', after: '8B' });
+    });
+
+    it('should group Markdown by category', () => {
+        const md = changelogToMarkdown(diff);
+        expect(md).toContain('## Added models');
+        expect(md).toContain('## Removed models');
+        expect(md).toContain('## Price changes');
+        expect(md).toContain('| Alpha | parameters | 7B | 8B |');
+        expect(md).not.toContain('## License changes');
+    });
+
+    it('should format values compactly', () => {
+        expect(formatChangeValue('pricing', [{ input: 1, output: 2, unit: '1M tokens', currency: '$' }])).toBe('in $1 / out $2 1M tokens');
+        expect(formatChangeValue('tags', ['a', 'b'])).toBe('a, b');
+        expect(formatChangeValue('parameters', null)).toBe('—');
+    });
+});
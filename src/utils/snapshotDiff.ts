@@ -0,0 +1,227 @@
+import { Model, Pricing, PROVENANCE_FIELDS, ProvenanceField } from '../types';
+import { sameValue } from './provenance';
+
+/**
+ * Fields compared between snapshots. Download counts, analytics and images
+ * change on nearly every sync and are left out so the changelog stays readable.
+ */
+export const SNAPSHOT_DIFF_FIELDS: ProvenanceField[] = PROVENANCE_FIELDS.filter(
+    f => f !== 'downloads' && f !== 'analytics' && f !== 'images'
+);
+
+/**
+ * Report categories a field change is grouped under
+ */
+export type ChangeCategory = 'license' | 'pricing' | 'version' | 'other';
+
+const CATEGORY_BY_FIELD: Partial<Record<ProvenanceField, ChangeCategory>> = {
+    license: 'license',
+    pricing: 'pricing',
+    release_date: 'version',
+    updated_at: 'version',
+    parameters: 'version',
+    context_window: 'version',
+};
+
+export const categoryOf = (field: ProvenanceField): ChangeCategory => CATEGORY_BY_FIELD[field] || 'other';
+
+/**
+ * A single field that differs between two versions of a model
+ */
+export interface FieldChange {
+    field: ProvenanceField;
+    category: ChangeCategory;
+    before: unknown;
+    after: unknown;
+}
+
+/**
+ * A model present in both snapshots with at least one changed field
+ */
+export interface ModelChange {
+    id: string;
+    name: string;
+    changes: FieldChange[];
+}
+
+/**
+ * Everything that changed between two sets of models
+ */
+export interface SnapshotDiff {
+    /** Label of the older side, e.g. the snapshot description */
+    from: string;
+    /** Label of the newer side, e.g. "Current database" */
+    to: string;
+    generated_at: string;
+    added: Model[];
+    removed: Model[];
+    changed: ModelChange[];
+    summary: {
+        added: number;
+        removed: number;
+        changed: number;
+        unchanged: number;
+    } & Record<ChangeCategory, number>;
+}
+
+export interface DiffOptions {
+    from?: string;
+    to?: string;
+    fields?: ProvenanceField[];
+}
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+/**
+ * Compares two sets of models by id. Models only in `after` are added, models
+ * only in `before` are removed, and models in both are compared field by field.
+ */
+export function diffSnapshots(before: Model[], after: Model[], options: DiffOptions = {}): SnapshotDiff {
+    const fields = options.fields || SNAPSHOT_DIFF_FIELDS;
+    const beforeById = new Map(before.map(m => [m.id, m]));
+    const afterIds = new Set(after.map(m => m.id));
+
+    const added: Model[] = [];
+    const changed: ModelChange[] = [];
+    const categories: Record<ChangeCategory, number> = { license: 0, pricing: 0, version: 0, other: 0 };
+    let unchanged = 0;
+
+    for (const model of after) {
+        const previous = beforeById.get(model.id);
+        if (!previous) {
+            added.push(model);
+            continue;
+        }
+
+        const changes: FieldChange[] = [];
+        for (const field of fields) {
+            if (sameValue(previous[field], model[field])) continue;
+            changes.push({ field, category: categoryOf(field), before: previous[field] ?? null, after: model[field] ?? null });
+        }
+
+        if (changes.length === 0) {
+            unchanged++;
+            continue;
+        }
+        // Count each category once per model so the summary reads "N models had a license change"
+        new Set(changes.map(c => c.category)).forEach(c => categories[c]++);
+        changed.push({ id: model.id, name: model.name, changes });
+    }
+
+    const removed = before.filter(m => !afterIds.has(m.id));
+
+    return {
+        from: options.from || 'before',
+        to: options.to || 'after',
+        generated_at: new Date().toISOString(),
+        added: added.sort(byName),
+        removed: removed.sort(byName),
+        changed: changed.sort(byName),
+        summary: { added: added.length, removed: removed.length, changed: changed.length, unchanged, ...categories },
+    };
+}
+
+const formatPricing = (p: Pricing): string => {
+    const currency = p.currency || '';
+    const parts: string[] = [];
+    if (p.input != null) parts.push(`in ${currency}${p.input}`);
+    if (p.output != null) parts.push(`out ${currency}${p.output}`);
+    if (p.flat != null) parts.push(`flat ${currency}${p.flat}`);
+    const unit = p.unit ? ` ${p.unit}` : '';
+    return `${p.model ? `${p.model}: ` : ''}${parts.join(' / ') || 'n/a'}${unit}`;
+};
+
+/**
+ * Renders a field value as a short single-line string for reports.
+ */
+export function formatChangeValue(field: ProvenanceField, value: unknown): string {
+    if (value === null || value === undefined || value === '') return '—';
+    if (field === 'license' && typeof value === 'object') return (value as { name?: string }).name || '—';
+    if (field === 'pricing' && Array.isArray(value)) {
+        return value.length ? (value as Pricing[]).map(formatPricing).join('; ') : '—';
+    }
+    if (Array.isArray(value)) {
+        if (value.length === 0) return '—';
+        return value.map(v => (typeof v === 'object' && v !== null ? (v as { name?: string }).name || JSON.stringify(v) : String(v))).join(', ');
+    }
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+}
+
+const slimModel = (m: Model) => ({
+    id: m.id,
+    name: m.name,
+    provider: m.provider ?? null,
+    source: m.source,
+    license: m.license?.name ?? null,
+    url: m.url ?? null,
+});
+
+/**
+ * Machine-readable changelog. Added/removed models are reduced to identifying
+ * fields; changed models carry raw before/after values.
+ */
+export function changelogToJSON(diff: SnapshotDiff): string {
+    return JSON.stringify({
+        from: diff.from,
+        to: diff.to,
+        generated_at: diff.generated_at,
+        summary: diff.summary,
+        added: diff.added.map(slimModel),
+        removed: diff.removed.map(slimModel),
+        changed: diff.changed,
+    }, null, 2);
+}
+
+const escapeCell = (s: string) => s.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+const CATEGORY_TITLES: Record<ChangeCategory, string> = {
+    license: 'License changes',
+    pricing: 'Price changes',
+    version: 'Version changes',
+    other: 'Other changes',
+};
+
+/**
+ * Markdown changelog grouped by change category, suitable for a weekly report.
+ */
+export function changelogToMarkdown(diff: SnapshotDiff): string {
+    const { summary } = diff;
+    const lines: string[] = [
+        `# Model changelog`,
+        '',
+        `Comparing **${diff.from}** → **${diff.to}** (generated ${diff.generated_at})`,
+        '',
+        `- Added: ${summary.added}`,
+        `- Removed: ${summary.removed}`,
+        `- Changed: ${summary.changed} (license ${summary.license}, pricing ${summary.pricing}, version ${summary.version}, other ${summary.other})`,
+        '',
+    ];
+
+    const modelList = (title: string, models: Model[]) => {
+        if (models.length === 0) return;
+        lines.push(`## ${title}`, '');
+        for (const m of models) {
+            const meta = [m.provider, m.license?.name].filter(Boolean).join(', ');
+            lines.push(`- ${m.url ? `[${m.name}](${m.url})` : m.name}${meta ? ` (${meta})` : ''}`);
+        }
+        lines.push('');
+    };
+
+    modelList('Added models', diff.added);
+    modelList('Removed models', diff.removed);
+
+    for (const category of Object.keys(CATEGORY_TITLES) as ChangeCategory[]) {
+        const rows = diff.changed.flatMap(mc =>
+            mc.changes.filter(c => c.category === category).map(c => ({ name: mc.name, change: c }))
+        );
+        if (rows.length === 0) continue;
+        lines.push(`## ${CATEGORY_TITLES[category]}`, '', '| Model | Field | Before | After |', '|---|---|---|---|');
+        for (const { name, change } of rows) {
+            lines.push(`| ${escapeCell(name)} | ${change.field} | ${escapeCell(formatChangeValue(change.field, change.before))} | ${escapeCell(formatChangeValue(change.field, change.after))} |`);
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
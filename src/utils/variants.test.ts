@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { parseByteSize, parseContextLength, parseVariantTag, fitsInMemory, formatByteSize } from './variants';
+import { Model } from '../types';
+
+describe('parseVariantTag', () => {
+    it('should read parameter size and quantization from tag names', () => {
+        expect(parseVariantTag('llama3:8b-instruct-q4_K_M')).toEqual({ quantization: 'Q4_K_M', parameters: '8B' });
+        expect(parseVariantTag('mixtral:8x7b-instruct-v0.1-fp16')).toEqual({ quantization: 'F16', parameters: '8X7B' });
+        expect(parseVariantTag('qwen2.5:0.5b')).toEqual({ quantization: null, parameters: '0.5B' });
+        expect(parseVariantTag('llama3:latest')).toEqual({ quantization: null, parameters: null });
+    });
+});
+
+describe('parseByteSize / parseContextLength', () => {
+    it('should parse Ollama size and context strings', () => {
+        expect(parseByteSize('4.9GB')).toBe(4_900_000_000);
+        expect(parseByteSize('274 MB')).toBe(274_000_000);
+        expect(parseByteSize('-')).toBeNull();
+        expect(parseContextLength('128K')).toBe(131072);
+        expect(parseContextLength('8192')).toBe(8192);
+        expect(parseContextLength('')).toBeNull();
+    });
+});
+
+describe('fitsInMemory', () => {
+    const model = (sizes: Array<number | null>): Model => ({
+        id: 'm',
+        name: 'm',
+        domain: 'LLM',
+        source: 'Ollama Library',
+        license: { name: 'MIT', type: 'OSI', commercial_use: true, attribution_required: false, share_alike: false, copyleft: false },
+        hosting: { weights_available: true, api_available: false, on_premise_friendly: true },
+        variants: sizes.map((size_bytes, i) => ({ name: `m:${i}`, size_bytes }))
+    });
+
+    it('should match when the smallest variant fits', () => {
+        expect(fitsInMemory(model([40e9, 4.9e9]), 8)).toBe(true);
+        expect(fitsInMemory(model([40e9, 9e9]), 8)).toBe(false);
+        expect(fitsInMemory(model([null]), 8)).toBe(false);
+    });
+});
+
+describe('formatByteSize', () => {
+    it('should format decimal units', () => {
+        expect(formatByteSize(4_900_000_000)).toBe('4.9 GB');
+        expect(formatByteSize(274_000_000)).toBe('274 MB');
+        expect(formatByteSize(null)).toBe('—');
+    });
+});
@@ -0,0 +1,70 @@
+import { Model, ModelVariant } from '../types';
+
+const UNITS: Record<string, number> = { B: 1, KB: 1e3, MB: 1e6, GB: 1e9, TB: 1e12 };
+
+/**
+ * Parses a download size such as "4.9GB" or "274 MB" into bytes.
+ * Ollama reports decimal units.
+ */
+export function parseByteSize(value?: string | null): number | null {
+    const match = value?.trim().match(/^([\d.]+)\s*([KMGT]?B)$/i);
+    if (!match) return null;
+    const bytes = parseFloat(match[1]) * UNITS[match[2].toUpperCase()];
+    return Number.isFinite(bytes) ? Math.round(bytes) : null;
+}
+
+/**
+ * Parses a context length such as "128K", "1M" or "8192" into tokens.
+ * K means 1,024 tokens, the way model cards and Ollama use it.
+ */
+export function parseContextLength(value?: string | null): number | null {
+    const match = value?.trim().match(/^([\d.]+)\s*([KM]?)$/i);
+    if (!match) return null;
+    const scale = match[2].toUpperCase() === 'M' ? 1024 * 1024 : match[2] ? 1024 : 1;
+    const tokens = Math.round(parseFloat(match[1]) * scale);
+    return Number.isFinite(tokens) && tokens > 0 ? tokens : null;
+}
+
+const QUANT_PATTERN = /(?:^|[-_.])((?:i?q\d(?:_[a-z0-9]+)*)|f16|fp16|bf16|f32|fp32|fp8|mxfp4|int4|int8)(?=$|[-.])/i;
+const PARAMS_PATTERN = /(?:^|[-_])(\d+(?:\.\d+)?(?:x\d+(?:\.\d+)?)?[bmk])(?=$|[-_])/i;
+
+/**
+ * Reads the parameter size and quantization encoded in a tag such as
+ * "8b-instruct-q4_K_M" or "70b-fp16".
+ */
+export function parseVariantTag(tag: string): Pick<ModelVariant, 'quantization' | 'parameters'> {
+    const name = tag.includes(':') ? tag.slice(tag.indexOf(':') + 1) : tag;
+    const quant = name.match(QUANT_PATTERN)?.[1];
+    const params = name.match(PARAMS_PATTERN)?.[1];
+    return {
+        quantization: quant ? quant.toUpperCase().replace(/^FP(16|32)$/, 'F$1') : null,
+        parameters: params ? params.toUpperCase() : null
+    };
+}
+
+/**
+ * Smallest known download size across a model's variants, in bytes
+ */
+export function smallestVariantBytes(model: Model): number | null {
+    const sizes = (model.variants || []).map(v => v.size_bytes).filter((n): n is number => typeof n === 'number' && n > 0);
+    return sizes.length ? Math.min(...sizes) : null;
+}
+
+/**
+ * True when at least one variant downloads in `gb` gigabytes or less.
+ * Models without size information never match.
+ */
+export function fitsInMemory(model: Model, gb: number): boolean {
+    const smallest = smallestVariantBytes(model);
+    return smallest !== null && smallest <= gb * UNITS.GB;
+}
+
+/**
+ * Formats a byte count the way Ollama shows it ("4.9 GB", "274 MB")
+ */
+export function formatByteSize(bytes?: number | null): string {
+    if (!bytes || bytes <= 0) return '—';
+    const unit = bytes >= UNITS.TB ? 'TB' : bytes >= UNITS.GB ? 'GB' : bytes >= UNITS.MB ? 'MB' : 'KB';
+    const value = bytes / UNITS[unit];
+    return `${value >= 100 ? Math.round(value) : Number(value.toFixed(1))} ${unit}`;
+}
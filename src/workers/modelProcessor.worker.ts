@@ -1,11 +1,11 @@
 import { performMergeBatch } from '../utils/mergeLogic';
-import { Model } from '../types';
+import { DuplicateDecision, IdentityAlias, MergePolicies, Model } from '../types';
 
 /* eslint-disable no-restricted-globals */
 const ctx: Worker = self as any;
 
 type WorkerMessage =
-    | { type: 'MERGE_MODELS'; payload: { currentModels: Model[]; newModels: Model[]; autoMergeDuplicates: boolean } }
+    | { type: 'MERGE_MODELS'; payload: { currentModels: Model[]; newModels: Model[]; autoMergeDuplicates: boolean; mergePolicies?: MergePolicies; duplicateDecisions?: DuplicateDecision[]; identityAliases?: IdentityAlias[] } }
     | { type: 'PING' };
 
 ctx.addEventListener('message', (event) => {
@@ -13,8 +13,8 @@ ctx.addEventListener('message', (event) => {
 
     try {
         if (msg.type === 'MERGE_MODELS') {
-            const { currentModels, newModels, autoMergeDuplicates } = msg.payload;
-            const result = performMergeBatch(currentModels, newModels, autoMergeDuplicates);
+            const { currentModels, newModels, autoMergeDuplicates, mergePolicies, duplicateDecisions, identityAliases } = msg.payload;
+            const result = performMergeBatch(currentModels, newModels, autoMergeDuplicates, mergePolicies, duplicateDecisions, identityAliases);
             ctx.postMessage({ type: 'MERGE_COMPLETE', payload: result });
         } else if (msg.type === 'PING') {
             ctx.postMessage({ type: 'PONG' });
@@ -0,0 +1,40 @@
+import { defineConfig, Plugin } from 'vite'
+import path from 'path'
+
+// Headless (Node) build of src/headless for the Express API server and CLI.
+// IndexedDB does not exist in Node, so the storage module is pointed at the
+// file-backed implementation with the same exports.
+const storageDir = path.resolve(__dirname, 'src/services/storage')
+
+const fileStorage = (): Plugin => ({
+  name: 'headless-file-storage',
+  enforce: 'pre',
+  resolveId(source, importer) {
+    if (source === './indexedDBStorage' && importer && path.dirname(importer) === storageDir && !importer.endsWith('fileStorage.ts')) {
+      return path.join(storageDir, 'fileStorage.ts')
+    }
+    return null
+  },
+})
+
+export default defineConfig({
+  plugins: [fileStorage()],
+  publicDir: false,
+  // Node has no CORS, so fetchers always call upstream URLs rather than dev-proxy paths
+  define: {
+    'import.meta.env.VITE_USE_PROXY': JSON.stringify('false'),
+  },
+  esbuild: {
+    logOverride: { 'this-is-undefined-in-esm': 'silent' }
+  },
+  build: {
+    ssr: 'src/headless/index.ts',
+    outDir: 'dist-server',
+    emptyOutDir: true,
+    target: 'node20',
+    sourcemap: true,
+    rollupOptions: {
+      output: { entryFileNames: 'index.mjs' },
+    },
+  },
+})